@@ -1,7 +1,15 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { randomUUID } from 'crypto';
 import { query } from '../lib/database';
 import { get, set } from '../lib/redis';
 import { UniversalEdgarEngine } from '../lib/universal/universal-edgar-engine';
+import { getCompanyDirectory } from '../lib/company-directory';
+import {
+  ConversationTurn,
+  MAX_CONVERSATION_TURNS,
+  createConversationTurn,
+  turnsFromQueries
+} from '../lib/conversation-context';
 
 // Load environment variables for Vercel (always try to load .env.local)
 try {
@@ -35,28 +43,32 @@ async function rateLimit(ip: string, maxRequests = 10, windowMs = 60000): Promis
   }
 }
 
+const SESSION_TTL_SECONDS = 1800;
+
+// Conversation turns for a session, falling back to the client's previousQueries
+async function loadSessionTurns(sessionId: string, previousQueries?: string[]): Promise<ConversationTurn[]> {
+  const stored = await get(`session:${sessionId}`);
+  if (stored) {
+    return (typeof stored === 'string' ? JSON.parse(stored) : stored) as ConversationTurn[];
+  }
+  return Array.isArray(previousQueries) ? turnsFromQueries(previousQueries) : [];
+}
+
+async function saveSessionTurns(sessionId: string, turns: ConversationTurn[]): Promise<void> {
+  await set(`session:${sessionId}`, turns.slice(-MAX_CONVERSATION_TURNS), SESSION_TTL_SECONDS);
+}
+
 // Simple, direct query handler for basic requests
 async function handleSimpleQuery(queryText: string): Promise<any> {
   const lowerQuery = queryText.toLowerCase();
   
-  // Extract company name
-  let companyName = '';
-  const companyPatterns = [
-    { pattern: /\btesla\b/gi, name: 'Tesla', ticker: 'TSLA', cik: '0001318605' },
-    { pattern: /\bapple\b/gi, name: 'Apple', ticker: 'AAPL', cik: '0000320193' },
-    { pattern: /\bmicrosoft\b/gi, name: 'Microsoft', ticker: 'MSFT', cik: '0000789019' },
-    { pattern: /\bgoogle\b|alphabet/gi, name: 'Alphabet', ticker: 'GOOGL', cik: '0001652044' },
-    { pattern: /\bamazon\b/gi, name: 'Amazon', ticker: 'AMZN', cik: '0001018724' },
-    { pattern: /\bmeta\b|facebook/gi, name: 'Meta', ticker: 'META', cik: '0001326801' }
-  ];
-  
-  let company = null;
-  for (const pattern of companyPatterns) {
-    if (pattern.pattern.test(queryText)) {
-      company = pattern;
-      break;
-    }
-  }
+  // Extract company name; a cold start downloads the current SEC list first
+  const directory = getCompanyDirectory();
+  await directory.ensureFresh();
+  const match = directory.findInText(queryText)[0];
+  const company = match
+    ? { name: match.company.name, ticker: match.company.tickers[0], cik: match.company.cik }
+    : null;
   
   if (!company) {
     return null; // Can't handle without a recognized company
@@ -66,7 +78,7 @@ async function handleSimpleQuery(queryText: string): Promise<any> {
   if (/filing|10-k|10-q|8-k|document/i.test(queryText)) {
     try {
       // Import the SEC functions
-      const { getRecentFilings } = await import('../lib/sec-edgar-live');
+      const { getRecentFilings, getFilingIndex } = await import('../lib/sec-edgar-live');
       
       // Extract number if specified
       const numberMatch = queryText.match(/(\d+)/);
@@ -85,13 +97,8 @@ async function handleSimpleQuery(queryText: string): Promise<any> {
             day: 'numeric'
           });
           
-          // Generate direct SEC EDGAR URL
-          const paddedCik = company.cik.padStart(10, '0');
-          const cleanAccession = filing.accessionNumber.replace(/-/g, '');
-          const filingUrl = `https://www.sec.gov/Archives/edgar/data/${paddedCik}/${cleanAccession}/${filing.primaryDocument}`;
-          
           narrative += `${index + 1}. **${filing.form}** - Filed on ${filingDate}\n`;
-          narrative += `   📄 **[View Filing](${filingUrl})**\n`;
+          narrative += `   📄 **[View Filing](${filing.url})** · [All Documents & Exhibits](${filing.indexUrl})\n`;
           narrative += `   Accession Number: ${filing.accessionNumber}\n`;
           if (filing.primaryDocument) {
             narrative += `   Document: ${filing.primaryDocument}\n`;
@@ -101,11 +108,20 @@ async function handleSimpleQuery(queryText: string): Promise<any> {
         
         narrative += `🔗 **[Browse All ${company.name} Filings](https://www.sec.gov/edgar/browse/?CIK=${company.cik.padStart(10, '0')}&owner=exclude)**`;
         
-        // Also add URLs to the filings data
-        const filingsWithUrls = filings.slice(0, count).map(filing => ({
-          ...filing,
-          url: `https://www.sec.gov/Archives/edgar/data/${company.cik.padStart(10, '0')}/${filing.accessionNumber.replace(/-/g, '')}/${filing.primaryDocument}`
-        }));
+        // Resolve each filing's documents so exhibits are addressable alongside the primary document
+        const filingsWithUrls: any[] = [];
+        for (const filing of filings.slice(0, count)) {
+          try {
+            const index = await getFilingIndex(company.cik, filing.accessionNumber, filing.primaryDocument);
+            filingsWithUrls.push({
+              ...filing,
+              documents: index.documents.map(doc => ({ name: doc.name, type: doc.type, description: doc.description, size: doc.size, url: doc.url })),
+              exhibits: index.exhibits.map(doc => ({ type: doc.type, description: doc.description, url: doc.url }))
+            });
+          } catch (error) {
+            filingsWithUrls.push(filing);
+          }
+        }
         
         return {
           type: 'filing_list',
@@ -151,7 +167,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   try {
-    const { query: queryText } = req.body;
+    const { query: queryText, context = {} } = req.body;
 
     if (!queryText || typeof queryText !== 'string') {
       return res.status(400).json({
@@ -161,6 +177,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
 
     const startTime = Date.now();
+    const sessionId: string = context.sessionId || randomUUID();
+    const previousTurns = await loadSessionTurns(sessionId, context.previousQueries);
 
     // Initialize Universal EDGAR Engine
     console.log('=== UNIVERSAL EDGAR ENGINE ===');
@@ -186,7 +204,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     console.log('=== Calling Universal EDGAR Engine ===');
     let universalAnswer;
     try {
-      universalAnswer = await universalEngine.processQuery(queryText);
+      universalAnswer = await universalEngine.processQuery(queryText, previousTurns);
       console.log('=== Universal Engine Success ===');
       console.log('Confidence:', universalAnswer.assessment.confidence);
       console.log('Processing Time:', universalAnswer.metadata.processingTimeMs);
@@ -234,6 +252,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       };
     }
 
+    // Remember what this turn was about so the next question can refer back to it
+    const conversation = universalAnswer.metadata.conversation;
+    const resolvedQuery = conversation?.resolvedQuery || queryText;
+    await saveSessionTurns(sessionId, [...previousTurns, createConversationTurn(queryText, conversation)]);
+
     // Check if we got a meaningful response or should fall back to simple approach
     const isSuccessfulResponse = universalAnswer.assessment.confidence > 0.5 && 
                                   universalAnswer.narrative.length > 100 &&
@@ -244,7 +267,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       console.log('Universal Engine failed, trying simple fallback for:', queryText);
       // Try simple, direct approach for basic queries
       try {
-        const simpleResult = await handleSimpleQuery(queryText);
+        const simpleResult = await handleSimpleQuery(resolvedQuery);
         if (simpleResult) {
           return res.status(200).json({
             success: true,
@@ -252,7 +275,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
               queryId: `simple_${Date.now()}`,
               status: 'completed',
               query: queryText,
-              results: simpleResult
+              resolvedQuery: conversation?.resolvedQuery,
+              results: simpleResult,
+              context: { ...context, sessionId }
             }
           });
         }
@@ -267,6 +292,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         queryId: universalAnswer.metadata.queryId,
         status: isSuccessfulResponse ? 'completed' : 'failed',
         query: queryText,
+        resolvedQuery: conversation?.resolvedQuery,
+        context: { ...context, sessionId },
         answer: universalAnswer,
         // Legacy format for backward compatibility
         results: {
@@ -1,3 +1,4 @@
+import * as path from 'path';
 import { DataSource } from 'typeorm';
 import { Company } from '../models/Company';
 import { Filing } from '../models/Filing';
@@ -5,6 +6,10 @@ import { FinancialData } from '../models/FinancialData';
 import { User } from '../models/User';
 import { QueryHistory } from '../models/QueryHistory';
 import { SavedQuery } from '../models/SavedQuery';
+import { ApiKey } from '../models/ApiKey';
+import { RefreshToken } from '../models/RefreshToken';
+import { Watchlist } from '../models/Watchlist';
+import { FilingAlert } from '../models/FilingAlert';
 
 export const AppDataSource = new DataSource({
   type: 'postgres',
@@ -15,8 +20,10 @@ export const AppDataSource = new DataSource({
   database: process.env.DB_NAME || 'edgar_db',
   synchronize: process.env.NODE_ENV === 'development',
   logging: process.env.NODE_ENV === 'development',
-  entities: [Company, Filing, FinancialData, User, QueryHistory, SavedQuery],
-  migrations: ['src/database/migrations/*.ts'],
+  entities: [Company, Filing, FinancialData, User, QueryHistory, SavedQuery, ApiKey, RefreshToken, Watchlist, FilingAlert],
+  migrations: [path.join(__dirname, 'migrations', '*.{ts,js}')],
+  // Production schema changes come from migrations; see `npm run migration:run`
+  migrationsRun: process.env.DB_RUN_MIGRATIONS === 'true',
   subscribers: ['src/database/subscribers/*.ts'],
   ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
 });
\ No newline at end of file
@@ -0,0 +1,127 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+// Schema as first shipped. Tables are created only when missing, so databases
+// built by `synchronize` in development can adopt migrations from here.
+export class InitialSchema1700000000000 implements MigrationInterface {
+  name = 'InitialSchema1700000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE EXTENSION IF NOT EXISTS "uuid-ossp"`);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "companies" (
+        "cik" character varying(10) NOT NULL,
+        "name" character varying(255) NOT NULL,
+        "ticker" character varying(10),
+        "sic" character varying(4),
+        "industry" character varying(255),
+        "sector" character varying(100),
+        "exchange" character varying(50),
+        "employees" integer,
+        "founded" date,
+        "description" text,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_c162238e3b12a4f40fff6c2d5c7" PRIMARY KEY ("cik")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "filings" (
+        "accession_number" character varying(20) NOT NULL,
+        "cik" character varying(10) NOT NULL,
+        "form_type" character varying(10) NOT NULL,
+        "filing_date" date NOT NULL,
+        "period_end_date" date,
+        "document_count" integer,
+        "file_size" bigint,
+        "document_url" text,
+        "xbrl_available" boolean NOT NULL DEFAULT false,
+        "processed" boolean NOT NULL DEFAULT false,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_62c3e0c495e1155f2d8db6fbd3a" PRIMARY KEY ("accession_number"),
+        CONSTRAINT "FK_69564c6b53b4416e34e03578395" FOREIGN KEY ("cik") REFERENCES "companies"("cik")
+      )
+    `);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_661e08a29937e2acbde6e6b95e" ON "filings" ("cik", "filing_date")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_967968fbd1d3b16848006ca043" ON "filings" ("form_type")`);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "financial_data" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "accession_number" character varying(20) NOT NULL,
+        "cik" character varying(10) NOT NULL,
+        "concept" character varying(100) NOT NULL,
+        "value" numeric(20,2),
+        "unit" character varying(20),
+        "period_start" date,
+        "period_end" date,
+        "period_end_date" date,
+        "instant_date" date,
+        "form_type" character varying(10),
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_7a5f2ef805ad2b4570625f5764c" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_75fbefa7b60068fdcbff77966d2" FOREIGN KEY ("cik") REFERENCES "companies"("cik"),
+        CONSTRAINT "FK_025334d7e3c18f72ec1e3d9a3cd" FOREIGN KEY ("accession_number") REFERENCES "filings"("accession_number")
+      )
+    `);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_4bbaba55ab52917cba4b815db6" ON "financial_data" ("cik", "concept")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_55af5f0d58ba7797dea7d50f16" ON "financial_data" ("period_end_date")`);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "users" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "email" character varying(255) NOT NULL,
+        "password_hash" character varying(255) NOT NULL,
+        "name" character varying(255),
+        "preferences" jsonb,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "UQ_97672ac88f789774dd47f7c8be3" UNIQUE ("email"),
+        CONSTRAINT "PK_a3ffb1c0c8416b9fc6f907b7433" PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(`CREATE UNIQUE INDEX IF NOT EXISTS "IDX_97672ac88f789774dd47f7c8be" ON "users" ("email")`);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "query_history" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid,
+        "query" text NOT NULL,
+        "parsed_query" jsonb,
+        "results" jsonb,
+        "execution_time" integer,
+        "status" character varying(20) NOT NULL DEFAULT 'pending',
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_d14e08569f855cccc762004f7d1" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_877af07f41de5fe0f4925a0018f" FOREIGN KEY ("user_id") REFERENCES "users"("id")
+      )
+    `);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_877af07f41de5fe0f4925a0018" ON "query_history" ("user_id")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_53b987703cce66a8a7285f993b" ON "query_history" ("created_at")`);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "saved_queries" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "name" character varying(255) NOT NULL,
+        "query" text NOT NULL,
+        "filters" jsonb,
+        "schedule" jsonb,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_30a42048a43defe51aacf9e3328" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_ba5ed69a5d2babfce1c7d0d6020" FOREIGN KEY ("user_id") REFERENCES "users"("id")
+      )
+    `);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_ba5ed69a5d2babfce1c7d0d602" ON "saved_queries" ("user_id")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "saved_queries"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "query_history"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "users"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "financial_data"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "filings"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "companies"`);
+  }
+}
@@ -0,0 +1,22 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+// Fiscal period and filing metadata stored by the ingestion pipeline
+export class FilingIngestionColumns1760000000000 implements MigrationInterface {
+  name = 'FilingIngestionColumns1760000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "filings" ADD COLUMN IF NOT EXISTS "processed_at" TIMESTAMP`);
+    await queryRunner.query(`ALTER TABLE "financial_data" ADD COLUMN IF NOT EXISTS "fiscal_year" integer`);
+    await queryRunner.query(`ALTER TABLE "financial_data" ADD COLUMN IF NOT EXISTS "fiscal_period" character varying(2)`);
+    await queryRunner.query(`ALTER TABLE "financial_data" ADD COLUMN IF NOT EXISTS "filed_date" date`);
+    await queryRunner.query(`ALTER TABLE "financial_data" ADD COLUMN IF NOT EXISTS "frame" character varying(20)`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "financial_data" DROP COLUMN IF EXISTS "frame"`);
+    await queryRunner.query(`ALTER TABLE "financial_data" DROP COLUMN IF EXISTS "filed_date"`);
+    await queryRunner.query(`ALTER TABLE "financial_data" DROP COLUMN IF EXISTS "fiscal_period"`);
+    await queryRunner.query(`ALTER TABLE "financial_data" DROP COLUMN IF EXISTS "fiscal_year"`);
+    await queryRunner.query(`ALTER TABLE "filings" DROP COLUMN IF EXISTS "processed_at"`);
+  }
+}
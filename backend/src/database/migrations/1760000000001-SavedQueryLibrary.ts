@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+// Shared saved queries (null user_id), descriptions and run tracking
+export class SavedQueryLibrary1760000000001 implements MigrationInterface {
+  name = 'SavedQueryLibrary1760000000001';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "saved_queries" ALTER COLUMN "user_id" DROP NOT NULL`);
+    await queryRunner.query(`ALTER TABLE "saved_queries" ADD COLUMN IF NOT EXISTS "description" text`);
+    await queryRunner.query(`ALTER TABLE "saved_queries" ADD COLUMN IF NOT EXISTS "last_run_at" TIMESTAMP`);
+    await queryRunner.query(`ALTER TABLE "saved_queries" ADD COLUMN IF NOT EXISTS "updated_at" TIMESTAMP NOT NULL DEFAULT now()`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "saved_queries" DROP COLUMN IF EXISTS "updated_at"`);
+    await queryRunner.query(`ALTER TABLE "saved_queries" DROP COLUMN IF EXISTS "last_run_at"`);
+    await queryRunner.query(`ALTER TABLE "saved_queries" DROP COLUMN IF EXISTS "description"`);
+    // Fails while shared queries exist; delete or assign them first
+    await queryRunner.query(`ALTER TABLE "saved_queries" ALTER COLUMN "user_id" SET NOT NULL`);
+  }
+}
@@ -0,0 +1,54 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+// Watchlists and the filing alerts raised when a watched company files
+export class Watchlists1760000000003 implements MigrationInterface {
+  name = 'Watchlists1760000000003';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "watchlists" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "name" character varying(255) NOT NULL,
+        "ciks" jsonb NOT NULL,
+        "forms" jsonb NOT NULL DEFAULT '[]',
+        "webhook_url" character varying(2048),
+        "active" boolean NOT NULL DEFAULT true,
+        "seen_accessions" jsonb NOT NULL DEFAULT '{}',
+        "last_polled_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_aa3c717b50a10f7a435c65eda5a" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_3e8bccad3dcd75fa977892c54bb" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_3e8bccad3dcd75fa977892c54b" ON "watchlists" ("user_id")`);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "filing_alerts" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "watchlist_id" uuid NOT NULL,
+        "user_id" uuid NOT NULL,
+        "cik" character varying(10) NOT NULL,
+        "company_name" character varying(255),
+        "form" character varying(20) NOT NULL,
+        "accession_number" character varying(20) NOT NULL,
+        "filing_date" date,
+        "url" character varying(2048),
+        "delivery_status" character varying(16) NOT NULL,
+        "delivery_error" text,
+        "read_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_2a7376d7ec5c60d07ea42991074" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_952379ad1d7f57a921c0a55a70f" FOREIGN KEY ("watchlist_id") REFERENCES "watchlists"("id") ON DELETE CASCADE
+      )
+    `);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_84d942a56fbc90941d7fe047e1" ON "filing_alerts" ("user_id", "created_at")`);
+    await queryRunner.query(`CREATE UNIQUE INDEX IF NOT EXISTS "IDX_f720bf67f277670a32c3decceb" ON "filing_alerts" ("watchlist_id", "accession_number")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "filing_alerts"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "watchlists"`);
+  }
+}
@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+// User roles and the creator of each saved query, so shared queries can only be
+// changed by whoever shared them or an admin
+export class SharedQueryOwnership1760000000004 implements MigrationInterface {
+  name = 'SharedQueryOwnership1760000000004';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "role" character varying(20) NOT NULL DEFAULT 'user'`);
+    await queryRunner.query(`ALTER TABLE "saved_queries" ADD COLUMN IF NOT EXISTS "created_by" uuid`);
+    // The creator of an already-shared query is unknown; only admins can change those
+    await queryRunner.query(`UPDATE "saved_queries" SET "created_by" = "user_id" WHERE "created_by" IS NULL AND "user_id" IS NOT NULL`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "saved_queries" DROP COLUMN IF EXISTS "created_by"`);
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN IF EXISTS "role"`);
+  }
+}
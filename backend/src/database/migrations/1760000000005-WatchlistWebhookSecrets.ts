@@ -0,0 +1,16 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+// A signing secret per watchlist, replacing the server-wide one that let any
+// subscriber forge alerts to every other subscriber. Existing watchlists get
+// none: their webhooks stay undelivered until the secret is rotated.
+export class WatchlistWebhookSecrets1760000000005 implements MigrationInterface {
+  name = 'WatchlistWebhookSecrets1760000000005';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "watchlists" ADD COLUMN IF NOT EXISTS "webhook_secret" character varying(64)`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "watchlists" DROP COLUMN IF EXISTS "webhook_secret"`);
+  }
+}
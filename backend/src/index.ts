@@ -18,6 +18,10 @@ app.use(morgan('combined'));
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true }));
 
+// Identify the caller from a Bearer token or X-API-Key; anonymous requests pass through
+import { authenticate, queryContextFor } from './middleware/auth';
+app.use(authenticate);
+
 // Health check endpoint
 app.get('/health', (req, res) => {
   res.json({ 
@@ -37,13 +41,52 @@ app.get('/api/v1/test', (req, res) => {
   });
 });
 
+// Accounts, token refresh and API keys
+import authRoutes from './routes/auth-routes';
+app.use('/api/v1/auth', authRoutes);
+
 // Import and use MCP routes
 import mcpRoutes from './routes/mcp-routes';
 app.use('/api/v1/mcp', mcpRoutes);
 
-// Enhanced query endpoint using Universal EDGAR Engine with MCP
-app.post('/api/v1/queries', async (req, res) => {
-  const { query } = req.body;
+// Filing indexes, documents and local full-text search
+import filingRoutes from './routes/filing-routes';
+app.use('/api/v1/filings', filingRoutes);
+
+// Company data, served from Postgres for ingested companies
+import companyRoutes from './routes/company-routes';
+app.use('/api/v1/companies', companyRoutes);
+
+// Query history and the saved query library, per signed-in user
+import historyRoutes from './routes/history-routes';
+import savedQueryRoutes from './routes/saved-query-routes';
+app.use('/api/v1/history', historyRoutes);
+app.use('/api/v1/saved-queries', savedQueryRoutes);
+
+// Watchlists and the filing alert inbox
+import watchlistRoutes from './routes/watchlist-routes';
+import alertRoutes from './routes/alert-routes';
+app.use('/api/v1/watchlists', watchlistRoutes);
+app.use('/api/v1/alerts', alertRoutes);
+
+// 13F institutional holdings: holders by company, manager positions and quarter-over-quarter changes
+import holdingsRoutes from './routes/holdings-routes';
+app.use('/api/v1/holdings', holdingsRoutes);
+
+// Market-wide screens on XBRL frames, filtered by SIC and state of incorporation
+import screenerRoutes from './routes/screener-routes';
+app.use('/api/v1/screener', screenerRoutes);
+
+// Enhanced query endpoint using Universal EDGAR Engine with MCP.
+// Follow-ups are resolved against the session named by context.sessionId;
+// queries from signed-in callers land in their history. Each query can fan out
+// into many SEC and LLM calls, so it shares the strict per-user (or IP) budget.
+import { UniversalQueryService } from './services/universal-query-service';
+import { strictRateLimiter } from './middleware/rate-limiter';
+const universalQueryService = new UniversalQueryService();
+
+app.post('/api/v1/queries', strictRateLimiter, async (req, res) => {
+  const { query, context = {} } = req.body;
   
   if (!query) {
     return res.status(400).json({
@@ -53,21 +96,11 @@ app.post('/api/v1/queries', async (req, res) => {
   }
 
   try {
-    // Import and use the Universal EDGAR Engine
-    const { UniversalEdgarEngine } = await import('../../lib/universal/universal-edgar-engine');
-    const engine = new UniversalEdgarEngine();
-    
-    console.log(`🔍 Processing query: "${query}"`);
-    const result = await engine.processQuery(query);
+    const result = await universalQueryService.run(query, queryContextFor(req, context));
     
     res.json({
       success: true,
-      data: {
-        queryId: Date.now().toString(),
-        status: 'completed',
-        query,
-        results: result
-      }
+      data: result
     });
     
   } catch (error: any) {
@@ -98,13 +131,36 @@ app.use('*', (req, res) => {
 // Error handling middleware
 app.use((error: any, req: any, res: any, next: any) => {
   console.error('Error:', error);
-  res.status(500).json({
-    error: 'Internal Server Error',
+  // Errors raised with createError carry their own status (404, 503, ...)
+  const statusCode = error.statusCode || 500;
+  res.status(statusCode).json({
+    error: statusCode === 500 ? 'Internal Server Error' : error.message,
     message: error.message || 'Something went wrong',
-    statusCode: 500
+    statusCode
   });
 });
 
+// Connect to Postgres for ingested data; routes fall back to the SEC API without it
+import { AppDataSource } from './database/data-source';
+import { getWatchlistPoller } from './services/watchlist-poller';
+const watchlistPollMinutes = parseFloat(process.env.WATCHLIST_POLL_MINUTES || '10');
+AppDataSource.initialize()
+  .then(() => {
+    console.log('🗄️  Database connected');
+    // Watchlists live in Postgres, so polling only starts once it is connected
+    if (watchlistPollMinutes > 0) {
+      getWatchlistPoller().start(watchlistPollMinutes * 60 * 1000);
+    }
+  })
+  .catch((error: any) => console.warn('Database unavailable, serving from SEC API only:', error.message));
+
+// Keep the ticker/CIK directory current; a stale or bundled list is refreshed at startup
+import { getCompanyDirectory } from '../../lib/company-directory';
+const refreshHours = parseFloat(process.env.COMPANY_DIRECTORY_REFRESH_HOURS || '24');
+if (refreshHours > 0) {
+  getCompanyDirectory().startAutoRefresh(refreshHours * 60 * 60 * 1000);
+}
+
 // Start server
 app.listen(PORT, () => {
   console.log(`🚀 Server running on port ${PORT}`);
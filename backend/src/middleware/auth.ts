@@ -0,0 +1,76 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuthService } from '../services/auth-service';
+import { QueryContext } from '../types/query-types';
+import { createError } from './error-handler';
+
+declare global {
+  namespace Express {
+    interface Request {
+      userId?: string;
+      authMethod?: 'jwt' | 'api_key';
+    }
+  }
+}
+
+const authService = new AuthService();
+
+/**
+ * Identify the caller from `Authorization: Bearer <jwt or API key>` or
+ * `X-API-Key: <key>`. Requests without credentials continue anonymously;
+ * requests with invalid credentials are rejected.
+ */
+export const authenticate = (req: Request, res: Response, next: NextFunction) => {
+  const header = req.headers.authorization;
+  const apiKeyHeader = req.headers['x-api-key'];
+  const credential = typeof apiKeyHeader === 'string' && apiKeyHeader
+    ? apiKeyHeader
+    : header?.match(/^Bearer\s+(.+)$/i)?.[1];
+
+  if (!credential) {
+    return next();
+  }
+
+  const resolve = async () => {
+    if (AuthService.isApiKey(credential)) {
+      req.userId = await authService.authenticateApiKey(credential);
+      req.authMethod = 'api_key';
+    } else {
+      req.userId = authService.verifyAccessToken(credential);
+      req.authMethod = 'jwt';
+    }
+  };
+
+  resolve().then(() => next(), next);
+};
+
+/**
+ * Reject anonymous requests. Use after `authenticate`.
+ */
+export const requireAuth = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.userId) {
+    return next(createError('Authentication required', 401));
+  }
+  next();
+};
+
+/**
+ * Reject callers without the admin role. Use after `authenticate`.
+ */
+export const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.userId) {
+    return next(createError('Authentication required', 401));
+  }
+
+  authService.getUser(req.userId).then(user => {
+    next(user?.role === 'admin' ? undefined : createError('Admin role required', 403));
+  }, next);
+};
+
+/**
+ * Build the QueryContext for a request. The user always comes from the
+ * credentials, never from the client-supplied context.
+ */
+export const queryContextFor = (req: Request, context: QueryContext = {}): QueryContext => {
+  const { userId, ...rest } = context;
+  return req.userId ? { ...rest, userId: req.userId } : rest;
+};
@@ -1,10 +1,15 @@
-import rateLimit from 'express-rate-limit';
+import { Request } from 'express';
+import rateLimit, { ipKeyGenerator } from 'express-rate-limit';
+
+// Signed-in callers get their own budget wherever they connect from; anonymous ones share their IP's
+const userOrIpKey = (req: Request) => req.userId ? `user:${req.userId}` : ipKeyGenerator(req.ip || '');
 
 export const rateLimiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 100, // limit each IP to 100 requests per windowMs
+  max: 100, // limit each user (or anonymous IP) to 100 requests per windowMs
+  keyGenerator: userOrIpKey,
   message: {
-    error: 'Too many requests from this IP, please try again later.',
+    error: 'Too many requests, please try again later.',
     statusCode: 429,
     timestamp: new Date().toISOString()
   },
@@ -14,9 +19,10 @@ export const rateLimiter = rateLimit({
 
 export const strictRateLimiter = rateLimit({
   windowMs: 1 * 60 * 1000, // 1 minute
-  max: 10, // limit each IP to 10 requests per minute
+  max: 10, // limit each user (or anonymous IP) to 10 requests per minute
+  keyGenerator: userOrIpKey,
   message: {
-    error: 'Too many requests from this IP, please try again later.',
+    error: 'Too many requests, please try again later.',
     statusCode: 429,
     timestamp: new Date().toISOString()
   },
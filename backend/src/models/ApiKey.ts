@@ -0,0 +1,37 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, CreateDateColumn, Index } from 'typeorm';
+import { User } from './User';
+
+@Entity('api_keys')
+@Index(['userId'])
+@Index(['keyHash'], { unique: true })
+export class ApiKey {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'uuid', name: 'user_id' })
+  userId!: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  name!: string;
+
+  // First characters of the key, shown so users can tell keys apart
+  @Column({ type: 'varchar', length: 16 })
+  prefix!: string;
+
+  // SHA-256 of the key; the key itself is only shown once, at creation
+  @Column({ type: 'varchar', length: 64, name: 'key_hash' })
+  keyHash!: string;
+
+  @Column({ type: 'timestamp', name: 'last_used_at', nullable: true })
+  lastUsedAt?: Date | null;
+
+  @Column({ type: 'timestamp', name: 'revoked_at', nullable: true })
+  revokedAt?: Date | null;
+
+  @ManyToOne(() => User, user => user.apiKeys, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user?: User;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+}
@@ -36,6 +36,9 @@ export class Filing {
   @Column({ type: 'boolean', default: false })
   processed!: boolean;
 
+  @Column({ type: 'timestamp', name: 'processed_at', nullable: true })
+  processedAt?: Date;
+
   @ManyToOne(() => Company, company => company.filings)
   @JoinColumn({ name: 'cik' })
   company!: Company;
@@ -0,0 +1,53 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, CreateDateColumn, Index } from 'typeorm';
+import { Watchlist } from './Watchlist';
+
+export type AlertDeliveryStatus = 'inbox' | 'delivered' | 'failed';
+
+@Entity('filing_alerts')
+@Index(['userId', 'createdAt'])
+@Index(['watchlistId', 'accessionNumber'], { unique: true })
+export class FilingAlert {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'uuid', name: 'watchlist_id' })
+  watchlistId!: string;
+
+  @Column({ type: 'uuid', name: 'user_id' })
+  userId!: string;
+
+  @Column({ type: 'varchar', length: 10 })
+  cik!: string;
+
+  @Column({ type: 'varchar', length: 255, name: 'company_name', nullable: true })
+  companyName?: string | null;
+
+  @Column({ type: 'varchar', length: 20 })
+  form!: string;
+
+  @Column({ type: 'varchar', length: 20, name: 'accession_number' })
+  accessionNumber!: string;
+
+  @Column({ type: 'date', name: 'filing_date', nullable: true })
+  filingDate?: string | null;
+
+  @Column({ type: 'varchar', length: 2048, nullable: true })
+  url?: string | null;
+
+  // 'inbox' unless the watchlist has a webhook, then the outcome of POSTing to it
+  @Column({ type: 'varchar', length: 16, name: 'delivery_status' })
+  deliveryStatus!: AlertDeliveryStatus;
+
+  @Column({ type: 'text', name: 'delivery_error', nullable: true })
+  deliveryError?: string | null;
+
+  @Column({ type: 'timestamp', name: 'read_at', nullable: true })
+  readAt?: Date | null;
+
+  @ManyToOne(() => Watchlist, watchlist => watchlist.alerts, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'watchlist_id' })
+  watchlist?: Watchlist;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+}
@@ -39,6 +39,18 @@ export class FinancialData {
   @Column({ type: 'varchar', length: 10, name: 'form_type', nullable: true })
   formType?: string;
 
+  @Column({ type: 'integer', name: 'fiscal_year', nullable: true })
+  fiscalYear?: number;
+
+  @Column({ type: 'varchar', length: 2, name: 'fiscal_period', nullable: true })
+  fiscalPeriod?: string;
+
+  @Column({ type: 'date', name: 'filed_date', nullable: true })
+  filedDate?: Date;
+
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  frame?: string;
+
   @ManyToOne(() => Company, company => company.financialData)
   @JoinColumn({ name: 'cik' })
   company!: Company;
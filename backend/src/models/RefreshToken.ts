@@ -0,0 +1,31 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, CreateDateColumn, Index } from 'typeorm';
+import { User } from './User';
+
+@Entity('refresh_tokens')
+@Index(['userId'])
+@Index(['tokenHash'], { unique: true })
+export class RefreshToken {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'uuid', name: 'user_id' })
+  userId!: string;
+
+  // SHA-256 of the opaque token handed to the client
+  @Column({ type: 'varchar', length: 64, name: 'token_hash' })
+  tokenHash!: string;
+
+  @Column({ type: 'timestamp', name: 'expires_at' })
+  expiresAt!: Date;
+
+  // Set when the token is used (rotated) or on logout
+  @Column({ type: 'timestamp', name: 'revoked_at', nullable: true })
+  revokedAt?: Date | null;
+
+  @ManyToOne(() => User, user => user.refreshTokens, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user?: User;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+}
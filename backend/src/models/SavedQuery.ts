@@ -1,4 +1,4 @@
-import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, CreateDateColumn, Index } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
 import { User } from './User';
 
 @Entity('saved_queries')
@@ -7,12 +7,20 @@ export class SavedQuery {
   @PrimaryGeneratedColumn('uuid')
   id!: string;
 
-  @Column({ type: 'uuid', name: 'user_id' })
-  userId!: string;
+  // Null for queries in the shared library
+  @Column({ type: 'uuid', name: 'user_id', nullable: true })
+  userId?: string | null;
+
+  // Who saved the query; the only non-admin allowed to change it once shared
+  @Column({ type: 'uuid', name: 'created_by', nullable: true })
+  createdBy?: string | null;
 
   @Column({ type: 'varchar', length: 255 })
   name!: string;
 
+  @Column({ type: 'text', nullable: true })
+  description?: string | null;
+
   @Column({ type: 'text' })
   query!: string;
 
@@ -22,10 +30,16 @@ export class SavedQuery {
   @Column({ type: 'jsonb', nullable: true })
   schedule?: any;
 
+  @Column({ type: 'timestamp', name: 'last_run_at', nullable: true })
+  lastRunAt?: Date | null;
+
   @ManyToOne(() => User, user => user.savedQueries)
   @JoinColumn({ name: 'user_id' })
-  user!: User;
+  user?: User;
 
   @CreateDateColumn({ name: 'created_at' })
   createdAt!: Date;
-}
\ No newline at end of file
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt!: Date;
+}
@@ -1,6 +1,11 @@
 import { Entity, PrimaryGeneratedColumn, Column, OneToMany, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
 import { QueryHistory } from './QueryHistory';
 import { SavedQuery } from './SavedQuery';
+import { ApiKey } from './ApiKey';
+import { RefreshToken } from './RefreshToken';
+import { Watchlist } from './Watchlist';
+
+export type UserRole = 'user' | 'admin';
 
 @Entity('users')
 @Index(['email'], { unique: true })
@@ -20,12 +25,25 @@ export class User {
   @Column({ type: 'jsonb', nullable: true })
   preferences?: any;
 
+  // Admins can edit and delete any query in the shared library
+  @Column({ type: 'varchar', length: 20, default: 'user' })
+  role!: UserRole;
+
   @OneToMany(() => QueryHistory, queryHistory => queryHistory.user)
   queryHistory!: QueryHistory[];
 
   @OneToMany(() => SavedQuery, savedQuery => savedQuery.user)
   savedQueries!: SavedQuery[];
 
+  @OneToMany(() => ApiKey, apiKey => apiKey.user)
+  apiKeys!: ApiKey[];
+
+  @OneToMany(() => RefreshToken, refreshToken => refreshToken.user)
+  refreshTokens!: RefreshToken[];
+
+  @OneToMany(() => Watchlist, watchlist => watchlist.user)
+  watchlists!: Watchlist[];
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt!: Date;
 
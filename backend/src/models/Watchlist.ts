@@ -0,0 +1,57 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, OneToMany, JoinColumn, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+import { User } from './User';
+import { FilingAlert } from './FilingAlert';
+
+@Entity('watchlists')
+@Index(['userId'])
+export class Watchlist {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'uuid', name: 'user_id' })
+  userId!: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  name!: string;
+
+  // Zero-padded 10-digit CIKs
+  @Column({ type: 'jsonb' })
+  ciks!: string[];
+
+  // Form types to alert on (e.g. 8-K, 4); empty means every form
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  forms!: string[];
+
+  // Alerts are POSTed here when set; they always land in the in-app inbox
+  @Column({ type: 'varchar', length: 2048, name: 'webhook_url', nullable: true })
+  webhookUrl?: string | null;
+
+  // Key this watchlist's webhook bodies are signed with. Shown once, when the
+  // watchlist is created or the secret is rotated, and never selected otherwise.
+  @Column({ type: 'varchar', length: 64, name: 'webhook_secret', nullable: true, select: false })
+  webhookSecret?: string | null;
+
+  @Column({ type: 'boolean', default: true })
+  active!: boolean;
+
+  // Accession numbers seen on the last poll, by CIK. A CIK without an entry is
+  // new to the watchlist: its current filings are recorded without alerting.
+  @Column({ type: 'jsonb', name: 'seen_accessions', default: () => "'{}'" })
+  seenAccessions!: Record<string, string[]>;
+
+  @Column({ type: 'timestamp', name: 'last_polled_at', nullable: true })
+  lastPolledAt?: Date | null;
+
+  @ManyToOne(() => User, user => user.watchlists, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user?: User;
+
+  @OneToMany(() => FilingAlert, alert => alert.watchlist)
+  alerts?: FilingAlert[];
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt!: Date;
+}
@@ -0,0 +1,95 @@
+import { Router } from 'express';
+import { WatchlistService } from '../services/watchlist-service';
+import { asyncHandler, createError } from '../middleware/error-handler';
+import { rateLimiter } from '../middleware/rate-limiter';
+import { requireAuth } from '../middleware/auth';
+
+const router = Router();
+const watchlistService = new WatchlistService();
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// The inbox is per user: every route needs a signed-in caller and only sees their alerts
+router.use(requireAuth);
+
+/**
+ * GET /api/v1/alerts
+ * The caller's filing alerts, newest first
+ */
+router.get('/', rateLimiter, asyncHandler(async (req, res) => {
+  const { watchlist_id, unread, limit = '50', page = '1' } = req.query;
+
+  const pageNum = parseInt(page as string) || 1;
+  const limitNum = Math.min(parseInt(limit as string) || 50, 100);
+
+  if (watchlist_id && !UUID_PATTERN.test(watchlist_id as string)) {
+    return res.status(400).json({
+      error: 'Invalid watchlist_id format',
+      statusCode: 400
+    });
+  }
+
+  const { alerts, total, unread: unreadCount } = await watchlistService.listAlerts({
+    userId: req.userId!,
+    watchlistId: watchlist_id as string | undefined,
+    unreadOnly: unread === 'true',
+    limit: limitNum,
+    offset: (pageNum - 1) * limitNum
+  });
+
+  res.json({
+    success: true,
+    data: {
+      alerts,
+      unread: unreadCount,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        total_pages: Math.ceil(total / limitNum)
+      }
+    },
+    timestamp: new Date().toISOString()
+  });
+}));
+
+/**
+ * POST /api/v1/alerts/read
+ * Mark every unread alert read
+ */
+router.post('/read', rateLimiter, asyncHandler(async (req, res) => {
+  const updated = await watchlistService.markAllAlertsRead(req.userId!);
+
+  res.json({
+    success: true,
+    data: { updated },
+    timestamp: new Date().toISOString()
+  });
+}));
+
+/**
+ * POST /api/v1/alerts/:id/read
+ * Mark an alert read
+ */
+router.post('/:id/read', rateLimiter, asyncHandler(async (req, res) => {
+  const { id } = req.params;
+
+  if (!UUID_PATTERN.test(id)) {
+    return res.status(400).json({
+      error: 'Invalid alert id format',
+      statusCode: 400
+    });
+  }
+
+  if (!await watchlistService.markAlertRead(id, req.userId!)) {
+    throw createError('Alert not found', 404);
+  }
+
+  res.json({
+    success: true,
+    data: { id, read: true },
+    timestamp: new Date().toISOString()
+  });
+}));
+
+export default router;
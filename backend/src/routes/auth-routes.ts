@@ -0,0 +1,183 @@
+import { Router } from 'express';
+import { AuthService } from '../services/auth-service';
+import { asyncHandler, createError } from '../middleware/error-handler';
+import { rateLimiter, strictRateLimiter } from '../middleware/rate-limiter';
+import { requireAuth } from '../middleware/auth';
+
+const router = Router();
+const authService = new AuthService();
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * POST /api/v1/auth/register
+ * Create an account; responds with the user and a token pair
+ */
+router.post('/register', strictRateLimiter, asyncHandler(async (req, res) => {
+  const { email, password, name } = req.body;
+
+  if (!email || !password) {
+    return res.status(400).json({
+      error: 'Email and password are required',
+      statusCode: 400
+    });
+  }
+
+  const { user, tokens } = await authService.register(email, password, name);
+
+  res.status(201).json({
+    success: true,
+    data: { user, ...tokens },
+    timestamp: new Date().toISOString()
+  });
+}));
+
+/**
+ * POST /api/v1/auth/login
+ * Exchange email and password for a token pair
+ */
+router.post('/login', strictRateLimiter, asyncHandler(async (req, res) => {
+  const { email, password } = req.body;
+
+  if (!email || !password) {
+    return res.status(400).json({
+      error: 'Email and password are required',
+      statusCode: 400
+    });
+  }
+
+  const { user, tokens } = await authService.login(email, password);
+
+  res.json({
+    success: true,
+    data: { user, ...tokens },
+    timestamp: new Date().toISOString()
+  });
+}));
+
+/**
+ * POST /api/v1/auth/refresh
+ * Exchange a refresh token for a new token pair; the old refresh token stops working
+ */
+router.post('/refresh', strictRateLimiter, asyncHandler(async (req, res) => {
+  const { refreshToken } = req.body;
+
+  if (!refreshToken || typeof refreshToken !== 'string') {
+    return res.status(400).json({
+      error: 'refreshToken is required',
+      statusCode: 400
+    });
+  }
+
+  const tokens = await authService.refresh(refreshToken);
+
+  res.json({
+    success: true,
+    data: tokens,
+    timestamp: new Date().toISOString()
+  });
+}));
+
+/**
+ * POST /api/v1/auth/logout
+ * Revoke a refresh token
+ */
+router.post('/logout', rateLimiter, asyncHandler(async (req, res) => {
+  const { refreshToken } = req.body;
+
+  if (!refreshToken || typeof refreshToken !== 'string') {
+    return res.status(400).json({
+      error: 'refreshToken is required',
+      statusCode: 400
+    });
+  }
+
+  await authService.logout(refreshToken);
+
+  res.json({
+    success: true,
+    data: { loggedOut: true },
+    timestamp: new Date().toISOString()
+  });
+}));
+
+/**
+ * GET /api/v1/auth/me
+ * The signed-in user's profile
+ */
+router.get('/me', rateLimiter, requireAuth, asyncHandler(async (req, res) => {
+  const user = await authService.getUser(req.userId!);
+  if (!user) {
+    throw createError('User not found', 404);
+  }
+
+  res.json({
+    success: true,
+    data: { user, authMethod: req.authMethod },
+    timestamp: new Date().toISOString()
+  });
+}));
+
+/**
+ * GET /api/v1/auth/api-keys
+ * List the signed-in user's API keys (never the keys themselves)
+ */
+router.get('/api-keys', rateLimiter, requireAuth, asyncHandler(async (req, res) => {
+  const apiKeys = await authService.listApiKeys(req.userId!);
+
+  res.json({
+    success: true,
+    data: { api_keys: apiKeys },
+    timestamp: new Date().toISOString()
+  });
+}));
+
+/**
+ * POST /api/v1/auth/api-keys
+ * Create an API key for scripted access. The key is only returned here.
+ */
+router.post('/api-keys', strictRateLimiter, requireAuth, asyncHandler(async (req, res) => {
+  const { name } = req.body;
+
+  if (!name || typeof name !== 'string' || !name.trim() || name.length > 255) {
+    return res.status(400).json({
+      error: '"name" is required and must be at most 255 characters',
+      statusCode: 400
+    });
+  }
+
+  const { key, apiKey } = await authService.createApiKey(req.userId!, name.trim());
+
+  res.status(201).json({
+    success: true,
+    data: { key, api_key: apiKey },
+    timestamp: new Date().toISOString()
+  });
+}));
+
+/**
+ * DELETE /api/v1/auth/api-keys/:id
+ * Revoke an API key
+ */
+router.delete('/api-keys/:id', rateLimiter, requireAuth, asyncHandler(async (req, res) => {
+  const { id } = req.params;
+
+  if (!UUID_PATTERN.test(id)) {
+    return res.status(400).json({
+      error: 'Invalid API key id format',
+      statusCode: 400
+    });
+  }
+
+  if (!await authService.revokeApiKey(req.userId!, id)) {
+    throw createError('API key not found', 404);
+  }
+
+  res.json({
+    success: true,
+    data: { id, revoked: true },
+    timestamp: new Date().toISOString()
+  });
+}));
+
+export default router;
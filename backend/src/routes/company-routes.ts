@@ -1,12 +1,42 @@
 import { Router } from 'express';
 import { SECEdgarClient } from '../services/sec-edgar-client';
 import { CacheService, CacheKeys, CacheTTL } from '../services/cache-service';
+import { CompanyStore } from '../services/company-store';
 import { asyncHandler } from '../middleware/error-handler';
 import { rateLimiter } from '../middleware/rate-limiter';
 
 const router = Router();
 const secClient = new SECEdgarClient();
 const cacheService = new CacheService();
+const companyStore = new CompanyStore();
+
+/**
+ * GET /api/v1/companies/search
+ * Search companies by name, ticker, alias or former name (tolerates misspellings).
+ * Declared before /:cik so "search" is not taken for a CIK.
+ */
+router.get('/search', rateLimiter, asyncHandler(async (req, res) => {
+  const { q, limit = '10' } = req.query;
+
+  if (!q || typeof q !== 'string') {
+    return res.status(400).json({
+      error: 'Query parameter "q" is required',
+      statusCode: 400
+    });
+  }
+
+  const results = await secClient.searchCompanies(q, Math.min(parseInt(limit as string) || 10, 50));
+
+  res.json({
+    success: true,
+    data: {
+      query: q,
+      results,
+      total: results.length
+    },
+    timestamp: new Date().toISOString()
+  });
+}));
 
 /**
  * GET /api/v1/companies/:cik
@@ -23,6 +53,21 @@ router.get('/:cik', rateLimiter, asyncHandler(async (req, res) => {
   }
 
   const formattedCik = SECEdgarClient.formatCIK(cik);
+
+  // Ingested companies are answered from Postgres
+  const storedCompany = await companyStore.getCompanyInfo(formattedCik);
+  if (storedCompany) {
+    return res.json({
+      success: true,
+      data: {
+        company: storedCompany,
+        recent_filings: await companyStore.getRecentFilings(formattedCik, 10) || []
+      },
+      source: 'database',
+      timestamp: new Date().toISOString()
+    });
+  }
+
   const cacheKey = CacheKeys.companyProfile(formattedCik);
 
   const companyData = await cacheService.getOrSet(
@@ -65,6 +110,25 @@ router.get('/:cik/filings', rateLimiter, asyncHandler(async (req, res) => {
 
   const formattedCik = SECEdgarClient.formatCIK(cik);
   const filingLimit = Math.min(parseInt(limit as string) || 20, 100);
+
+  const storedFilings = await companyStore.getRecentFilings(formattedCik, filingLimit, form as string | undefined);
+  if (storedFilings) {
+    return res.json({
+      success: true,
+      data: {
+        cik: formattedCik,
+        filings: storedFilings,
+        total: storedFilings.length,
+        filters: {
+          form: form || null,
+          limit: filingLimit
+        }
+      },
+      source: 'database',
+      timestamp: new Date().toISOString()
+    });
+  }
+
   const cacheKey = CacheKeys.companyFilings(formattedCik, form as string);
 
   const filings = await cacheService.getOrSet(
@@ -114,6 +178,17 @@ router.get('/:cik/facts', rateLimiter, asyncHandler(async (req, res) => {
   }
 
   const formattedCik = SECEdgarClient.formatCIK(cik);
+
+  const storedFacts = await companyStore.getCompanyFacts(formattedCik);
+  if (storedFacts) {
+    return res.json({
+      success: true,
+      data: storedFacts,
+      source: 'database',
+      timestamp: new Date().toISOString()
+    });
+  }
+
   const cacheKey = CacheKeys.companyFacts(formattedCik);
 
   const facts = await cacheService.getOrSet(
@@ -147,6 +222,22 @@ router.get('/:cik/concepts/:concept', rateLimiter, asyncHandler(async (req, res)
   }
 
   const formattedCik = SECEdgarClient.formatCIK(cik);
+
+  const storedData = await companyStore.getFinancialData(formattedCik, concept, taxonomy as string);
+  if (storedData) {
+    return res.json({
+      success: true,
+      data: {
+        cik: formattedCik,
+        concept,
+        taxonomy,
+        data: storedData
+      },
+      source: 'database',
+      timestamp: new Date().toISOString()
+    });
+  }
+
   const cacheKey = CacheKeys.financialData(formattedCik, concept);
 
   const conceptData = await cacheService.getOrSet(
@@ -169,48 +260,4 @@ router.get('/:cik/concepts/:concept', rateLimiter, asyncHandler(async (req, res)
   });
 }));
 
-/**
- * GET /api/v1/companies/search
- * Search for companies (placeholder - would need a search index)
- */
-router.get('/search', rateLimiter, asyncHandler(async (req, res) => {
-  const { q } = req.query;
-
-  if (!q || typeof q !== 'string') {
-    return res.status(400).json({
-      error: 'Query parameter "q" is required',
-      statusCode: 400
-    });
-  }
-
-  // This is a placeholder implementation
-  // In a real application, you would have a search index
-  const popularCompanies = [
-    { name: 'Apple Inc.', ticker: 'AAPL', cik: '0000320193' },
-    { name: 'Microsoft Corporation', ticker: 'MSFT', cik: '0000789019' },
-    { name: 'Amazon.com Inc.', ticker: 'AMZN', cik: '0001018724' },
-    { name: 'Alphabet Inc.', ticker: 'GOOGL', cik: '0001652044' },
-    { name: 'Tesla Inc.', ticker: 'TSLA', cik: '0001318605' },
-    { name: 'Netflix Inc.', ticker: 'NFLX', cik: '0001065280' },
-    { name: 'Meta Platforms Inc.', ticker: 'META', cik: '0001326801' },
-    { name: 'NVIDIA Corporation', ticker: 'NVDA', cik: '0001045810' }
-  ];
-
-  const query = (q as string).toLowerCase();
-  const results = popularCompanies.filter(company =>
-    company.name.toLowerCase().includes(query) ||
-    company.ticker.toLowerCase().includes(query)
-  );
-
-  res.json({
-    success: true,
-    data: {
-      query: q,
-      results,
-      total: results.length
-    },
-    timestamp: new Date().toISOString()
-  });
-}));
-
 export default router;
\ No newline at end of file
@@ -1,7 +1,9 @@
 import { Router } from 'express';
 import { SECEdgarClient } from '../services/sec-edgar-client';
+import { FilingIndex, findFilingDocument } from '../../../lib/edgar-filing-index';
+import { getFullTextIndex } from '../../../lib/filing-fulltext-index';
 import { CacheService, CacheKeys, CacheTTL } from '../services/cache-service';
-import { asyncHandler } from '../middleware/error-handler';
+import { asyncHandler, createError } from '../middleware/error-handler';
 import { rateLimiter } from '../middleware/rate-limiter';
 
 const router = Router();
@@ -100,9 +102,87 @@ router.get('/search', rateLimiter, asyncHandler(async (req, res) => {
   });
 }));
 
+/**
+ * GET /api/v1/filings/fulltext
+ * Full-text search over filings already ingested into the local index.
+ * q takes bare words and "quoted phrases" (all must match); forms and cik accept comma-separated lists.
+ */
+router.get('/fulltext', rateLimiter, asyncHandler(async (req, res) => {
+  const {
+    q,
+    forms,
+    cik,
+    date_from,
+    date_to,
+    limit = '20',
+    page = '1'
+  } = req.query;
+
+  if (!q || !(q as string).trim()) {
+    return res.status(400).json({
+      error: 'Search query (q) is required',
+      statusCode: 400
+    });
+  }
+
+  const ciks = splitList(cik as string | undefined);
+  if (ciks.some(candidate => !SECEdgarClient.isValidCIK(candidate))) {
+    return res.status(400).json({
+      error: 'Invalid CIK format',
+      statusCode: 400
+    });
+  }
+
+  const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+  if ((date_from && !datePattern.test(date_from as string)) || (date_to && !datePattern.test(date_to as string))) {
+    return res.status(400).json({
+      error: 'Dates must be in YYYY-MM-DD format',
+      statusCode: 400
+    });
+  }
+
+  const pageNum = parseInt(page as string) || 1;
+  const limitNum = Math.min(parseInt(limit as string) || 20, 100);
+  const formTypes = splitList(forms as string | undefined).map(form => form.toUpperCase());
+
+  const result = getFullTextIndex().search({
+    q: q as string,
+    forms: formTypes,
+    ciks: ciks.map(candidate => SECEdgarClient.formatCIK(candidate)),
+    startDate: date_from as string | undefined,
+    endDate: date_to as string | undefined,
+    limit: limitNum,
+    offset: (pageNum - 1) * limitNum
+  });
+
+  res.json({
+    success: true,
+    data: {
+      hits: result.hits,
+      terms: result.terms,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total: result.total,
+        total_pages: Math.ceil(result.total / limitNum)
+      },
+      filters: {
+        forms: formTypes.length > 0 ? formTypes : null,
+        cik: ciks.length > 0 ? ciks : null,
+        date_from: date_from || null,
+        date_to: date_to || null
+      },
+      indexed_filings: result.indexedFilings
+    },
+    timestamp: new Date().toISOString()
+  });
+}));
+
 /**
  * GET /api/v1/filings/:accession_number
- * Get filing details by accession number
+ * Get the filing index: primary document, exhibits and every other document in the filing.
+ * Archive paths are keyed by the company's CIK, so ?cik= is required: the accession number
+ * prefix is whoever submitted the filing, often a filing agent.
  */
 router.get('/:accession_number', rateLimiter, asyncHandler(async (req, res) => {
   const { accession_number } = req.params;
@@ -115,14 +195,74 @@ router.get('/:accession_number', rateLimiter, asyncHandler(async (req, res) => {
     });
   }
 
-  // For now, return basic info about the filing
-  // In a full implementation, you would fetch and parse the actual filing document
+  if (!req.query.cik) {
+    return res.status(400).json({
+      error: 'Company CIK is required',
+      statusCode: 400
+    });
+  }
+
+  const cik = req.query.cik as string;
+  if (!SECEdgarClient.isValidCIK(cik)) {
+    return res.status(400).json({
+      error: 'Invalid CIK format',
+      statusCode: 400
+    });
+  }
+
+  const formattedCik = SECEdgarClient.formatCIK(cik);
+  const index = await getFilingIndex(formattedCik, accession_number, req.query.primary_document as string | undefined);
+
+  res.json({
+    success: true,
+    data: index,
+    timestamp: new Date().toISOString()
+  });
+}));
+
+/**
+ * GET /api/v1/filings/:accession_number/documents/:document
+ * Address a single document by file name, EDGAR type (e.g. EX-21.1, EX-31) or "primary".
+ * Requires ?cik= like the filing index.
+ */
+router.get('/:accession_number/documents/:document', rateLimiter, asyncHandler(async (req, res) => {
+  const { accession_number, document } = req.params;
+
+  if (!/^\d{10}-\d{2}-\d{6}$/.test(accession_number)) {
+    return res.status(400).json({
+      error: 'Invalid accession number format',
+      statusCode: 400
+    });
+  }
+
+  if (!req.query.cik) {
+    return res.status(400).json({
+      error: 'Company CIK is required',
+      statusCode: 400
+    });
+  }
+
+  const cik = req.query.cik as string;
+  if (!SECEdgarClient.isValidCIK(cik)) {
+    return res.status(400).json({
+      error: 'Invalid CIK format',
+      statusCode: 400
+    });
+  }
+
+  const formattedCik = SECEdgarClient.formatCIK(cik);
+  const index = await getFilingIndex(formattedCik, accession_number);
+  const match = findFilingDocument(index, document);
+  if (!match) {
+    throw createError(`Document ${document} not found in filing ${accession_number}`, 404);
+  }
+
   res.json({
     success: true,
     data: {
-      accession_number,
-      message: 'Filing document parsing not implemented yet',
-      document_url: `https://www.sec.gov/Archives/edgar/data/[CIK]/${accession_number.replace(/-/g, '')}-index.htm`
+      accession_number: index.accessionNumber,
+      document: match,
+      index_url: index.indexUrl
     },
     timestamp: new Date().toISOString()
   });
@@ -221,4 +361,18 @@ router.get('/forms', asyncHandler(async (req, res) => {
   });
 }));
 
+function splitList(value: string | undefined): string[] {
+  return value ? value.split(',').map(item => item.trim()).filter(Boolean) : [];
+}
+
+// Filings never change once accepted, so their indexes can be cached for a long time.
+// The primary document override changes which document is flagged primary, so it is part of the key.
+async function getFilingIndex(cik: string, accessionNumber: string, primaryDocument?: string): Promise<FilingIndex> {
+  return cacheService.getOrSet(
+    CacheKeys.filingIndex(cik, accessionNumber, primaryDocument),
+    () => secClient.getFilingIndex(cik, accessionNumber, primaryDocument),
+    CacheTTL.HISTORICAL_DATA
+  );
+}
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,115 @@
+import { Router } from 'express';
+import { QueryHistoryService } from '../services/query-history-service';
+import { asyncHandler, createError } from '../middleware/error-handler';
+import { rateLimiter } from '../middleware/rate-limiter';
+import { requireAuth } from '../middleware/auth';
+
+const router = Router();
+const historyService = new QueryHistoryService();
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// History is per user: every route needs a signed-in caller and only sees their entries
+router.use(requireAuth);
+
+/**
+ * GET /api/v1/history
+ * List the caller's processed queries, newest first
+ */
+router.get('/', rateLimiter, asyncHandler(async (req, res) => {
+  const { status, limit = '20', page = '1' } = req.query;
+
+  const pageNum = parseInt(page as string) || 1;
+  const limitNum = Math.min(parseInt(limit as string) || 20, 100);
+
+  const { entries, total } = await historyService.list({
+    userId: req.userId!,
+    status: status as string | undefined,
+    limit: limitNum,
+    offset: (pageNum - 1) * limitNum
+  });
+
+  res.json({
+    success: true,
+    data: {
+      history: entries,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        total_pages: Math.ceil(total / limitNum)
+      },
+      filters: {
+        status: status || null
+      }
+    },
+    timestamp: new Date().toISOString()
+  });
+}));
+
+/**
+ * GET /api/v1/history/:id
+ * Get a single history entry
+ */
+router.get('/:id', rateLimiter, asyncHandler(async (req, res) => {
+  const { id } = req.params;
+
+  if (!UUID_PATTERN.test(id)) {
+    return res.status(400).json({
+      error: 'Invalid history id format',
+      statusCode: 400
+    });
+  }
+
+  const entry = await historyService.get(id, req.userId!);
+  if (!entry) {
+    throw createError('History entry not found', 404);
+  }
+
+  res.json({
+    success: true,
+    data: entry,
+    timestamp: new Date().toISOString()
+  });
+}));
+
+/**
+ * DELETE /api/v1/history/:id
+ * Delete a single history entry
+ */
+router.delete('/:id', rateLimiter, asyncHandler(async (req, res) => {
+  const { id } = req.params;
+
+  if (!UUID_PATTERN.test(id)) {
+    return res.status(400).json({
+      error: 'Invalid history id format',
+      statusCode: 400
+    });
+  }
+
+  if (!await historyService.delete(id, req.userId!)) {
+    throw createError('History entry not found', 404);
+  }
+
+  res.json({
+    success: true,
+    data: { id, deleted: true },
+    timestamp: new Date().toISOString()
+  });
+}));
+
+/**
+ * DELETE /api/v1/history
+ * Clear the caller's history
+ */
+router.delete('/', rateLimiter, asyncHandler(async (req, res) => {
+  const deleted = await historyService.clear(req.userId!);
+
+  res.json({
+    success: true,
+    data: { deleted },
+    timestamp: new Date().toISOString()
+  });
+}));
+
+export default router;
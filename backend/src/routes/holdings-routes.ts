@@ -0,0 +1,271 @@
+import { Router } from 'express';
+import { SECEdgarClient } from '../services/sec-edgar-client';
+import { getHoldingsStore, fetchManagerFilings, PositionChangeType } from '../../../lib/institutional-holdings';
+import { asyncHandler, createError } from '../middleware/error-handler';
+import { rateLimiter, strictRateLimiter } from '../middleware/rate-limiter';
+import { requireAdmin, requireAuth } from '../middleware/auth';
+
+const router = Router();
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const CUSIP_PATTERN = /^[0-9A-Z]{9}$/i;
+const CHANGE_TYPES: PositionChangeType[] = ['new', 'added', 'reduced', 'exited', 'unchanged'];
+const MAX_QUARTERS = 8;
+
+/**
+ * GET /api/v1/holdings/holders
+ * Managers holding a company's stock, found by ticker, CIK, name or CUSIP.
+ * Only managers whose 13F-HR reports have been ingested are searched.
+ */
+router.get('/holders', rateLimiter, asyncHandler(async (req, res) => {
+  const { company, period } = req.query;
+
+  if (!company || !(company as string).trim()) {
+    return res.status(400).json({
+      error: 'Company (ticker, CIK, name or CUSIP) is required',
+      statusCode: 400
+    });
+  }
+
+  if (period && !DATE_PATTERN.test(period as string)) {
+    return res.status(400).json({
+      error: 'Period must be a quarter end in YYYY-MM-DD format',
+      statusCode: 400
+    });
+  }
+
+  const lookup = getHoldingsStore().getHoldersOf(company as string, period as string | undefined);
+  if (!lookup) {
+    throw createError(`No CUSIP is mapped for ${company}`, 404);
+  }
+
+  res.json({
+    success: true,
+    data: lookup,
+    timestamp: new Date().toISOString()
+  });
+}));
+
+/**
+ * GET /api/v1/holdings/managers
+ * Managers with ingested 13F-HR reports and the periods they cover
+ */
+router.get('/managers', rateLimiter, asyncHandler(async (req, res) => {
+  const managers = getHoldingsStore().listManagers();
+
+  res.json({
+    success: true,
+    data: { managers, total: managers.length },
+    timestamp: new Date().toISOString()
+  });
+}));
+
+/**
+ * GET /api/v1/holdings/managers/:cik
+ * A manager's positions for a period (default: its latest report), largest first
+ */
+router.get('/managers/:cik', rateLimiter, asyncHandler(async (req, res) => {
+  const { cik } = req.params;
+  const { period, limit = '100', page = '1' } = req.query;
+
+  if (!SECEdgarClient.isValidCIK(cik)) {
+    return res.status(400).json({
+      error: 'Invalid CIK format',
+      statusCode: 400
+    });
+  }
+
+  if (period && !DATE_PATTERN.test(period as string)) {
+    return res.status(400).json({
+      error: 'Period must be a quarter end in YYYY-MM-DD format',
+      statusCode: 400
+    });
+  }
+
+  const store = getHoldingsStore();
+  const holdings = store.getHoldings(cik, period as string | undefined);
+  if (!holdings) {
+    throw createError('No 13F-HR report ingested for this manager and period', 404);
+  }
+
+  const pageNum = parseInt(page as string) || 1;
+  const limitNum = Math.min(parseInt(limit as string) || 100, 500);
+  const positions = [...holdings.positions]
+    .sort((a, b) => b.value - a.value)
+    .map(position => ({ ...position, ticker: store.getCusip(position.cusip)?.ticker }));
+
+  res.json({
+    success: true,
+    data: {
+      manager_cik: holdings.filing.managerCik,
+      manager_name: holdings.filing.managerName,
+      period: holdings.filing.periodOfReport,
+      accession_number: holdings.filing.accessionNumber,
+      filing_date: holdings.filing.filingDate,
+      total_value: positions.reduce((sum, position) => sum + position.value, 0),
+      positions: positions.slice((pageNum - 1) * limitNum, pageNum * limitNum),
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total: positions.length,
+        total_pages: Math.ceil(positions.length / limitNum)
+      }
+    },
+    timestamp: new Date().toISOString()
+  });
+}));
+
+/**
+ * GET /api/v1/holdings/managers/:cik/changes
+ * Quarter-over-quarter position changes by CUSIP; type filters to a
+ * comma-separated list of new, added, reduced, exited, unchanged
+ */
+router.get('/managers/:cik/changes', rateLimiter, asyncHandler(async (req, res) => {
+  const { cik } = req.params;
+  const { period, type } = req.query;
+
+  if (!SECEdgarClient.isValidCIK(cik)) {
+    return res.status(400).json({
+      error: 'Invalid CIK format',
+      statusCode: 400
+    });
+  }
+
+  if (period && !DATE_PATTERN.test(period as string)) {
+    return res.status(400).json({
+      error: 'Period must be a quarter end in YYYY-MM-DD format',
+      statusCode: 400
+    });
+  }
+
+  const types = type ? (type as string).split(',').map(item => item.trim().toLowerCase()) : [];
+  if (types.some(item => !CHANGE_TYPES.includes(item as PositionChangeType))) {
+    return res.status(400).json({
+      error: `Change type must be one of: ${CHANGE_TYPES.join(', ')}`,
+      statusCode: 400
+    });
+  }
+
+  const changes = getHoldingsStore().getPositionChanges(cik, period as string | undefined);
+  if (!changes) {
+    throw createError('No 13F-HR report ingested for this manager and period', 404);
+  }
+
+  res.json({
+    success: true,
+    data: {
+      ...changes,
+      changes: types.length > 0 ? changes.changes.filter(change => types.includes(change.type)) : changes.changes
+    },
+    timestamp: new Date().toISOString()
+  });
+}));
+
+/**
+ * POST /api/v1/holdings/managers/:cik/ingest
+ * Fetch a manager's 13F-HR reports for its latest quarters (default 2) from EDGAR.
+ * Signed-in callers only: each run makes several EDGAR requests and writes the store.
+ */
+router.post('/managers/:cik/ingest', requireAuth, strictRateLimiter, asyncHandler(async (req, res) => {
+  const { cik } = req.params;
+  const { quarters = 2 } = req.body || {};
+
+  if (!SECEdgarClient.isValidCIK(cik)) {
+    return res.status(400).json({
+      error: 'Invalid CIK format',
+      statusCode: 400
+    });
+  }
+
+  if (!Number.isInteger(quarters) || quarters < 1 || quarters > MAX_QUARTERS) {
+    return res.status(400).json({
+      error: `"quarters" must be an integer from 1 to ${MAX_QUARTERS}`,
+      statusCode: 400
+    });
+  }
+
+  const result = await fetchManagerFilings(SECEdgarClient.formatCIK(cik), { quarters });
+  if (result.periods.length === 0) {
+    throw createError('This filer has no 13F-HR reports', 404);
+  }
+
+  res.json({
+    success: true,
+    data: result,
+    timestamp: new Date().toISOString()
+  });
+}));
+
+/**
+ * GET /api/v1/holdings/cusips/:cusip
+ * The issuer a CUSIP is mapped to
+ */
+router.get('/cusips/:cusip', rateLimiter, asyncHandler(async (req, res) => {
+  const { cusip } = req.params;
+
+  if (!CUSIP_PATTERN.test(cusip)) {
+    return res.status(400).json({
+      error: 'Invalid CUSIP format',
+      statusCode: 400
+    });
+  }
+
+  const mapping = getHoldingsStore().getCusip(cusip);
+  if (!mapping) {
+    throw createError('CUSIP not mapped', 404);
+  }
+
+  res.json({
+    success: true,
+    data: mapping,
+    timestamp: new Date().toISOString()
+  });
+}));
+
+/**
+ * PUT /api/v1/holdings/cusips/:cusip
+ * Correct or add a CUSIP mapping: { issuer, cik?, ticker?, titleOfClass? }.
+ * Manual mappings take precedence over seeded and learned ones for every
+ * user, so only admins may set them.
+ */
+router.put('/cusips/:cusip', requireAdmin, rateLimiter, asyncHandler(async (req, res) => {
+  const { cusip } = req.params;
+  const { issuer, cik, ticker, titleOfClass } = req.body || {};
+
+  if (!CUSIP_PATTERN.test(cusip)) {
+    return res.status(400).json({
+      error: 'Invalid CUSIP format',
+      statusCode: 400
+    });
+  }
+
+  if (typeof issuer !== 'string' || !issuer.trim()) {
+    return res.status(400).json({
+      error: '"issuer" is required and must be a non-empty string',
+      statusCode: 400
+    });
+  }
+
+  if (cik !== undefined && (typeof cik !== 'string' || !SECEdgarClient.isValidCIK(cik))) {
+    return res.status(400).json({
+      error: 'Invalid CIK format',
+      statusCode: 400
+    });
+  }
+
+  const mapping = getHoldingsStore().setCusip({
+    cusip,
+    issuer: issuer.trim(),
+    cik,
+    ticker: typeof ticker === 'string' && ticker.trim() ? ticker.trim().toUpperCase() : undefined,
+    titleOfClass: typeof titleOfClass === 'string' ? titleOfClass.trim() : undefined
+  });
+
+  res.json({
+    success: true,
+    data: mapping,
+    timestamp: new Date().toISOString()
+  });
+}));
+
+export default router;
@@ -2,6 +2,7 @@ import { Router } from 'express';
 import { QueryProcessor } from '../services/query-processor';
 import { asyncHandler } from '../middleware/error-handler';
 import { strictRateLimiter } from '../middleware/rate-limiter';
+import { queryContextFor } from '../middleware/auth';
 
 const router = Router();
 const queryProcessor = new QueryProcessor();
@@ -20,7 +21,7 @@ router.post('/', strictRateLimiter, asyncHandler(async (req, res) => {
     });
   }
 
-  const result = await queryProcessor.processQuery(query, context);
+  const result = await queryProcessor.processQuery(query, queryContextFor(req, context));
   
   res.json({
     success: true,
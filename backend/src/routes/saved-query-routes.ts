@@ -0,0 +1,224 @@
+import { Router } from 'express';
+import { SavedQueryService, SavedQueryInput, SavedQueryChanges } from '../services/saved-query-service';
+import { UniversalQueryService } from '../services/universal-query-service';
+import { asyncHandler, createError } from '../middleware/error-handler';
+import { rateLimiter, strictRateLimiter } from '../middleware/rate-limiter';
+import { requireAuth, queryContextFor } from '../middleware/auth';
+
+const router = Router();
+const savedQueryService = new SavedQueryService();
+const universalQueryService = new UniversalQueryService();
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const EDITABLE_FIELDS: Array<keyof SavedQueryInput> = ['name', 'query', 'description', 'filters', 'schedule'];
+
+router.use(requireAuth);
+
+/**
+ * Validate a create/update body; returns an error message or null
+ */
+function validateSavedQuery(body: any, partial: boolean): string | null {
+  for (const field of ['name', 'query']) {
+    if (body[field] === undefined && partial) continue;
+    if (typeof body[field] !== 'string' || !body[field].trim()) {
+      return `"${field}" is required and must be a non-empty string`;
+    }
+  }
+  if (typeof body.name === 'string' && body.name.length > 255) {
+    return '"name" must be at most 255 characters';
+  }
+  if (body.shared !== undefined && typeof body.shared !== 'boolean') {
+    return '"shared" must be a boolean';
+  }
+  return null;
+}
+
+function pickEditableFields(body: any): Partial<SavedQueryInput> {
+  const fields: Partial<SavedQueryInput> = {};
+  EDITABLE_FIELDS.forEach(field => {
+    if (body[field] !== undefined) {
+      fields[field] = typeof body[field] === 'string' ? body[field].trim() : body[field];
+    }
+  });
+  return fields;
+}
+
+/**
+ * GET /api/v1/saved-queries
+ * List the caller's saved queries plus the shared library
+ */
+router.get('/', rateLimiter, asyncHandler(async (req, res) => {
+  const { q, limit = '50', page = '1' } = req.query;
+
+  const pageNum = parseInt(page as string) || 1;
+  const limitNum = Math.min(parseInt(limit as string) || 50, 100);
+
+  const { savedQueries, total } = await savedQueryService.list({
+    userId: req.userId!,
+    search: q as string | undefined,
+    limit: limitNum,
+    offset: (pageNum - 1) * limitNum
+  });
+
+  res.json({
+    success: true,
+    data: {
+      saved_queries: savedQueries,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        total_pages: Math.ceil(total / limitNum)
+      }
+    },
+    timestamp: new Date().toISOString()
+  });
+}));
+
+/**
+ * POST /api/v1/saved-queries
+ * Save a query for the caller, or with `shared: true` into the shared library
+ */
+router.post('/', rateLimiter, asyncHandler(async (req, res) => {
+  const error = validateSavedQuery(req.body, false);
+  if (error) {
+    return res.status(400).json({ error, statusCode: 400 });
+  }
+
+  const savedQuery = await savedQueryService.create({
+    ...pickEditableFields(req.body) as SavedQueryInput,
+    userId: req.body.shared ? null : req.userId!,
+    createdBy: req.userId!
+  });
+
+  res.status(201).json({
+    success: true,
+    data: savedQuery,
+    timestamp: new Date().toISOString()
+  });
+}));
+
+/**
+ * GET /api/v1/saved-queries/:id
+ * Get a saved query
+ */
+router.get('/:id', rateLimiter, asyncHandler(async (req, res) => {
+  const { id } = req.params;
+
+  if (!UUID_PATTERN.test(id)) {
+    return res.status(400).json({
+      error: 'Invalid saved query id format',
+      statusCode: 400
+    });
+  }
+
+  const savedQuery = await savedQueryService.get(id, req.userId!);
+  if (!savedQuery) {
+    throw createError('Saved query not found', 404);
+  }
+
+  res.json({
+    success: true,
+    data: savedQuery,
+    timestamp: new Date().toISOString()
+  });
+}));
+
+/**
+ * PUT /api/v1/saved-queries/:id
+ * Update any of name, query, description, filters, schedule; `shared` moves the
+ * query into or out of the shared library. Shared queries can only be changed
+ * by their creator or an admin.
+ */
+router.put('/:id', rateLimiter, asyncHandler(async (req, res) => {
+  const { id } = req.params;
+
+  if (!UUID_PATTERN.test(id)) {
+    return res.status(400).json({
+      error: 'Invalid saved query id format',
+      statusCode: 400
+    });
+  }
+
+  const error = validateSavedQuery(req.body, true);
+  if (error) {
+    return res.status(400).json({ error, statusCode: 400 });
+  }
+
+  const changes: SavedQueryChanges = { ...pickEditableFields(req.body), shared: req.body.shared };
+
+  const savedQuery = await savedQueryService.update(id, req.userId!, changes);
+  if (!savedQuery) {
+    throw createError('Saved query not found', 404);
+  }
+
+  res.json({
+    success: true,
+    data: savedQuery,
+    timestamp: new Date().toISOString()
+  });
+}));
+
+/**
+ * DELETE /api/v1/saved-queries/:id
+ * Delete a saved query; shared ones only by their creator or an admin
+ */
+router.delete('/:id', rateLimiter, asyncHandler(async (req, res) => {
+  const { id } = req.params;
+
+  if (!UUID_PATTERN.test(id)) {
+    return res.status(400).json({
+      error: 'Invalid saved query id format',
+      statusCode: 400
+    });
+  }
+
+  if (!await savedQueryService.delete(id, req.userId!)) {
+    throw createError('Saved query not found', 404);
+  }
+
+  res.json({
+    success: true,
+    data: { id, deleted: true },
+    timestamp: new Date().toISOString()
+  });
+}));
+
+/**
+ * POST /api/v1/saved-queries/:id/run
+ * Run a saved query against current data, recorded in the caller's history.
+ * Each run starts a fresh session, so the saved text is answered on its own
+ * rather than as a follow-up.
+ */
+router.post('/:id/run', strictRateLimiter, asyncHandler(async (req, res) => {
+  const { id } = req.params;
+
+  if (!UUID_PATTERN.test(id)) {
+    return res.status(400).json({
+      error: 'Invalid saved query id format',
+      statusCode: 400
+    });
+  }
+
+  const savedQuery = await savedQueryService.get(id, req.userId!);
+  if (!savedQuery) {
+    throw createError('Saved query not found', 404);
+  }
+
+  const result = await universalQueryService.run(
+    savedQuery.query,
+    queryContextFor(req, { preferences: savedQuery.filters })
+  );
+  await savedQueryService.markRun(id);
+
+  res.json({
+    success: true,
+    data: {
+      ...result,
+      saved_query: { id: savedQuery.id, name: savedQuery.name }
+    },
+    timestamp: new Date().toISOString()
+  });
+}));
+
+export default router;
@@ -0,0 +1,156 @@
+import { Router } from 'express';
+import { SECEdgarClient } from '../services/sec-edgar-client';
+import {
+  FramesScreener,
+  getFramesScreener,
+  isValidFramePeriod,
+  parseScreenCriteria,
+  ScreenCondition,
+  ScreenCriteria,
+  ScreenOperator
+} from '../../../lib/frames-screener';
+import { getStandardMetric } from '../../../lib/xbrl-concepts';
+import { asyncHandler, createError } from '../middleware/error-handler';
+import { rateLimiter, strictRateLimiter } from '../middleware/rate-limiter';
+
+const router = Router();
+
+const OPERATORS: ScreenOperator[] = ['gt', 'gte', 'lt', 'lte', 'between'];
+const STATE_PATTERN = /^[A-Z][A-Z0-9]$/i;
+const SIC_PATTERN = /^\d{1,4}$/;
+const MAX_CONDITIONS = 5;
+const MAX_LIMIT = 500;
+
+// Frames come through the shared EDGAR client unless FRAMES_SOURCE=snapshot
+const screener = process.env.FRAMES_SOURCE === 'snapshot'
+  ? getFramesScreener()
+  : new FramesScreener(new SECEdgarClient());
+
+/**
+ * Validate a screen request body; returns an error message or null
+ */
+function validateCriteria(body: any): string | null {
+  const { period, conditions = [], sic, stateOfIncorporation, sortBy, include, order, limit } = body;
+
+  if (typeof period !== 'string' || !isValidFramePeriod(period)) {
+    return '"period" must be a calendar period such as CY2023 or CY2023Q4';
+  }
+
+  if (!Array.isArray(conditions) || conditions.length > MAX_CONDITIONS) {
+    return `"conditions" must be an array of at most ${MAX_CONDITIONS} conditions`;
+  }
+
+  for (const condition of conditions as ScreenCondition[]) {
+    if (!condition || typeof condition.metric !== 'string' || !getStandardMetric(condition.metric)) {
+      return `Unknown metric: ${condition?.metric}`;
+    }
+    if (!OPERATORS.includes(condition.operator)) {
+      return `Operator must be one of: ${OPERATORS.join(', ')}`;
+    }
+    if (typeof condition.value !== 'number' || !isFinite(condition.value)) {
+      return '"value" must be a number in USD';
+    }
+    if (condition.operator === 'between' && (typeof condition.max !== 'number' || condition.max < condition.value)) {
+      return '"between" conditions need a numeric "max" no lower than "value"';
+    }
+  }
+
+  if (sortBy !== undefined && (typeof sortBy !== 'string' || !getStandardMetric(sortBy))) {
+    return `Unknown metric: ${sortBy}`;
+  }
+
+  if (include !== undefined
+    && (!Array.isArray(include) || include.some((metric: any) => typeof metric !== 'string' || !getStandardMetric(metric)))) {
+    return '"include" must be an array of known metrics';
+  }
+
+  if (conditions.length === 0 && !sortBy) {
+    return 'At least one condition or "sortBy" is required';
+  }
+
+  if (order !== undefined && order !== 'asc' && order !== 'desc') {
+    return '"order" must be asc or desc';
+  }
+
+  if (sic !== undefined && (!Array.isArray(sic) || sic.some((code: any) => typeof code !== 'string' || !SIC_PATTERN.test(code)))) {
+    return '"sic" must be an array of SIC codes or prefixes';
+  }
+
+  if (stateOfIncorporation !== undefined
+    && (!Array.isArray(stateOfIncorporation) || stateOfIncorporation.some((state: any) => typeof state !== 'string' || !STATE_PATTERN.test(state)))) {
+    return '"stateOfIncorporation" must be an array of two-letter state codes';
+  }
+
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT)) {
+    return `"limit" must be an integer from 1 to ${MAX_LIMIT}`;
+  }
+
+  return null;
+}
+
+/**
+ * GET /api/v1/screener
+ * Screen from a question: ?q=companies with revenue over $10B and negative net income in CY2023
+ */
+router.get('/', rateLimiter, asyncHandler(async (req, res) => {
+  const { q } = req.query;
+
+  if (!q || !(q as string).trim()) {
+    return res.status(400).json({
+      error: 'Query parameter "q" is required',
+      statusCode: 400
+    });
+  }
+
+  const criteria = parseScreenCriteria(q as string);
+  if (!criteria) {
+    throw createError('No metric conditions or ranking found in the question', 422);
+  }
+
+  const result = await screener.screen(criteria);
+
+  res.json({
+    success: true,
+    data: result,
+    timestamp: new Date().toISOString()
+  });
+}));
+
+/**
+ * POST /api/v1/screener
+ * Screen all filers on XBRL frames:
+ * { period, conditions: [{ metric, operator, value, max? }], sic?, stateOfIncorporation?, sortBy?, include?, order?, limit? }.
+ * SIC and state filters look up each candidate's submissions, so they are rate limited more strictly.
+ */
+router.post('/', strictRateLimiter, asyncHandler(async (req, res) => {
+  const body = req.body || {};
+
+  const error = validateCriteria(body);
+  if (error) {
+    return res.status(400).json({
+      error,
+      statusCode: 400
+    });
+  }
+
+  const criteria: ScreenCriteria = {
+    period: body.period.toUpperCase(),
+    conditions: body.conditions || [],
+    sic: body.sic,
+    stateOfIncorporation: body.stateOfIncorporation?.map((state: string) => state.toUpperCase()),
+    sortBy: body.sortBy,
+    include: body.include,
+    order: body.order,
+    limit: body.limit
+  };
+
+  const result = await screener.screen(criteria);
+
+  res.json({
+    success: true,
+    data: result,
+    timestamp: new Date().toISOString()
+  });
+}));
+
+export default router;
@@ -0,0 +1,242 @@
+import { Router } from 'express';
+import { WatchlistService, WatchlistInput } from '../services/watchlist-service';
+import { getWatchlistPoller } from '../services/watchlist-poller';
+import { checkWebhookUrl } from '../services/webhook-target';
+import { asyncHandler, createError } from '../middleware/error-handler';
+import { rateLimiter, strictRateLimiter } from '../middleware/rate-limiter';
+import { requireAuth } from '../middleware/auth';
+
+const router = Router();
+const watchlistService = new WatchlistService();
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_WATCHLIST_CIKS = 200;
+const EDITABLE_FIELDS: Array<keyof WatchlistInput> = ['name', 'ciks', 'forms', 'webhookUrl', 'active'];
+
+router.use(requireAuth);
+
+/**
+ * Validate a create/update body; returns an error message or null
+ */
+function validateWatchlist(body: any, partial: boolean): string | null {
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== 'string' || !body.name.trim() || body.name.length > 255) {
+      return '"name" is required and must be at most 255 characters';
+    }
+  }
+  if (body.ciks !== undefined || !partial) {
+    if (!Array.isArray(body.ciks) || body.ciks.length === 0 || body.ciks.length > MAX_WATCHLIST_CIKS) {
+      return `"ciks" must be a list of 1 to ${MAX_WATCHLIST_CIKS} CIKs`;
+    }
+    if (body.ciks.some((cik: any) => !/^\d{1,10}$/.test(String(cik).trim()))) {
+      return 'CIKs must be 1-10 digits';
+    }
+  }
+  if (body.forms !== undefined) {
+    if (!Array.isArray(body.forms) || body.forms.some((form: any) => typeof form !== 'string' || form.length > 20)) {
+      return '"forms" must be a list of form types, e.g. ["8-K", "4"]';
+    }
+  }
+  if (body.webhookUrl !== undefined && body.webhookUrl !== null) {
+    if (typeof body.webhookUrl !== 'string' || !/^https?:\/\/\S+$/i.test(body.webhookUrl) || body.webhookUrl.length > 2048) {
+      return '"webhookUrl" must be an http(s) URL or null';
+    }
+  }
+  if (body.active !== undefined && typeof body.active !== 'boolean') {
+    return '"active" must be a boolean';
+  }
+  return null;
+}
+
+/**
+ * Check that a webhook URL can be delivered to: the host must resolve to
+ * public addresses only. Returns an error message or null.
+ */
+async function validateWebhookTarget(webhookUrl: unknown): Promise<string | null> {
+  if (typeof webhookUrl !== 'string') return null;
+  return checkWebhookUrl(webhookUrl.trim());
+}
+
+function pickEditableFields(body: any): Partial<WatchlistInput> {
+  const fields: Partial<WatchlistInput> = {};
+  EDITABLE_FIELDS.forEach(field => {
+    if (body[field] !== undefined) {
+      fields[field] = typeof body[field] === 'string' ? body[field].trim() : body[field];
+    }
+  });
+  return fields;
+}
+
+/**
+ * GET /api/v1/watchlists
+ * List the caller's watchlists
+ */
+router.get('/', rateLimiter, asyncHandler(async (req, res) => {
+  const watchlists = await watchlistService.list(req.userId!);
+
+  res.json({
+    success: true,
+    data: { watchlists },
+    timestamp: new Date().toISOString()
+  });
+}));
+
+/**
+ * POST /api/v1/watchlists
+ * Watch CIKs for new filings of the given forms (all forms when omitted).
+ * Filings already on EDGAR when the watchlist is created do not raise alerts.
+ * The response includes webhookSecret, which verifies X-Edgar-Signature on
+ * this watchlist's webhooks and is not shown again.
+ */
+router.post('/', rateLimiter, asyncHandler(async (req, res) => {
+  const error = validateWatchlist(req.body, false) || await validateWebhookTarget(req.body.webhookUrl);
+  if (error) {
+    return res.status(400).json({ error, statusCode: 400 });
+  }
+
+  const watchlist = await watchlistService.create(req.userId!, pickEditableFields(req.body) as WatchlistInput);
+
+  res.status(201).json({
+    success: true,
+    data: watchlist,
+    timestamp: new Date().toISOString()
+  });
+}));
+
+/**
+ * GET /api/v1/watchlists/:id
+ * Get a watchlist
+ */
+router.get('/:id', rateLimiter, asyncHandler(async (req, res) => {
+  const { id } = req.params;
+
+  if (!UUID_PATTERN.test(id)) {
+    return res.status(400).json({
+      error: 'Invalid watchlist id format',
+      statusCode: 400
+    });
+  }
+
+  const watchlist = await watchlistService.get(id, req.userId!);
+  if (!watchlist) {
+    throw createError('Watchlist not found', 404);
+  }
+
+  res.json({
+    success: true,
+    data: watchlist,
+    timestamp: new Date().toISOString()
+  });
+}));
+
+/**
+ * PUT /api/v1/watchlists/:id
+ * Update any of name, ciks, forms, webhookUrl, active
+ */
+router.put('/:id', rateLimiter, asyncHandler(async (req, res) => {
+  const { id } = req.params;
+
+  if (!UUID_PATTERN.test(id)) {
+    return res.status(400).json({
+      error: 'Invalid watchlist id format',
+      statusCode: 400
+    });
+  }
+
+  const error = validateWatchlist(req.body, true) || await validateWebhookTarget(req.body.webhookUrl);
+  if (error) {
+    return res.status(400).json({ error, statusCode: 400 });
+  }
+
+  const watchlist = await watchlistService.update(id, req.userId!, pickEditableFields(req.body));
+  if (!watchlist) {
+    throw createError('Watchlist not found', 404);
+  }
+
+  res.json({
+    success: true,
+    data: watchlist,
+    timestamp: new Date().toISOString()
+  });
+}));
+
+/**
+ * DELETE /api/v1/watchlists/:id
+ * Delete a watchlist and its alerts
+ */
+router.delete('/:id', rateLimiter, asyncHandler(async (req, res) => {
+  const { id } = req.params;
+
+  if (!UUID_PATTERN.test(id)) {
+    return res.status(400).json({
+      error: 'Invalid watchlist id format',
+      statusCode: 400
+    });
+  }
+
+  if (!await watchlistService.delete(id, req.userId!)) {
+    throw createError('Watchlist not found', 404);
+  }
+
+  res.json({
+    success: true,
+    data: { id, deleted: true },
+    timestamp: new Date().toISOString()
+  });
+}));
+
+/**
+ * POST /api/v1/watchlists/:id/webhook-secret
+ * Replace the webhook signing secret; the new one is returned once
+ */
+router.post('/:id/webhook-secret', strictRateLimiter, asyncHandler(async (req, res) => {
+  const { id } = req.params;
+
+  if (!UUID_PATTERN.test(id)) {
+    return res.status(400).json({
+      error: 'Invalid watchlist id format',
+      statusCode: 400
+    });
+  }
+
+  const webhookSecret = await watchlistService.rotateWebhookSecret(id, req.userId!);
+  if (!webhookSecret) {
+    throw createError('Watchlist not found', 404);
+  }
+
+  res.json({
+    success: true,
+    data: { id, webhookSecret },
+    timestamp: new Date().toISOString()
+  });
+}));
+
+/**
+ * POST /api/v1/watchlists/:id/poll
+ * Check a watchlist's companies for new filings now rather than on the next scheduled poll
+ */
+router.post('/:id/poll', strictRateLimiter, asyncHandler(async (req, res) => {
+  const { id } = req.params;
+
+  if (!UUID_PATTERN.test(id)) {
+    return res.status(400).json({
+      error: 'Invalid watchlist id format',
+      statusCode: 400
+    });
+  }
+
+  const watchlist = await watchlistService.get(id, req.userId!);
+  if (!watchlist) {
+    throw createError('Watchlist not found', 404);
+  }
+
+  const stats = await getWatchlistPoller().pollOnce([watchlist]);
+
+  res.json({
+    success: true,
+    data: stats,
+    timestamp: new Date().toISOString()
+  });
+}));
+
+export default router;
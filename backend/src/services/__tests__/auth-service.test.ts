@@ -0,0 +1,44 @@
+import { AuthService } from '../auth-service';
+
+const row = { id: 'token-1', userId: 'user-1', revokedAt: null as Date | null, expiresAt: new Date(Date.now() + 60_000) };
+const refreshTokens = {
+  // Each request reads the row before either has revoked it
+  findOne: jest.fn(async () => ({ ...row, user: { id: 'user-1', email: 'ada@example.com' } })),
+  update: jest.fn(async (where: any, changes: any) => {
+    if (where.id && row.revokedAt) return { affected: 0 };
+    row.revokedAt = changes.revokedAt;
+    return { affected: 1 };
+  }),
+  create: jest.fn((values: unknown) => values),
+  save: jest.fn(async (values: unknown) => values)
+};
+
+jest.mock('../../database/data-source', () => ({
+  AppDataSource: {
+    isInitialized: true,
+    getRepository: () => refreshTokens
+  }
+}));
+
+describe('AuthService.refresh', () => {
+  beforeAll(() => {
+    process.env.JWT_SECRET = 'test-secret';
+  });
+
+  afterAll(() => {
+    delete process.env.JWT_SECRET;
+  });
+
+  it('issues one token pair when the same refresh token is presented twice at once', async () => {
+    const service = new AuthService();
+    const results = await Promise.allSettled([service.refresh('token'), service.refresh('token')]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(results.find(result => result.status === 'rejected')).toMatchObject({
+      reason: { statusCode: 401, message: 'Refresh token has already been used' }
+    });
+    expect(refreshTokens.save).toHaveBeenCalledTimes(1);
+    // The losing request revokes every session of the user
+    expect(refreshTokens.update).toHaveBeenLastCalledWith(expect.objectContaining({ userId: 'user-1' }), expect.anything());
+  });
+});
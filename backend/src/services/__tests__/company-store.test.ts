@@ -0,0 +1,45 @@
+import { In } from 'typeorm';
+import { CompanyStore } from '../company-store';
+import { Company } from '../../models/Company';
+
+const companies = {
+  findOneBy: jest.fn(async ({ cik }: any) => ({ cik, name: 'Acme Widget Corp' }))
+};
+const financialData = {
+  find: jest.fn(async () => [
+    { cik: '0001234567', concept: 'us-gaap:Revenues', value: '400.00', unit: 'USD', periodStart: '2022-10-01', periodEnd: '2023-09-30', accessionNumber: '0001234567-23-000040', fiscalYear: 2023, fiscalPeriod: 'FY', formType: '10-K', filedDate: '2023-11-03' },
+    { cik: '0001234567', concept: 'us-gaap:Revenues', value: '380.00', unit: 'USD', periodStart: '2021-10-01', periodEnd: '2022-09-30', accessionNumber: '0001234567-22-000038', fiscalYear: 2022, fiscalPeriod: 'FY', formType: '10-K', filedDate: '2022-11-04' }
+  ])
+};
+
+jest.mock('../../database/data-source', () => ({
+  AppDataSource: {
+    isInitialized: true,
+    getRepository: (entity: unknown) => entity === Company ? companies : financialData
+  }
+}));
+
+describe('CompanyStore.getFinancialData', () => {
+  const store = new CompanyStore();
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('reads only the rows of a standard metric\'s concept chain', async () => {
+    const data = await store.getFinancialData('0001234567', 'Revenues');
+
+    const { where } = (financialData.find.mock.calls[0] as any[])[0];
+    expect(where.cik).toBe('0001234567');
+    expect(where.concept).toEqual(In(expect.arrayContaining(['us-gaap:Revenues', 'us-gaap:RevenueFromContractWithCustomerExcludingAssessedTax'])));
+    expect(data?.map(point => [point.fiscalYear, point.fiscalPeriod, point.value, point.concept])).toEqual([
+      [2023, 'FY', 400, 'Revenues'],
+      [2022, 'FY', 380, 'Revenues']
+    ]);
+  });
+
+  it('reads only the named concept for anything else', async () => {
+    await store.getFinancialData('0001234567', 'EntityCommonStockSharesOutstanding', 'dei');
+
+    const { where } = (financialData.find.mock.calls[0] as any[])[0];
+    expect(where.concept).toEqual(In(['dei:EntityCommonStockSharesOutstanding']));
+  });
+});
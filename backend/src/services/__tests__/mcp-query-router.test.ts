@@ -0,0 +1,115 @@
+import { MCPQueryRouter } from '../mcp-query-router';
+import { CANONICAL_INTENTS, CanonicalIntent } from '../../../../lib/query-taxonomy';
+
+// Planning never reaches the MCP server, and its client is published as ESM only
+jest.mock('../edgar-mcp-client', () => ({ EdgarMCPClient: jest.fn() }));
+
+const APPLE = { name: 'Apple Inc.', cik: '0000320193', ticker: 'AAPL' };
+const MICROSOFT = { name: 'Microsoft Corp', cik: '0000789019', ticker: 'MSFT' };
+
+type RoutedQuery = Parameters<MCPQueryRouter['routeQuery']>[0];
+
+function query(intent: string, overrides: Partial<RoutedQuery['entities']> = {}, canonical = true): RoutedQuery {
+  const entities = {
+    companies: [APPLE, MICROSOFT],
+    concepts: [],
+    metrics: [{ metric: 'Revenue' }],
+    filingTypes: [],
+    timeRanges: [],
+    ...overrides
+  };
+  return {
+    originalQuery: 'How is Apple doing?',
+    intent: { primary: intent, secondary: [] },
+    entities,
+    scope: { dataTypes: [], granularity: 'summary' },
+    confidence: 0.9,
+    canonical: canonical ? {
+      originalQuery: 'How is Apple doing?',
+      intent: intent as CanonicalIntent,
+      secondary: [],
+      frequency: 'annual',
+      entities: { companies: [], metrics: [], periods: [], filingTypes: [], sectors: ['Semiconductors'], concepts: [] },
+      confidence: 0.9
+    } : undefined
+  };
+}
+
+// Tools each intent plans for Apple and Microsoft with a revenue metric
+const EXPECTED_TOOLS: Record<CanonicalIntent, string[]> = {
+  company_overview: ['company_search', 'get_company_submissions', 'company_search', 'get_company_submissions'],
+  company_officers: ['company_search', 'get_company_submissions', 'company_search', 'get_company_submissions'],
+  financial_metrics: ['get_company_facts', 'get_company_concept', 'get_company_facts', 'get_company_concept'],
+  trend_analysis: ['get_company_facts', 'get_company_concept', 'get_company_facts', 'get_company_concept'],
+  comparison: ['compare_financial_metrics'],
+  peer_analysis: [
+    'get_company_facts', 'get_company_concept', 'get_company_submissions',
+    'get_company_facts', 'get_company_concept', 'get_company_submissions',
+    'compare_financial_metrics'
+  ],
+  sector_analysis: ['company_search', 'get_company_submissions', 'company_search', 'get_company_submissions'],
+  filing_lookup: ['search_filings'],
+  content_search: ['search_filing_text'],
+  insider_activity: ['get_insider_transactions', 'get_insider_transactions'],
+  risk_analysis: ['search_filing_text', 'search_filings', 'search_filings'],
+  regulatory_analysis: ['search_filing_text', 'search_filings', 'search_filings'],
+  relationship_analysis: [
+    'company_search', 'get_company_submissions', 'company_search', 'get_company_submissions', 'search_filing_text'
+  ],
+  pattern_analysis: [
+    'get_company_facts', 'get_company_concept', 'search_filings',
+    'get_company_facts', 'get_company_concept', 'search_filings'
+  ],
+  predictive_analysis: [
+    'get_company_facts', 'get_company_concept', 'get_company_facts', 'get_company_concept', 'search_filing_text'
+  ],
+  meta_analysis: ['get_company_submissions', 'search_filings', 'get_company_submissions', 'search_filings'],
+  unknown: ['company_search', 'company_search']
+};
+
+describe('MCPQueryRouter', () => {
+  const router = new MCPQueryRouter();
+  const plan = (routed: RoutedQuery) => router['planToolCalls'](routed);
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe.each(CANONICAL_INTENTS.map(intent => [intent]))('%s', intent => {
+    it('is the routed intent, from the canonical query or the primary intent name', () => {
+      expect(router['canonicalIntent'](query(intent))).toBe(intent);
+      expect(router['canonicalIntent'](query(intent, {}, false))).toBe(intent);
+    });
+
+    it('plans its own tool calls', () => {
+      expect(plan(query(intent)).map(call => call.name)).toEqual(EXPECTED_TOOLS[intent]);
+    });
+  });
+
+  it('resolves aliases from older parsers before planning', () => {
+    expect(router['canonicalIntent'](query('revenue_analysis', {}, false))).toBe('financial_metrics');
+    expect(router['canonicalIntent'](query('market_analysis', {}, false))).toBe('sector_analysis');
+  });
+
+  it('limits risk searches to 10-Ks and 10-Qs unless a form is named', () => {
+    const [search] = plan(query('risk_analysis'));
+    expect(search.arguments).toMatchObject({ forms: ['10-K', '10-Q'], ciks: [APPLE.cik, MICROSOFT.cik] });
+
+    const [named] = plan(query('risk_analysis', { filingTypes: [{ formType: '20-F' }] }));
+    expect(named.arguments.forms).toEqual(['20-F']);
+  });
+
+  it('looks a sector up by name when no company is named', () => {
+    const calls = plan(query('sector_analysis', { companies: [] }));
+    expect(calls).toEqual([{ name: 'company_search', arguments: { query: 'Semiconductors' } }]);
+  });
+
+  it('searches recent 8-Ks for regulatory matters', () => {
+    const calls = plan(query('regulatory_analysis', { companies: [APPLE] }));
+    expect(calls[1]).toEqual({ name: 'search_filings', arguments: { cik: APPLE.cik, formType: '8-K' } });
+  });
+});
@@ -0,0 +1,54 @@
+import { SavedQueryService } from '../saved-query-service';
+import { SavedQuery } from '../../models/SavedQuery';
+import { User } from '../../models/User';
+
+const roles: Record<string, string> = { creator: 'user', other: 'user', admin: 'admin' };
+const savedQueries = {
+  save: jest.fn(async (savedQuery: SavedQuery) => savedQuery),
+  delete: jest.fn(async () => ({ affected: 1 }))
+};
+const users = {
+  findOne: jest.fn(async ({ where }: any) => ({ id: where.id, role: roles[where.id] }))
+};
+
+jest.mock('../../database/data-source', () => ({
+  AppDataSource: {
+    isInitialized: true,
+    getRepository: (entity: unknown) => entity === User ? users : savedQueries
+  }
+}));
+
+describe('SavedQueryService shared queries', () => {
+  const service = new SavedQueryService();
+  const shared = (): SavedQuery => Object.assign(new SavedQuery(), {
+    id: 'query-1',
+    userId: null,
+    createdBy: 'creator',
+    name: 'Big tech revenue',
+    query: 'Compare Apple and Microsoft revenue'
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(service, 'get').mockImplementation(async () => shared());
+  });
+
+  it('rejects edits, deletes and un-sharing by other users', async () => {
+    await expect(service.update('query-1', 'other', { name: 'Mine now' })).rejects.toMatchObject({ statusCode: 403 });
+    await expect(service.update('query-1', 'other', { shared: false })).rejects.toMatchObject({ statusCode: 403 });
+    await expect(service.delete('query-1', 'other')).rejects.toMatchObject({ statusCode: 403 });
+    expect(savedQueries.save).not.toHaveBeenCalled();
+    expect(savedQueries.delete).not.toHaveBeenCalled();
+  });
+
+  it('lets the creator edit and un-share', async () => {
+    const updated = await service.update('query-1', 'creator', { name: 'Renamed', shared: false });
+    expect(updated).toMatchObject({ name: 'Renamed', userId: 'creator' });
+  });
+
+  it('lets an admin delete, and returns un-shared queries to their creator', async () => {
+    expect(await service.update('query-1', 'admin', { shared: false })).toMatchObject({ userId: 'creator' });
+    expect(await service.delete('query-1', 'admin')).toBe(true);
+    expect(savedQueries.delete).toHaveBeenCalledWith({ id: 'query-1' });
+  });
+});
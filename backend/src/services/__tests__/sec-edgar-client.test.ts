@@ -0,0 +1,50 @@
+import { CompanyFacts, SECEdgarClient } from '../sec-edgar-client';
+
+const fact = (start: string, end: string, val: number, form: string, filed: string, fy: number, fp: string) =>
+  ({ start, end, val, form, filed, fy, fp, accn: `0000000000-${filed.slice(2, 4)}-${filed.slice(5, 7)}${filed.slice(8)}` });
+
+// A fiscal year ending in September: 10-Qs report the quarter and the year to
+// date, and each 10-K repeats the prior year as a comparative
+const facts: CompanyFacts = {
+  cik: '0000320193',
+  entityName: 'Apple Inc.',
+  facts: {
+    'us-gaap': {
+      RevenueFromContractWithCustomerExcludingAssessedTax: {
+        label: 'Revenue',
+        description: '',
+        units: {
+          USD: [
+            fact('2021-09-26', '2022-09-24', 380, '10-K', '2022-10-28', 2022, 'FY'),
+            fact('2022-09-25', '2022-12-31', 100, '10-Q', '2023-02-03', 2023, 'Q1'),
+            fact('2022-09-25', '2023-04-01', 190, '10-Q', '2023-05-05', 2023, 'Q2'),
+            fact('2023-01-01', '2023-04-01', 90, '10-Q', '2023-05-05', 2023, 'Q2'),
+            fact('2022-09-25', '2023-07-01', 290, '10-Q', '2023-08-04', 2023, 'Q3'),
+            fact('2021-09-26', '2022-09-24', 380, '10-K', '2023-11-03', 2023, 'FY'),
+            fact('2022-09-25', '2023-09-30', 400, '10-K', '2023-11-03', 2023, 'FY')
+          ]
+        }
+      }
+    }
+  }
+};
+
+describe('SECEdgarClient.getFinancialDataFromFacts', () => {
+  const data = SECEdgarClient.getFinancialDataFromFacts(facts, 'Revenues')!;
+
+  it('keeps one value per fiscal year, newest first', () => {
+    const annual = data.filter(item => item.fiscalPeriod === 'FY');
+    expect(annual.map(item => [item.label, item.value])).toEqual([['FY2023', 400], ['FY2022', 380]]);
+    expect(annual[0].concept).toBe('RevenueFromContractWithCustomerExcludingAssessedTax');
+  });
+
+  it('returns discrete quarters, deriving Q3 from year to date and Q4 from the fiscal year', () => {
+    const quarters = data.filter(item => item.fiscalPeriod !== 'FY');
+    expect(quarters.map(item => [item.label, item.value, item.derived])).toEqual([
+      ['Q4 FY2023', 110, true],
+      ['Q3 FY2023', 100, true],
+      ['Q2 FY2023', 90, false],
+      ['Q1 FY2023', 100, false]
+    ]);
+  });
+});
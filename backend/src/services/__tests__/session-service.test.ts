@@ -0,0 +1,38 @@
+import { CacheService } from '../cache-service';
+import { SessionService } from '../session-service';
+import { createConversationTurn } from '../../../../lib/conversation-context';
+
+// In-memory stand-in for Redis
+const memoryCache = () => {
+  const entries = new Map<string, any>();
+  return {
+    get: async (key: string) => entries.get(key) ?? null,
+    set: async (key: string, value: any) => { entries.set(key, JSON.parse(JSON.stringify(value))); },
+    delete: async (key: string) => { entries.delete(key); }
+  } as unknown as CacheService;
+};
+
+describe('SessionService', () => {
+  const turn = createConversationTurn("What was Apple's revenue in 2023?");
+
+  it('keeps each caller to their own session under a shared id', async () => {
+    const sessions = new SessionService(memoryCache());
+    await sessions.recordTurn('session-1', 'user-a', turn);
+
+    expect(await sessions.getTurns('session-1', 'user-a')).toHaveLength(1);
+    expect(await sessions.getTurns('session-1', 'user-b')).toEqual([]);
+    expect(await sessions.getTurns('session-1', undefined)).toEqual([]);
+  });
+
+  it('does not let another caller continue or clear a session', async () => {
+    const sessions = new SessionService(memoryCache());
+    await sessions.recordTurn('session-1', 'user-a', turn);
+    await sessions.recordTurn('session-1', 'user-b', turn);
+    await sessions.clearSession('session-1', 'user-b');
+
+    const owned = await sessions.getSession('session-1', 'user-a');
+    expect(owned?.userId).toBe('user-a');
+    expect(owned?.turns).toHaveLength(1);
+    expect(await sessions.getSession('session-1', 'user-b')).toBeNull();
+  });
+});
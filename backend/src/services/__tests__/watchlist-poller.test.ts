@@ -0,0 +1,44 @@
+import axios from 'axios';
+import { createHmac } from 'crypto';
+import { WatchlistPoller } from '../watchlist-poller';
+import { WatchlistService } from '../watchlist-service';
+import { SECEdgarClient } from '../sec-edgar-client';
+import { Watchlist } from '../../models/Watchlist';
+import { FilingAlert } from '../../models/FilingAlert';
+
+jest.mock('axios');
+
+const SECRETS: Record<string, string> = { 'watchlist-a': 'secret-a', 'watchlist-b': 'secret-b' };
+
+describe('WatchlistPoller webhooks', () => {
+  const service = { getWebhookSecret: jest.fn(async (id: string) => SECRETS[id] || null) } as unknown as WatchlistService;
+  const poller = new WatchlistPoller({} as SECEdgarClient, service);
+  const alerts = [{ id: 'alert-1', cik: '0000320193', form: '8-K', accessionNumber: '0000320193-24-000001' }] as FilingAlert[];
+  const watchlist = (id: string) => ({ id, name: id, webhookUrl: 'http://localhost:8081/mock/webhook' }) as Watchlist;
+  const deliver = (target: Watchlist): Promise<string | undefined> => poller['deliverWebhook'](target, alerts);
+
+  beforeAll(() => {
+    process.env.WATCHLIST_WEBHOOK_ALLOW_PRIVATE = 'true';
+  });
+
+  afterAll(() => {
+    delete process.env.WATCHLIST_WEBHOOK_ALLOW_PRIVATE;
+  });
+
+  beforeEach(() => {
+    (axios.post as jest.Mock).mockReset().mockResolvedValue({ status: 200 });
+  });
+
+  it("signs each watchlist's deliveries with its own secret", async () => {
+    for (const id of ['watchlist-a', 'watchlist-b']) {
+      expect(await deliver(watchlist(id))).toBeUndefined();
+      const [, body, { headers }] = (axios.post as jest.Mock).mock.calls.pop();
+      expect(headers['X-Edgar-Signature']).toBe(`sha256=${createHmac('sha256', SECRETS[id]).update(body).digest('hex')}`);
+    }
+  });
+
+  it('does not deliver for a watchlist without a secret', async () => {
+    expect(await deliver(watchlist('watchlist-c'))).toMatch(/no signing secret/);
+    expect(axios.post).not.toHaveBeenCalled();
+  });
+});
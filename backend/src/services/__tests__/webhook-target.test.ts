@@ -0,0 +1,21 @@
+import { checkWebhookUrl, isPublicAddress } from '../webhook-target';
+
+describe('webhook targets', () => {
+  it('classifies loopback, private, link-local and mapped addresses as non-public', () => {
+    ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+      '::1', '::', 'fe80::1', 'fd00::1', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe'].forEach(address => {
+      expect(isPublicAddress(address)).toBe(false);
+    });
+    ['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111'].forEach(address => {
+      expect(isPublicAddress(address)).toBe(true);
+    });
+  });
+
+  it('refuses URLs whose host is or resolves to an internal address', async () => {
+    expect(await checkWebhookUrl('http://169.254.169.254/latest/meta-data/')).toMatch(/non-public/);
+    expect(await checkWebhookUrl('http://[::1]:8080/hook')).toMatch(/non-public/);
+    expect(await checkWebhookUrl('http://localhost:3000/hook')).toMatch(/non-public/);
+    expect(await checkWebhookUrl('ftp://example.com/hook')).toMatch(/http or https/);
+    expect(await checkWebhookUrl('https://93.184.216.34/hook')).toBeNull();
+  });
+});
@@ -0,0 +1,276 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { IsNull } from 'typeorm';
+import { AppDataSource } from '../database/data-source';
+import { User, UserRole } from '../models/User';
+import { ApiKey } from '../models/ApiKey';
+import { RefreshToken } from '../models/RefreshToken';
+import { createError } from '../middleware/error-handler';
+
+const BCRYPT_ROUNDS = 12;
+const MIN_PASSWORD_LENGTH = 8;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const API_KEY_PREFIX = 'edgar_';
+const DEFAULT_ACCESS_TOKEN_TTL = '15m';
+const DEFAULT_REFRESH_TOKEN_TTL_DAYS = 30;
+
+export interface PublicUser {
+  id: string;
+  email: string;
+  name?: string;
+  preferences?: any;
+  role: UserRole;
+  createdAt: Date;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: 'Bearer';
+  expiresIn: string;
+}
+
+export interface ApiKeySummary {
+  id: string;
+  name: string;
+  prefix: string;
+  lastUsedAt?: Date | null;
+  revokedAt?: Date | null;
+  createdAt: Date;
+}
+
+interface AccessTokenPayload {
+  sub: string;
+  email: string;
+}
+
+/**
+ * Password accounts, JWT access tokens with rotating refresh tokens, and
+ * per-user API keys. Refresh tokens and API keys are stored only as SHA-256
+ * hashes; the plaintext is returned once, when issued.
+ */
+export class AuthService {
+  /**
+   * Create an account and sign it in
+   */
+  async register(email: string, password: string, name?: string): Promise<{ user: PublicUser; tokens: AuthTokens }> {
+    const normalizedEmail = AuthService.normalizeEmail(email);
+    if (!EMAIL_PATTERN.test(normalizedEmail)) {
+      throw createError('A valid email address is required', 400);
+    }
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      throw createError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`, 400);
+    }
+
+    const users = this.repository(User);
+    if (await users.findOneBy({ email: normalizedEmail })) {
+      throw createError('An account with this email already exists', 409);
+    }
+
+    const user = await users.save(users.create({
+      email: normalizedEmail,
+      passwordHash: await bcrypt.hash(password, BCRYPT_ROUNDS),
+      name: name?.trim() || undefined
+    }));
+
+    return { user: AuthService.toPublicUser(user), tokens: await this.issueTokens(user) };
+  }
+
+  /**
+   * Check a password and issue tokens
+   */
+  async login(email: string, password: string): Promise<{ user: PublicUser; tokens: AuthTokens }> {
+    const user = await this.repository(User).findOneBy({ email: AuthService.normalizeEmail(email) });
+
+    // Same error for unknown email and wrong password
+    if (!user || typeof password !== 'string' || !await bcrypt.compare(password, user.passwordHash)) {
+      throw createError('Invalid email or password', 401);
+    }
+
+    return { user: AuthService.toPublicUser(user), tokens: await this.issueTokens(user) };
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair. Each refresh token works once;
+   * presenting a used one revokes every session of that user, since it means the
+   * token was copied.
+   */
+  async refresh(refreshToken: string): Promise<AuthTokens> {
+    const tokens = this.repository(RefreshToken);
+    const stored = await tokens.findOne({
+      where: { tokenHash: AuthService.hash(refreshToken) },
+      relations: ['user']
+    });
+
+    if (!stored || !stored.user) {
+      throw createError('Invalid refresh token', 401);
+    }
+    if (stored.revokedAt) {
+      return this.rejectReuse(stored);
+    }
+    if (stored.expiresAt.getTime() < Date.now()) {
+      throw createError('Refresh token has expired', 401);
+    }
+
+    // Revoke only if still unrevoked: of two requests presenting the token at
+    // once, one wins and the other counts as reuse
+    const claimed = await tokens.update({ id: stored.id, revokedAt: IsNull() }, { revokedAt: new Date() });
+    if (!claimed.affected) {
+      return this.rejectReuse(stored);
+    }
+
+    return this.issueTokens(stored.user);
+  }
+
+  /**
+   * Revoke a refresh token. Unknown tokens are ignored.
+   */
+  async logout(refreshToken: string): Promise<void> {
+    await this.repository(RefreshToken).update(
+      { tokenHash: AuthService.hash(refreshToken), revokedAt: IsNull() },
+      { revokedAt: new Date() }
+    );
+  }
+
+  /**
+   * Verify an access token and return the user id it was issued to
+   */
+  verifyAccessToken(token: string): string {
+    try {
+      const payload = jwt.verify(token, AuthService.jwtSecret()) as AccessTokenPayload;
+      return payload.sub;
+    } catch (error: any) {
+      throw createError(error?.name === 'TokenExpiredError' ? 'Access token has expired' : 'Invalid access token', 401);
+    }
+  }
+
+  /**
+   * Resolve an API key to its user id, recording its use
+   */
+  async authenticateApiKey(key: string): Promise<string> {
+    const keys = this.repository(ApiKey);
+    const apiKey = await keys.findOneBy({ keyHash: AuthService.hash(key), revokedAt: IsNull() });
+    if (!apiKey) {
+      throw createError('Invalid API key', 401);
+    }
+
+    await keys.update({ id: apiKey.id }, { lastUsedAt: new Date() });
+    return apiKey.userId;
+  }
+
+  /**
+   * Get a user's profile
+   */
+  async getUser(userId: string): Promise<PublicUser | null> {
+    const user = await this.repository(User).findOneBy({ id: userId });
+    return user ? AuthService.toPublicUser(user) : null;
+  }
+
+  /**
+   * Create an API key. The returned key is not stored and cannot be shown again.
+   */
+  async createApiKey(userId: string, name: string): Promise<{ key: string; apiKey: ApiKeySummary }> {
+    const key = `${API_KEY_PREFIX}${crypto.randomBytes(24).toString('base64url')}`;
+    const keys = this.repository(ApiKey);
+    const apiKey = await keys.save(keys.create({
+      userId,
+      name,
+      prefix: key.substring(0, API_KEY_PREFIX.length + 6),
+      keyHash: AuthService.hash(key)
+    }));
+
+    return { key, apiKey: AuthService.toApiKeySummary(apiKey) };
+  }
+
+  /**
+   * List a user's API keys, including revoked ones
+   */
+  async listApiKeys(userId: string): Promise<ApiKeySummary[]> {
+    const keys = await this.repository(ApiKey).find({ where: { userId }, order: { createdAt: 'DESC' } });
+    return keys.map(AuthService.toApiKeySummary);
+  }
+
+  /**
+   * Revoke one of a user's API keys; false if the user has no such key
+   */
+  async revokeApiKey(userId: string, id: string): Promise<boolean> {
+    const result = await this.repository(ApiKey).update({ id, userId, revokedAt: IsNull() }, { revokedAt: new Date() });
+    return (result.affected || 0) > 0;
+  }
+
+  /**
+   * Whether a credential looks like an API key rather than a JWT
+   */
+  static isApiKey(credential: string): boolean {
+    return credential.startsWith(API_KEY_PREFIX);
+  }
+
+  // A used refresh token was presented again, so it was copied: end every session of its user
+  private async rejectReuse(stored: RefreshToken): Promise<never> {
+    await this.repository(RefreshToken).update({ userId: stored.userId, revokedAt: IsNull() }, { revokedAt: new Date() });
+    throw createError('Refresh token has already been used', 401);
+  }
+
+  private async issueTokens(user: User): Promise<AuthTokens> {
+    const expiresIn = process.env.JWT_EXPIRES_IN || DEFAULT_ACCESS_TOKEN_TTL;
+    const payload: AccessTokenPayload = { sub: user.id, email: user.email };
+    const accessToken = jwt.sign(payload, AuthService.jwtSecret(), { expiresIn } as SignOptions);
+
+    const refreshToken = crypto.randomBytes(48).toString('base64url');
+    const ttlDays = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '') || DEFAULT_REFRESH_TOKEN_TTL_DAYS;
+    const tokens = this.repository(RefreshToken);
+    await tokens.save(tokens.create({
+      userId: user.id,
+      tokenHash: AuthService.hash(refreshToken),
+      expiresAt: new Date(Date.now() + ttlDays * 24 * 60 * 60 * 1000)
+    }));
+
+    return { accessToken, refreshToken, tokenType: 'Bearer', expiresIn };
+  }
+
+  private repository<T extends User | ApiKey | RefreshToken>(entity: new () => T) {
+    if (!AppDataSource.isInitialized) {
+      throw createError('Authentication requires the database, which is unavailable', 503);
+    }
+    return AppDataSource.getRepository<T>(entity);
+  }
+
+  private static jwtSecret(): string {
+    const secret = process.env.JWT_SECRET;
+    if (!secret) {
+      throw createError('JWT_SECRET is not configured', 500);
+    }
+    return secret;
+  }
+
+  private static hash(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+  }
+
+  private static normalizeEmail(email: string): string {
+    return typeof email === 'string' ? email.trim().toLowerCase() : '';
+  }
+
+  private static toPublicUser(user: User): PublicUser {
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      preferences: user.preferences,
+      role: user.role,
+      createdAt: user.createdAt
+    };
+  }
+
+  private static toApiKeySummary(apiKey: ApiKey): ApiKeySummary {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      lastUsedAt: apiKey.lastUsedAt,
+      revokedAt: apiKey.revokedAt,
+      createdAt: apiKey.createdAt
+    };
+  }
+}
@@ -159,6 +159,9 @@ export const CacheKeys = {
   companyProfile: (cik: string) => `company:profile:${cik}`,
   companyFilings: (cik: string, formType?: string) => `company:filings:${cik}:${formType || 'all'}`,
   companyFacts: (cik: string) => `company:facts:${cik}`,
+  filingIndex: (cik: string, accessionNumber: string, primaryDocument?: string) =>
+    `filing:index:${cik}:${accessionNumber}:${primaryDocument || 'default'}`,
+  peerBenchmarks: (cik: string, period: string) => `company:peers:${cik}:${period}`,
   
   // Financial data cache keys
   financialData: (cik: string, concept: string, period?: string) => 
@@ -172,12 +175,16 @@ export const CacheKeys = {
   
   // SEC API response cache keys
   secApiResponse: (endpoint: string) => `sec:api:${endpoint.replace(/\//g, ':')}`,
+
+  // Conversation session keys, scoped to the caller so ids cannot be shared across users
+  session: (sessionId: string, userId?: string) => `session:${userId || 'anonymous'}:${sessionId}`,
 };
 
 export const CacheTTL = {
   // Real-time data (minimal caching)
   RECENT_FILINGS: 300,        // 5 minutes
   QUERY_RESULTS: 600,         // 10 minutes
+  SESSIONS: 1800,             // 30 minutes since the last turn
   
   // Semi-static data (moderate caching)
   COMPANY_PROFILES: 3600,     // 1 hour
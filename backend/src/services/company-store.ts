@@ -0,0 +1,145 @@
+import { In } from 'typeorm';
+import { AppDataSource } from '../database/data-source';
+import { Company } from '../models/Company';
+import { Filing } from '../models/Filing';
+import { FinancialData } from '../models/FinancialData';
+import { CompanyFacts, FinancialDataPoint, SECEdgarClient } from './sec-edgar-client';
+import { formatDateColumn } from './ingestion-service';
+import { getStandardMetric } from '../../../lib/xbrl-concepts';
+
+/**
+ * Read side of the ingestion pipeline: serves company data already loaded into
+ * Postgres in the same shapes SECEdgarClient returns. Every method returns null
+ * when the database is unavailable or the company has not been ingested, so
+ * callers can fall back to the live SEC API.
+ */
+export class CompanyStore {
+  /**
+   * Whether the database connection is up
+   */
+  isAvailable(): boolean {
+    return AppDataSource.isInitialized;
+  }
+
+  /**
+   * Get company information, matching SECEdgarClient.getCompanyInfo
+   */
+  async getCompanyInfo(cik: string): Promise<{
+    cik: string;
+    name: string;
+    ticker?: string;
+    sic?: string;
+    industry?: string;
+    exchange?: string;
+  } | null> {
+    const company = await this.run(() => AppDataSource.getRepository(Company).findOneBy({ cik }));
+    if (!company) return null;
+
+    return {
+      cik: company.cik,
+      name: company.name,
+      ticker: company.ticker || undefined,
+      sic: company.sic || undefined,
+      industry: company.industry || undefined,
+      exchange: company.exchange || undefined
+    };
+  }
+
+  /**
+   * Get a company's filings, newest first, matching SECEdgarClient.getRecentFilings
+   */
+  async getRecentFilings(cik: string, limit: number = 10, form?: string): Promise<any[] | null> {
+    const filings = await this.run(async () => {
+      const query = AppDataSource.getRepository(Filing)
+        .createQueryBuilder('filing')
+        .where('filing.cik = :cik', { cik })
+        .orderBy('filing.filingDate', 'DESC')
+        .addOrderBy('filing.accessionNumber', 'DESC')
+        .limit(limit);
+
+      if (form) {
+        query.andWhere('LOWER(filing.formType) LIKE :form', { form: `%${form.toLowerCase()}%` });
+      }
+
+      return query.getMany();
+    });
+    if (!filings || filings.length === 0) return null;
+
+    return filings.map(filing => ({
+      accessionNumber: filing.accessionNumber,
+      filingDate: formatDateColumn(filing.filingDate),
+      reportDate: formatDateColumn(filing.periodEndDate),
+      form: filing.formType,
+      size: filing.fileSize !== undefined && filing.fileSize !== null ? Number(filing.fileSize) : undefined,
+      isXBRL: filing.xbrlAvailable,
+      primaryDocument: filing.documentUrl?.split('/').pop(),
+      url: filing.documentUrl,
+      processed: filing.processed
+    }));
+  }
+
+  /**
+   * Rebuild the companyfacts document from stored facts. Concept labels and
+   * descriptions are not stored, so the concept name stands in for both.
+   */
+  async getCompanyFacts(cik: string): Promise<CompanyFacts | null> {
+    return this.loadFacts(cik);
+  }
+
+  /**
+   * Get one concept's normalized values, matching SECEdgarClient.getFinancialData.
+   * Only the rows of the concept (or a standard metric's fallback chain) are read.
+   */
+  async getFinancialData(cik: string, concept: string, taxonomy: string = 'us-gaap'): Promise<FinancialDataPoint[] | null> {
+    const tags = getStandardMetric(concept)?.tags.map(tag => `${tag.taxonomy}:${tag.tag}`) || [];
+    const facts = await this.loadFacts(cik, [...tags, `${taxonomy}:${concept}`]);
+    return facts ? SECEdgarClient.getFinancialDataFromFacts(facts, concept, taxonomy) : null;
+  }
+
+  // Stored facts in companyfacts shape, optionally limited to "taxonomy:Concept" names
+  private async loadFacts(cik: string, concepts?: string[]): Promise<CompanyFacts | null> {
+    const [company, rows] = await this.run(() => Promise.all([
+      AppDataSource.getRepository(Company).findOneBy({ cik }),
+      AppDataSource.getRepository(FinancialData).find({
+        where: concepts ? { cik, concept: In(concepts) } : { cik },
+        order: { periodEnd: 'ASC' }
+      })
+    ])) || [null, []];
+    if (!company || rows.length === 0) return null;
+
+    const facts: CompanyFacts['facts'] = {};
+    for (const row of rows) {
+      const [taxonomy, concept] = row.concept.split(':');
+      const unit = row.unit || 'pure';
+
+      facts[taxonomy] = facts[taxonomy] || {};
+      facts[taxonomy][concept] = facts[taxonomy][concept] || { label: concept, description: concept, units: {} };
+      facts[taxonomy][concept].units[unit] = facts[taxonomy][concept].units[unit] || [];
+      facts[taxonomy][concept].units[unit].push({
+        start: row.periodStart ? formatDateColumn(row.periodStart) : undefined,
+        end: formatDateColumn(row.periodEnd),
+        // Decimal columns come back as strings
+        val: Number(row.value),
+        accn: row.accessionNumber,
+        fy: row.fiscalYear as number,
+        fp: row.fiscalPeriod as string,
+        form: row.formType as string,
+        filed: formatDateColumn(row.filedDate),
+        frame: row.frame || undefined
+      });
+    }
+
+    return { cik: String(parseInt(cik, 10)), entityName: company.name, facts };
+  }
+
+  private async run<T>(operation: () => Promise<T>): Promise<T | null> {
+    if (!this.isAvailable()) return null;
+
+    try {
+      return await operation();
+    } catch (error) {
+      console.error('Company store query failed, falling back to SEC API:', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,398 @@
+import { DataSource, In } from 'typeorm';
+import { AppDataSource } from '../database/data-source';
+import { Company } from '../models/Company';
+import { Filing } from '../models/Filing';
+import { FinancialData } from '../models/FinancialData';
+import { SECEdgarClient, CompanySubmissions, CompanyFacts } from './sec-edgar-client';
+import { ZipArchiveReader, ZipEntry } from './zip-archive-reader';
+import { buildArchivesUrl } from '../../../lib/edgar-filing-index';
+import { FilingFullTextIndex, getFullTextIndex } from '../../../lib/filing-fulltext-index';
+import { FilingSectionParser } from '../../../lib/universal/filing-section-parser';
+
+type FilingColumns = CompanySubmissions['filings']['recent'];
+
+export interface IngestionStats {
+  companies: number;
+  filingsAdded: number;
+  filingsProcessed: number;
+  factsLoaded: number;
+  factsSkipped: number; // Facts whose filing is not in the filings table
+  filingsIndexed: number; // Primary documents added to the full-text index
+  errors: Array<{ cik: string; error: string }>;
+}
+
+export interface ArchiveIngestionOptions {
+  ciks?: string[]; // Restrict a bulk archive to these companies
+  onProgress?: (processed: number, total: number) => void;
+  fullTextFilings?: number; // Latest 10-K/10-Q documents per company to fetch and index; none by default for archives
+}
+
+// Forms whose primary document is split into items and indexed for full-text search
+const FULL_TEXT_FORMS = ['10-K', '10-K/A', '10-Q', '10-Q/A'];
+const DEFAULT_FULL_TEXT_FILINGS = parseInt(process.env.FULLTEXT_INGEST_FILINGS || '8', 10);
+
+// Rows per INSERT; Postgres allows at most 65535 bind parameters per statement
+const INSERT_BATCH_SIZE = 1000;
+
+/**
+ * Loads companies, filings and XBRL facts into Postgres, either live from the SEC
+ * API for a list of CIKs or from the EDGAR bulk submissions.zip / companyfacts.zip.
+ *
+ * Loading is incremental: filings already in the table are left alone, and a
+ * filing's facts are only written while Filing.processed is false. Load
+ * submissions before company facts, since facts are attached to their filing.
+ * The latest 10-K and 10-Q documents of each company are also split into
+ * items and added to the full-text index behind /api/v1/filings/fulltext.
+ */
+export class IngestionService {
+  private sectionParser = new FilingSectionParser();
+
+  constructor(
+    private dataSource: DataSource = AppDataSource,
+    private secClient: SECEdgarClient = new SECEdgarClient(),
+    private fullTextIndex: FilingFullTextIndex = getFullTextIndex()
+  ) {}
+
+  /**
+   * Ingest companies live from the SEC API
+   */
+  async ingestCiks(ciks: string[], fullTextFilings: number = DEFAULT_FULL_TEXT_FILINGS): Promise<IngestionStats> {
+    const stats = this.emptyStats();
+
+    for (const cik of ciks) {
+      const formattedCik = SECEdgarClient.formatCIK(cik);
+      try {
+        const submissions = await this.secClient.getCompanySubmissions(formattedCik);
+        const pages = await Promise.all(
+          (submissions.filings.files || []).map((file: any) => this.secClient.getSubmissionsPage(file.name))
+        );
+        this.addStats(stats, await this.loadSubmissions(submissions, pages));
+
+        let facts: CompanyFacts | null = null;
+        try {
+          facts = await this.secClient.getCompanyFacts(formattedCik);
+        } catch (error: any) {
+          // Companies that have never filed XBRL have no companyfacts document
+          console.warn(`No company facts for CIK ${formattedCik}: ${error.message}`);
+        }
+        if (facts) {
+          this.addStats(stats, await this.loadCompanyFacts(facts));
+        }
+        this.addStats(stats, await this.indexFilingText(formattedCik, fullTextFilings));
+      } catch (error: any) {
+        console.error(`Ingestion failed for CIK ${formattedCik}:`, error);
+        stats.errors.push({ cik: formattedCik, error: error.message || 'Unknown error' });
+      }
+    }
+
+    this.fullTextIndex.flush();
+    return stats;
+  }
+
+  /**
+   * Ingest companies and filings from the bulk submissions.zip.
+   * Each company has CIK##########.json plus optional -submissions-NNN.json pages of older filings.
+   */
+  async ingestSubmissionsArchive(filePath: string, options: ArchiveIngestionOptions = {}): Promise<IngestionStats> {
+    const stats = this.emptyStats();
+    const archive = await ZipArchiveReader.open(filePath);
+
+    try {
+      const entries = new Map(archive.entries().map(entry => [entry.name, entry]));
+      const companies = this.selectCompanyEntries(archive.entries(), options.ciks);
+
+      for (let i = 0; i < companies.length; i++) {
+        const { cik, entry } = companies[i];
+        try {
+          const submissions = await archive.readJson<CompanySubmissions>(entry);
+          const pages: FilingColumns[] = [];
+          for (const file of submissions.filings?.files || []) {
+            const page = entries.get(file.name);
+            if (page) pages.push(await archive.readJson<FilingColumns>(page));
+          }
+          this.addStats(stats, await this.loadSubmissions(submissions, pages));
+          this.addStats(stats, await this.indexFilingText(cik, options.fullTextFilings || 0));
+        } catch (error: any) {
+          console.error(`Failed to ingest submissions for CIK ${cik}:`, error);
+          stats.errors.push({ cik, error: error.message || 'Unknown error' });
+        }
+        options.onProgress?.(i + 1, companies.length);
+      }
+    } finally {
+      await archive.close();
+      this.fullTextIndex.flush();
+    }
+
+    return stats;
+  }
+
+  /**
+   * Ingest XBRL facts from the bulk companyfacts.zip
+   */
+  async ingestCompanyFactsArchive(filePath: string, options: ArchiveIngestionOptions = {}): Promise<IngestionStats> {
+    const stats = this.emptyStats();
+    const archive = await ZipArchiveReader.open(filePath);
+
+    try {
+      const companies = this.selectCompanyEntries(archive.entries(), options.ciks);
+
+      for (let i = 0; i < companies.length; i++) {
+        const { cik, entry } = companies[i];
+        try {
+          this.addStats(stats, await this.loadCompanyFacts(await archive.readJson<CompanyFacts>(entry)));
+        } catch (error: any) {
+          console.error(`Failed to ingest company facts for CIK ${cik}:`, error);
+          stats.errors.push({ cik, error: error.message || 'Unknown error' });
+        }
+        options.onProgress?.(i + 1, companies.length);
+      }
+    } finally {
+      await archive.close();
+    }
+
+    return stats;
+  }
+
+  /**
+   * Upsert the company and insert any filings not already stored
+   */
+  async loadSubmissions(submissions: CompanySubmissions, pages: FilingColumns[] = []): Promise<Partial<IngestionStats>> {
+    const cik = SECEdgarClient.formatCIK(String(submissions.cik));
+
+    await this.dataSource.getRepository(Company).upsert({
+      cik,
+      name: submissions.name.substring(0, 255),
+      ticker: submissions.tickers?.[0]?.substring(0, 10),
+      sic: submissions.sic ? submissions.sic.substring(0, 4) : undefined,
+      industry: submissions.sicDescription || undefined,
+      exchange: submissions.exchanges?.[0] || undefined,
+      description: submissions.description || undefined
+    }, ['cik']);
+
+    const filingRepository = this.dataSource.getRepository(Filing);
+    const existing = new Set(
+      (await filingRepository.find({ select: { accessionNumber: true }, where: { cik } }))
+        .map(filing => filing.accessionNumber)
+    );
+
+    const rows: Partial<Filing>[] = [];
+    for (const columns of [submissions.filings.recent, ...pages]) {
+      for (let i = 0; i < (columns?.accessionNumber?.length || 0); i++) {
+        const accessionNumber = columns.accessionNumber[i];
+        if (existing.has(accessionNumber)) continue;
+        existing.add(accessionNumber);
+
+        const xbrlAvailable = columns.isXBRL?.[i] === 1;
+        rows.push({
+          accessionNumber,
+          cik,
+          // A handful of rare form names exceed the column width
+          formType: columns.form[i].substring(0, 10),
+          filingDate: toDateColumn(columns.filingDate[i])!,
+          periodEndDate: toDateColumn(columns.reportDate?.[i]),
+          fileSize: columns.size?.[i],
+          documentUrl: columns.primaryDocument?.[i]
+            ? buildArchivesUrl(cik, accessionNumber, columns.primaryDocument[i])
+            : undefined,
+          xbrlAvailable,
+          // Filings without XBRL have no facts to load
+          processed: !xbrlAvailable,
+          processedAt: xbrlAvailable ? undefined : new Date()
+        });
+      }
+    }
+
+    for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+      await filingRepository
+        .createQueryBuilder()
+        .insert()
+        .into(Filing)
+        .values(rows.slice(i, i + INSERT_BATCH_SIZE))
+        .orIgnore()
+        .execute();
+    }
+
+    console.log(`Loaded submissions for CIK ${cik}: ${rows.length} new filings`);
+    return { companies: 1, filingsAdded: rows.length };
+  }
+
+  /**
+   * Write the facts of every unprocessed filing and mark those filings processed
+   */
+  async loadCompanyFacts(facts: CompanyFacts): Promise<Partial<IngestionStats>> {
+    const cik = SECEdgarClient.formatCIK(String(facts.cik));
+
+    // Facts can arrive before submissions; the company row is required either way
+    await this.dataSource
+      .createQueryBuilder()
+      .insert()
+      .into(Company)
+      .values({ cik, name: (facts.entityName || cik).substring(0, 255) })
+      .orIgnore()
+      .execute();
+
+    const filings = await this.dataSource.getRepository(Filing).find({
+      select: { accessionNumber: true, processed: true, filingDate: true },
+      where: { cik }
+    });
+    const pending = new Set(filings.filter(filing => !filing.processed).map(filing => filing.accessionNumber));
+    const known = new Set(filings.map(filing => filing.accessionNumber));
+
+    const rowsByFiling = new Map<string, Partial<FinancialData>[]>();
+    let factsSkipped = 0;
+    let latestFiled = '';
+
+    for (const [taxonomy, concepts] of Object.entries(facts.facts || {})) {
+      for (const [concept, data] of Object.entries(concepts)) {
+        for (const [unit, values] of Object.entries(data.units || {})) {
+          for (const value of values) {
+            if (value.filed > latestFiled) latestFiled = value.filed;
+            if (!known.has(value.accn)) {
+              factsSkipped++;
+              continue;
+            }
+            if (!pending.has(value.accn)) continue;
+
+            if (!rowsByFiling.has(value.accn)) rowsByFiling.set(value.accn, []);
+            rowsByFiling.get(value.accn)!.push({
+              accessionNumber: value.accn,
+              cik,
+              concept: `${taxonomy}:${concept}`.substring(0, 100),
+              value: value.val,
+              unit: unit.substring(0, 20),
+              periodStart: toDateColumn(value.start),
+              periodEnd: toDateColumn(value.end),
+              periodEndDate: toDateColumn(value.end),
+              instantDate: value.start ? undefined : toDateColumn(value.end),
+              formType: value.form?.substring(0, 10),
+              fiscalYear: value.fy ?? undefined,
+              fiscalPeriod: value.fp ?? undefined,
+              filedDate: toDateColumn(value.filed),
+              frame: value.frame
+            });
+          }
+        }
+      }
+    }
+
+    let factsLoaded = 0;
+    for (const [accessionNumber, rows] of rowsByFiling) {
+      // One transaction per filing, so an interrupted run resumes at the first unprocessed filing
+      await this.dataSource.transaction(async manager => {
+        await manager.delete(FinancialData, { accessionNumber });
+        for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+          await manager.insert(FinancialData, rows.slice(i, i + INSERT_BATCH_SIZE));
+        }
+        await manager.update(Filing, { accessionNumber }, { processed: true, processedAt: new Date() });
+      });
+      factsLoaded += rows.length;
+    }
+
+    // XBRL filings with no company-level facts (e.g. cover-page-only 8-Ks) are done once the snapshot covers their date
+    const empty = filings
+      .filter(filing => pending.has(filing.accessionNumber) && !rowsByFiling.has(filing.accessionNumber))
+      .filter(filing => latestFiled && formatDateColumn(filing.filingDate) <= latestFiled)
+      .map(filing => filing.accessionNumber);
+    for (let i = 0; i < empty.length; i += INSERT_BATCH_SIZE) {
+      await this.dataSource.getRepository(Filing).update(
+        { accessionNumber: In(empty.slice(i, i + INSERT_BATCH_SIZE)) },
+        { processed: true, processedAt: new Date() }
+      );
+    }
+
+    console.log(`Loaded company facts for CIK ${cik}: ${factsLoaded} facts across ${rowsByFiling.size} filings`);
+    return { filingsProcessed: rowsByFiling.size + empty.length, factsLoaded, factsSkipped };
+  }
+
+  /**
+   * Fetch the latest stored 10-K/10-Q primary documents of a company that are
+   * not yet in the full-text index, split them into items and index them.
+   * A document that fails to download is retried on the next run.
+   */
+  async indexFilingText(cik: string, limit: number): Promise<Partial<IngestionStats>> {
+    if (limit <= 0) return {};
+
+    const company = await this.dataSource.getRepository(Company).findOne({ where: { cik } });
+    const filings = await this.dataSource.getRepository(Filing).find({
+      where: { cik, formType: In(FULL_TEXT_FORMS) },
+      order: { filingDate: 'DESC' },
+      take: limit
+    });
+
+    let filingsIndexed = 0;
+    for (const filing of filings) {
+      if (!filing.documentUrl || this.fullTextIndex.has(filing.accessionNumber)) continue;
+
+      try {
+        const parsed = this.sectionParser.parse(await this.secClient.getFilingDocument(filing.documentUrl), filing.formType);
+        this.fullTextIndex.addFiling({
+          accessionNumber: filing.accessionNumber,
+          cik,
+          companyName: company?.name || cik,
+          ticker: company?.ticker || undefined,
+          formType: filing.formType,
+          filingDate: formatDateColumn(filing.filingDate),
+          reportDate: formatDateColumn(filing.periodEndDate) || undefined,
+          url: filing.documentUrl,
+          sections: parsed.sections.length > 0
+            ? parsed.sections.map(section => ({
+              key: section.part ? `${section.part}:${section.item}` : section.item,
+              title: section.title,
+              text: section.text
+            }))
+            : [{ key: 'document', title: filing.formType, text: parsed.text }]
+        });
+        filingsIndexed++;
+      } catch (error: any) {
+        console.warn(`Could not index ${filing.formType} ${filing.accessionNumber} for CIK ${cik}: ${error.message}`);
+      }
+    }
+
+    if (filingsIndexed > 0) {
+      console.log(`Indexed ${filingsIndexed} filing documents for CIK ${cik}`);
+    }
+    return { filingsIndexed };
+  }
+
+  // Company documents are named CIK##########.json; submissions pages carry a suffix and are read with their company
+  private selectCompanyEntries(entries: ZipEntry[], ciks?: string[]): Array<{ cik: string; entry: ZipEntry }> {
+    const wanted = ciks && ciks.length > 0 ? new Set(ciks.map(cik => SECEdgarClient.formatCIK(cik))) : null;
+
+    return entries
+      .map(entry => ({ match: entry.name.match(/^CIK(\d{10})\.json$/), entry }))
+      .filter(({ match }) => match && (!wanted || wanted.has(match[1])))
+      .map(({ match, entry }) => ({ cik: match![1], entry }));
+  }
+
+  private emptyStats(): IngestionStats {
+    return { companies: 0, filingsAdded: 0, filingsProcessed: 0, factsLoaded: 0, factsSkipped: 0, filingsIndexed: 0, errors: [] };
+  }
+
+  private addStats(stats: IngestionStats, delta: Partial<IngestionStats>): void {
+    stats.companies += delta.companies || 0;
+    stats.filingsAdded += delta.filingsAdded || 0;
+    stats.filingsProcessed += delta.filingsProcessed || 0;
+    stats.factsLoaded += delta.factsLoaded || 0;
+    stats.factsSkipped += delta.factsSkipped || 0;
+    stats.filingsIndexed += delta.filingsIndexed || 0;
+  }
+}
+
+/**
+ * Convert an EDGAR YYYY-MM-DD string for a TypeORM date column.
+ * Local midnight keeps the calendar day when TypeORM formats the value in local time.
+ */
+export function toDateColumn(value?: string | null): Date | undefined {
+  return value ? new Date(`${value}T00:00:00`) : undefined;
+}
+
+/**
+ * TypeORM hydrates date columns as YYYY-MM-DD strings despite the Date typing
+ */
+export function formatDateColumn(value?: Date | string | null): string {
+  if (!value) return '';
+  if (typeof value === 'string') return value.substring(0, 10);
+  const month = String(value.getMonth() + 1).padStart(2, '0');
+  const day = String(value.getDate()).padStart(2, '0');
+  return `${value.getFullYear()}-${month}-${day}`;
+}
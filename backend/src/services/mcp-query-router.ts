@@ -1,8 +1,21 @@
 // MCP Query Router - Routes queries to appropriate MCP tools
 import { EdgarMCPClient, MCPToolCall } from './edgar-mcp-client';
 import { createError } from '../middleware/error-handler';
+import { getFullTextIndex, extractSearchPhrase, FullTextQuery, FullTextSearchResult } from '../../../lib/filing-fulltext-index';
+import { fetchInsiderActivity } from '../../../lib/universal/insider-transactions';
+import { getCompanyDirectory } from '../../../lib/company-directory';
+import { CanonicalIntent, CanonicalQuery, resolveIntent } from '../../../lib/query-taxonomy';
+
+// Tool calls served in-process instead of by the MCP server
+const LOCAL_TOOLS = ['search_filing_text', 'get_insider_transactions'];
 
 // Define simplified types to avoid complex imports
+interface QueryCompany {
+  name: string;
+  cik?: string;
+  ticker?: string;
+}
+
 interface UniversalQuery {
   originalQuery: string;
   intent: {
@@ -10,7 +23,7 @@ interface UniversalQuery {
     secondary: string[];
   };
   entities: {
-    companies: Array<{ name: string; cik?: string; ticker?: string }>;
+    companies: QueryCompany[];
     concepts: Array<{ concept: string }>;
     metrics: Array<{ metric: string }>;
     filingTypes: Array<{ formType: string }>;
@@ -21,6 +34,7 @@ interface UniversalQuery {
     granularity: string;
   };
   confidence: number;
+  canonical?: CanonicalQuery;
 }
 
 export interface MCPQueryResult {
@@ -80,7 +94,7 @@ export class MCPQueryRouter {
 
   private planToolCalls(query: UniversalQuery): MCPToolCall[] {
     const toolCalls: MCPToolCall[] = [];
-    const intent = query.intent.primary;
+    const intent = this.canonicalIntent(query);
     const companies = query.entities.companies;
     const concepts = query.entities.concepts;
     const metrics = query.entities.metrics;
@@ -89,131 +103,63 @@ export class MCPQueryRouter {
     console.log('Planning tool calls for intent:', intent);
 
     switch (intent) {
-      case 'company_information':
-      case 'business_overview':
-      case 'company_lookup':
+      case 'company_overview':
+      case 'company_officers':
         // Get company profile and basic information
         companies.forEach(company => {
-          toolCalls.push({
-            name: 'company_search',
-            arguments: { query: company.name || company.ticker }
-          });
-          
-          if (company.cik || this.shouldGetSubmissions(query)) {
-            toolCalls.push({
-              name: 'get_company_submissions',
-              arguments: { cik: company.cik || company.name }
-            });
-          }
+          toolCalls.push(...this.profileCalls(company, !!company.cik || this.shouldGetSubmissions(query)));
         });
         break;
 
       case 'financial_metrics':
-      case 'revenue_analysis':
-      case 'profitability_analysis':
-      case 'revenue_query':
-      case 'profit_query':
+      case 'trend_analysis':
         // Get financial data
         companies.forEach(company => {
-          // First get company info if we don't have CIK
-          if (!company.cik) {
-            toolCalls.push({
-              name: 'company_search',
-              arguments: { query: company.name || company.ticker }
-            });
-          }
-
-          // Get financial facts
-          toolCalls.push({
-            name: 'get_company_facts',
-            arguments: { cik: company.cik || company.name }
-          });
-
-          // Get specific concepts if mentioned
-          concepts.forEach(concept => {
-            if (this.isFinancialConcept(concept.concept)) {
-              toolCalls.push({
-                name: 'get_company_concept',
-                arguments: {
-                  cik: company.cik || company.name,
-                  taxonomy: 'us-gaap',
-                  concept: this.mapConceptToUSGAAP(concept.concept)
-                }
-              });
-            }
-          });
-
-          // Get specific metrics if mentioned
-          metrics.forEach(metric => {
-            toolCalls.push({
-              name: 'get_company_concept',
-              arguments: {
-                cik: company.cik || company.name,
-                taxonomy: 'us-gaap',
-                concept: this.mapMetricToUSGAAP(metric.metric)
-              }
-            });
-          });
+          toolCalls.push(...this.financialCalls(company, concepts, metrics));
         });
         break;
 
-      case 'filing_search':
-      case 'document_analysis':
-      case 'sec_filings':
+      case 'filing_lookup':
         // Search for filings
-        const filingParams: any = {};
-        
-        if (companies.length > 0) {
-          filingParams.cik = companies[0].cik || companies[0].name;
-        }
-
-        if (filingTypes.length > 0) {
-          filingParams.formType = filingTypes[0].formType;
-        }
+        toolCalls.push(this.filingSearchCall(query, companies[0]));
+        break;
 
-        if (query.entities.timeRanges.length > 0) {
-          const timeRange = query.entities.timeRanges[0];
-          // Convert time range to dates
-          const dateRange = this.parseTimeRange(timeRange);
-          if (dateRange.from) filingParams.dateFrom = dateRange.from;
-          if (dateRange.to) filingParams.dateTo = dateRange.to;
+      case 'comparison':
+        // Compare multiple companies
+        if (companies.length > 1) {
+          toolCalls.push(this.comparisonCall(companies, metrics));
         }
+        break;
 
-        toolCalls.push({
-          name: 'search_filings',
-          arguments: filingParams
+      case 'peer_analysis':
+        // The submissions carry the SIC code peers are chosen by; the facts are the baseline they are measured against
+        companies.forEach(company => {
+          toolCalls.push(...this.financialCalls(company, concepts, metrics));
+          toolCalls.push({
+            name: 'get_company_submissions',
+            arguments: { cik: company.cik || company.name }
+          });
         });
+        if (companies.length > 1) {
+          toolCalls.push(this.comparisonCall(companies, metrics));
+        }
         break;
 
-      case 'comparative_analysis':
-      case 'company_comparison':
-        // Compare multiple companies
-        if (companies.length > 1) {
-          const companyIdentifiers = companies.map(c => c.cik || c.name);
-          
-          if (metrics.length > 0) {
-            toolCalls.push({
-              name: 'compare_financial_metrics',
-              arguments: {
-                companies: companyIdentifiers,
-                concept: this.mapMetricToUSGAAP(metrics[0].metric)
-              }
-            });
-          } else {
-            // Default to revenue comparison
+      case 'sector_analysis':
+        // Named companies give their industry through their submissions; otherwise look the sector up by name
+        if (companies.length > 0) {
+          companies.forEach(company => toolCalls.push(...this.profileCalls(company, true)));
+        } else {
+          (query.canonical?.entities.sectors || []).forEach(sector => {
             toolCalls.push({
-              name: 'compare_financial_metrics',
-              arguments: {
-                companies: companyIdentifiers,
-                concept: 'Revenues'
-              }
+              name: 'company_search',
+              arguments: { query: sector }
             });
-          }
+          });
         }
         break;
 
-      case 'insider_trading':
-      case 'insider_analysis':
+      case 'insider_activity':
         // Analyze insider trading
         companies.forEach(company => {
           toolCalls.push({
@@ -223,8 +169,10 @@ export class MCPQueryRouter {
         });
         break;
 
-      case 'document_content_search':
       case 'content_search':
+        // Search the text of filings already ingested locally
+        toolCalls.push(this.filingTextCall(query));
+
         // Extract document content
         if (query.entities.filingTypes.length > 0 && companies.length > 0) {
           // First search for filings, then extract content
@@ -239,6 +187,63 @@ export class MCPQueryRouter {
         }
         break;
 
+      case 'risk_analysis':
+        // Risk factors are Item 1A of the 10-K, updated in 10-Qs
+        toolCalls.push(this.filingTextCall(query, ['10-K', '10-Q']));
+        companies.forEach(company => {
+          toolCalls.push({
+            name: 'search_filings',
+            arguments: { cik: company.cik || company.name, formType: '10-K', limit: 1 }
+          });
+        });
+        break;
+
+      case 'regulatory_analysis':
+        // Regulatory matters are disclosed in periodic reports and, as they happen, in 8-Ks
+        toolCalls.push(this.filingTextCall(query, ['10-K', '10-Q', '8-K']));
+        companies.forEach(company => {
+          toolCalls.push(this.filingSearchCall(query, company, '8-K'));
+        });
+        break;
+
+      case 'relationship_analysis':
+        // Customers, suppliers and partners are named in filing text, not in the financial data
+        companies.forEach(company => toolCalls.push(...this.profileCalls(company, true)));
+        toolCalls.push(this.filingTextCall(query));
+        break;
+
+      case 'pattern_analysis':
+        // Patterns are read from the full fact history and the filing record over the period asked about
+        companies.forEach(company => {
+          toolCalls.push(...this.financialCalls(company, concepts, metrics));
+          toolCalls.push(this.filingSearchCall(query, company));
+        });
+        break;
+
+      case 'predictive_analysis':
+        // Projections rest on the reported history and on management's own outlook in MD&A
+        companies.forEach(company => {
+          toolCalls.push(...this.financialCalls(company, concepts, metrics));
+        });
+        toolCalls.push(this.filingTextCall(query, ['10-K', '10-Q']));
+        break;
+
+      case 'meta_analysis':
+        // Questions about the filings themselves: what was filed, when, and how often
+        if (companies.length > 0) {
+          companies.forEach(company => {
+            toolCalls.push({
+              name: 'get_company_submissions',
+              arguments: { cik: company.cik || company.name }
+            });
+            toolCalls.push(this.filingSearchCall(query, company));
+          });
+        } else {
+          toolCalls.push(this.filingSearchCall(query));
+        }
+        break;
+
+      case 'unknown':
       default:
         // Fallback: try company search if companies are mentioned
         if (companies.length > 0) {
@@ -260,7 +265,9 @@ export class MCPQueryRouter {
 
     for (const toolCall of toolCalls) {
       try {
-        const result = await this.mcpClient.callTool(toolCall);
+        const result = LOCAL_TOOLS.includes(toolCall.name)
+          ? await this.callLocalTool(toolCall)
+          : await this.mcpClient.callTool(toolCall);
         results.push({ call: toolCall, result });
       } catch (error: any) {
         console.error(`Tool call ${toolCall.name} failed:`, error);
@@ -278,6 +285,29 @@ export class MCPQueryRouter {
     return results;
   }
 
+  // Tools answered from local data rather than the MCP server; results use the same content envelope
+  private async callLocalTool(toolCall: MCPToolCall): Promise<any> {
+    switch (toolCall.name) {
+      case 'search_filing_text': {
+        const result = getFullTextIndex().search(toolCall.arguments as FullTextQuery);
+        return { content: [{ type: 'text', text: JSON.stringify(result) }] };
+      }
+      case 'get_insider_transactions': {
+        // Parsed from the company's own Form 3/4/5 XML rather than the MCP server
+        const { cik, windowDays } = toolCall.arguments as { cik: string; windowDays?: number };
+        const resolvedCik = /^\d{1,10}$/.test(cik) ? cik : getCompanyDirectory().resolve(cik)?.company.cik;
+        if (!resolvedCik) {
+          throw new Error(`Cannot resolve company: ${cik}`);
+        }
+
+        const { transactions, activity } = await fetchInsiderActivity(resolvedCik, { windowDays });
+        return { content: [{ type: 'text', text: JSON.stringify({ cik: resolvedCik, activity, transactions }) }] };
+      }
+      default:
+        throw new Error(`Unknown local tool: ${toolCall.name}`);
+    }
+  }
+
   private synthesizeResults(results: Array<{ call: MCPToolCall; result: any }>, query: UniversalQuery): any {
     console.log('Synthesizing results from', results.length, 'tool calls');
 
@@ -287,12 +317,13 @@ export class MCPQueryRouter {
     // Build comprehensive response
     const synthesized = {
       type: 'mcp_response',
-      intent: query.intent.primary,
+      intent: this.canonicalIntent(query),
       companies: this.extractCompanyData(groupedResults),
       financialData: this.extractFinancialData(groupedResults),
       filings: this.extractFilingData(groupedResults),
       insiderTrading: this.extractInsiderTradingData(groupedResults),
       comparisons: this.extractComparisonData(groupedResults),
+      contentMatches: this.extractContentMatches(groupedResults),
       rawResults: results,
       narrative: this.generateNarrative(groupedResults, query)
     };
@@ -402,6 +433,17 @@ export class MCPQueryRouter {
     return filings;
   }
 
+  private extractContentMatches(groupedResults: Record<string, any[]>): FullTextSearchResult | undefined {
+    const textContent = groupedResults.search_filing_text?.[0]?.result?.content?.find((c: any) => c.type === 'text')?.text;
+    if (!textContent) return undefined;
+
+    try {
+      return JSON.parse(textContent);
+    } catch {
+      return undefined;
+    }
+  }
+
   private extractInsiderTradingData(groupedResults: Record<string, any[]>): any[] {
     const insiderData: any[] = [];
 
@@ -510,10 +552,129 @@ export class MCPQueryRouter {
 
   // Helper methods
 
+  // Company search, plus the submissions document when withSubmissions is set
+  private profileCalls(company: QueryCompany, withSubmissions: boolean): MCPToolCall[] {
+    const calls: MCPToolCall[] = [{
+      name: 'company_search',
+      arguments: { query: company.name || company.ticker }
+    }];
+
+    if (withSubmissions) {
+      calls.push({
+        name: 'get_company_submissions',
+        arguments: { cik: company.cik || company.name }
+      });
+    }
+    return calls;
+  }
+
+  // All facts for a company, plus each financial concept and metric the query names
+  private financialCalls(
+    company: QueryCompany,
+    concepts: UniversalQuery['entities']['concepts'],
+    metrics: UniversalQuery['entities']['metrics']
+  ): MCPToolCall[] {
+    const calls: MCPToolCall[] = [];
+
+    // First get company info if we don't have CIK
+    if (!company.cik) {
+      calls.push({
+        name: 'company_search',
+        arguments: { query: company.name || company.ticker }
+      });
+    }
+
+    calls.push({
+      name: 'get_company_facts',
+      arguments: { cik: company.cik || company.name }
+    });
+
+    concepts.forEach(concept => {
+      if (this.isFinancialConcept(concept.concept)) {
+        calls.push({
+          name: 'get_company_concept',
+          arguments: {
+            cik: company.cik || company.name,
+            taxonomy: 'us-gaap',
+            concept: this.mapConceptToUSGAAP(concept.concept)
+          }
+        });
+      }
+    });
+
+    metrics.forEach(metric => {
+      calls.push({
+        name: 'get_company_concept',
+        arguments: {
+          cik: company.cik || company.name,
+          taxonomy: 'us-gaap',
+          concept: this.mapMetricToUSGAAP(metric.metric)
+        }
+      });
+    });
+
+    return calls;
+  }
+
+  // Filings matching the query's form type (or defaultForm) and time range
+  private filingSearchCall(query: UniversalQuery, company?: QueryCompany, defaultForm?: string): MCPToolCall {
+    const filingParams: any = {};
+
+    if (company) {
+      filingParams.cik = company.cik || company.name;
+    }
+
+    const formType = query.entities.filingTypes[0]?.formType || defaultForm;
+    if (formType) {
+      filingParams.formType = formType;
+    }
+
+    if (query.entities.timeRanges.length > 0) {
+      // Convert time range to dates
+      const dateRange = this.parseTimeRange(query.entities.timeRanges[0]);
+      if (dateRange.from) filingParams.dateFrom = dateRange.from;
+      if (dateRange.to) filingParams.dateTo = dateRange.to;
+    }
+
+    return {
+      name: 'search_filings',
+      arguments: filingParams
+    };
+  }
+
+  // One metric across companies; revenue when the query names none
+  private comparisonCall(companies: QueryCompany[], metrics: UniversalQuery['entities']['metrics']): MCPToolCall {
+    return {
+      name: 'compare_financial_metrics',
+      arguments: {
+        companies: companies.map(c => c.cik || c.name),
+        concept: metrics.length > 0 ? this.mapMetricToUSGAAP(metrics[0].metric) : 'Revenues'
+      }
+    };
+  }
+
+  // Local full-text search, limited to the named companies and to the named forms (else defaultForms)
+  private filingTextCall(query: UniversalQuery, defaultForms: string[] = []): MCPToolCall {
+    const forms = query.entities.filingTypes.map(f => f.formType);
+    return {
+      name: 'search_filing_text',
+      arguments: {
+        q: extractSearchPhrase(query.originalQuery, query.entities.concepts.map(c => c.concept)),
+        forms: forms.length > 0 ? forms : defaultForms,
+        ciks: query.entities.companies.map(c => c.cik).filter(Boolean)
+      }
+    };
+  }
+
+  // Queries built without the parser still route: their primary intent is resolved through the taxonomy
+  private canonicalIntent(query: UniversalQuery): CanonicalIntent {
+    return query.canonical?.intent ?? resolveIntent(query.intent.primary);
+  }
+
   private shouldGetSubmissions(query: UniversalQuery): boolean {
     // Get submissions if we need filing information or detailed company data
-    return query.intent.secondary.includes('filing_search') || 
-           query.scope.dataTypes.includes('filings') ||
+    return this.canonicalIntent(query) === 'company_officers' ||
+           query.scope.dataTypes.includes('filing_content') ||
            query.scope.granularity === 'comprehensive';
   }
 
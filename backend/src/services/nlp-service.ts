@@ -6,24 +6,41 @@ import {
   CompanyEntity, 
   TimePeriod,
   FINANCIAL_METRICS,
-  FinancialMetric
+  FinancialMetric,
+  CANONICAL_INTENT
 } from '../types/query-types';
 import { createError } from '../middleware/error-handler';
+import { CompanyDirectory, getCompanyDirectory } from '../../../lib/company-directory';
+import { findSicCodes } from '../../../lib/sic-codes';
+import { CanonicalQuery, canonicalMetric, canonicalPeriod } from '../../../lib/query-taxonomy';
 
 export class NLPService {
   private intentPatterns: Map<QueryIntent, RegExp[]>;
-  private companyNames: Map<string, string>; // name -> cik mapping
-  private tickerToCik: Map<string, string>; // ticker -> cik mapping
+  private companyDirectory: CompanyDirectory;
 
-  constructor() {
+  constructor(companyDirectory: CompanyDirectory = getCompanyDirectory()) {
     this.intentPatterns = new Map();
-    this.companyNames = new Map();
-    this.tickerToCik = new Map();
+    this.companyDirectory = companyDirectory;
     this.initializeIntentPatterns();
-    this.initializeCompanyMappings();
   }
 
   private initializeIntentPatterns(): void {
+    // Peer and sector questions come first; "show me ..." would otherwise match a company lookup
+    this.intentPatterns.set(QueryIntent.PEER_ANALYSIS, [
+      /how\s+does\s+(.+?)\s+(compare|stack\s+up)\s+(to|with|against)\s+(its\s+)?(peers|competitors|industry|sector)/i,
+      /(.+?)\s+(vs|versus|compared\s+to|against)\s+(its|their)\s+(peers|competitors|peer\s+group|industry|sector)/i,
+      /(peers|competitors|peer\s+group|comparables)\s+(of|for)\s+(.+)/i,
+      /(.+?)['s]?\s+(peers|competitors|peer\s+group|comparables)/i,
+      /benchmark\s+(.+)/i
+    ]);
+
+    this.intentPatterns.set(QueryIntent.SECTOR_ANALYSIS, [
+      /(companies|firms|players)\s+in\s+(the\s+)?(.+?)\s+(sector|industry)/i,
+      /(analy[sz]e|overview\s+of|show\s+me|list)\s+(the\s+)?(.+?)\s+(sector|industry)/i,
+      /(.+?)\s+(sector|industry)\s+(overview|analysis|breakdown|leaders)/i,
+      /\bsic\s+(code\s+)?\d{2,4}\b/i
+    ]);
+
     this.intentPatterns.set(QueryIntent.COMPANY_LOOKUP, [
       /find\s+(information\s+about\s+|data\s+on\s+|details\s+for\s+)?(.+)/i,
       /tell\s+me\s+about\s+(.+)/i,
@@ -71,29 +88,6 @@ export class NLPService {
     ]);
   }
 
-  private initializeCompanyMappings(): void {
-    // In a real implementation, this would be loaded from a database
-    // For now, we'll use a small sample of well-known companies
-    const companies = [
-      { name: 'Apple Inc.', ticker: 'AAPL', cik: '0000320193' },
-      { name: 'Microsoft Corporation', ticker: 'MSFT', cik: '0000789019' },
-      { name: 'Amazon.com Inc.', ticker: 'AMZN', cik: '0001018724' },
-      { name: 'Alphabet Inc.', ticker: 'GOOGL', cik: '0001652044' },
-      { name: 'Tesla Inc.', ticker: 'TSLA', cik: '0001318605' },
-      { name: 'Netflix Inc.', ticker: 'NFLX', cik: '0001065280' },
-      { name: 'Meta Platforms Inc.', ticker: 'META', cik: '0001326801' },
-      { name: 'NVIDIA Corporation', ticker: 'NVDA', cik: '0001045810' },
-      { name: 'JPMorgan Chase & Co.', ticker: 'JPM', cik: '0000019617' },
-      { name: 'Johnson & Johnson', ticker: 'JNJ', cik: '0000200406' }
-    ];
-
-    companies.forEach(company => {
-      this.companyNames.set(company.name.toLowerCase(), company.cik);
-      this.companyNames.set(company.name.toLowerCase().replace(/\s+(inc|corp|corporation|llc|ltd)\.?$/i, ''), company.cik);
-      this.tickerToCik.set(company.ticker.toLowerCase(), company.cik);
-    });
-  }
-
   /**
    * Parse natural language query into structured format
    */
@@ -104,7 +98,7 @@ export class NLPService {
     const intent = this.classifyIntent(normalizedQuery);
     
     // Extract entities
-    const entities = this.extractEntities(normalizedQuery);
+    const entities = this.extractEntities(normalizedQuery, query.trim());
     
     // Extract modifiers
     const modifiers = this.extractModifiers(normalizedQuery);
@@ -112,13 +106,47 @@ export class NLPService {
     // Calculate confidence score
     const confidence = this.calculateConfidence(intent, entities, modifiers);
 
-    return {
+    const parsed = {
       intent,
       entities,
       modifiers,
       confidence,
       originalQuery: query
     };
+    return { ...parsed, canonical: this.toCanonical(parsed) };
+  }
+
+  /**
+   * The canonical form of a parse, which is what the query processor routes
+   * on. Recomputed by callers that change the entities afterwards.
+   */
+  toCanonical(parsed: Omit<ParsedQuery, 'canonical'>): CanonicalQuery {
+    const { intent, entities, modifiers } = parsed;
+    const periods = entities.timeperiods || [];
+    const metrics = (entities.metrics || [])
+      .map(metric => canonicalMetric(metric))
+      .filter((name): name is string => !!name);
+
+    const secondary: CanonicalQuery['secondary'] = [];
+    if (modifiers.trendAnalysis) secondary.push('time_series');
+    if (modifiers.limit) secondary.push('ranking');
+    if (entities.sectors?.length) secondary.push('industry_focus');
+
+    return {
+      originalQuery: parsed.originalQuery,
+      intent: CANONICAL_INTENT[intent],
+      secondary,
+      frequency: intent === QueryIntent.QUARTERLY_TRENDS || periods.some(period => period.type === 'quarter') ? 'quarterly' : 'annual',
+      entities: {
+        companies: (entities.companies || []).map(company => ({ ...company })),
+        metrics: [...new Set(metrics)],
+        periods: periods.map(period => canonicalPeriod(period.value)),
+        filingTypes: entities.filingTypes || [],
+        sectors: entities.sectors || [],
+        concepts: entities.concepts || []
+      },
+      confidence: parsed.confidence
+    };
   }
 
   private classifyIntent(query: string): QueryIntent {
@@ -132,11 +160,11 @@ export class NLPService {
     return QueryIntent.UNKNOWN;
   }
 
-  private extractEntities(query: string): QueryEntities {
+  private extractEntities(query: string, originalQuery: string): QueryEntities {
     const entities: QueryEntities = {};
 
-    // Extract companies
-    entities.companies = this.extractCompanies(query);
+    // Extract companies - case matters for telling tickers from ordinary words
+    entities.companies = this.extractCompanies(originalQuery);
     
     // Extract tickers
     entities.tickers = this.extractTickers(query);
@@ -153,42 +181,19 @@ export class NLPService {
     // Extract concepts
     entities.concepts = this.extractConcepts(query);
 
+    // Extract industries and sectors named in the query ("semiconductor companies", "the utilities sector")
+    entities.sectors = findSicCodes(query).map(match => match.label);
+
     return entities;
   }
 
   private extractCompanies(query: string): CompanyEntity[] {
-    const companies: CompanyEntity[] = [];
-    
-    // Look for company names
-    for (const [name, cik] of this.companyNames) {
-      const nameRegex = new RegExp(`\\b${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i');
-      if (nameRegex.test(query)) {
-        companies.push({
-          name,
-          cik,
-          confidence: 0.9
-        });
-      }
-    }
-
-    // Look for ticker symbols
-    const tickerRegex = /\b[A-Z]{1,5}\b/g;
-    const tickerMatches = query.toUpperCase().match(tickerRegex);
-    if (tickerMatches) {
-      for (const ticker of tickerMatches) {
-        const cik = this.tickerToCik.get(ticker.toLowerCase());
-        if (cik) {
-          companies.push({
-            name: ticker,
-            ticker,
-            cik,
-            confidence: 0.95
-          });
-        }
-      }
-    }
-
-    return companies;
+    return this.companyDirectory.findInText(query).map(match => ({
+      name: match.company.name,
+      ticker: match.company.tickers[0],
+      cik: match.company.cik,
+      confidence: match.confidence
+    }));
   }
 
   private extractTickers(query: string): string[] {
@@ -356,8 +361,7 @@ export class NLPService {
    * Get CIK by company name or ticker
    */
   getCIK(identifier: string): string | undefined {
-    const normalized = identifier.toLowerCase();
-    return this.companyNames.get(normalized) || this.tickerToCik.get(normalized);
+    return this.companyDirectory.resolve(identifier)?.company.cik;
   }
 
   /**
@@ -0,0 +1,150 @@
+import { AppDataSource } from '../database/data-source';
+import { QueryHistory } from '../models/QueryHistory';
+import { createError } from '../middleware/error-handler';
+
+const NARRATIVE_PREVIEW_LENGTH = 280;
+
+export interface HistoryEntryInput {
+  userId?: string;
+  query: string;
+  parsedQuery?: any;
+  results?: any;
+  executionTime?: number;
+  status: string;
+  error?: string;
+}
+
+export interface HistoryListOptions {
+  userId: string;
+  status?: string;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * What history keeps of a result: enough to recognise the answer, not the data itself
+ */
+export interface ResultSummary {
+  type?: string;
+  narrative?: string;
+  confidence?: number;
+  citations?: number;
+  metric?: string;
+  companies?: string[];
+  records?: number;
+  error?: string;
+}
+
+/**
+ * Summarize a QueryProcessor result or a Universal EDGAR Engine answer
+ */
+export function summarizeResults(results: any, error?: string): ResultSummary | undefined {
+  if (error) return { error };
+  if (!results) return undefined;
+
+  if (typeof results.narrative === 'string') {
+    return {
+      type: 'universal_answer',
+      narrative: results.narrative.substring(0, NARRATIVE_PREVIEW_LENGTH),
+      confidence: results.assessment?.confidence,
+      citations: results.citations?.length || 0
+    };
+  }
+
+  const companies = [
+    results.company?.name,
+    ...(results.companies || []).map((entry: any) => entry.company?.name)
+  ].filter(Boolean);
+  const records = [results.data, results.filings, results.recent_filings].find(Array.isArray);
+
+  return {
+    type: results.type,
+    metric: results.metric,
+    companies: companies.length > 0 ? companies : undefined,
+    records: records?.length
+  };
+}
+
+/**
+ * Persists every processed query to query_history. Recording never fails a
+ * query: without a database, entries are dropped with a warning.
+ */
+export class QueryHistoryService {
+  /**
+   * Whether the database connection is up
+   */
+  isAvailable(): boolean {
+    return AppDataSource.isInitialized;
+  }
+
+  /**
+   * Record a processed query
+   */
+  async record(entry: HistoryEntryInput): Promise<QueryHistory | null> {
+    if (!this.isAvailable()) return null;
+
+    try {
+      const repository = AppDataSource.getRepository(QueryHistory);
+      return await repository.save(repository.create({
+        userId: entry.userId,
+        query: entry.query,
+        parsedQuery: entry.parsedQuery,
+        results: summarizeResults(entry.results, entry.error),
+        executionTime: entry.executionTime !== undefined ? Math.round(entry.executionTime) : undefined,
+        status: entry.status
+      }));
+    } catch (error) {
+      console.warn('Failed to record query history:', error);
+      return null;
+    }
+  }
+
+  /**
+   * List a user's entries, newest first
+   */
+  async list(options: HistoryListOptions): Promise<{ entries: QueryHistory[]; total: number }> {
+    const query = this.repository()
+      .createQueryBuilder('history')
+      .where('history.userId = :userId', { userId: options.userId })
+      .orderBy('history.createdAt', 'DESC')
+      .skip(options.offset)
+      .take(options.limit);
+
+    if (options.status) {
+      query.andWhere('history.status = :status', { status: options.status });
+    }
+
+    const [entries, total] = await query.getManyAndCount();
+    return { entries, total };
+  }
+
+  /**
+   * Get one of a user's entries
+   */
+  async get(id: string, userId: string): Promise<QueryHistory | null> {
+    return this.repository().findOneBy({ id, userId });
+  }
+
+  /**
+   * Delete one of a user's entries; false if the user has no such entry
+   */
+  async delete(id: string, userId: string): Promise<boolean> {
+    const result = await this.repository().delete({ id, userId });
+    return (result.affected || 0) > 0;
+  }
+
+  /**
+   * Delete all of a user's entries
+   */
+  async clear(userId: string): Promise<number> {
+    const result = await this.repository().delete({ userId });
+    return result.affected || 0;
+  }
+
+  private repository() {
+    if (!this.isAvailable()) {
+      throw createError('Query history requires the database, which is unavailable', 503);
+    }
+    return AppDataSource.getRepository(QueryHistory);
+  }
+}
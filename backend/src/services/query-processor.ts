@@ -1,35 +1,56 @@
 import { v4 as uuidv4 } from 'uuid';
 import { NLPService } from './nlp-service';
-import { SECEdgarClient } from './sec-edgar-client';
+import { FinancialDataPoint, SECEdgarClient } from './sec-edgar-client';
 import { CacheService, CacheKeys, CacheTTL } from './cache-service';
+import { SessionService } from './session-service';
+import { QueryHistoryService } from './query-history-service';
 import { 
   QueryResult, 
   QueryContext, 
   ParsedQuery, 
-  QueryIntent,
   CompanyEntity,
   TimePeriod 
 } from '../types/query-types';
 import { createError } from '../middleware/error-handler';
+import { createConversationTurn, FollowUpResolution, resolveFollowUp } from '../../../lib/conversation-context';
+import { FramesScreener, getFramesScreener } from '../../../lib/frames-screener';
+import { candidatePeriods, PeerBenchmarkResult, PeerGroupBuilder, quantile } from '../../../lib/peer-groups';
+import { classifySic, findSicCodes, SicMatch } from '../../../lib/sic-codes';
+import { getStandardMetric } from '../../../lib/xbrl-concepts';
 import crypto from 'crypto';
 
+const PROFIT_METRICS = ['NetIncome', 'OperatingIncome', 'GrossProfit'];
+
 export class QueryProcessor {
   private nlpService: NLPService;
   private secClient: SECEdgarClient;
   private cacheService: CacheService;
+  private sessionService: SessionService;
+  private historyService: QueryHistoryService;
+  private screener: FramesScreener;
+  private peerBuilder: PeerGroupBuilder;
 
   constructor() {
     this.nlpService = new NLPService();
     this.secClient = new SECEdgarClient();
     this.cacheService = new CacheService();
+    this.sessionService = new SessionService(this.cacheService);
+    this.historyService = new QueryHistoryService();
+    // Frames come through the shared EDGAR client unless FRAMES_SOURCE=snapshot
+    this.screener = process.env.FRAMES_SOURCE === 'snapshot' ? getFramesScreener() : new FramesScreener(this.secClient);
+    this.peerBuilder = new PeerGroupBuilder(this.screener);
   }
 
   /**
-   * Process a natural language query
+   * Process a natural language query. Follow-ups ("what about their net income?",
+   * "and Microsoft?") are resolved against the previous turn of the session; a
+   * session id is issued when the context does not carry one.
    */
   async processQuery(query: string, context?: QueryContext): Promise<QueryResult> {
     const startTime = Date.now();
     const queryId = uuidv4();
+    context = { ...context, sessionId: context?.sessionId || uuidv4() };
+    const sessionId = context.sessionId!;
 
     try {
       // Validate query
@@ -38,20 +59,35 @@ export class QueryProcessor {
         throw createError(validation.error!, 400);
       }
 
-      // Check cache first
-      const cacheKey = CacheKeys.queryResult(this.generateQueryHash(query, context));
+      const turns = await this.sessionService.getTurns(sessionId, context.userId, context.previousQueries);
+      const followUp = resolveFollowUp(query, turns);
+      const resolvedQuery = followUp.isFollowUp ? followUp.resolvedQuery : undefined;
+
+      // Check cache first. The resolved query already captures the conversation,
+      // so session fields stay out of the key.
+      const cacheKey = CacheKeys.queryResult(
+        this.generateQueryHash(followUp.resolvedQuery, { preferences: context.preferences })
+      );
       const cachedResult = await this.cacheService.get<QueryResult>(cacheKey);
       
       if (cachedResult) {
-        return {
+        await this.sessionService.recordTurn(sessionId, context.userId, createConversationTurn(query, followUp));
+        const queryResult: QueryResult = {
           ...cachedResult,
           queryId, // Generate new ID for tracking
-          timestamp: new Date()
+          query,
+          resolvedQuery,
+          executionTime: Date.now() - startTime,
+          timestamp: new Date(),
+          context
         };
+        await this.recordHistory(queryResult);
+        return queryResult;
       }
 
       // Parse query using NLP
-      const parsedQuery = await this.nlpService.parseQuery(query);
+      const parsedQuery = await this.nlpService.parseQuery(followUp.resolvedQuery);
+      this.inheritCompanies(parsedQuery, followUp);
 
       // Execute query based on intent
       const results = await this.executeQuery(parsedQuery, context);
@@ -60,6 +96,7 @@ export class QueryProcessor {
         queryId,
         status: 'completed',
         query,
+        resolvedQuery,
         parsedQuery,
         results,
         executionTime: Date.now() - startTime,
@@ -69,6 +106,8 @@ export class QueryProcessor {
 
       // Cache the result
       await this.cacheService.set(cacheKey, queryResult, CacheTTL.QUERY_RESULTS);
+      await this.sessionService.recordTurn(sessionId, context.userId, createConversationTurn(query, followUp));
+      await this.recordHistory(queryResult);
 
       return queryResult;
 
@@ -83,36 +122,71 @@ export class QueryProcessor {
         context
       };
 
+      await this.recordHistory(queryResult);
       return queryResult;
     }
   }
 
+  private async recordHistory(queryResult: QueryResult): Promise<void> {
+    await this.historyService.record({
+      userId: queryResult.context?.userId,
+      query: queryResult.query,
+      parsedQuery: queryResult.parsedQuery,
+      results: queryResult.results,
+      executionTime: queryResult.executionTime,
+      status: queryResult.status,
+      error: queryResult.error
+    });
+  }
+
+  /**
+   * Give a follow-up that names no company the previous turn's companies
+   */
+  private inheritCompanies(parsedQuery: ParsedQuery, followUp: FollowUpResolution): void {
+    if (parsedQuery.entities.companies?.length || followUp.inheritedCompanies.length === 0) return;
+
+    parsedQuery.entities.companies = followUp.inheritedCompanies.map(company => ({
+      name: company.name,
+      ticker: company.ticker,
+      cik: company.cik,
+      confidence: 0.8
+    }));
+    parsedQuery.canonical = this.nlpService.toCanonical(parsedQuery);
+  }
+
   /**
-   * Execute parsed query based on intent
+   * Execute parsed query based on its canonical intent
    */
   private async executeQuery(parsedQuery: ParsedQuery, context?: QueryContext): Promise<any> {
-    switch (parsedQuery.intent) {
-      case QueryIntent.COMPANY_LOOKUP:
-      case QueryIntent.COMPANY_PROFILE:
+    const { canonical } = parsedQuery;
+
+    switch (canonical.intent) {
+      case 'company_overview':
         return this.handleCompanyLookup(parsedQuery);
       
-      case QueryIntent.REVENUE_QUERY:
-        return this.handleRevenueQuery(parsedQuery);
+      case 'financial_metrics':
+        // Profit questions name a profit line; everything else is answered from revenue
+        return canonical.entities.metrics.some(metric => PROFIT_METRICS.includes(metric)) &&
+          !canonical.entities.metrics.includes('TotalRevenue')
+          ? this.handleProfitQuery(parsedQuery)
+          : this.handleRevenueQuery(parsedQuery);
       
-      case QueryIntent.PROFIT_QUERY:
-        return this.handleProfitQuery(parsedQuery);
-      
-      case QueryIntent.FILING_SEARCH:
+      case 'filing_lookup':
         return this.handleFilingSearch(parsedQuery);
       
-      case QueryIntent.COMPANY_COMPARISON:
+      case 'comparison':
         return this.handleCompanyComparison(parsedQuery);
       
-      case QueryIntent.HISTORICAL_DATA:
-        return this.handleHistoricalData(parsedQuery);
+      case 'trend_analysis':
+        return canonical.frequency === 'quarterly'
+          ? this.handleQuarterlyTrends(parsedQuery)
+          : this.handleHistoricalData(parsedQuery);
+      
+      case 'peer_analysis':
+        return this.handlePeerAnalysis(parsedQuery);
       
-      case QueryIntent.QUARTERLY_TRENDS:
-        return this.handleQuarterlyTrends(parsedQuery);
+      case 'sector_analysis':
+        return this.handleSectorAnalysis(parsedQuery);
       
       default:
         return this.handleGeneralQuery(parsedQuery);
@@ -195,7 +269,7 @@ export class QueryProcessor {
           data: filteredData,
           metadata: {
             source: 'SEC EDGAR',
-            concept: 'us-gaap:Revenues',
+            ...this.reportedConcepts(filteredData, 'Revenues'),
             unit: 'USD',
             last_updated: new Date().toISOString()
           }
@@ -239,7 +313,7 @@ export class QueryProcessor {
           data: filteredData,
           metadata: {
             source: 'SEC EDGAR',
-            concept: 'us-gaap:NetIncomeLoss',
+            ...this.reportedConcepts(filteredData, 'NetIncomeLoss'),
             unit: 'USD',
             last_updated: new Date().toISOString()
           }
@@ -317,12 +391,14 @@ export class QueryProcessor {
           throw createError(`Could not find CIK for company: ${company.name}`, 404);
         }
 
-        // Get revenue data for comparison
+        // Compare fiscal years: quarters and year-to-date values are not comparable across companies
         const revenueData = await this.secClient.getFinancialData(cik, 'Revenues');
+        const annual = revenueData.filter(item => item.fiscalPeriod === 'FY');
         
         return {
           company: { name: company.name, cik },
-          revenue: revenueData.slice(0, 5) // Get latest 5 periods
+          revenue: annual.slice(0, 5), // Latest 5 fiscal years
+          latest: annual[0] || null
         };
       })
     );
@@ -369,7 +445,7 @@ export class QueryProcessor {
       data: historicalData,
       metadata: {
         source: 'SEC EDGAR',
-        concept: `us-gaap:${concept}`,
+        ...this.reportedConcepts(historicalData, concept),
         periods: historicalData.length,
         last_updated: new Date().toISOString()
       }
@@ -395,10 +471,8 @@ export class QueryProcessor {
 
     const revenueData = await this.secClient.getFinancialData(cik, 'Revenues');
     
-    // Filter for quarterly data only
-    const quarterlyData = revenueData.filter(item => 
-      item.form === '10-Q' || item.fiscalPeriod?.includes('Q')
-    );
+    // Discrete three-month quarters, with Q4 derived from the fiscal year
+    const quarterlyData = revenueData.filter(item => item.fiscalPeriod !== 'FY');
     
     return {
       type: 'quarterly_trends',
@@ -414,6 +488,146 @@ export class QueryProcessor {
     };
   }
 
+  /**
+   * Handle peer analysis queries: the company's peer group by SIC code and
+   * size band, with its ratios ranked against the group
+   */
+  private async handlePeerAnalysis(parsedQuery: ParsedQuery): Promise<any> {
+    const companies = parsedQuery.entities.companies || [];
+    
+    if (companies.length === 0) {
+      throw createError('No company found in query', 400);
+    }
+
+    const company = companies[0];
+    const cik = company.cik || this.nlpService.getCIK(company.name);
+    
+    if (!cik) {
+      throw createError(`Could not find CIK for company: ${company.name}`, 404);
+    }
+
+    // The newest period whose frames include the company
+    let result: PeerBenchmarkResult | null = null;
+    let lastError: unknown;
+    for (const period of candidatePeriods(parsedQuery.originalQuery)) {
+      try {
+        result = await this.cacheService.getOrSet(
+          CacheKeys.peerBenchmarks(cik, period),
+          () => this.peerBuilder.benchmark(cik, { period }),
+          CacheTTL.HISTORICAL_DATA
+        );
+        break;
+      } catch (error) {
+        lastError = error;
+      }
+    }
+
+    if (!result) {
+      throw createError(`Could not build a peer group for ${company.name}: ${lastError instanceof Error ? lastError.message : 'no frame data'}`, 404);
+    }
+
+    const { group } = result;
+    return {
+      type: 'peer_analysis',
+      company: { name: company.name, cik },
+      period: group.period,
+      industry: {
+        sic: group.classification?.sic || group.target.sic,
+        description: group.classification?.industry || group.target.sicDescription,
+        major_group: group.classification?.majorGroup?.title,
+        division: group.classification?.division?.title,
+        sector: group.classification?.sector
+      },
+      peer_group: {
+        sic_prefix: group.sicPrefix,
+        size_metric: group.sizeMetric.label,
+        size_range: group.sizeRange,
+        peers: group.peers.map(peer => ({
+          name: peer.entityName,
+          cik: peer.cik,
+          ticker: peer.ticker,
+          sic: peer.sic,
+          size: peer.values[group.sizeMetric.key]?.value
+        }))
+      },
+      benchmarks: result.benchmarks,
+      companies: result.companies,
+      warnings: result.warnings,
+      metadata: {
+        source: group.source === 'snapshot' ? 'XBRL frames snapshot' : 'SEC XBRL frames',
+        last_updated: new Date().toISOString()
+      }
+    };
+  }
+
+  /**
+   * Handle sector analysis queries: every filer in the named industry or
+   * sector, ranked by the requested metric (revenue by default)
+   */
+  private async handleSectorAnalysis(parsedQuery: ParsedQuery): Promise<any> {
+    let matches: SicMatch[] = findSicCodes(parsedQuery.originalQuery);
+    const company = parsedQuery.entities.companies?.[0];
+
+    // "Apple's industry": fall back to the named company's own SIC code
+    if (matches.length === 0 && company) {
+      const cik = company.cik || this.nlpService.getCIK(company.name);
+      const sic = cik ? (await this.screener.getCompanyAttributes(cik))?.sic : undefined;
+      const classification = classifySic(sic);
+      if (classification) {
+        matches = [{ text: company.name, label: classification.industry || `SIC ${classification.sic}`, codes: [classification.sic] }];
+      }
+    }
+
+    if (matches.length === 0) {
+      throw createError('No industry or sector found in query', 400);
+    }
+
+    const requested = (parsedQuery.entities.metrics || []).map(metric => getStandardMetric(metric)).find(Boolean);
+    const sortBy = requested?.standardName || 'TotalRevenue';
+    const period = candidatePeriods(parsedQuery.originalQuery)[0];
+
+    const screen = await this.screener.screen({
+      period,
+      conditions: [],
+      sic: Array.from(new Set(matches.flatMap(match => match.codes))),
+      sortBy,
+      include: ['TotalRevenue', 'NetIncome', 'TotalAssets'],
+      limit: parsedQuery.modifiers.limit || 25
+    });
+
+    const metric = getStandardMetric(sortBy)!;
+    const margins = screen.rows
+      .filter(row => row.values.revenue?.value && row.values.net_income !== undefined)
+      .map(row => row.values.net_income.value / row.values.revenue.value)
+      .sort((a, b) => a - b);
+
+    return {
+      type: 'sector_analysis',
+      sectors: matches.map(match => ({ label: match.label, sector: match.sector, sic_codes: match.codes })),
+      period,
+      metric: metric.label,
+      companies: screen.rows.map(row => ({
+        name: row.entityName,
+        cik: row.cik,
+        ticker: row.ticker,
+        sic: row.sic,
+        industry: row.sicDescription,
+        values: row.values
+      })),
+      summary: {
+        companies: screen.total,
+        [`total_${metric.key}`]: screen.rows.reduce((sum, row) => sum + (row.values[metric.key]?.value || 0), 0),
+        median_net_margin: quantile(margins, 0.5)
+      },
+      warnings: screen.warnings,
+      metadata: {
+        source: screen.source === 'snapshot' ? 'XBRL frames snapshot' : 'SEC XBRL frames',
+        shown: screen.rows.length,
+        last_updated: new Date().toISOString()
+      }
+    };
+  }
+
   /**
    * Handle general queries
    */
@@ -436,6 +650,15 @@ export class QueryProcessor {
   /**
    * Filter data by time period
    */
+  /**
+   * The tags values were reported under, newest first. Standard metrics merge a
+   * fallback chain, so a company that switched tags contributes more than one.
+   */
+  private reportedConcepts(data: FinancialDataPoint[], requested: string): { concept: string; concepts: string[] } {
+    const concepts = Array.from(new Set(data.map(point => `${point.taxonomy || 'us-gaap'}:${point.concept}`)));
+    return { concept: concepts[0] || `us-gaap:${requested}`, concepts };
+  }
+
   private filterByTimePeriod(data: any[], timePeriods?: TimePeriod[]): any[] {
     if (!timePeriods || timePeriods.length === 0) {
       return data;
@@ -444,8 +667,9 @@ export class QueryProcessor {
     const timePeriod = timePeriods[0];
     
     if (timePeriod.type === 'year') {
+      // Normalized values carry their fiscal year, which need not be the calendar year the period ends in
       return data.filter(item => {
-        const itemYear = new Date(item.period).getFullYear().toString();
+        const itemYear = (item.fiscalYear || new Date(item.period).getFullYear()).toString();
         return itemYear === timePeriod.value;
       });
     }
@@ -460,7 +684,7 @@ export class QueryProcessor {
         if (unit.includes('year')) {
           const cutoffYear = new Date().getFullYear() - count;
           return data.filter(item => {
-            const itemYear = new Date(item.period).getFullYear();
+            const itemYear = item.fiscalYear || new Date(item.period).getFullYear();
             return itemYear >= cutoffYear;
           });
         }
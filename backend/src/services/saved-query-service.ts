@@ -0,0 +1,121 @@
+import { IsNull } from 'typeorm';
+import { AppDataSource } from '../database/data-source';
+import { SavedQuery } from '../models/SavedQuery';
+import { User } from '../models/User';
+import { createError } from '../middleware/error-handler';
+
+export interface SavedQueryInput {
+  name: string;
+  query: string;
+  description?: string | null;
+  filters?: any;
+  schedule?: any;
+  userId?: string | null;
+  createdBy?: string | null;
+}
+
+export type SavedQueryChanges = Partial<Omit<SavedQueryInput, 'userId' | 'createdBy'>> & {
+  shared?: boolean; // Move the query into or out of the shared library
+};
+
+export interface SavedQueryListOptions {
+  userId: string;
+  search?: string;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * CRUD for the saved_queries library. Queries without a userId are shared:
+ * every user can see and run them, but only the user who created one or an
+ * admin can edit, delete or un-share it. Other queries are private to their
+ * owner.
+ */
+export class SavedQueryService {
+  /**
+   * List a user's saved queries and the shared ones, by name
+   */
+  async list(options: SavedQueryListOptions): Promise<{ savedQueries: SavedQuery[]; total: number }> {
+    const query = this.repository()
+      .createQueryBuilder('saved')
+      .where('(saved.userId = :userId OR saved.userId IS NULL)', { userId: options.userId })
+      .orderBy('saved.name', 'ASC')
+      .skip(options.offset)
+      .take(options.limit);
+
+    if (options.search) {
+      query.andWhere('(saved.name ILIKE :search OR saved.query ILIKE :search)', { search: `%${options.search}%` });
+    }
+
+    const [savedQueries, total] = await query.getManyAndCount();
+    return { savedQueries, total };
+  }
+
+  /**
+   * Get a saved query the user can see
+   */
+  async get(id: string, userId: string): Promise<SavedQuery | null> {
+    return this.repository().findOne({ where: [{ id, userId }, { id, userId: IsNull() }] });
+  }
+
+  /**
+   * Save a new query
+   */
+  async create(input: SavedQueryInput): Promise<SavedQuery> {
+    const repository = this.repository();
+    return repository.save(repository.create(input));
+  }
+
+  /**
+   * Update fields of a saved query; null if the user cannot see it. A query
+   * taken out of the shared library goes back to its creator.
+   */
+  async update(id: string, userId: string, changes: SavedQueryChanges): Promise<SavedQuery | null> {
+    const savedQuery = await this.get(id, userId);
+    if (!savedQuery) return null;
+    await this.assertCanModify(savedQuery, userId);
+
+    const { shared, ...fields } = changes;
+    Object.assign(savedQuery, fields);
+    if (shared !== undefined) {
+      savedQuery.userId = shared ? null : savedQuery.createdBy || userId;
+    }
+    return this.repository().save(savedQuery);
+  }
+
+  /**
+   * Delete a saved query; false if the user cannot see it
+   */
+  async delete(id: string, userId: string): Promise<boolean> {
+    const savedQuery = await this.get(id, userId);
+    if (!savedQuery) return false;
+    await this.assertCanModify(savedQuery, userId);
+
+    await this.repository().delete({ id });
+    return true;
+  }
+
+  /**
+   * Note that a saved query was just run
+   */
+  async markRun(id: string): Promise<void> {
+    await this.repository().update({ id }, { lastRunAt: new Date() });
+  }
+
+  // Private queries are only visible to their owner, so only shared ones need checking
+  private async assertCanModify(savedQuery: SavedQuery, userId: string): Promise<void> {
+    if (savedQuery.userId || savedQuery.createdBy === userId) return;
+
+    const user = await AppDataSource.getRepository(User).findOne({ where: { id: userId }, select: ['id', 'role'] });
+    if (user?.role !== 'admin') {
+      throw createError('Only the creator of a shared query or an admin can change it', 403);
+    }
+  }
+
+  private repository() {
+    if (!AppDataSource.isInitialized) {
+      throw createError('Saved queries require the database, which is unavailable', 503);
+    }
+    return AppDataSource.getRepository(SavedQuery);
+  }
+}
@@ -1,5 +1,9 @@
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
 import { createError } from '../middleware/error-handler';
+import { getStandardMetric, resolveConcept } from '../../../lib/xbrl-concepts';
+import { FiscalPeriod, normalizePeriods } from '../../../lib/xbrl-periods';
+import { buildFilingIndex, buildIndexJsonUrl, buildIndexPageUrl, FilingIndex } from '../../../lib/edgar-filing-index';
+import { CompanyMatchType, getCompanyDirectory } from '../../../lib/company-directory';
 
 export interface CompanySubmissions {
   cik: string;
@@ -52,6 +56,7 @@ export interface CompanyFacts {
         description: string;
         units: {
           [unit: string]: Array<{
+            start?: string; // Duration facts only
             end: string;
             val: number;
             accn: string;
@@ -76,6 +81,7 @@ export interface CompanyConcept {
   entityName: string;
   units: {
     [unit: string]: Array<{
+      start?: string; // Duration facts only
       end: string;
       val: number;
       accn: string;
@@ -88,6 +94,27 @@ export interface CompanyConcept {
   };
 }
 
+/**
+ * One canonical value per fiscal year and fiscal quarter, as returned by
+ * getFinancialData. Quarters are discrete three-month values.
+ */
+export interface FinancialDataPoint {
+  concept: string;
+  taxonomy?: string;
+  value: number;
+  unit: string;
+  period: string; // Period end, YYYY-MM-DD
+  start?: string;
+  label: string; // "FY2024", "Q3 FY2024"
+  fiscalYear: number;
+  fiscalPeriod: FiscalPeriod;
+  form?: string;
+  filed?: string;
+  accessionNumber?: string;
+  derived: boolean; // e.g. Q4 = FY - (Q1 + Q2 + Q3)
+  restated: boolean;
+}
+
 export class RateLimiter {
   private queue: Array<() => void> = [];
   private running = false;
@@ -183,6 +210,19 @@ export class SECEdgarClient {
     }
   }
 
+  /**
+   * Get an additional page of older filings listed in submissions.filings.files
+   * (e.g. CIK0000320193-submissions-001.json). Pages use the same columnar layout as filings.recent.
+   */
+  async getSubmissionsPage(fileName: string): Promise<CompanySubmissions['filings']['recent']> {
+    try {
+      const response = await this.client.get<CompanySubmissions['filings']['recent']>(`/submissions/${fileName}`);
+      return response.data;
+    } catch (error) {
+      throw createError(`Failed to fetch submissions page ${fileName}: ${error}`, 500);
+    }
+  }
+
   /**
    * Get company facts (all XBRL data)
    */
@@ -222,20 +262,34 @@ export class SECEdgarClient {
     try {
       const response = await this.client.get(url);
       return response.data;
-    } catch (error) {
-      throw createError(`Failed to fetch frames data for ${taxonomy}/${tag}: ${error}`, 500);
+    } catch (error: any) {
+      // Keep the status: a 404 means no company reported the tag for the period
+      throw createError(`Failed to fetch frames data for ${taxonomy}/${tag}: ${error.message || error}`, error.statusCode || 500);
     }
   }
 
   /**
-   * Search for companies by name or ticker
+   * Search for companies by name, ticker, alias or former name using the local
+   * company directory (SEC has no search endpoint)
    */
-  async searchCompanies(query: string): Promise<any[]> {
-    // This would typically use a search endpoint, but SEC doesn't provide one
-    // For now, we'll implement a simple search by fetching company tickers
-    // In a real implementation, you'd maintain a local search index
-    
-    throw createError('Company search not implemented - use CIK lookup instead', 501);
+  async searchCompanies(query: string, limit: number = 10): Promise<Array<{
+    cik: string;
+    name: string;
+    ticker?: string;
+    tickers: string[];
+    exchange?: string;
+    matchedOn: CompanyMatchType;
+    confidence: number;
+  }>> {
+    return getCompanyDirectory().search(query, limit).map(({ company, matchedOn, confidence }) => ({
+      cik: company.cik,
+      name: company.name,
+      ticker: company.tickers[0],
+      tickers: company.tickers,
+      exchange: company.exchange,
+      matchedOn,
+      confidence
+    }));
   }
 
   /**
@@ -288,34 +342,115 @@ export class SECEdgarClient {
   }
 
   /**
-   * Get financial data for a specific concept
+   * Get financial data for a specific concept, normalized to one value per
+   * fiscal year and quarter, newest first.
+   * Standard metrics (e.g. 'TotalRevenue', 'Revenues') are resolved across their
+   * full concept fallback chain from company facts; other concepts are fetched as-is.
    */
-  async getFinancialData(cik: string, concept: string, taxonomy: string = 'us-gaap'): Promise<any[]> {
-    const conceptData = await this.getCompanyConcept(cik, taxonomy, concept);
-    
-    // Extract and flatten the units data
-    const results: any[] = [];
-    
-    for (const [unit, values] of Object.entries(conceptData.units)) {
-      for (const value of values) {
-        results.push({
-          concept,
-          value: value.val,
-          unit,
-          period: value.end,
-          form: value.form,
-          filed: value.filed,
-          accessionNumber: value.accn,
-          fiscalYear: value.fy,
-          fiscalPeriod: value.fp
-        });
+  async getFinancialData(cik: string, concept: string, taxonomy: string = 'us-gaap'): Promise<FinancialDataPoint[]> {
+    if (getStandardMetric(concept)) {
+      const facts = await this.getCompanyFacts(cik);
+      const results = SECEdgarClient.getFinancialDataFromFacts(facts, concept, taxonomy);
+      if (results) {
+        return results;
       }
     }
-    
-    // Sort by period (most recent first)
-    results.sort((a, b) => new Date(b.period).getTime() - new Date(a.period).getTime());
-    
-    return results;
+
+    const conceptData = await this.getCompanyConcept(cik, taxonomy, concept);
+    return SECEdgarClient.normalizeConceptUnits(concept, taxonomy, conceptData.units);
+  }
+
+  /**
+   * Same result as getFinancialData, computed from company facts already in hand
+   * (e.g. loaded from the local database). Standard metrics use their fallback chain.
+   * Returns null when the facts do not cover the concept.
+   */
+  static getFinancialDataFromFacts(facts: CompanyFacts, concept: string, taxonomy: string = 'us-gaap'): FinancialDataPoint[] | null {
+    const resolved = getStandardMetric(concept) ? resolveConcept(facts, concept) : null;
+
+    if (resolved) {
+      return SECEdgarClient.normalizeValues(resolved.values, resolved.metric.instant);
+    }
+
+    const units = facts.facts?.[taxonomy]?.[concept]?.units;
+    return units ? SECEdgarClient.normalizeConceptUnits(concept, taxonomy, units) : null;
+  }
+
+  // Each unit is its own series; balance sheet concepts report instants (no start date)
+  private static normalizeConceptUnits(concept: string, taxonomy: string, units: CompanyConcept['units']): FinancialDataPoint[] {
+    return Object.entries(units).flatMap(([unit, values]) => SECEdgarClient.normalizeValues(
+      values.map(value => ({ ...value, concept, taxonomy, unit })),
+      values.every(value => !value.start)
+    ));
+  }
+
+  private static normalizeValues(values: any[], instant: boolean): FinancialDataPoint[] {
+    const { annual, quarterly } = normalizePeriods(values, { instant });
+
+    return [...annual, ...quarterly]
+      .map(value => ({
+        concept: value.concept || '',
+        taxonomy: value.taxonomy,
+        value: value.value,
+        unit: value.unit || '',
+        period: value.end,
+        start: value.start,
+        label: value.label,
+        fiscalYear: value.fiscalYear,
+        fiscalPeriod: value.fiscalPeriod,
+        form: value.form,
+        filed: value.filed,
+        accessionNumber: value.accessionNumber,
+        derived: value.derived,
+        restated: value.restated
+      }))
+      // Most recent first; a fiscal year sorts ahead of the Q4 that ends with it
+      .sort((a, b) => b.period.localeCompare(a.period) || (a.fiscalPeriod === 'FY' ? -1 : b.fiscalPeriod === 'FY' ? 1 : 0));
+  }
+
+  /**
+   * Resolve every document in a filing from its EDGAR Archives index.
+   * index.json lists the files and sizes; the -index.htm page adds document types and descriptions.
+   */
+  async getFilingIndex(cik: string, accessionNumber: string, primaryDocument?: string): Promise<FilingIndex> {
+    // Archives are served from www.sec.gov rather than the data.sec.gov API host
+    const archiveHeaders = { 'Host': 'www.sec.gov', 'Accept': '*/*' };
+
+    let indexJson: any;
+    try {
+      const response = await this.client.get(buildIndexJsonUrl(cik, accessionNumber), { headers: archiveHeaders });
+      indexJson = response.data;
+    } catch (error: any) {
+      throw createError(`Failed to fetch filing index for ${accessionNumber}: ${error.message || error}`, error.statusCode || 500);
+    }
+
+    let indexPage: string | undefined;
+    try {
+      const response = await this.client.get<string>(buildIndexPageUrl(cik, accessionNumber), {
+        headers: archiveHeaders,
+        responseType: 'text'
+      });
+      indexPage = response.data;
+    } catch (error) {
+      // Types and descriptions are optional; the directory listing is enough to address documents
+    }
+
+    return buildFilingIndex(cik, accessionNumber, indexJson, indexPage, primaryDocument);
+  }
+
+  /**
+   * Fetch a filing document (the primary 10-K/10-Q HTML) from the EDGAR Archives
+   */
+  async getFilingDocument(url: string): Promise<string> {
+    try {
+      const response = await this.client.get<string>(url, {
+        headers: { 'Host': 'www.sec.gov', 'Accept': '*/*' },
+        responseType: 'text'
+      });
+      return response.data;
+    } catch (error: any) {
+      throw createError(`Failed to fetch filing document ${url}: ${error.message || error}`, error.statusCode || 500);
+    }
   }
 
   /**
@@ -0,0 +1,86 @@
+import { CacheService, CacheKeys, CacheTTL } from './cache-service';
+import {
+  ConversationTurn,
+  MAX_CONVERSATION_TURNS,
+  turnsFromQueries
+} from '../../../lib/conversation-context';
+
+export interface ConversationSession {
+  sessionId: string;
+  userId?: string; // Owner; unset for anonymous callers
+  turns: ConversationTurn[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Server-side conversation state keyed by QueryContext.sessionId and the
+ * authenticated user, so a session id presented by another caller opens that
+ * caller's own (empty) session rather than someone else's. Sessions live in
+ * Redis and expire after a period of inactivity; while Redis is unreachable
+ * they are kept in process memory instead.
+ */
+export class SessionService {
+  private cacheService: CacheService;
+  private localSessions = new Map<string, ConversationSession>();
+
+  constructor(cacheService: CacheService = new CacheService()) {
+    this.cacheService = cacheService;
+  }
+
+  /**
+   * Get the caller's session, or null if it never existed or has expired
+   */
+  async getSession(sessionId: string, userId?: string): Promise<ConversationSession | null> {
+    const key = CacheKeys.session(sessionId, userId);
+    const session = await this.cacheService.get<ConversationSession>(key);
+    if (session) return session;
+
+    const local = this.localSessions.get(key);
+    if (local && Date.now() - new Date(local.updatedAt).getTime() < CacheTTL.SESSIONS * 1000) {
+      return local;
+    }
+    this.localSessions.delete(key);
+    return null;
+  }
+
+  /**
+   * Earlier turns to resolve a follow-up against. Falls back to the client's
+   * previousQueries when the server has no session for this id.
+   */
+  async getTurns(sessionId: string, userId?: string, previousQueries?: string[]): Promise<ConversationTurn[]> {
+    const session = await this.getSession(sessionId, userId);
+    if (session) return session.turns;
+    return previousQueries?.length ? turnsFromQueries(previousQueries) : [];
+  }
+
+  /**
+   * Append a turn, keeping the most recent MAX_CONVERSATION_TURNS
+   */
+  async recordTurn(sessionId: string, userId: string | undefined, turn: ConversationTurn): Promise<ConversationSession> {
+    const key = CacheKeys.session(sessionId, userId);
+    const now = new Date().toISOString();
+    const session = await this.getSession(sessionId, userId) || { sessionId, userId, turns: [], createdAt: now, updatedAt: now };
+
+    session.turns = [...session.turns, turn].slice(-MAX_CONVERSATION_TURNS);
+    session.updatedAt = now;
+
+    try {
+      await this.cacheService.set(key, session, CacheTTL.SESSIONS);
+      this.localSessions.delete(key);
+    } catch (error) {
+      this.localSessions.set(key, session);
+    }
+
+    return session;
+  }
+
+  /**
+   * Forget the caller's turns in a session
+   */
+  async clearSession(sessionId: string, userId?: string): Promise<void> {
+    const key = CacheKeys.session(sessionId, userId);
+    this.localSessions.delete(key);
+    await this.cacheService.delete(key);
+  }
+}
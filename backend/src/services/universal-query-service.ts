@@ -0,0 +1,72 @@
+import { v4 as uuidv4 } from 'uuid';
+import { SessionService } from './session-service';
+import { QueryHistoryService } from './query-history-service';
+import { QueryContext } from '../types/query-types';
+import { createConversationTurn } from '../../../lib/conversation-context';
+import type { UniversalAnswer } from '../../../lib/universal/types';
+
+export interface UniversalQueryResult {
+  queryId: string;
+  status: 'completed' | 'failed';
+  query: string;
+  resolvedQuery?: string;
+  results: UniversalAnswer;
+  executionTime: number;
+  context: QueryContext;
+}
+
+/**
+ * Runs natural language queries through the Universal EDGAR Engine, resolving
+ * follow-ups against the caller's session and recording each run in query history.
+ */
+export class UniversalQueryService {
+  private sessionService: SessionService;
+  private historyService: QueryHistoryService;
+
+  constructor(
+    sessionService: SessionService = new SessionService(),
+    historyService: QueryHistoryService = new QueryHistoryService()
+  ) {
+    this.sessionService = sessionService;
+    this.historyService = historyService;
+  }
+
+  /**
+   * Answer a query. A session id is issued when the context does not carry one.
+   */
+  async run(query: string, context: QueryContext = {}): Promise<UniversalQueryResult> {
+    const startTime = Date.now();
+    const sessionId = context.sessionId || uuidv4();
+
+    // Loaded on first use; the engine pulls in the LLM provider and MCP router
+    const { UniversalEdgarEngine } = await import('../../../lib/universal/universal-edgar-engine');
+    const engine = new UniversalEdgarEngine();
+
+    console.log(`🔍 Processing query: "${query}"`);
+    const previousTurns = await this.sessionService.getTurns(sessionId, context.userId, context.previousQueries);
+    const answer = await engine.processQuery(query, previousTurns);
+    await this.sessionService.recordTurn(sessionId, context.userId, createConversationTurn(query, answer.metadata.conversation));
+
+    const result: UniversalQueryResult = {
+      queryId: uuidv4(),
+      // The engine reports its own failures as error answers rather than throwing
+      status: answer.metadata.queryId.startsWith('error_') ? 'failed' : 'completed',
+      query,
+      resolvedQuery: answer.metadata.conversation?.resolvedQuery,
+      results: answer,
+      executionTime: Date.now() - startTime,
+      context: { ...context, sessionId }
+    };
+
+    await this.historyService.record({
+      userId: context.userId,
+      query,
+      parsedQuery: answer.metadata.parsedQuery,
+      results: answer,
+      executionTime: result.executionTime,
+      status: result.status
+    });
+
+    return result;
+  }
+}
@@ -0,0 +1,243 @@
+import axios from 'axios';
+import { createHmac } from 'crypto';
+import { SECEdgarClient } from './sec-edgar-client';
+import { WatchlistService, NewFilingAlert, watchesForm } from './watchlist-service';
+import { Watchlist } from '../models/Watchlist';
+import { FilingAlert } from '../models/FilingAlert';
+import { checkWebhookUrl, webhookAgents } from './webhook-target';
+import { buildArchivesUrl } from '../../../lib/edgar-filing-index';
+import { getCompanyDirectory } from '../../../lib/company-directory';
+
+// Recent filings compared per company each poll. A company filing more than
+// this many forms between two polls has the oldest of them missed.
+const RECENT_FILINGS_WINDOW = 40;
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+export interface PollStats {
+  watchlists: number;
+  companies: number;
+  alerts: number;
+  webhooksDelivered: number;
+  webhooksFailed: number;
+  errors: Array<{ cik: string; error: string }>;
+}
+
+/**
+ * Body POSTed to a watchlist's webhook URL
+ */
+export interface WebhookPayload {
+  event: 'filings.new';
+  watchlist: { id: string; name: string };
+  filings: Array<{
+    alertId: string;
+    cik: string;
+    companyName?: string | null;
+    form: string;
+    accessionNumber: string;
+    filingDate?: string | null;
+    url?: string | null;
+  }>;
+  sentAt: string;
+}
+
+/**
+ * Polls SECEdgarClient.getRecentFilings for every CIK on an active watchlist
+ * and raises an alert for each accession number not seen on the previous poll.
+ * Alerts are stored for the in-app inbox and, when the watchlist has a webhook
+ * URL, POSTed there in one batch per watchlist per poll.
+ */
+export class WatchlistPoller {
+  private secClient: SECEdgarClient;
+  private watchlistService: WatchlistService;
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(secClient = new SECEdgarClient(), watchlistService = new WatchlistService()) {
+    this.secClient = secClient;
+    this.watchlistService = watchlistService;
+  }
+
+  /**
+   * Poll the given watchlists, or every active one. Each company is fetched
+   * once however many watchlists follow it.
+   */
+  async pollOnce(watchlists?: Watchlist[]): Promise<PollStats> {
+    const targets = watchlists || await this.watchlistService.listActive();
+    const ciks = [...new Set(targets.flatMap(watchlist => watchlist.ciks))];
+    const stats: PollStats = {
+      watchlists: targets.length,
+      companies: ciks.length,
+      alerts: 0,
+      webhooksDelivered: 0,
+      webhooksFailed: 0,
+      errors: []
+    };
+
+    const filingsByCik = new Map<string, any[]>();
+    for (const cik of ciks) {
+      try {
+        filingsByCik.set(cik, await this.secClient.getRecentFilings(cik, RECENT_FILINGS_WINDOW));
+      } catch (error: any) {
+        stats.errors.push({ cik, error: error.message });
+      }
+    }
+
+    for (const watchlist of targets) {
+      const { alerts, seenAccessions } = this.detectNewFilings(watchlist, filingsByCik);
+      const created = await this.watchlistService.createAlerts(alerts);
+      stats.alerts += created.length;
+
+      if (created.length > 0 && watchlist.webhookUrl) {
+        const error = await this.deliverWebhook(watchlist, created);
+        await this.watchlistService.setDeliveryStatus(created, error ? 'failed' : 'delivered', error);
+        if (error) {
+          stats.webhooksFailed++;
+        } else {
+          stats.webhooksDelivered++;
+        }
+      }
+
+      await this.watchlistService.recordPoll(watchlist, seenAccessions);
+    }
+
+    return stats;
+  }
+
+  /**
+   * Poll on an interval. A poll still running when the next is due is not overlapped.
+   */
+  start(intervalMs: number): void {
+    this.stop();
+    this.timer = setInterval(() => {
+      if (this.polling) return;
+      this.polling = true;
+      this.pollOnce()
+        .then(stats => {
+          if (stats.alerts > 0 || stats.errors.length > 0) {
+            console.log('Watchlist poll:', stats);
+          }
+        })
+        .catch(error => console.warn('Watchlist poll failed:', error.message))
+        .finally(() => {
+          this.polling = false;
+        });
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Compare a watchlist's last-seen accession numbers with the current filings.
+   * Companies not fetched this poll keep their previous state; companies
+   * polled for the first time only have their filings recorded.
+   */
+  private detectNewFilings(
+    watchlist: Watchlist,
+    filingsByCik: Map<string, any[]>
+  ): { alerts: NewFilingAlert[]; seenAccessions: Record<string, string[]> } {
+    const alerts: NewFilingAlert[] = [];
+    const seenAccessions: Record<string, string[]> = {};
+
+    for (const cik of watchlist.ciks) {
+      const filings = filingsByCik.get(cik);
+      const previouslySeen = watchlist.seenAccessions[cik];
+
+      if (!filings) {
+        if (previouslySeen) seenAccessions[cik] = previouslySeen;
+        continue;
+      }
+      seenAccessions[cik] = filings.map(filing => filing.accessionNumber);
+      if (!previouslySeen) continue;
+
+      const seen = new Set(previouslySeen);
+      const companyName = getCompanyDirectory().getByCik(cik)?.name || null;
+
+      // Filings come newest first; alert oldest first
+      filings
+        .filter(filing => !seen.has(filing.accessionNumber) && watchesForm(watchlist, filing.form))
+        .reverse()
+        .forEach(filing => alerts.push({
+          watchlistId: watchlist.id,
+          userId: watchlist.userId,
+          cik,
+          companyName,
+          form: filing.form,
+          accessionNumber: filing.accessionNumber,
+          filingDate: filing.filingDate || null,
+          url: buildArchivesUrl(cik, filing.accessionNumber, filing.primaryDocument || undefined),
+          deliveryStatus: 'inbox',
+          deliveryError: null
+        }));
+    }
+
+    return { alerts, seenAccessions };
+  }
+
+  /**
+   * POST new alerts to the watchlist's webhook; returns an error message on failure.
+   * The body is signed with the watchlist's own secret in X-Edgar-Signature. The
+   * URL is checked again before each delivery, since its host may have been
+   * re-pointed at an internal address after the watchlist was saved, and
+   * redirects are not followed.
+   */
+  private async deliverWebhook(watchlist: Watchlist, alerts: FilingAlert[]): Promise<string | undefined> {
+    const payload: WebhookPayload = {
+      event: 'filings.new',
+      watchlist: { id: watchlist.id, name: watchlist.name },
+      filings: alerts.map(alert => ({
+        alertId: alert.id,
+        cik: alert.cik,
+        companyName: alert.companyName,
+        form: alert.form,
+        accessionNumber: alert.accessionNumber,
+        filingDate: alert.filingDate,
+        url: alert.url
+      })),
+      sentAt: new Date().toISOString()
+    };
+    const secret = await this.watchlistService.getWebhookSecret(watchlist.id);
+    if (!secret) {
+      return 'Webhook not sent: the watchlist has no signing secret; rotate it with POST /api/v1/watchlists/:id/webhook-secret';
+    }
+    const refused = await checkWebhookUrl(watchlist.webhookUrl!);
+    if (refused) {
+      return `Webhook not sent: ${refused}`;
+    }
+
+    const body = JSON.stringify(payload);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-Edgar-Signature': `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`
+    };
+
+    try {
+      await axios.post(watchlist.webhookUrl!, body, {
+        headers,
+        timeout: WEBHOOK_TIMEOUT_MS,
+        maxRedirects: 0,
+        ...webhookAgents
+      });
+      return undefined;
+    } catch (error: any) {
+      return error.response ? `Webhook responded ${error.response.status}` : error.message;
+    }
+  }
+}
+
+let sharedPoller: WatchlistPoller | null = null;
+
+/**
+ * The process-wide poller, shared by the scheduler and on-demand polls
+ */
+export function getWatchlistPoller(): WatchlistPoller {
+  if (!sharedPoller) {
+    sharedPoller = new WatchlistPoller();
+  }
+  return sharedPoller;
+}
@@ -0,0 +1,240 @@
+import crypto from 'crypto';
+import { In } from 'typeorm';
+import { AppDataSource } from '../database/data-source';
+import { Watchlist } from '../models/Watchlist';
+import { FilingAlert } from '../models/FilingAlert';
+import { createError } from '../middleware/error-handler';
+
+export interface WatchlistInput {
+  name: string;
+  ciks: string[];
+  forms?: string[];
+  webhookUrl?: string | null;
+  active?: boolean;
+}
+
+export interface AlertListOptions {
+  userId: string;
+  watchlistId?: string;
+  unreadOnly?: boolean;
+  limit: number;
+  offset: number;
+}
+
+export type NewFilingAlert = Omit<FilingAlert, 'id' | 'createdAt' | 'readAt' | 'watchlist'>;
+
+/**
+ * Normalize watchlist CIKs to 10 digits and form types to upper case, dropping duplicates
+ */
+export function normalizeWatchlistInput<T extends Partial<WatchlistInput>>(input: T): T {
+  const normalized = { ...input };
+  if (input.ciks) {
+    normalized.ciks = [...new Set(input.ciks.map(cik => String(cik).trim().padStart(10, '0')))];
+  }
+  if (input.forms) {
+    normalized.forms = [...new Set(input.forms.map(form => String(form).trim().toUpperCase()).filter(Boolean))];
+  }
+  return normalized;
+}
+
+/**
+ * Whether a watchlist alerts on a form type. Amendments follow their base
+ * form, so watching 8-K also covers 8-K/A.
+ */
+export function watchesForm(watchlist: Pick<Watchlist, 'forms'>, form: string): boolean {
+  if (watchlist.forms.length === 0) return true;
+  const baseForm = form.toUpperCase().replace(/\/A$/, '');
+  return watchlist.forms.includes(form.toUpperCase()) || watchlist.forms.includes(baseForm);
+}
+
+/**
+ * Watchlists (CIKs plus form types a user follows) and the alerts raised for them
+ */
+export class WatchlistService {
+  /**
+   * List a user's watchlists by name
+   */
+  async list(userId: string): Promise<Watchlist[]> {
+    return this.watchlists().find({ where: { userId }, order: { name: 'ASC' } });
+  }
+
+  /**
+   * Every active watchlist, for the poller
+   */
+  async listActive(): Promise<Watchlist[]> {
+    return this.watchlists().findBy({ active: true });
+  }
+
+  /**
+   * Get one of a user's watchlists
+   */
+  async get(id: string, userId: string): Promise<Watchlist | null> {
+    return this.watchlists().findOneBy({ id, userId });
+  }
+
+  /**
+   * Create a watchlist. Its companies' existing filings are recorded on the
+   * first poll; only filings after that raise alerts. The result carries the
+   * webhook signing secret, which is not returned again.
+   */
+  async create(userId: string, input: WatchlistInput): Promise<Watchlist> {
+    const repository = this.watchlists();
+    return repository.save(repository.create({
+      ...normalizeWatchlistInput({ forms: [], ...input }),
+      userId,
+      webhookSecret: WatchlistService.generateSecret(),
+      seenAccessions: {}
+    }));
+  }
+
+  /**
+   * Replace a watchlist's webhook signing secret and return the new one; null
+   * if the user has no such watchlist
+   */
+  async rotateWebhookSecret(id: string, userId: string): Promise<string | null> {
+    const webhookSecret = WatchlistService.generateSecret();
+    const result = await this.watchlists().update({ id, userId }, { webhookSecret });
+    return (result.affected || 0) > 0 ? webhookSecret : null;
+  }
+
+  /**
+   * The secret a watchlist's webhooks are signed with, for the poller
+   */
+  async getWebhookSecret(id: string): Promise<string | null> {
+    const watchlist = await this.watchlists()
+      .createQueryBuilder('watchlist')
+      .addSelect('watchlist.webhookSecret')
+      .where('watchlist.id = :id', { id })
+      .getOne();
+    return watchlist?.webhookSecret || null;
+  }
+
+  /**
+   * Update a watchlist; null if the user has no such watchlist
+   */
+  async update(id: string, userId: string, changes: Partial<WatchlistInput>): Promise<Watchlist | null> {
+    const watchlist = await this.get(id, userId);
+    if (!watchlist) return null;
+
+    Object.assign(watchlist, normalizeWatchlistInput(changes));
+
+    // Forget removed companies so adding one back starts from its current filings
+    watchlist.seenAccessions = Object.fromEntries(
+      Object.entries(watchlist.seenAccessions).filter(([cik]) => watchlist.ciks.includes(cik))
+    );
+    return this.watchlists().save(watchlist);
+  }
+
+  /**
+   * Delete a watchlist and its alerts; false if the user has no such watchlist
+   */
+  async delete(id: string, userId: string): Promise<boolean> {
+    const result = await this.watchlists().delete({ id, userId });
+    return (result.affected || 0) > 0;
+  }
+
+  /**
+   * Store what the poller saw for a watchlist
+   */
+  async recordPoll(watchlist: Watchlist, seenAccessions: Record<string, string[]>): Promise<void> {
+    await this.watchlists().update({ id: watchlist.id }, { seenAccessions, lastPolledAt: new Date() });
+  }
+
+  /**
+   * Save new alerts, skipping accession numbers already alerted for the watchlist
+   */
+  async createAlerts(alerts: NewFilingAlert[]): Promise<FilingAlert[]> {
+    if (alerts.length === 0) return [];
+
+    const result = await this.alerts()
+      .createQueryBuilder()
+      .insert()
+      .values(alerts)
+      .orIgnore()
+      .returning('id')
+      .execute();
+
+    // Postgres returns only the rows it inserted
+    const insertedIds = (result.raw as Array<{ id: string }>).map(row => row.id);
+    return insertedIds.length > 0 ? this.alerts().findBy({ id: In(insertedIds) }) : [];
+  }
+
+  /**
+   * Record the webhook outcome for a batch of alerts
+   */
+  async setDeliveryStatus(alerts: FilingAlert[], status: FilingAlert['deliveryStatus'], error?: string): Promise<void> {
+    if (alerts.length === 0) return;
+    await this.alerts().update(alerts.map(alert => alert.id), { deliveryStatus: status, deliveryError: error || null });
+  }
+
+  /**
+   * A user's inbox, newest first
+   */
+  async listAlerts(options: AlertListOptions): Promise<{ alerts: FilingAlert[]; total: number; unread: number }> {
+    const query = this.alerts()
+      .createQueryBuilder('alert')
+      .where('alert.userId = :userId', { userId: options.userId })
+      .orderBy('alert.createdAt', 'DESC')
+      .addOrderBy('alert.filingDate', 'DESC')
+      .skip(options.offset)
+      .take(options.limit);
+
+    if (options.watchlistId) {
+      query.andWhere('alert.watchlistId = :watchlistId', { watchlistId: options.watchlistId });
+    }
+    if (options.unreadOnly) {
+      query.andWhere('alert.readAt IS NULL');
+    }
+
+    const [[alerts, total], unread] = await Promise.all([
+      query.getManyAndCount(),
+      this.alerts()
+        .createQueryBuilder('alert')
+        .where('alert.userId = :userId', { userId: options.userId })
+        .andWhere('alert.readAt IS NULL')
+        .getCount()
+    ]);
+    return { alerts, total, unread };
+  }
+
+  /**
+   * Mark one of a user's alerts read; false if the user has no such alert
+   */
+  async markAlertRead(id: string, userId: string): Promise<boolean> {
+    const result = await this.alerts().update({ id, userId }, { readAt: new Date() });
+    return (result.affected || 0) > 0;
+  }
+
+  /**
+   * Mark all of a user's unread alerts read
+   */
+  async markAllAlertsRead(userId: string): Promise<number> {
+    const result = await this.alerts()
+      .createQueryBuilder()
+      .update()
+      .set({ readAt: new Date() })
+      .where('user_id = :userId', { userId })
+      .andWhere('read_at IS NULL')
+      .execute();
+    return result.affected || 0;
+  }
+
+  private static generateSecret(): string {
+    return crypto.randomBytes(32).toString('hex');
+  }
+
+  private watchlists() {
+    return this.repository(Watchlist);
+  }
+
+  private alerts() {
+    return this.repository(FilingAlert);
+  }
+
+  private repository<T extends Watchlist | FilingAlert>(entity: new () => T) {
+    if (!AppDataSource.isInitialized) {
+      throw createError('Watchlists require the database, which is unavailable', 503);
+    }
+    return AppDataSource.getRepository(entity);
+  }
+}
@@ -0,0 +1,85 @@
+import * as dns from 'dns';
+import * as http from 'http';
+import * as https from 'https';
+import { BlockList, LookupFunction } from 'net';
+
+/**
+ * Addresses a watchlist webhook may not reach: loopback, private, link-local
+ * (including cloud metadata at 169.254.169.254), shared, reserved and multicast
+ * ranges. BlockList checks IPv4-mapped IPv6 addresses against the IPv4 ranges;
+ * NAT64 addresses are blocked outright.
+ */
+const NON_PUBLIC_RANGES = new BlockList();
+([
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as Array<[string, number]>).forEach(([network, prefix]) => NON_PUBLIC_RANGES.addSubnet(network, prefix, 'ipv4'));
+([
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32],
+  ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as Array<[string, number]>).forEach(([network, prefix]) => NON_PUBLIC_RANGES.addSubnet(network, prefix, 'ipv6'));
+
+/**
+ * True for an IP address that is routable on the public internet
+ */
+export function isPublicAddress(address: string): boolean {
+  return !NON_PUBLIC_RANGES.check(address, address.includes(':') ? 'ipv6' : 'ipv4');
+}
+
+// Local end-to-end runs post to the mock feed's receiver on localhost
+function allowPrivateTargets(): boolean {
+  return process.env.WATCHLIST_WEBHOOK_ALLOW_PRIVATE === 'true';
+}
+
+/**
+ * Check a webhook URL before saving or delivering to it: http(s) only, and
+ * every address its host resolves to must be public. Returns the reason it is
+ * refused, or null when it is acceptable.
+ */
+export async function checkWebhookUrl(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Webhook URL is not a valid URL';
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return 'Webhook URL must use http or https';
+  }
+  if (parsed.username || parsed.password) {
+    return 'Webhook URL must not contain credentials';
+  }
+  if (allowPrivateTargets()) return null;
+
+  const host = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+  try {
+    const addresses = await dns.promises.lookup(host, { all: true, verbatim: true });
+    const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+    return blocked ? `Webhook host ${host} resolves to a non-public address (${blocked.address})` : null;
+  } catch (error: any) {
+    return `Webhook host ${host} could not be resolved (${error.code || error.message})`;
+  }
+}
+
+// Re-checks the addresses the connection actually uses, so a host cannot pass
+// checkWebhookUrl and then re-resolve to an internal address (DNS rebinding)
+const publicOnlyLookup = ((hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error);
+    const blocked = allowPrivateTargets() ? undefined : addresses.find(({ address }) => !isPublicAddress(address));
+    if (blocked) {
+      return callback(new Error(`Webhook host ${hostname} resolves to a non-public address (${blocked.address})`));
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}) as LookupFunction;
+
+/**
+ * Agents for webhook requests; pass both to axios along with maxRedirects: 0
+ */
+export const webhookAgents = {
+  httpAgent: new http.Agent({ lookup: publicOnlyLookup }),
+  httpsAgent: new https.Agent({ lookup: publicOnlyLookup })
+};
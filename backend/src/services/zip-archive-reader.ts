@@ -0,0 +1,181 @@
+import { promises as fs } from 'fs';
+import { promisify } from 'util';
+import { inflateRaw } from 'zlib';
+
+const inflateRawAsync = promisify(inflateRaw);
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP64_EXTRA_FIELD = 0x0001;
+const MAX_COMMENT_LENGTH = 0xffff;
+
+export interface ZipEntry {
+  name: string;
+  method: number; // 0 = stored, 8 = deflate
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * Random-access reader for large ZIP archives such as the EDGAR bulk
+ * submissions.zip and companyfacts.zip. Only the central directory is held in
+ * memory; entries are read and inflated one at a time. Supports ZIP64, which
+ * the bulk files need for their entry counts.
+ */
+export class ZipArchiveReader {
+  private constructor(
+    private handle: fs.FileHandle,
+    private entryList: ZipEntry[]
+  ) {}
+
+  /**
+   * Open an archive and read its central directory
+   */
+  static async open(filePath: string): Promise<ZipArchiveReader> {
+    const handle = await fs.open(filePath, 'r');
+    try {
+      const { size } = await handle.stat();
+      const directory = await ZipArchiveReader.locateCentralDirectory(handle, size);
+      const buffer = await ZipArchiveReader.readRange(handle, directory.offset, directory.size);
+      return new ZipArchiveReader(handle, ZipArchiveReader.parseCentralDirectory(buffer, directory.count));
+    } catch (error) {
+      await handle.close();
+      throw error;
+    }
+  }
+
+  /**
+   * All file entries in the archive (directories are skipped)
+   */
+  entries(): ZipEntry[] {
+    return this.entryList;
+  }
+
+  /**
+   * Read and decompress a single entry
+   */
+  async read(entry: ZipEntry): Promise<Buffer> {
+    const header = await ZipArchiveReader.readRange(this.handle, entry.localHeaderOffset, 30);
+    if (header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Invalid local header for ${entry.name}`);
+    }
+
+    // The local header's name and extra field lengths can differ from the central directory's
+    const dataOffset = entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+    const data = await ZipArchiveReader.readRange(this.handle, dataOffset, entry.compressedSize);
+
+    if (entry.method === 0) return data;
+    if (entry.method === 8) return inflateRawAsync(data);
+    throw new Error(`Unsupported compression method ${entry.method} for ${entry.name}`);
+  }
+
+  /**
+   * Read an entry and parse it as JSON
+   */
+  async readJson<T = any>(entry: ZipEntry): Promise<T> {
+    const data = await this.read(entry);
+    return JSON.parse(data.toString('utf8'));
+  }
+
+  async close(): Promise<void> {
+    await this.handle.close();
+  }
+
+  private static async locateCentralDirectory(
+    handle: fs.FileHandle,
+    fileSize: number
+  ): Promise<{ offset: number; size: number; count: number }> {
+    // The end-of-central-directory record sits at the end, followed by an optional comment
+    const tailLength = Math.min(fileSize, 22 + MAX_COMMENT_LENGTH + 20);
+    const tail = await ZipArchiveReader.readRange(handle, fileSize - tailLength, tailLength);
+
+    let eocd = -1;
+    for (let i = tail.length - 22; i >= 0; i--) {
+      if (tail.readUInt32LE(i) === EOCD_SIGNATURE) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd < 0) {
+      throw new Error('Not a ZIP archive: end of central directory not found');
+    }
+
+    let count = tail.readUInt16LE(eocd + 10);
+    let size = tail.readUInt32LE(eocd + 12);
+    let offset = tail.readUInt32LE(eocd + 16);
+
+    // ZIP64 archives point to a second record holding the 64-bit values
+    const locator = eocd - 20;
+    if (locator >= 0 && tail.readUInt32LE(locator) === ZIP64_EOCD_LOCATOR_SIGNATURE) {
+      const recordOffset = Number(tail.readBigUInt64LE(locator + 8));
+      const record = await ZipArchiveReader.readRange(handle, recordOffset, 56);
+      if (record.readUInt32LE(0) !== ZIP64_EOCD_SIGNATURE) {
+        throw new Error('Invalid ZIP64 end of central directory record');
+      }
+      count = Number(record.readBigUInt64LE(32));
+      size = Number(record.readBigUInt64LE(40));
+      offset = Number(record.readBigUInt64LE(48));
+    }
+
+    return { offset, size, count };
+  }
+
+  private static parseCentralDirectory(buffer: Buffer, count: number): ZipEntry[] {
+    const entries: ZipEntry[] = [];
+    let position = 0;
+
+    for (let i = 0; i < count && position < buffer.length; i++) {
+      if (buffer.readUInt32LE(position) !== CENTRAL_HEADER_SIGNATURE) {
+        throw new Error(`Invalid central directory header at entry ${i}`);
+      }
+
+      const method = buffer.readUInt16LE(position + 10);
+      let compressedSize = buffer.readUInt32LE(position + 20);
+      let size = buffer.readUInt32LE(position + 24);
+      const nameLength = buffer.readUInt16LE(position + 28);
+      const extraLength = buffer.readUInt16LE(position + 30);
+      const commentLength = buffer.readUInt16LE(position + 32);
+      let localHeaderOffset = buffer.readUInt32LE(position + 42);
+      const name = buffer.toString('utf8', position + 46, position + 46 + nameLength);
+
+      // Fields that overflow 32 bits are 0xFFFFFFFF here and stored in the ZIP64 extra field, in order
+      const extraStart = position + 46 + nameLength;
+      const extraEnd = extraStart + extraLength;
+      for (let cursor = extraStart; cursor + 4 <= extraEnd;) {
+        const id = buffer.readUInt16LE(cursor);
+        const length = buffer.readUInt16LE(cursor + 2);
+        if (id === ZIP64_EXTRA_FIELD) {
+          let field = cursor + 4;
+          if (size === 0xffffffff) { size = Number(buffer.readBigUInt64LE(field)); field += 8; }
+          if (compressedSize === 0xffffffff) { compressedSize = Number(buffer.readBigUInt64LE(field)); field += 8; }
+          if (localHeaderOffset === 0xffffffff) { localHeaderOffset = Number(buffer.readBigUInt64LE(field)); }
+        }
+        cursor += 4 + length;
+      }
+
+      if (!name.endsWith('/')) {
+        entries.push({ name, method, compressedSize, size, localHeaderOffset });
+      }
+      position = extraEnd + commentLength;
+    }
+
+    return entries;
+  }
+
+  private static async readRange(handle: fs.FileHandle, offset: number, length: number): Promise<Buffer> {
+    const buffer = Buffer.alloc(length);
+    let read = 0;
+    while (read < length) {
+      const { bytesRead } = await handle.read(buffer, read, length - read, offset + read);
+      if (bytesRead === 0) {
+        throw new Error(`Unexpected end of archive at offset ${offset + read}`);
+      }
+      read += bytesRead;
+    }
+    return buffer;
+  }
+}
@@ -1,3 +1,5 @@
+import { CanonicalIntent, CanonicalQuery } from '../../../lib/query-taxonomy';
+
 export interface QueryContext {
   sessionId?: string;
   userId?: string;
@@ -11,6 +13,7 @@ export interface ParsedQuery {
   modifiers: QueryModifiers;
   confidence: number;
   originalQuery: string;
+  canonical: CanonicalQuery; // What the query processor routes on; shared with the universal engine
 }
 
 export enum QueryIntent {
@@ -33,6 +36,27 @@ export enum QueryIntent {
   UNKNOWN = 'UNKNOWN'
 }
 
+/** The canonical intent behind each pattern intent; the metric entities carry what REVENUE_QUERY and PROFIT_QUERY distinguish */
+export const CANONICAL_INTENT: Record<QueryIntent, CanonicalIntent> = {
+  [QueryIntent.COMPANY_LOOKUP]: 'company_overview',
+  [QueryIntent.COMPANY_PROFILE]: 'company_overview',
+  [QueryIntent.COMPANY_OFFICERS]: 'company_officers',
+  [QueryIntent.REVENUE_QUERY]: 'financial_metrics',
+  [QueryIntent.PROFIT_QUERY]: 'financial_metrics',
+  [QueryIntent.BALANCE_SHEET]: 'financial_metrics',
+  [QueryIntent.CASH_FLOW]: 'financial_metrics',
+  [QueryIntent.FILING_SEARCH]: 'filing_lookup',
+  [QueryIntent.FILING_CONTENT]: 'content_search',
+  [QueryIntent.INSIDER_TRADING]: 'insider_activity',
+  [QueryIntent.COMPANY_COMPARISON]: 'comparison',
+  [QueryIntent.SECTOR_ANALYSIS]: 'sector_analysis',
+  [QueryIntent.PEER_ANALYSIS]: 'peer_analysis',
+  [QueryIntent.HISTORICAL_DATA]: 'trend_analysis',
+  [QueryIntent.QUARTERLY_TRENDS]: 'trend_analysis',
+  [QueryIntent.YEAR_OVER_YEAR]: 'trend_analysis',
+  [QueryIntent.UNKNOWN]: 'unknown'
+};
+
 export interface QueryEntities {
   companies?: CompanyEntity[];
   tickers?: string[];
@@ -78,6 +102,7 @@ export interface QueryResult {
   queryId: string;
   status: 'pending' | 'processing' | 'completed' | 'failed';
   query: string;
+  resolvedQuery?: string; // Self-contained rewrite of a follow-up question
   parsedQuery?: ParsedQuery;
   results?: any;
   error?: string;
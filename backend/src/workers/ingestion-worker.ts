@@ -0,0 +1,139 @@
+import 'reflect-metadata';
+import { readFileSync } from 'fs';
+import dotenv from 'dotenv';
+import { AppDataSource } from '../database/data-source';
+import { IngestionService, IngestionStats } from '../services/ingestion-service';
+
+dotenv.config();
+
+const USAGE = `Usage: npm run ingest -- [options]
+
+  --ciks <list>           Comma-separated CIKs to ingest live from the SEC API
+  --cik-file <path>       File with one CIK per line (live, or to filter bulk archives)
+  --submissions <path>    EDGAR bulk submissions.zip
+  --companyfacts <path>   EDGAR bulk companyfacts.zip
+  --fulltext <n>          Latest 10-K/10-Q documents per company to add to the full-text index
+                          (live default: FULLTEXT_INGEST_FILINGS or 8; bulk archives: 0)
+
+With bulk archives, --ciks/--cik-file restrict the load to those companies.
+Submissions are always loaded before company facts.`;
+
+interface WorkerOptions {
+  ciks: string[];
+  submissions?: string;
+  companyfacts?: string;
+  fullText?: number;
+}
+
+function parseArgs(argv: string[]): WorkerOptions {
+  const options: WorkerOptions = { ciks: [] };
+
+  for (let i = 0; i < argv.length; i++) {
+    const value = argv[i + 1];
+    switch (argv[i]) {
+      case '--ciks':
+        options.ciks.push(...value.split(',').map(cik => cik.trim()).filter(Boolean));
+        i++;
+        break;
+      case '--cik-file':
+        options.ciks.push(...readFileSync(value, 'utf8').split(/\s+/).filter(Boolean));
+        i++;
+        break;
+      case '--submissions':
+        options.submissions = value;
+        i++;
+        break;
+      case '--companyfacts':
+        options.companyfacts = value;
+        i++;
+        break;
+      case '--fulltext':
+        if (!/^\d+$/.test(value || '')) throw new Error('--fulltext takes a number of filings');
+        options.fullText = parseInt(value, 10);
+        i++;
+        break;
+      default:
+        throw new Error(`Unknown option: ${argv[i]}`);
+    }
+  }
+
+  if (options.ciks.some(cik => !/^\d{1,10}$/.test(cik))) {
+    throw new Error('CIKs must be 1-10 digits');
+  }
+  if (options.ciks.length === 0 && !options.submissions && !options.companyfacts) {
+    throw new Error('Nothing to ingest');
+  }
+
+  return options;
+}
+
+function logProgress(label: string) {
+  return (processed: number, total: number) => {
+    if (processed % 500 === 0 || processed === total) {
+      console.log(`${label}: ${processed}/${total} companies`);
+    }
+  };
+}
+
+function logStats(label: string, stats: IngestionStats): void {
+  console.log(`${label}:`, {
+    companies: stats.companies,
+    filingsAdded: stats.filingsAdded,
+    filingsProcessed: stats.filingsProcessed,
+    factsLoaded: stats.factsLoaded,
+    factsSkipped: stats.factsSkipped,
+    filingsIndexed: stats.filingsIndexed,
+    errors: stats.errors.length
+  });
+  stats.errors.slice(0, 20).forEach(error => console.error(`  CIK ${error.cik}: ${error.error}`));
+}
+
+async function main(): Promise<void> {
+  let options: WorkerOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error: any) {
+    console.error(error.message);
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  await AppDataSource.initialize();
+  const ingestion = new IngestionService();
+  let failed = false;
+
+  try {
+    if (options.submissions || options.companyfacts) {
+      if (options.submissions) {
+        const stats = await ingestion.ingestSubmissionsArchive(options.submissions, {
+          ciks: options.ciks,
+          onProgress: logProgress('Submissions'),
+          fullTextFilings: options.fullText
+        });
+        logStats('Submissions archive', stats);
+        failed = failed || stats.errors.length > 0;
+      }
+      if (options.companyfacts) {
+        const stats = await ingestion.ingestCompanyFactsArchive(options.companyfacts, {
+          ciks: options.ciks,
+          onProgress: logProgress('Company facts')
+        });
+        logStats('Company facts archive', stats);
+        failed = failed || stats.errors.length > 0;
+      }
+    } else {
+      const stats = await ingestion.ingestCiks(options.ciks, options.fullText);
+      logStats('Live ingestion', stats);
+      failed = stats.errors.length > 0;
+    }
+  } finally {
+    await AppDataSource.destroy();
+  }
+
+  process.exit(failed ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error('Ingestion worker failed:', error);
+  process.exit(1);
+});
@@ -7,6 +7,8 @@ function App() {
   const [query, setQuery] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [result, setResult] = useState<any>(null);
+  // Issued by the server on the first query; lets follow-ups refer to earlier ones
+  const [sessionId, setSessionId] = useState<string | undefined>(undefined);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -21,7 +23,7 @@ function App() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ query }),
+        body: JSON.stringify({ query, context: sessionId ? { sessionId } : undefined }),
       });
 
       if (!response.ok) {
@@ -29,6 +31,9 @@ function App() {
       }
 
       const data = await response.json();
+      if (data.data?.context?.sessionId) {
+        setSessionId(data.data.context.sessionId);
+      }
       setResult(data);
     } catch (error) {
       console.error('Query failed:', error);
@@ -289,6 +294,11 @@ function App() {
                         <div className="result-message">
                           <strong>Query:</strong> "{result.data.query}"
                         </div>
+                        {result.data.resolvedQuery && (
+                          <div className="result-message">
+                            <strong>Interpreted as:</strong> "{result.data.resolvedQuery}"
+                          </div>
+                        )}
                         <div className="result-message">
                           <strong>Status:</strong> {result.data.status}
                         </div>
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { 
   CheckCircleIcon, 
   ExclamationTriangleIcon, 
@@ -6,16 +6,33 @@ import {
   ArrowDownTrayIcon,
   ChartBarIcon,
   BuildingOfficeIcon,
-  DocumentTextIcon
+  DocumentTextIcon,
+  CalendarDaysIcon,
+  BookOpenIcon,
+  ArrowTopRightOnSquareIcon
 } from '@heroicons/react/24/outline';
-import type { QueryResult } from '../types';
+import type { Citation, QueryResult, Timeline, TimelineEntry } from '../types';
 import LoadingSpinner from './LoadingSpinner';
 
 interface QueryResultsProps {
   result: QueryResult;
 }
 
+// Citation markers ("[2]"), markdown links and bold text in a narrative
+const NARRATIVE_TOKEN = /\[(\d{1,3})\](?!\()|\[([^\]]+)\]\(([^)]+)\)|\*\*(.+?)\*\*/g;
+
+// Narratives are model output, so only web links become anchors; javascript: and data: URLs stay text
+const isWebUrl = (url: string): boolean => {
+  try {
+    return ['http:', 'https:'].includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+};
+
 const QueryResults: React.FC<QueryResultsProps> = ({ result }) => {
+  const [openCitation, setOpenCitation] = useState<number | null>(null);
+
   const getStatusIcon = () => {
     switch (result.status) {
       case 'completed':
@@ -98,10 +115,206 @@ const QueryResults: React.FC<QueryResultsProps> = ({ result }) => {
       case 'suggestions':
         return renderSuggestions(results);
       default:
+        // Universal answers carry a cited narrative, and timelines in data alongside tables and charts
+        if (results.narrative || results.data?.timelines?.length) {
+          return (
+            <div className="space-y-6">
+              {results.narrative && renderNarrative(results.narrative, results.citations || [])}
+              {(results.data?.timelines || []).map((timeline: Timeline, index: number) => (
+                <React.Fragment key={index}>{renderTimeline(timeline)}</React.Fragment>
+              ))}
+              {renderRawData(results)}
+            </div>
+          );
+        }
         return renderRawData(results);
     }
   };
 
+  const citationElementId = (id: number) => `citation-${result.queryId}-${id}`;
+
+  const showCitation = (id: number) => {
+    setOpenCitation(id);
+    document.getElementById(citationElementId(id))?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  };
+
+  const renderNarrativeText = (narrative: string, citations: Citation[]) => {
+    const nodes: React.ReactNode[] = [];
+    let cursor = 0;
+
+    for (const match of narrative.matchAll(NARRATIVE_TOKEN)) {
+      const [token, marker, linkText, linkUrl, bold] = match;
+      nodes.push(narrative.slice(cursor, match.index));
+      cursor = match.index! + token.length;
+
+      if (marker) {
+        const id = parseInt(marker, 10);
+        const citation = citations.find(c => c.id === id);
+        nodes.push(citation ? (
+          <sup key={cursor}>
+            <a
+              href={`#${citationElementId(id)}`}
+              title={citation.source.name}
+              className="text-blue-600 hover:text-blue-800 font-medium"
+              onClick={event => {
+                event.preventDefault();
+                showCitation(id);
+              }}
+            >
+              [{id}]
+            </a>
+          </sup>
+        ) : token);
+      } else if (linkUrl) {
+        nodes.push(isWebUrl(linkUrl) ? (
+          <a key={cursor} href={linkUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800 underline">
+            {linkText}
+          </a>
+        ) : linkText);
+      } else {
+        nodes.push(<strong key={cursor}>{bold}</strong>);
+      }
+    }
+
+    nodes.push(narrative.slice(cursor));
+    return nodes;
+  };
+
+  const renderCitation = (citation: Citation) => {
+    const { id, source, filing, facts, content, url } = citation;
+    const isOpen = openCitation === id;
+
+    return (
+      <li key={id} id={citationElementId(id)} className={`rounded-md p-2 ${isOpen ? 'bg-blue-50' : ''}`}>
+        <button
+          type="button"
+          className="flex items-start text-left w-full"
+          onClick={() => setOpenCitation(isOpen ? null : id)}
+        >
+          <span className="font-medium text-gray-900 mr-2">[{id}]</span>
+          <span className="text-sm text-gray-700">
+            {source.name}
+            {filing?.section && <span className="text-gray-500"> &middot; {filing.section}</span>}
+          </span>
+        </button>
+        {isOpen && (
+          <div className="ml-7 mt-2 space-y-2 text-sm">
+            {facts && facts.length > 0 && (
+              <ul className="space-y-1 text-gray-700">
+                {facts.map((fact, index) => (
+                  <li key={index}>
+                    <span className="font-mono text-xs">{fact.concept}</span>
+                    {' '}{fact.period || fact.end}: {fact.value.toLocaleString()}{fact.unit ? ` ${fact.unit}` : ''}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {content && (
+              <blockquote className="border-l-2 border-gray-300 pl-3 text-gray-600 italic">{content}</blockquote>
+            )}
+            {filing?.accessionNumber && (
+              <p className="text-xs text-gray-500">
+                {filing.formType} filed {new Date(filing.filingDate).toLocaleDateString()} &middot; Accession {filing.accessionNumber}
+              </p>
+            )}
+            {url && (
+              <a href={url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center text-blue-600 hover:text-blue-800">
+                Open source
+                <ArrowTopRightOnSquareIcon className="w-4 h-4 ml-1" />
+              </a>
+            )}
+          </div>
+        )}
+      </li>
+    );
+  };
+
+  const renderNarrative = (narrative: string, citations: Citation[]) => {
+    return (
+      <div className="card">
+        <div className="card-header">
+          <div className="flex items-center">
+            <DocumentTextIcon className="w-5 h-5 mr-2 text-gray-500" />
+            <h3 className="text-lg font-semibold text-gray-900">Answer</h3>
+          </div>
+        </div>
+        <div className="card-body space-y-4">
+          <div className="text-gray-800 leading-relaxed whitespace-pre-wrap">
+            {renderNarrativeText(narrative, citations)}
+          </div>
+          {citations.length > 0 && (
+            <div className="border-t border-gray-200 pt-4">
+              <div className="flex items-center mb-2">
+                <BookOpenIcon className="w-4 h-4 mr-2 text-gray-500" />
+                <h4 className="text-sm font-semibold text-gray-700">Sources</h4>
+              </div>
+              <ol className="space-y-1">
+                {citations.map(renderCitation)}
+              </ol>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const significanceClasses: Record<string, string> = {
+    high: 'bg-red-100 text-red-800',
+    medium: 'bg-yellow-100 text-yellow-800',
+    low: 'bg-gray-100 text-gray-700'
+  };
+
+  const renderTimeline = (timeline: Timeline) => {
+    const { title, period, events, source } = timeline;
+
+    return (
+      <div className="card">
+        <div className="card-header">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center">
+              <CalendarDaysIcon className="w-5 h-5 mr-2 text-gray-500" />
+              <h3 className="text-lg font-semibold text-gray-900">{title || 'Timeline'}</h3>
+            </div>
+            {period && <span className="text-sm text-gray-500">{period}</span>}
+          </div>
+        </div>
+        <div className="card-body">
+          {events.length > 0 ? (
+            <ol className="relative border-l border-gray-200 ml-2">
+              {events.map((entry: TimelineEntry, index: number) => (
+                <li key={index} className="mb-6 ml-4 last:mb-0">
+                  <div className="absolute w-3 h-3 bg-primary-500 rounded-full -left-1.5 mt-1.5 border border-white" />
+                  <div className="flex flex-wrap items-center gap-2">
+                    <time className="text-sm text-gray-500">
+                      {new Date(entry.date).toLocaleDateString()}
+                    </time>
+                    <span className={`text-xs font-medium px-2 py-0.5 rounded ${significanceClasses[entry.significance || 'low']}`}>
+                      {entry.type.replace(/_/g, ' ')}
+                    </span>
+                    {entry.items && entry.items.length > 0 && (
+                      <span className="text-xs text-gray-500">Items {entry.items.join(', ')}</span>
+                    )}
+                  </div>
+                  <div className="font-medium text-gray-900 mt-1">
+                    {entry.url ? (
+                      <a href={entry.url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                        {entry.event}
+                      </a>
+                    ) : entry.event}
+                  </div>
+                  {entry.summary && <p className="text-sm text-gray-600 mt-1">{entry.summary}</p>}
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <p className="text-gray-600">No events found</p>
+          )}
+          {source && <p className="text-xs text-gray-500 mt-4">Source: {source}</p>}
+        </div>
+      </div>
+    );
+  };
+
   const renderCompanyProfile = (results: any) => {
     const { company, recent_filings } = results;
 
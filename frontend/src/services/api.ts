@@ -1,5 +1,5 @@
 import axios from 'axios';
-import type { ApiResponse, QueryResult, Company, Filing, QuerySuggestion, CompanySearchResult } from '../types';
+import type { ApiResponse, QueryResult, Company, Filing, QuerySuggestion, CompanySearchResult, User, AuthTokens } from '../types';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api/v1';
 
@@ -24,15 +24,95 @@ api.interceptors.request.use(
   (error) => Promise.reject(error)
 );
 
-// Response interceptor for error handling
+const storeTokens = (tokens: AuthTokens) => {
+  localStorage.setItem('authToken', tokens.accessToken);
+  localStorage.setItem('refreshToken', tokens.refreshToken);
+};
+
+const clearTokens = () => {
+  localStorage.removeItem('authToken');
+  localStorage.removeItem('refreshToken');
+};
+
+// Concurrent 401s share one refresh, since each refresh token works only once
+let pendingRefresh: Promise<AuthTokens> | null = null;
+
+const refreshTokens = (refreshToken: string): Promise<AuthTokens> => {
+  if (!pendingRefresh) {
+    pendingRefresh = axios
+      .post<ApiResponse<AuthTokens>>(`${API_BASE_URL}/auth/refresh`, { refreshToken })
+      .then((response) => {
+        storeTokens(response.data.data);
+        return response.data.data;
+      })
+      .finally(() => {
+        pendingRefresh = null;
+      });
+  }
+  return pendingRefresh;
+};
+
+// Response interceptor: renew an expired access token once, then report errors
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
+  async (error) => {
+    const config = error.config;
+    const refreshToken = localStorage.getItem('refreshToken');
+
+    if (error.response?.status === 401 && refreshToken && config && !config._retried) {
+      config._retried = true;
+      try {
+        const tokens = await refreshTokens(refreshToken);
+        config.headers.Authorization = `Bearer ${tokens.accessToken}`;
+        return api(config);
+      } catch {
+        clearTokens();
+      }
+    }
+
     console.error('API Error:', error.response?.data || error.message);
     return Promise.reject(error);
   }
 );
 
+export const authApi = {
+  // Create an account and sign in
+  register: async (email: string, password: string, name?: string): Promise<User> => {
+    const response = await api.post<ApiResponse<AuthTokens & { user: User }>>('/auth/register', {
+      email,
+      password,
+      name,
+    });
+    storeTokens(response.data.data);
+    return response.data.data.user;
+  },
+
+  // Sign in with email and password
+  login: async (email: string, password: string): Promise<User> => {
+    const response = await api.post<ApiResponse<AuthTokens & { user: User }>>('/auth/login', {
+      email,
+      password,
+    });
+    storeTokens(response.data.data);
+    return response.data.data.user;
+  },
+
+  // Sign out, revoking the refresh token
+  logout: async (): Promise<void> => {
+    const refreshToken = localStorage.getItem('refreshToken');
+    clearTokens();
+    if (refreshToken) {
+      await api.post('/auth/logout', { refreshToken });
+    }
+  },
+
+  // Get the signed-in user
+  me: async (): Promise<User> => {
+    const response = await api.get<ApiResponse<{ user: User }>>('/auth/me');
+    return response.data.data.user;
+  },
+};
+
 export const queryApi = {
   // Process a natural language query
   processQuery: async (query: string, context?: any): Promise<QueryResult> => {
@@ -123,9 +203,9 @@ export const filingApi = {
     return response.data.data;
   },
 
-  // Get filing by accession number
-  getFiling: async (accessionNumber: string): Promise<any> => {
-    const response = await api.get<ApiResponse<any>>(`/filings/${accessionNumber}`);
+  // Get a company's filing by accession number
+  getFiling: async (cik: string, accessionNumber: string): Promise<any> => {
+    const response = await api.get<ApiResponse<any>>(`/filings/${accessionNumber}?cik=${encodeURIComponent(cik)}`);
     return response.data.data;
   },
 
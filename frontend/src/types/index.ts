@@ -2,6 +2,7 @@ export interface QueryResult {
   queryId: string;
   status: 'pending' | 'processing' | 'completed' | 'failed';
   query: string;
+  resolvedQuery?: string;
   parsedQuery?: ParsedQuery;
   results?: any;
   error?: string;
@@ -90,6 +91,55 @@ export interface FinancialData {
   fiscalPeriod: string;
 }
 
+export interface TimelineEntry {
+  date: string;
+  event: string;
+  summary?: string;
+  company?: string;
+  type: string; // Event category ("leadership", "earnings") or "filing"
+  significance?: 'high' | 'medium' | 'low';
+  items?: string[]; // 8-K item numbers
+  url?: string;
+}
+
+export interface Timeline {
+  title?: string;
+  period: string;
+  events: TimelineEntry[];
+  source?: string;
+}
+
+export interface XbrlFact {
+  concept: string; // "us-gaap:Revenues"
+  value: number;
+  unit?: string;
+  period?: string; // "FY2023"
+  end: string;
+  accessionNumber?: string;
+}
+
+export interface Citation {
+  id: number; // Footnote number; the narrative cites it as [id]
+  source: {
+    type: string;
+    name: string;
+    timestamp: string;
+    isOfficial: boolean;
+  };
+  filing?: {
+    accessionNumber: string;
+    formType: string;
+    filingDate: string;
+    section?: string;
+    item?: string;
+  };
+  facts?: XbrlFact[];
+  content?: string; // Source passage: filing text, formula or fact values
+  url?: string;
+  confidence: number;
+  relevance: number;
+}
+
 export interface ApiResponse<T> {
   success: boolean;
   data: T;
@@ -106,4 +156,17 @@ export interface CompanySearchResult {
 export interface QuerySuggestion {
   category: string;
   queries: string[];
-}
\ No newline at end of file
+}
+export interface User {
+  id: string;
+  email: string;
+  name?: string;
+  createdAt: string;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: 'Bearer';
+  expiresIn: string;
+}
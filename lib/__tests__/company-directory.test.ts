@@ -0,0 +1,67 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CompanyDirectory } from '../company-directory';
+
+const tickerFile = (rows: Array<[number, string, string, string]>) => ({
+  fields: ['cik', 'name', 'ticker', 'exchange'],
+  data: rows
+});
+
+const SEED = tickerFile([[320193, 'Apple Inc.', 'AAPL', 'Nasdaq']]);
+const DOWNLOADED = tickerFile([
+  [320193, 'Apple Inc.', 'AAPL', 'Nasdaq'],
+  [1318605, 'Tesla, Inc.', 'TSLA', 'Nasdaq']
+]);
+
+describe('CompanyDirectory refresh', () => {
+  let dir: string;
+  let seedPath: string;
+  let cachePath: string;
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'company-directory-'));
+    seedPath = path.join(dir, 'company_tickers_seed.json');
+    cachePath = path.join(dir, 'cache', 'company_tickers_exchange.cache.json');
+    fs.writeFileSync(seedPath, JSON.stringify(SEED));
+    fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(new Response(JSON.stringify(DOWNLOADED)));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const directory = () => new CompanyDirectory(seedPath, path.join(dir, 'aliases.json'), cachePath);
+
+  it('writes downloads to the cache path and leaves the bundled seed list alone', async () => {
+    const companies = directory();
+    expect(companies.size).toBe(1);
+
+    await companies.ensureFresh();
+
+    expect(companies.getByTicker('TSLA')?.cik).toBe('0001318605');
+    expect(JSON.parse(fs.readFileSync(seedPath, 'utf8'))).toEqual(SEED);
+    expect(JSON.parse(fs.readFileSync(cachePath, 'utf8'))).toEqual(DOWNLOADED);
+  });
+
+  it('loads the cached download first and skips refreshing while it is fresh', async () => {
+    await directory().ensureFresh();
+    fetchMock.mockClear();
+
+    const companies = directory();
+    await companies.ensureFresh();
+
+    expect(companies.size).toBe(2);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('shares one download between concurrent callers', async () => {
+    const companies = directory();
+    await Promise.all([companies.ensureFresh(), companies.ensureFresh(), companies.ensureFresh()]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
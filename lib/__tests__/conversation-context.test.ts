@@ -0,0 +1,26 @@
+import { resolveFollowUp, turnsFromQueries } from '../conversation-context';
+
+describe('resolveFollowUp', () => {
+  const turns = turnsFromQueries(["What was Apple's revenue in 2023?"]);
+
+  it('names the previous company in place of a pronoun', () => {
+    const resolution = resolveFollowUp('What about its net income?', turns);
+    expect(resolution.kind).toBe('pronoun');
+    expect(resolution.resolvedQuery).toBe("What about Apple's net income in 2023?");
+    expect(resolution.inheritedCompanies.map(company => company.name)).toEqual(['Apple Inc.']);
+  });
+
+  it('leaves pronouns alone when the question names its own company', () => {
+    const query = 'Did Microsoft say it expects margins to grow?';
+    const resolution = resolveFollowUp(query, turns);
+    expect(resolution.isFollowUp).toBe(false);
+    expect(resolution.resolvedQuery).toBe(query);
+    expect(resolution.inheritedCompanies).toEqual([]);
+  });
+
+  it('still swaps the company in an elliptical follow-up', () => {
+    const resolution = resolveFollowUp('and Microsoft?', turns);
+    expect(resolution.kind).toBe('ellipsis');
+    expect(resolution.resolvedQuery).toBe("What was Microsoft's revenue in 2023?");
+  });
+});
@@ -0,0 +1,20 @@
+import { blocks, numeric, text } from '../edgar-xml';
+
+describe('edgar-xml', () => {
+  it('matches tags with or without a namespace prefix', () => {
+    const xml = '<ns1:infoTable><ns1:value>1</ns1:value></ns1:infoTable><infoTable><value>2</value></infoTable>';
+    expect(blocks(xml, 'infoTable')).toHaveLength(2);
+    expect(blocks(xml, 'infoTable').map(table => numeric(table, 'value'))).toEqual([1, 2]);
+  });
+
+  it('reads nested text with entities decoded and whitespace collapsed', () => {
+    const xml = '<issuer><issuerName>  Johnson &amp;\n Johnson </issuerName></issuer>';
+    expect(text(xml, 'issuer', 'issuerName')).toBe('Johnson & Johnson');
+    expect(text(xml, 'issuer', 'issuerCik')).toBeUndefined();
+  });
+
+  it('parses amounts written with separators and dollar signs', () => {
+    expect(numeric('<value>$1,234.50</value>', 'value')).toBe(1234.5);
+    expect(numeric('<value>n/a</value>', 'value')).toBeUndefined();
+  });
+});
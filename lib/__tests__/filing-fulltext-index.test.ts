@@ -0,0 +1,68 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FilingFullTextIndex, IndexedFiling } from '../filing-fulltext-index';
+
+const filing = (accessionNumber: string, text: string): Omit<IndexedFiling, 'indexedAt'> => ({
+  accessionNumber,
+  cik: '0000320193',
+  companyName: 'Apple Inc.',
+  formType: '10-K',
+  filingDate: '2023-11-03',
+  sections: [{ key: '1A', title: 'Risk Factors', text }]
+});
+
+describe('FilingFullTextIndex storage', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fulltext-'));
+    filePath = path.join(dir, 'fulltext-index.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('appends one line per change instead of rewriting the index', () => {
+    const index = new FilingFullTextIndex(filePath);
+    index.addFiling(filing('0000320193-23-000106', 'Supply chain disruption could harm our results.'));
+    index.flush();
+    const firstSave = fs.readFileSync(filePath, 'utf8');
+
+    index.addFiling(filing('0000320193-22-000108', 'Competition is intense.'));
+    index.removeFiling('0000320193-23-000106');
+    index.flush();
+
+    const lines = fs.readFileSync(filePath, 'utf8').split('\n').filter(Boolean);
+    expect(fs.readFileSync(filePath, 'utf8').startsWith(firstSave)).toBe(true);
+    expect(lines.map(line => Object.keys(JSON.parse(line))[0])).toEqual(['version', 'add', 'add', 'remove']);
+  });
+
+  it('replays the log, including entries another process appended later', () => {
+    const reader = new FilingFullTextIndex(filePath);
+    expect(reader.size).toBe(0);
+
+    const writer = new FilingFullTextIndex(filePath);
+    writer.addFiling(filing('0000320193-23-000106', 'Supply chain disruption could harm our results.'));
+    writer.flush();
+
+    expect(reader.has('0000320193-23-000106')).toBe(true);
+    expect(reader.search({ q: '"supply chain"' }).total).toBe(1);
+
+    writer.removeFiling('0000320193-23-000106');
+    writer.flush();
+    expect(reader.search({ q: '"supply chain"' }).total).toBe(0);
+  });
+
+  it('moves an index in the old single-document format aside', () => {
+    fs.writeFileSync(filePath, JSON.stringify({ version: 1, filings: [] }));
+    const index = new FilingFullTextIndex(filePath);
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(index.size).toBe(0);
+    expect(fs.existsSync(`${filePath}.bak`)).toBe(true);
+    warn.mockRestore();
+  });
+});
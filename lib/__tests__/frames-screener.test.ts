@@ -0,0 +1,105 @@
+import { FrameResponse, FramesScreener, FramesSource, parseScreenCriteria, SnapshotFramesSource } from '../frames-screener';
+
+const revenueFrame = (tag: string, data: Array<{ cik: number; entityName: string; val: number }>): FrameResponse => ({
+  taxonomy: 'us-gaap',
+  tag,
+  ccp: 'CY2023',
+  uom: 'USD',
+  pts: data.length,
+  data: data.map(point => ({ ...point, start: '2023-01-01', end: '2023-12-31' }))
+});
+
+const statusError = (statusCode: number) => Object.assign(new Error(`SEC API error: ${statusCode}`), { statusCode });
+
+describe('FramesScreener', () => {
+  const revenueOver = { period: 'CY2023', conditions: [{ metric: 'revenue', operator: 'gt' as const, value: 1e9 }] };
+
+  it('treats a 404 as a tag nobody reported and warns about other frame failures', async () => {
+    const source: FramesSource = {
+      getFrames: jest.fn(async (_taxonomy: string, tag: string) => {
+        if (tag === 'RevenueFromContractWithCustomerExcludingAssessedTax') {
+          return revenueFrame(tag, [{ cik: 1, entityName: 'Acme Widget Corp', val: 5e9 }]);
+        }
+        throw statusError(tag === 'Revenues' ? 503 : 404);
+      }),
+      getCompanySubmissions: jest.fn()
+    };
+
+    const result = await new FramesScreener(source).screen(revenueOver);
+
+    expect(result.rows.map(row => row.entityName)).toEqual(['Acme Widget Corp']);
+    expect(result.warnings).toEqual(['The Revenues frame for CY2023 could not be fetched: SEC API error: 503']);
+  });
+
+  it('retries company attributes that failed to load on the next screen', async () => {
+    const getCompanySubmissions = jest.fn()
+      .mockRejectedValueOnce(statusError(503))
+      .mockResolvedValue({ sic: '3711', sicDescription: 'Motor Vehicles & Passenger Car Bodies', stateOfIncorporation: 'DE' });
+    const source: FramesSource = {
+      getFrames: jest.fn(async (_taxonomy: string, tag: string) => {
+        if (tag !== 'Revenues') throw statusError(404);
+        return revenueFrame(tag, [{ cik: 1, entityName: 'Acme Motors', val: 5e9 }]);
+      }),
+      getCompanySubmissions
+    };
+    const screener = new FramesScreener(source);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const first = await screener.screen({ ...revenueOver, sic: ['37'] });
+    expect(first.rows).toEqual([]);
+    expect(first.warnings).toEqual(['SIC and state could not be fetched for 1 companies; they were left out']);
+
+    const second = await screener.screen({ ...revenueOver, sic: ['37'] });
+    expect(second.rows.map(row => [row.entityName, row.sic])).toEqual([['Acme Motors', '3711']]);
+    expect(getCompanySubmissions).toHaveBeenCalledTimes(2);
+  });
+
+  it('checks the companies nearest a size first when attribute lookups are capped', async () => {
+    // 300 companies with revenue of $1B to $300B; only a few are automakers
+    const companies = Array.from({ length: 300 }, (_, i) => ({ cik: i + 1, entityName: `Company ${i + 1}`, val: (i + 1) * 1e9 }));
+    const source: FramesSource = {
+      getFrames: jest.fn(async (_taxonomy: string, tag: string) => {
+        if (tag !== 'Revenues') throw statusError(404);
+        return revenueFrame(tag, companies);
+      }),
+      getCompanySubmissions: jest.fn(async (cik: string) => ({ sic: [10, 12, 290].includes(Number(cik)) ? '3711' : '7372' }))
+    };
+
+    const result = await new FramesScreener(source).screen({ ...revenueOver, conditions: [], sortBy: 'revenue', sic: ['37'], nearest: 10e9 });
+
+    expect(source.getCompanySubmissions).toHaveBeenCalledTimes(250);
+    expect(result.rows.map(row => row.entityName)).toEqual(['Company 12', 'Company 10']);
+    expect(result.warnings).toEqual(['300 companies matched before SIC and state filters; only the 250 closest in Revenue were checked']);
+  });
+});
+
+describe('screening the bundled frames snapshot', () => {
+  const screener = new FramesScreener(new SnapshotFramesSource(), 'snapshot');
+
+  beforeAll(() => jest.spyOn(console, 'warn').mockImplementation(() => undefined));
+
+  it('finds large unprofitable companies from a question', async () => {
+    const criteria = parseScreenCriteria('companies with revenue over $10B and negative net income in CY2023')!;
+    expect(criteria).toMatchObject({
+      period: 'CY2023',
+      conditions: [
+        { metric: 'TotalRevenue', operator: 'gt', value: 10e9 },
+        { metric: 'NetIncome', operator: 'lt', value: 0 }
+      ]
+    });
+
+    const result = await screener.screen(criteria);
+
+    expect(result.source).toBe('snapshot');
+    expect(result.warnings).toEqual([]);
+    expect(result.rows.map(row => row.entityName)).toEqual([
+      'The Boeing Company',
+      'Warner Bros. Discovery, Inc.',
+      'Paramount Global'
+    ]);
+    result.rows.forEach(row => {
+      expect(row.values.revenue.value).toBeGreaterThan(10e9);
+      expect(row.values.net_income.value).toBeLessThan(0);
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import { CANONICAL_INTENTS, INTENT_ALIASES, knownIntentNames, resolveIntent } from '../query-taxonomy';
+import { PRIMARY_INTENTS } from '../universal/types';
+
+describe('resolveIntent', () => {
+  it('maps every alias to its canonical intent', () => {
+    Object.entries(INTENT_ALIASES).forEach(([alias, intent]) => {
+      expect(CANONICAL_INTENTS).toContain(intent);
+      expect(resolveIntent(alias)).toBe(intent);
+    });
+  });
+
+  it('accepts aliases in any case, with spaces or hyphens', () => {
+    Object.entries(INTENT_ALIASES).forEach(([alias, intent]) => {
+      expect(resolveIntent(alias.toUpperCase())).toBe(intent);
+      expect(resolveIntent(` ${alias.replace(/_/g, '-')} `)).toBe(intent);
+      expect(resolveIntent(alias.replace(/_/g, ' '))).toBe(intent);
+    });
+  });
+
+  it('keeps canonical names as they are', () => {
+    CANONICAL_INTENTS.forEach(intent => expect(resolveIntent(intent)).toBe(intent));
+  });
+
+  it('recognizes every universal primary intent', () => {
+    PRIMARY_INTENTS.forEach(intent => expect(resolveIntent(intent)).not.toBe('unknown'));
+  });
+
+  it('treats names nobody defines as unknown', () => {
+    expect(resolveIntent('astrology')).toBe('unknown');
+    expect(resolveIntent('')).toBe('unknown');
+    expect(resolveIntent(undefined)).toBe('unknown');
+    expect(knownIntentNames()).toEqual([...CANONICAL_INTENTS, ...Object.keys(INTENT_ALIASES)]);
+  });
+});
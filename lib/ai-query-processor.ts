@@ -1,13 +1,12 @@
-// AI-powered query processing using OpenAI o4-mini
-import OpenAI from 'openai';
+// AI-powered query processing through the configured LLM provider
 import { matchFilingTypes, isFilingQuery, getFormCodes } from './sec-filing-types';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { getCompanyDirectory } from './company-directory';
+import { LLMProvider, getLLMProvider } from './llm-provider';
+import { CanonicalIntent, resolveIntent } from './query-taxonomy';
 
 export interface QueryAnalysis {
   intent: 'company_info' | 'financial_metrics' | 'sec_filings' | 'comparison' | 'general';
+  canonicalIntent: CanonicalIntent; // The same intent in the shared taxonomy
   companies: string[];
   metrics: string[];
   timeframes: string[];
@@ -16,12 +15,7 @@ export interface QueryAnalysis {
   explanation: string;
 }
 
-export async function analyzeQuery(query: string): Promise<QueryAnalysis> {
-  if (!process.env.OPENAI_API_KEY) {
-    // Fallback to basic pattern matching if no OpenAI key
-    return fallbackAnalysis(query);
-  }
-
+export async function analyzeQuery(query: string, llm: LLMProvider = getLLMProvider()): Promise<QueryAnalysis> {
   try {
     const prompt = `Analyze this SEC EDGAR database query and extract structured information.
 
@@ -56,9 +50,9 @@ Examples:
 
 Return ONLY the JSON object, no other text.`;
 
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      max_tokens: 500,
+    const content = await llm.complete({
+      purpose: 'analyze_query',
+      maxTokens: 500,
       temperature: 0.1,
       messages: [
         {
@@ -68,20 +62,15 @@ Return ONLY the JSON object, no other text.`;
       ]
     });
 
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('No response content from OpenAI');
-    }
-
     // Parse the JSON response
     const analysis = JSON.parse(content);
     
     // Validate the response structure
     if (!analysis.intent || !Array.isArray(analysis.companies)) {
-      throw new Error('Invalid response structure from OpenAI');
+      throw new Error(`Invalid response structure from ${llm.name}`);
     }
 
-    return analysis;
+    return { ...analysis, canonicalIntent: resolveIntent(analysis.intent) };
 
   } catch (error) {
     console.error('AI query analysis error:', error);
@@ -110,18 +99,7 @@ function fallbackAnalysis(query: string): QueryAnalysis {
   }
 
   // Basic company extraction
-  const companies: string[] = [];
-  const knownCompanies = [
-    'apple', 'microsoft', 'google', 'alphabet', 'amazon', 'tesla', 'meta', 'netflix', 
-    'nvidia', 'salesforce', 'adobe', 'intel', 'oracle', 'cisco', 'ibm',
-    'aapl', 'msft', 'googl', 'amzn', 'tsla', 'meta', 'nflx', 'nvda'
-  ];
-  
-  knownCompanies.forEach(company => {
-    if (lowerQuery.includes(company)) {
-      companies.push(company.charAt(0).toUpperCase() + company.slice(1));
-    }
-  });
+  const companies = getCompanyDirectory().findInText(query).map(match => match.company.name);
 
   // Basic metric extraction
   const metrics: string[] = [];
@@ -156,6 +134,7 @@ function fallbackAnalysis(query: string): QueryAnalysis {
 
   return {
     intent,
+    canonicalIntent: resolveIntent(intent),
     companies: [...new Set(companies)], // Remove duplicates
     metrics: [...new Set(metrics)],
     timeframes: [...new Set(timeframes)],
@@ -165,11 +144,7 @@ function fallbackAnalysis(query: string): QueryAnalysis {
   };
 }
 
-export async function generateResponse(analysis: QueryAnalysis, data: any): Promise<string> {
-  if (!process.env.OPENAI_API_KEY) {
-    return fallbackResponse(analysis, data);
-  }
-
+export async function generateResponse(analysis: QueryAnalysis, data: any, llm: LLMProvider = getLLMProvider()): Promise<string> {
   try {
     const prompt = `Generate a natural, informative response based on this query analysis and data.
 
@@ -188,9 +163,9 @@ You are a helpful financial data assistant. Please provide a clear, conversation
 
 Keep the response concise but informative (2-3 sentences maximum). If asking about 2024 data but only 2022 data exists, explain this clearly.`;
 
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      max_tokens: 300,
+    const content = await llm.complete({
+      purpose: 'generate_response',
+      maxTokens: 300,
       temperature: 0.3,
       messages: [
         {
@@ -200,12 +175,7 @@ Keep the response concise but informative (2-3 sentences maximum). If asking abo
       ]
     });
 
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('No response content from OpenAI');
-    }
-
-    return content || fallbackResponse(analysis, data);
+    return content;
 
   } catch (error) {
     console.error('AI response generation error:', error);
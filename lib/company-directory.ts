@@ -0,0 +1,503 @@
+// Company directory - ticker/CIK/name resolution backed by SEC's company_tickers files
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DATA_DIR } from './data-dir';
+
+export const COMPANY_TICKERS_EXCHANGE_URL = 'https://www.sec.gov/files/company_tickers_exchange.json';
+
+export interface DirectoryCompany {
+  cik: string; // Zero-padded to 10 digits
+  name: string;
+  tickers: string[]; // Primary listing first
+  exchange?: string;
+  aliases: string[];
+  formerNames: string[];
+}
+
+export type CompanyMatchType = 'cik' | 'ticker' | 'name' | 'alias' | 'former_name' | 'fuzzy';
+
+export interface CompanyMatch {
+  company: DirectoryCompany;
+  matchedOn: CompanyMatchType;
+  matchedText: string;
+  confidence: number;
+}
+
+interface AliasFile {
+  aliases?: { [cik: string]: string[] };
+  formerNames?: { [cik: string]: string[] };
+}
+
+const DEFAULT_REFRESH_MS = 24 * 60 * 60 * 1000;
+// Wait before retrying after a failed download
+const REFRESH_RETRY_MS = 15 * 60 * 1000;
+// Similarity a misspelled name must reach to be accepted
+const FUZZY_THRESHOLD = 0.82;
+// Longest company name, in words, looked for in free text
+const MAX_NAME_WORDS = 6;
+
+const MATCH_CONFIDENCE: { [type in CompanyMatchType]: number } = {
+  cik: 1.0,
+  ticker: 0.95,
+  name: 0.95,
+  alias: 0.9,
+  former_name: 0.85,
+  fuzzy: 0.7
+};
+
+// Dropped from names before matching, so "Apple Inc." and "apple" compare equal
+const NAME_SUFFIXES = new Set([
+  'inc', 'incorporated', 'corp', 'corporation', 'co', 'company', 'companies', 'ltd', 'limited', 'llc', 'lp', 'plc',
+  'holdings', 'holding', 'group', 'the', 'sa', 'nv', 'ag', 'se', 'de', 'new', 'mn', 'del'
+]);
+
+// Capitalized words that start questions or name filings, never companies on their own
+const COMMON_WORDS = new Set([
+  'a', 'all', 'an', 'and', 'are', 'can', 'compare', 'did', 'do', 'does', 'find', 'for', 'get', 'give', 'how', 'in',
+  'is', 'it', 'list', 'me', 'of', 'on', 'or', 'over', 'show', 'tell', 'the', 'to', 'was', 'what', 'when', 'where',
+  'which', 'who', 'why', 'with', 'annual', 'quarterly', 'report', 'revenue', 'income', 'sec', 'edgar', 'form', 'filing',
+  'filings', 'company', 'companies', 'risk', 'risks', 'business', 'q1', 'q2', 'q3', 'q4', 'fy', 'ceo', 'cfo'
+]);
+
+// Upper-case words that look like tickers but are almost always something else
+const TICKER_STOPWORDS = new Set([
+  'A', 'AI', 'ALL', 'AN', 'ARE', 'CEO', 'CFO', 'COO', 'EPS', 'ESG', 'EU', 'FY', 'GAAP', 'I', 'IPO', 'IT', 'MD', 'ON',
+  'OR', 'Q', 'SEC', 'SO', 'TO', 'UK', 'US', 'USA', 'USD', 'VS', 'YOY', 'YTD', 'K', 'DEF', 'ARS', 'EDGAR', 'XBRL'
+]);
+
+/**
+ * Normalize a company name for comparison: lower case, punctuation and corporate suffixes removed
+ */
+export function normalizeCompanyName(name: string): string {
+  const words = name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  // Only trailing suffixes are dropped; "The Home Depot" keeps "home depot"
+  while (words.length > 1 && NAME_SUFFIXES.has(words[words.length - 1])) words.pop();
+  if (words.length > 1 && words[0] === 'the') words.shift();
+
+  return words.join(' ');
+}
+
+export class CompanyDirectory {
+  private companies = new Map<string, DirectoryCompany>();
+  private byTicker = new Map<string, string>();
+  // Normalized name/alias/former name -> CIK
+  private byName = new Map<string, { cik: string; type: CompanyMatchType }>();
+  private loaded = false;
+  private refreshTimer: NodeJS.Timeout | null = null;
+  // When the loaded list was downloaded; 0 for the bundled seed list
+  private refreshedAt = 0;
+  private lastAttemptAt = 0;
+  private pendingRefresh: Promise<boolean> | null = null;
+
+  /**
+   * @param seedPath Bundled seed list, read when no downloaded copy exists
+   * @param cachePath Where downloaded lists are written; kept out of the repository
+   */
+  constructor(
+    private seedPath: string = process.env.COMPANY_TICKERS_PATH || path.join(DATA_DIR, 'company_tickers_seed.json'),
+    private aliasesPath: string = process.env.COMPANY_ALIASES_PATH || path.join(DATA_DIR, 'company_aliases.json'),
+    private cachePath: string = process.env.COMPANY_TICKERS_CACHE_PATH || defaultCachePath()
+  ) {}
+
+  get size(): number {
+    this.load();
+    return this.companies.size;
+  }
+
+  /**
+   * Load the last downloaded list, or the bundled seed list before the first
+   * download. Called lazily by every lookup.
+   */
+  load(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    if (fs.existsSync(this.cachePath)) {
+      try {
+        this.index(JSON.parse(fs.readFileSync(this.cachePath, 'utf8')));
+        this.refreshedAt = fs.statSync(this.cachePath).mtimeMs;
+        console.log(`Loaded company directory: ${this.companies.size} companies`);
+        return;
+      } catch (error) {
+        console.error(`Ignoring unreadable company directory cache ${this.cachePath}:`, error);
+      }
+    }
+
+    try {
+      this.index(JSON.parse(fs.readFileSync(this.seedPath, 'utf8')));
+      console.warn(`Loaded company directory: ${this.companies.size} companies from the seed list; other companies resolve once the SEC list is downloaded`);
+    } catch (error) {
+      console.error(`Failed to load company directory from ${this.seedPath}:`, error);
+    }
+  }
+
+  /**
+   * Download the current SEC list, write it to the cache path and re-index.
+   * The existing directory stays in place when the download fails.
+   */
+  async refresh(): Promise<boolean> {
+    this.lastAttemptAt = Date.now();
+    let data: any;
+    try {
+      const response = await fetch(COMPANY_TICKERS_EXCHANGE_URL, {
+        headers: { 'User-Agent': process.env.SEC_API_USER_AGENT || 'SEC Query App/1.0' }
+      });
+      if (!response.ok) {
+        throw new Error(`SEC company tickers error: ${response.status}`);
+      }
+
+      data = await response.json();
+      this.index(data);
+      this.loaded = true;
+      this.refreshedAt = Date.now();
+      console.log(`Refreshed company directory: ${this.companies.size} companies`);
+    } catch (error) {
+      console.error('Company directory refresh failed, keeping the current list:', error);
+      return false;
+    }
+
+    // The fresh list is already in use; failing to cache it only costs a download next start
+    try {
+      // Write then rename so readers never see a partial file
+      fs.mkdirSync(path.dirname(this.cachePath), { recursive: true });
+      fs.writeFileSync(`${this.cachePath}.tmp`, JSON.stringify(data));
+      fs.renameSync(`${this.cachePath}.tmp`, this.cachePath);
+    } catch (error) {
+      console.error(`Failed to cache company directory at ${this.cachePath}:`, error);
+    }
+    return true;
+  }
+
+  /**
+   * Refresh when the loaded list is older than maxAgeMs (the seed list always
+   * is). Concurrent callers share one download, and a failed download
+   * is not retried for a while so lookups keep using the current list.
+   */
+  async ensureFresh(maxAgeMs: number = DEFAULT_REFRESH_MS): Promise<void> {
+    this.load();
+    if (this.pendingRefresh) {
+      await this.pendingRefresh;
+      return;
+    }
+    if (Date.now() - this.refreshedAt < maxAgeMs || Date.now() - this.lastAttemptAt < REFRESH_RETRY_MS) return;
+
+    this.pendingRefresh = this.refresh().finally(() => {
+      this.pendingRefresh = null;
+    });
+    await this.pendingRefresh;
+  }
+
+  /**
+   * Refresh now if the loaded list is stale, then on a fixed interval (default daily)
+   */
+  startAutoRefresh(intervalMs: number = DEFAULT_REFRESH_MS): void {
+    this.stopAutoRefresh();
+    void this.ensureFresh(intervalMs);
+    this.refreshTimer = setInterval(() => this.refresh(), intervalMs);
+    this.refreshTimer.unref();
+  }
+
+  stopAutoRefresh(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  getByCik(cik: string): DirectoryCompany | undefined {
+    this.load();
+    return /^\d{1,10}$/.test(cik) ? this.companies.get(cik.padStart(10, '0')) : undefined;
+  }
+
+  getByTicker(ticker: string): DirectoryCompany | undefined {
+    this.load();
+    const cik = this.byTicker.get(normalizeTicker(ticker));
+    return cik ? this.companies.get(cik) : undefined;
+  }
+
+  /**
+   * Record names a company used to file under (e.g. from submissions.formerNames)
+   */
+  addFormerNames(cik: string, names: string[]): void {
+    const company = this.getByCik(cik);
+    if (!company) return;
+
+    names.forEach(name => {
+      if (!company.formerNames.includes(name)) company.formerNames.push(name);
+      this.addName(name, company.cik, 'former_name');
+    });
+  }
+
+  /**
+   * Resolve one identifier - CIK, ticker, name, alias or former name - to a company.
+   * Falls back to fuzzy name matching for misspellings.
+   */
+  resolve(identifier: string): CompanyMatch | null {
+    this.load();
+    const trimmed = identifier.trim();
+    if (!trimmed) return null;
+
+    if (/^\d{1,10}$/.test(trimmed)) {
+      const company = this.getByCik(trimmed);
+      if (company) return this.toMatch(company, 'cik', trimmed);
+    }
+
+    // "Tesla (TSLA)" style
+    const parenthesized = trimmed.match(/\(([A-Za-z.\-]{1,6})\)/);
+    const ticker = this.getByTicker(parenthesized ? parenthesized[1] : trimmed);
+    if (ticker) return this.toMatch(ticker, 'ticker', trimmed);
+
+    const named = this.byName.get(normalizeCompanyName(trimmed));
+    if (named) return this.toMatch(this.companies.get(named.cik)!, named.type, trimmed);
+
+    return this.search(trimmed, 1)[0] || null;
+  }
+
+  /**
+   * Ranked company search for autocomplete and lookup endpoints
+   */
+  search(query: string, limit: number = 10): CompanyMatch[] {
+    this.load();
+    const normalized = normalizeCompanyName(query);
+    if (!normalized) return [];
+
+    const matches = new Map<string, CompanyMatch>();
+    const add = (match: CompanyMatch) => {
+      const existing = matches.get(match.company.cik);
+      if (!existing || match.confidence > existing.confidence) matches.set(match.company.cik, match);
+    };
+
+    const ticker = this.getByTicker(query.trim());
+    if (ticker) add(this.toMatch(ticker, 'ticker', query));
+
+    for (const [name, entry] of this.byName) {
+      const company = this.companies.get(entry.cik)!;
+      if (name === normalized) {
+        add(this.toMatch(company, entry.type, query));
+      } else if (name.startsWith(`${normalized} `) || name.split(' ').includes(normalized)) {
+        // Prefix and whole-word hits rank below exact matches
+        add({ ...this.toMatch(company, entry.type, query), confidence: MATCH_CONFIDENCE[entry.type] * 0.8 });
+      } else {
+        const score = nameSimilarity(name, normalized);
+        if (score >= FUZZY_THRESHOLD) {
+          add({ company, matchedOn: 'fuzzy', matchedText: query, confidence: MATCH_CONFIDENCE.fuzzy * score });
+        }
+      }
+    }
+
+    return Array.from(matches.values())
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, limit);
+  }
+
+  /**
+   * Find every company mentioned in free text. Multi-word names match in any case;
+   * single words must be a curated alias or a capitalized name, and tickers must be
+   * written in upper case (or as $cashtags) so ordinary words are not taken for symbols.
+   */
+  findInText(text: string): CompanyMatch[] {
+    this.load();
+    const words = Array.from(text.matchAll(/\$?[A-Za-z0-9][A-Za-z0-9&.'\-]*/g)).map(match => match[0]);
+    const found = new Map<string, CompanyMatch>();
+    let i = 0;
+
+    while (i < words.length) {
+      let consumed = 0;
+
+      for (let length = Math.min(MAX_NAME_WORDS, words.length - i); length >= 1 && !consumed; length--) {
+        const phrase = words.slice(i, i + length).join(' ').replace(/'s$/i, '').replace(/[.,]$/, '');
+        const entry = this.byName.get(normalizeCompanyName(phrase));
+        if (!entry || !this.isNameMention(phrase, length, entry.type)) continue;
+
+        const company = this.companies.get(entry.cik)!;
+        if (!found.has(company.cik)) found.set(company.cik, this.toMatch(company, entry.type, phrase));
+        consumed = length;
+      }
+
+      if (!consumed) {
+        const symbol = words[i].replace(/'s$/i, '').replace(/[.,]$/, '');
+        const company = this.tickerMention(symbol);
+        if (company && !found.has(company.cik)) found.set(company.cik, this.toMatch(company, 'ticker', symbol));
+        consumed = 1;
+      }
+
+      i += consumed;
+    }
+
+    return Array.from(found.values());
+  }
+
+  private isNameMention(phrase: string, wordCount: number, type: CompanyMatchType): boolean {
+    if (type === 'alias') return true;
+    if (wordCount > 1) return true;
+    return /^[A-Z]/.test(phrase) && !COMMON_WORDS.has(phrase.toLowerCase());
+  }
+
+  private tickerMention(word: string): DirectoryCompany | undefined {
+    const cashtag = word.startsWith('$');
+    const symbol = word.replace(/^\$/, '');
+    if (!cashtag && (symbol !== symbol.toUpperCase() || !/[A-Z]/.test(symbol) || TICKER_STOPWORDS.has(symbol))) {
+      return undefined;
+    }
+    return this.getByTicker(symbol);
+  }
+
+  private index(data: any): void {
+    this.companies.clear();
+    this.byTicker.clear();
+    this.byName.clear();
+
+    parseTickerFile(data).forEach(({ cik, name, ticker, exchange }) => {
+      const existing = this.companies.get(cik);
+      if (existing) {
+        if (ticker && !existing.tickers.includes(ticker)) existing.tickers.push(ticker);
+      } else {
+        this.companies.set(cik, { cik, name, tickers: ticker ? [ticker] : [], exchange, aliases: [], formerNames: [] });
+      }
+      // The list is ordered by market value, so the first company to claim a ticker or name keeps it
+      if (ticker && !this.byTicker.has(normalizeTicker(ticker))) this.byTicker.set(normalizeTicker(ticker), cik);
+      this.addName(name, cik, 'name');
+    });
+
+    this.loadAliases();
+  }
+
+  private loadAliases(): void {
+    if (!fs.existsSync(this.aliasesPath)) return;
+
+    try {
+      const aliases: AliasFile = JSON.parse(fs.readFileSync(this.aliasesPath, 'utf8'));
+      Object.entries(aliases.aliases || {}).forEach(([cik, names]) => {
+        const company = this.getCompany(cik);
+        if (!company) return;
+        company.aliases.push(...names);
+        // Curated aliases win over an unrelated company's legal name
+        names.forEach(name => this.byName.set(normalizeCompanyName(name), { cik: company.cik, type: 'alias' }));
+      });
+      Object.entries(aliases.formerNames || {}).forEach(([cik, names]) => {
+        const company = this.getCompany(cik);
+        if (!company) return;
+        company.formerNames.push(...names);
+        names.forEach(name => this.addName(name, company.cik, 'former_name'));
+      });
+    } catch (error) {
+      console.error(`Failed to load company aliases from ${this.aliasesPath}:`, error);
+    }
+  }
+
+  private getCompany(cik: string): DirectoryCompany | undefined {
+    return this.companies.get(cik.padStart(10, '0'));
+  }
+
+  private addName(name: string, cik: string, type: CompanyMatchType): void {
+    const normalized = normalizeCompanyName(name);
+    if (normalized && !this.byName.has(normalized)) this.byName.set(normalized, { cik, type });
+  }
+
+  private toMatch(company: DirectoryCompany, matchedOn: CompanyMatchType, matchedText: string): CompanyMatch {
+    return { company, matchedOn, matchedText, confidence: MATCH_CONFIDENCE[matchedOn] };
+  }
+}
+
+let sharedDirectory: CompanyDirectory | null = null;
+
+/**
+ * Process-wide directory: the last downloaded list (COMPANY_TICKERS_CACHE_PATH),
+ * else the bundled seed list data/company_tickers_seed.json (or COMPANY_TICKERS_PATH)
+ */
+export function getCompanyDirectory(): CompanyDirectory {
+  if (!sharedDirectory) {
+    sharedDirectory = new CompanyDirectory();
+  }
+  return sharedDirectory;
+}
+
+// Serverless deployments can only write to the temp directory
+function defaultCachePath(): string {
+  const dir = process.env.VERCEL ? os.tmpdir() : DATA_DIR;
+  return path.join(dir, 'company_tickers_exchange.cache.json');
+}
+
+// Accepts both SEC formats: company_tickers_exchange.json ({fields, data}) and company_tickers.json ({"0": {...}})
+function parseTickerFile(data: any): Array<{ cik: string; name: string; ticker?: string; exchange?: string }> {
+  if (Array.isArray(data?.fields) && Array.isArray(data?.data)) {
+    const column = (field: string) => data.fields.indexOf(field);
+    const [cik, name, ticker, exchange] = ['cik', 'name', 'ticker', 'exchange'].map(column);
+    return data.data.map((row: any[]) => ({
+      cik: String(row[cik]).padStart(10, '0'),
+      name: row[name],
+      ticker: ticker >= 0 ? row[ticker] || undefined : undefined,
+      exchange: exchange >= 0 ? row[exchange] || undefined : undefined
+    }));
+  }
+
+  return Object.values(data || {}).map((row: any) => ({
+    cik: String(row.cik_str).padStart(10, '0'),
+    name: row.title,
+    ticker: row.ticker || undefined
+  }));
+}
+
+// SEC lists class shares as BRK-B; people write BRK.B or BRK/B
+function normalizeTicker(ticker: string): string {
+  return ticker.trim().toUpperCase().replace(/[./]/g, '-');
+}
+
+// Best of bigram overlap (word order, extra words) and edit distance (typos, swapped letters)
+function nameSimilarity(a: string, b: string): number {
+  return Math.max(diceSimilarity(a, b), 1 - editDistance(a, b) / Math.max(a.length, b.length));
+}
+
+// Dice coefficient over character bigrams
+function diceSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const bigram = a.substring(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+  }
+
+  let overlap = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const bigram = b.substring(i, i + 2);
+    const count = bigrams.get(bigram) || 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      overlap++;
+    }
+  }
+
+  return (2 * overlap) / (a.length + b.length - 2);
+}
+
+// Levenshtein distance counting an adjacent transposition as one edit
+function editDistance(a: string, b: string): number {
+  if (Math.abs(a.length - b.length) > 3) return Math.max(a.length, b.length);
+
+  const rows: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    rows[i] = [i];
+    for (let j = 1; j <= b.length; j++) {
+      if (i === 0) {
+        rows[i][j] = j;
+        continue;
+      }
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
@@ -0,0 +1,167 @@
+// Conversation context - resolves follow-up questions against earlier turns in a session
+
+import { getCompanyDirectory } from './company-directory';
+
+export interface ConversationCompany {
+  name: string;
+  ticker?: string;
+  cik?: string;
+  mention: string; // How the company was written in the query
+}
+
+export interface ConversationTurn {
+  query: string; // As asked
+  resolvedQuery: string; // Self-contained rewrite that was actually parsed
+  companies: ConversationCompany[];
+  timeExpression?: string;
+  timestamp: string;
+}
+
+export interface FollowUpResolution {
+  isFollowUp: boolean;
+  kind?: 'pronoun' | 'ellipsis';
+  resolvedQuery: string;
+  previousQuery?: string;
+  // Companies carried over from the previous turn because this one names none
+  inheritedCompanies: ConversationCompany[];
+}
+
+/**
+ * Turns kept per session; only the latest is used to resolve a follow-up
+ */
+export const MAX_CONVERSATION_TURNS = 10;
+
+// "and Microsoft?", "what about 2022?", "how about net income?"
+const FOLLOW_UP_CUE = /^\s*(?:(?:ok(?:ay)?|so|now|then)[\s,]+)?(?:what\s+about|how\s+about|same\s+(?:for|with)|and(?:\s+for)?|also(?:\s+for)?|now\s+for)\b[\s,]*/i;
+const POSSESSIVE_PRONOUN = /\b(?:its|their|(?:the|that|this)\s+company's)\b/gi;
+const SUBJECT_PRONOUN = /\b(?:it|they|them|(?:the|that|this|the\s+same)\s+company|(?:those|these)\s+companies|both(?:\s+companies)?)\b/gi;
+const TIME_EXPRESSION = /\b(?:(?:fy|q[1-4])\s*)?(?:19|20)\d{2}\b|\b(?:the\s+)?(?:last|past)\s+\d+\s+(?:years?|quarters?)\b/i;
+// Words that can surround a bare company or period in an elliptical follow-up
+const FILLER_WORDS = new Set(['and', 'or', 'for', 'in', 'of', 'the', 'then', 'during', 'over', 'instead', 'too', 'please']);
+
+/**
+ * Rewrite a follow-up into a self-contained question using the previous turn.
+ * "and Microsoft?" reuses the previous question with the company swapped;
+ * "what about their net income?" names the previous companies in place of the pronoun.
+ * Questions that already stand on their own are returned unchanged.
+ */
+export function resolveFollowUp(query: string, previousTurns: ConversationTurn[]): FollowUpResolution {
+  const previous = previousTurns[previousTurns.length - 1];
+  const standalone: FollowUpResolution = { isFollowUp: false, resolvedQuery: query, inheritedCompanies: [] };
+  if (!previous) return standalone;
+
+  const mentions = getCompanyDirectory().findInText(query).map(match => match.matchedText);
+  const cue = query.match(FOLLOW_UP_CUE);
+  const time = query.match(TIME_EXPRESSION);
+
+  if (cue && (mentions.length > 0 || time) && isBareSubstitution(query.slice(cue[0].length), mentions, time?.[0])) {
+    let resolved = previous.resolvedQuery;
+    if (mentions.length > 0) resolved = replaceCompanies(resolved, previous.companies, mentions);
+    if (time) resolved = replaceTime(resolved, previous.timeExpression, time[0]);
+
+    return {
+      isFollowUp: true,
+      kind: 'ellipsis',
+      resolvedQuery: resolved,
+      previousQuery: previous.query,
+      inheritedCompanies: mentions.length > 0 ? [] : previous.companies
+    };
+  }
+
+  // A question that names its own company uses "it" and "its" for that company
+  // or for something else entirely, never for the previous turn's companies
+  if (previous.companies.length === 0 || mentions.length > 0) return standalone;
+
+  const hasPronoun = new RegExp(POSSESSIVE_PRONOUN.source, 'i').test(query) || new RegExp(SUBJECT_PRONOUN.source, 'i').test(query);
+  if (!hasPronoun && !cue) return standalone;
+
+  const names = joinNames(previous.companies.map(company => company.mention));
+  let resolved = hasPronoun
+    ? query.replace(POSSESSIVE_PRONOUN, `${names}'s`).replace(SUBJECT_PRONOUN, names)
+    : appendPhrase(query, `for ${names}`);
+  if (!time && previous.timeExpression) {
+    resolved = appendPhrase(resolved, timePhrase(previous.timeExpression));
+  }
+
+  return {
+    isFollowUp: true,
+    kind: hasPronoun ? 'pronoun' : 'ellipsis',
+    resolvedQuery: resolved,
+    previousQuery: previous.query,
+    inheritedCompanies: previous.companies
+  };
+}
+
+/**
+ * Record what a resolved question was about, for resolving the next one
+ */
+export function createConversationTurn(query: string, resolution?: FollowUpResolution): ConversationTurn {
+  const resolvedQuery = resolution?.resolvedQuery || query;
+  const companies: ConversationCompany[] = getCompanyDirectory().findInText(resolvedQuery).map(match => ({
+    name: match.company.name,
+    ticker: match.company.tickers[0],
+    cik: match.company.cik,
+    mention: match.matchedText
+  }));
+
+  return {
+    query,
+    resolvedQuery,
+    companies: companies.length > 0 ? companies : resolution?.inheritedCompanies || [],
+    timeExpression: resolvedQuery.match(TIME_EXPRESSION)?.[0],
+    timestamp: new Date().toISOString()
+  };
+}
+
+/**
+ * Rebuild turns from a client-supplied list of earlier questions (QueryContext.previousQueries)
+ */
+export function turnsFromQueries(queries: string[]): ConversationTurn[] {
+  const turns: ConversationTurn[] = [];
+  queries.slice(-MAX_CONVERSATION_TURNS).forEach(query => {
+    turns.push(createConversationTurn(query, resolveFollowUp(query, turns)));
+  });
+  return turns;
+}
+
+// True when nothing but companies, a period and filler words follow the cue
+function isBareSubstitution(remainder: string, mentions: string[], time?: string): boolean {
+  let rest = remainder;
+  [...mentions, ...(time ? [time] : [])].forEach(text => {
+    rest = rest.replace(text, ' ');
+  });
+
+  return rest
+    .replace(/'s\b/gi, ' ')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .every(word => FILLER_WORDS.has(word.toLowerCase()));
+}
+
+function replaceCompanies(text: string, previous: ConversationCompany[], names: string[]): string {
+  const present = previous.filter(company => text.includes(company.mention));
+  if (present.length === 0) return appendPhrase(text, `for ${joinNames(names)}`);
+
+  // A single company is swapped out; a comparison gains the new companies
+  if (present.length === 1) return text.replace(present[0].mention, joinNames(names));
+  const last = present[present.length - 1].mention;
+  return text.replace(last, joinNames([last, ...names]));
+}
+
+function replaceTime(text: string, previous: string | undefined, time: string): string {
+  return previous && text.includes(previous) ? text.replace(previous, time) : appendPhrase(text, timePhrase(time));
+}
+
+function timePhrase(time: string): string {
+  return /^(?:the\s+)?(?:last|past)\b/i.test(time) ? `over ${time}` : `in ${time}`;
+}
+
+// Add a phrase before any closing punctuation
+function appendPhrase(text: string, phrase: string): string {
+  const match = text.match(/^(.*?)([?.!]*)\s*$/s)!;
+  return `${match[1]} ${phrase}${match[2]}`;
+}
+
+function joinNames(names: string[]): string {
+  return names.length <= 1 ? names.join('') : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+}
@@ -0,0 +1,22 @@
+// Data Dir - Locates the bundled data/ directory from source and compiled code alike
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * EDGAR_DATA_DIR when set, else the nearest data/ directory holding the SIC
+ * table above this file. Under ts-node that is lib/../data; the backend build
+ * puts lib in backend/dist/lib, three levels further down.
+ */
+export const DATA_DIR = resolveDataDir();
+
+function resolveDataDir(): string {
+  if (process.env.EDGAR_DATA_DIR) return path.resolve(process.env.EDGAR_DATA_DIR);
+
+  for (let dir = __dirname; ; dir = path.dirname(dir)) {
+    const candidate = path.join(dir, 'data');
+    if (fs.existsSync(path.join(candidate, 'sic_codes.json'))) return candidate;
+    if (path.dirname(dir) === dir) break;
+  }
+  return path.resolve(__dirname, '..', 'data');
+}
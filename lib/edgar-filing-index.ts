@@ -0,0 +1,177 @@
+// EDGAR filing index resolution - locates every document in a filing
+
+export const SEC_ARCHIVES_URL = 'https://www.sec.gov/Archives/edgar/data';
+
+export interface FilingDocument {
+  name: string;
+  url: string;
+  type: string; // EDGAR document type: "10-K", "EX-21.1", "GRAPHIC", "XML"
+  description: string;
+  size: number;
+  sequence?: number;
+  isPrimary: boolean;
+  isExhibit: boolean;
+}
+
+export interface FilingIndex {
+  cik: string;
+  accessionNumber: string;
+  formType?: string;
+  folderUrl: string;
+  indexUrl: string;
+  primaryDocument?: FilingDocument;
+  exhibits: FilingDocument[];
+  documents: FilingDocument[];
+}
+
+interface IndexRow {
+  sequence?: number;
+  description: string;
+  type: string;
+}
+
+/**
+ * Build an EDGAR Archives URL for a filing folder or a document within it.
+ * Archive paths use the CIK without leading zeros and the accession number without dashes.
+ */
+export function buildArchivesUrl(cik: string, accessionNumber: string, document?: string): string {
+  const folder = `${SEC_ARCHIVES_URL}/${parseInt(cik, 10)}/${accessionNumber.replace(/-/g, '')}`;
+  return document ? `${folder}/${document}` : `${folder}/`;
+}
+
+/**
+ * URL of the machine-readable directory listing for a filing
+ */
+export function buildIndexJsonUrl(cik: string, accessionNumber: string): string {
+  return `${buildArchivesUrl(cik, accessionNumber)}index.json`;
+}
+
+/**
+ * URL of the human-readable filing index page, which carries document types and descriptions
+ */
+export function buildIndexPageUrl(cik: string, accessionNumber: string): string {
+  return buildArchivesUrl(cik, accessionNumber, `${formatAccessionNumber(accessionNumber)}-index.htm`);
+}
+
+/**
+ * Normalize an accession number to the dashed 0000000000-00-000000 form
+ */
+export function formatAccessionNumber(accessionNumber: string): string {
+  const digits = accessionNumber.replace(/\D/g, '');
+  if (digits.length !== 18) return accessionNumber;
+  return `${digits.substring(0, 10)}-${digits.substring(10, 12)}-${digits.substring(12)}`;
+}
+
+/**
+ * Combine the index.json directory listing with the rows of the -index.htm page.
+ * The directory listing is authoritative for which files exist and their sizes;
+ * the index page adds EDGAR document types and descriptions when available.
+ */
+export function buildFilingIndex(
+  cik: string,
+  accessionNumber: string,
+  indexJson: any,
+  indexPageHtml?: string,
+  primaryDocumentName?: string
+): FilingIndex {
+  const rows = indexPageHtml ? parseIndexPage(indexPageHtml) : new Map<string, IndexRow>();
+  const items: any[] = indexJson?.directory?.item || [];
+
+  const documents: FilingDocument[] = items
+    // The folder also lists the index pages themselves and the full submission text file
+    .filter(item => item.name && !isIndexFile(item.name, accessionNumber))
+    .map(item => {
+      const row = rows.get(item.name);
+      const type = row?.type || inferDocumentType(item.name);
+      return {
+        name: item.name,
+        url: buildArchivesUrl(cik, accessionNumber, item.name),
+        type,
+        description: row?.description || '',
+        size: parseInt(item.size, 10) || 0,
+        sequence: row?.sequence,
+        isPrimary: false,
+        isExhibit: /^EX-/i.test(type)
+      };
+    })
+    .sort((a, b) => (a.sequence ?? Number.MAX_SAFE_INTEGER) - (b.sequence ?? Number.MAX_SAFE_INTEGER));
+
+  // Sequence 1 is the primary document; fall back to the submissions API value
+  const primary = documents.find(doc => doc.name === primaryDocumentName) ||
+    documents.find(doc => doc.sequence === 1);
+  if (primary) primary.isPrimary = true;
+
+  return {
+    cik,
+    accessionNumber: formatAccessionNumber(accessionNumber),
+    formType: primary && !primary.isExhibit ? primary.type : undefined,
+    folderUrl: buildArchivesUrl(cik, accessionNumber),
+    indexUrl: buildIndexPageUrl(cik, accessionNumber),
+    primaryDocument: primary,
+    exhibits: documents.filter(doc => doc.isExhibit),
+    documents
+  };
+}
+
+/**
+ * Find a document by file name, EDGAR type ("EX-21.1") or "primary"
+ */
+export function findFilingDocument(index: FilingIndex, identifier: string): FilingDocument | undefined {
+  const normalized = identifier.toLowerCase();
+  if (normalized === 'primary') return index.primaryDocument;
+
+  return index.documents.find(doc => doc.name.toLowerCase() === normalized) ||
+    index.documents.find(doc => doc.type.toLowerCase() === normalized) ||
+    // "EX-21" should match "EX-21.1"
+    index.documents.find(doc => doc.type.toLowerCase().startsWith(`${normalized}.`));
+}
+
+// Rows of the "Document Format Files" / "Data Files" tables: Seq | Description | Document | Type | Size
+function parseIndexPage(html: string): Map<string, IndexRow> {
+  const rows = new Map<string, IndexRow>();
+  const rowPattern = /<tr[^>]*>([\s\S]*?)<\/tr>/gi;
+  let match;
+
+  while ((match = rowPattern.exec(html)) !== null) {
+    const cells: string[] = [];
+    const cellPattern = /<td[^>]*>([\s\S]*?)<\/td>/gi;
+    let cell;
+    while ((cell = cellPattern.exec(match[1])) !== null) {
+      cells.push(cell[1]);
+    }
+    if (cells.length < 4) continue;
+
+    const link = cells[2].match(/<a[^>]*href="([^"]+)"/i);
+    if (!link) continue;
+
+    // iXBRL documents link through the inline viewer: /ix?doc=/Archives/...
+    const name = decodeURIComponent(link[1].split('/').pop() || '');
+    rows.set(name, {
+      sequence: parseInt(stripTags(cells[0]), 10) || undefined,
+      description: stripTags(cells[1]),
+      type: stripTags(cells[3])
+    });
+  }
+
+  return rows;
+}
+
+function isIndexFile(name: string, accessionNumber: string): boolean {
+  const dashed = formatAccessionNumber(accessionNumber);
+  return name.startsWith(`${dashed}-index`) || name === `${dashed}.txt` || name === 'index.json';
+}
+
+function inferDocumentType(name: string): string {
+  const extension = name.split('.').pop()?.toLowerCase() || '';
+  if (['jpg', 'jpeg', 'gif', 'png'].includes(extension)) return 'GRAPHIC';
+  if (extension === 'xml') return 'XML';
+  if (extension === 'xsd') return 'EX-101.SCH';
+  if (extension === 'zip') return 'ZIP';
+  if (extension === 'xlsx') return 'XLSX';
+  if (extension === 'json') return 'JSON';
+  return extension.toUpperCase();
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&').replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,62 @@
+// EDGAR XML - Tag matching for ownership (Forms 3/4/5) and 13F XML, which is flat and
+// regular enough that tag matching beats pulling in an XML parser
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'' };
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return isNaN(value) ? entity : String.fromCharCode(value);
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Contents of every <tag> element. 13F filers often prefix every tag with a
+ * namespace (ns1:infoTable), so any prefix matches.
+ */
+export function blocks(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<(?:[\\w-]+:)?${tag}(?:\\s[^>]*)?(?:/>|>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>)`, 'gi');
+  return Array.from(xml.matchAll(pattern), match => match[1] || '');
+}
+
+/**
+ * Contents of the first element along a path of nested tags
+ */
+export function block(xml: string, ...path: string[]): string | undefined {
+  let current: string | undefined = xml;
+  for (const tag of path) {
+    if (current === undefined) return undefined;
+    current = blocks(current, tag)[0];
+  }
+  return current;
+}
+
+/**
+ * A fragment's text: markup stripped, entities decoded and whitespace collapsed
+ */
+export function plainText(fragment: string): string | undefined {
+  const value = decodeEntities(fragment.replace(/<[^>]+>/g, '')).replace(/\s+/g, ' ').trim();
+  return value || undefined;
+}
+
+export function text(xml: string, ...path: string[]): string | undefined {
+  const found = block(xml, ...path);
+  return found === undefined ? undefined : plainText(found);
+}
+
+/**
+ * A number written with optional thousands separators and dollar sign
+ */
+export function parseNumeric(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+
+  const parsed = parseFloat(value.replace(/[,$]/g, ''));
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+export function numeric(xml: string, ...path: string[]): number | undefined {
+  return parseNumeric(text(xml, ...path));
+}
@@ -0,0 +1,540 @@
+// Local full-text index over ingested EDGAR filings - phrase search that works offline
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface IndexedSection {
+  key: string; // "1A", "II:1A", or "document" for filings without an item structure
+  title: string;
+  text: string;
+}
+
+export interface IndexedFiling {
+  accessionNumber: string;
+  cik: string;
+  companyName: string;
+  ticker?: string;
+  formType: string;
+  filingDate: string; // YYYY-MM-DD
+  reportDate?: string;
+  url?: string;
+  sections: IndexedSection[];
+  indexedAt: string;
+}
+
+export interface FullTextQuery {
+  q: string; // Bare words and "quoted phrases"; every term must match
+  forms?: string[];
+  ciks?: string[];
+  startDate?: string; // Inclusive filing date bounds, YYYY-MM-DD
+  endDate?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface FullTextSnippet {
+  section: string;
+  sectionTitle: string;
+  text: string;
+  highlighted: string; // HTML-escaped text with <mark> around each hit
+  highlights: Array<{ start: number; end: number }>; // Hit offsets within text
+}
+
+export interface FullTextHit {
+  accessionNumber: string;
+  cik: string;
+  companyName: string;
+  ticker?: string;
+  formType: string;
+  filingDate: string;
+  reportDate?: string;
+  url?: string;
+  score: number;
+  hitCount: number;
+  snippets: FullTextSnippet[];
+}
+
+export interface FullTextSearchResult {
+  query: string;
+  terms: string[];
+  total: number;
+  hits: FullTextHit[];
+  indexedFilings: number;
+}
+
+interface SearchTerm {
+  text: string;
+  tokens: string[];
+  pattern: RegExp;
+}
+
+// One JSON object per line: a version header, then additions and removals in the order they happened
+type IndexEntry = { version: number } | { add: IndexedFiling } | { remove: string };
+
+const INDEX_VERSION = 2;
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+const SNIPPET_RADIUS = 120;
+const SNIPPETS_PER_FILING = 3;
+// Batch writes when a query ingests several filings in a row
+const SAVE_DELAY_MS = 1000;
+// Rewrite the log once superseded entries outnumber live filings
+const COMPACT_MIN_ENTRIES = 100;
+
+const QUERY_STOPWORDS = new Set([
+  'a', 'an', 'and', 'any', 'are', 'by', 'companies', 'company', 'did', 'do', 'does', 'filing', 'filings',
+  'for', 'in', 'is', 'its', 'of', 'on', 'or', 'our', 'that', 'the', 'their', 'them', 'to', 'what', 'which', 'who', 'with'
+]);
+
+/**
+ * Split text into lowercase alphanumeric tokens
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+/**
+ * Parse a search string into terms. Quoted text is kept as one phrase; the rest are single words.
+ */
+export function parseSearchTerms(q: string): SearchTerm[] {
+  const terms: SearchTerm[] = [];
+  const phrasePattern = /"([^"]+)"/g;
+  let match;
+
+  while ((match = phrasePattern.exec(q)) !== null) {
+    const term = buildSearchTerm(match[1]);
+    if (term) terms.push(term);
+  }
+
+  q.replace(phrasePattern, ' ')
+    .split(/\s+/)
+    .forEach(word => {
+      const term = buildSearchTerm(word);
+      if (term && !terms.some(existing => existing.text === term.text)) terms.push(term);
+    });
+
+  return terms;
+}
+
+/**
+ * Pull the search phrase out of a natural language content query such as
+ * "Which companies mention artificial intelligence?". Quoted phrases win;
+ * otherwise the words after "mention", "discuss" or "about" are used.
+ */
+export function extractSearchPhrase(originalQuery: string, concepts: string[] = []): string {
+  const quoted = originalQuery.match(/"[^"]+"/g);
+  if (quoted) return quoted.join(' ');
+
+  const cue = originalQuery.match(
+    /\b(?:mentions?|mentioning|mentioned|discuss(?:es|ing|ed)?|talks? about|refers? to|references?|about|regarding)\s+(.+)$/i
+  );
+  if (cue) {
+    // "mention AI in their 10-K filings since 2022" searches for "AI"; forms and dates are filters
+    const subject = cue[1].split(/\b(?:in|during|since|from|over|between|within|for)\b/i)[0];
+    const words = tokenize(subject).filter(word => !QUERY_STOPWORDS.has(word));
+    if (words.length > 0) return words.length > 1 ? `"${words.join(' ')}"` : words[0];
+  }
+
+  if (concepts.length > 0) {
+    return concepts.map(concept => (concept.includes(' ') ? `"${concept}"` : concept)).join(' ');
+  }
+
+  return tokenize(originalQuery).filter(word => !QUERY_STOPWORDS.has(word)).join(' ');
+}
+
+export class FilingFullTextIndex {
+  private filings = new Map<string, IndexedFiling>();
+  // Token -> accession numbers of filings containing it
+  private postings = new Map<string, Set<string>>();
+  private loaded = false;
+  private saveTimer: NodeJS.Timeout | null = null;
+  private pending: IndexEntry[] = [];
+  private logOffset = 0; // Bytes of the log already replayed
+  private logEntries = 0;
+
+  constructor(private filePath: string = defaultIndexPath()) {}
+
+  get size(): number {
+    this.load();
+    return this.filings.size;
+  }
+
+  has(accessionNumber: string): boolean {
+    this.load();
+    return this.filings.has(accessionNumber);
+  }
+
+  /**
+   * Add or replace a filing. Sections with no text are dropped.
+   */
+  addFiling(filing: Omit<IndexedFiling, 'indexedAt'>): void {
+    this.load();
+
+    const sections = filing.sections.filter(section => section.text && section.text.trim().length > 0);
+    if (sections.length === 0) return;
+
+    this.removeFromPostings(filing.accessionNumber);
+    const indexed: IndexedFiling = { ...filing, sections, indexedAt: new Date().toISOString() };
+    this.filings.set(filing.accessionNumber, indexed);
+    this.addToPostings(indexed);
+    this.pending.push({ add: indexed });
+    this.scheduleSave();
+  }
+
+  removeFiling(accessionNumber: string): boolean {
+    this.load();
+    if (!this.filings.has(accessionNumber)) return false;
+
+    this.removeFromPostings(accessionNumber);
+    this.filings.delete(accessionNumber);
+    this.pending.push({ remove: accessionNumber });
+    this.scheduleSave();
+    return true;
+  }
+
+  /**
+   * Find filings containing every term, ranked by hit frequency weighted by term rarity
+   */
+  search(query: FullTextQuery): FullTextSearchResult {
+    this.load();
+
+    const terms = parseSearchTerms(query.q);
+    const empty = { query: query.q, terms: terms.map(t => t.text), total: 0, hits: [], indexedFilings: this.filings.size };
+    if (terms.length === 0) return empty;
+
+    const candidates = this.findCandidates(terms).filter(filing => this.matchesFilters(filing, query));
+    const hits: FullTextHit[] = [];
+
+    for (const filing of candidates) {
+      const hit = this.scoreFiling(filing, terms);
+      if (hit) hits.push(hit);
+    }
+
+    hits.sort((a, b) => b.score - a.score || b.filingDate.localeCompare(a.filingDate));
+
+    const offset = Math.max(query.offset || 0, 0);
+    const limit = Math.min(Math.max(query.limit || DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+    return { ...empty, total: hits.length, hits: hits.slice(offset, offset + limit) };
+  }
+
+  /**
+   * Write pending changes to disk immediately
+   */
+  flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    this.save();
+  }
+
+  private findCandidates(terms: SearchTerm[]): IndexedFiling[] {
+    const tokens = terms.flatMap(term => term.tokens);
+    // Start from the rarest token so the intersection stays small
+    const postings = tokens
+      .map(token => this.postings.get(token) || new Set<string>())
+      .sort((a, b) => a.size - b.size);
+
+    return Array.from(postings[0])
+      .filter(accessionNumber => postings.every(set => set.has(accessionNumber)))
+      .map(accessionNumber => this.filings.get(accessionNumber)!);
+  }
+
+  private matchesFilters(filing: IndexedFiling, query: FullTextQuery): boolean {
+    if (query.forms && query.forms.length > 0) {
+      // "10-K" also matches "10-K/A"
+      const formType = filing.formType.toUpperCase();
+      if (!query.forms.some(form => formType === form.toUpperCase() || formType === `${form.toUpperCase()}/A`)) {
+        return false;
+      }
+    }
+
+    if (query.ciks && query.ciks.length > 0) {
+      const cik = parseInt(filing.cik, 10);
+      if (!query.ciks.some(candidate => parseInt(candidate, 10) === cik)) return false;
+    }
+
+    if (query.startDate && filing.filingDate < query.startDate) return false;
+    if (query.endDate && filing.filingDate > query.endDate) return false;
+
+    return true;
+  }
+
+  // Postings only prove every token occurs somewhere; phrases must be confirmed against the text
+  private scoreFiling(filing: IndexedFiling, terms: SearchTerm[]): FullTextHit | null {
+    const counts = new Map<string, number>();
+    const sectionHits: Array<{ section: IndexedSection; ranges: Array<{ start: number; end: number }> }> = [];
+
+    for (const section of filing.sections) {
+      const ranges: Array<{ start: number; end: number }> = [];
+      for (const term of terms) {
+        const pattern = new RegExp(term.pattern.source, 'gi');
+        let match;
+        while ((match = pattern.exec(section.text)) !== null) {
+          ranges.push({ start: match.index, end: match.index + match[0].length });
+          counts.set(term.text, (counts.get(term.text) || 0) + 1);
+        }
+      }
+      if (ranges.length > 0) {
+        sectionHits.push({ section, ranges: ranges.sort((a, b) => a.start - b.start) });
+      }
+    }
+
+    if (terms.some(term => !counts.has(term.text))) return null;
+
+    let score = 0;
+    terms.forEach(term => {
+      const documentFrequency = Math.min(...term.tokens.map(token => this.postings.get(token)?.size || 1));
+      // Dampen repeated mentions so one long filing cannot drown out the rest
+      score += (1 + Math.log(counts.get(term.text)!)) * Math.log(1 + this.filings.size / documentFrequency);
+    });
+
+    return {
+      accessionNumber: filing.accessionNumber,
+      cik: filing.cik,
+      companyName: filing.companyName,
+      ticker: filing.ticker,
+      formType: filing.formType,
+      filingDate: filing.filingDate,
+      reportDate: filing.reportDate,
+      url: filing.url,
+      score: Math.round(score * 1000) / 1000,
+      hitCount: Array.from(counts.values()).reduce((sum, count) => sum + count, 0),
+      snippets: this.buildSnippets(sectionHits)
+    };
+  }
+
+  private buildSnippets(
+    sectionHits: Array<{ section: IndexedSection; ranges: Array<{ start: number; end: number }> }>
+  ): FullTextSnippet[] {
+    const snippets: FullTextSnippet[] = [];
+
+    for (const { section, ranges } of sectionHits) {
+      let index = 0;
+      let previousEnd = 0;
+      while (index < ranges.length && snippets.length < SNIPPETS_PER_FILING) {
+        // Windows never overlap, so no hit is shown twice
+        const windowStart = Math.max(
+          this.snapToWord(section.text, Math.max(ranges[index].start - SNIPPET_RADIUS, 0), -1),
+          previousEnd
+        );
+        const windowEnd = this.snapToWord(section.text, Math.min(ranges[index].end + SNIPPET_RADIUS, section.text.length), 1);
+
+        // Every hit that falls inside this window is highlighted in the same snippet
+        const inWindow: Array<{ start: number; end: number }> = [];
+        while (index < ranges.length && ranges[index].end <= windowEnd) {
+          if (!inWindow.length || ranges[index].start >= inWindow[inWindow.length - 1].end) {
+            inWindow.push({ start: ranges[index].start - windowStart, end: ranges[index].end - windowStart });
+          }
+          index++;
+        }
+
+        previousEnd = windowEnd;
+        const text = section.text.substring(windowStart, windowEnd).replace(/\s/g, ' ');
+        snippets.push({
+          section: section.key,
+          sectionTitle: section.title,
+          text,
+          highlighted: this.highlight(text, inWindow, windowStart > 0, windowEnd < section.text.length),
+          highlights: inWindow
+        });
+      }
+      if (snippets.length >= SNIPPETS_PER_FILING) break;
+    }
+
+    return snippets;
+  }
+
+  private highlight(text: string, ranges: Array<{ start: number; end: number }>, leading: boolean, trailing: boolean): string {
+    let result = leading ? '…' : '';
+    let cursor = 0;
+
+    ranges.forEach(range => {
+      result += escapeHtml(text.substring(cursor, range.start));
+      result += `<mark>${escapeHtml(text.substring(range.start, range.end))}</mark>`;
+      cursor = range.end;
+    });
+
+    return result + escapeHtml(text.substring(cursor)) + (trailing ? '…' : '');
+  }
+
+  // Move a snippet boundary outwards to the nearest whitespace so words are not cut in half
+  private snapToWord(text: string, position: number, direction: 1 | -1): number {
+    let cursor = position;
+    while (cursor > 0 && cursor < text.length && !/\s/.test(text[cursor - (direction < 0 ? 1 : 0)])) {
+      cursor += direction;
+    }
+    return cursor;
+  }
+
+  private addToPostings(filing: IndexedFiling): void {
+    const tokens = new Set(filing.sections.flatMap(section => tokenize(section.text)));
+    tokens.forEach(token => {
+      if (!this.postings.has(token)) this.postings.set(token, new Set());
+      this.postings.get(token)!.add(filing.accessionNumber);
+    });
+  }
+
+  private removeFromPostings(accessionNumber: string): void {
+    const existing = this.filings.get(accessionNumber);
+    if (!existing) return;
+
+    new Set(existing.sections.flatMap(section => tokenize(section.text))).forEach(token => {
+      const postings = this.postings.get(token);
+      if (!postings) return;
+      postings.delete(accessionNumber);
+      if (postings.size === 0) this.postings.delete(token);
+    });
+  }
+
+  // Loads the log on first use; afterwards replays whatever other processes (the ingestion worker) appended since
+  private load(): void {
+    const first = !this.loaded;
+    this.loaded = true;
+    this.sync();
+    if (first && this.filings.size > 0) {
+      console.log(`Loaded full-text index: ${this.filings.size} filings`);
+    }
+  }
+
+  private sync(): void {
+    let size: number;
+    try {
+      size = fs.statSync(this.filePath).size;
+    } catch {
+      return;
+    }
+    if (size === this.logOffset) return;
+
+    if (size < this.logOffset) {
+      // Compacted by another process; start over
+      this.filings.clear();
+      this.postings.clear();
+      this.logOffset = 0;
+      this.logEntries = 0;
+    }
+
+    try {
+      const buffer = Buffer.alloc(size - this.logOffset);
+      const fd = fs.openSync(this.filePath, 'r');
+      try {
+        fs.readSync(fd, buffer, 0, buffer.length, this.logOffset);
+      } finally {
+        fs.closeSync(fd);
+      }
+
+      // A line another process is still writing is picked up on the next sync
+      const complete = buffer.subarray(0, buffer.lastIndexOf('\n') + 1);
+      const lines = complete.toString('utf8').split('\n').filter(Boolean);
+
+      if (this.logOffset === 0 && !this.isCurrentHeader(lines[0] ?? buffer.toString('utf8'))) {
+        const backupPath = `${this.filePath}.bak`;
+        console.warn(`Full-text index at ${this.filePath} is not a version ${INDEX_VERSION} log; moved it to ${backupPath}`);
+        fs.renameSync(this.filePath, backupPath);
+        return;
+      }
+
+      lines.forEach(line => this.replay(JSON.parse(line)));
+      this.logOffset += complete.length;
+    } catch (error) {
+      console.error('Failed to load full-text index:', error);
+    }
+  }
+
+  private isCurrentHeader(line: string): boolean {
+    try {
+      const header = JSON.parse(line);
+      return header?.version === INDEX_VERSION;
+    } catch {
+      return false;
+    }
+  }
+
+  private replay(entry: IndexEntry): void {
+    this.logEntries++;
+    if ('add' in entry) {
+      this.removeFromPostings(entry.add.accessionNumber);
+      this.filings.set(entry.add.accessionNumber, entry.add);
+      this.addToPostings(entry.add);
+    } else if ('remove' in entry) {
+      this.removeFromPostings(entry.remove);
+      this.filings.delete(entry.remove);
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, SAVE_DELAY_MS);
+  }
+
+  // Appends the pending entries; only compaction rewrites the whole log
+  private save(): void {
+    if (this.pending.length === 0) return;
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      this.sync();
+
+      const entries: IndexEntry[] = fs.existsSync(this.filePath) ? this.pending : [{ version: INDEX_VERSION }, ...this.pending];
+      const lines = entries.map(entry => `${JSON.stringify(entry)}\n`).join('');
+      fs.appendFileSync(this.filePath, lines);
+      this.logOffset += Buffer.byteLength(lines);
+      this.logEntries += entries.length;
+      this.pending = [];
+
+      if (this.logEntries > COMPACT_MIN_ENTRIES && this.logEntries > 2 * this.filings.size) {
+        this.compact();
+      }
+    } catch (error) {
+      console.error('Failed to save full-text index:', error);
+    }
+  }
+
+  private compact(): void {
+    const entries: IndexEntry[] = [{ version: INDEX_VERSION }, ...Array.from(this.filings.values()).map(filing => ({ add: filing }))];
+    const lines = entries.map(entry => `${JSON.stringify(entry)}\n`).join('');
+    // Write then rename so a crash mid-write never leaves a truncated index
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, lines);
+    fs.renameSync(tempPath, this.filePath);
+    this.logOffset = Buffer.byteLength(lines);
+    this.logEntries = entries.length;
+  }
+}
+
+let sharedIndex: FilingFullTextIndex | null = null;
+
+/**
+ * Process-wide index backed by FULLTEXT_INDEX_PATH (default: data/fulltext-index.jsonl)
+ */
+export function getFullTextIndex(): FilingFullTextIndex {
+  if (!sharedIndex) {
+    sharedIndex = new FilingFullTextIndex();
+  }
+  return sharedIndex;
+}
+
+function defaultIndexPath(): string {
+  return process.env.FULLTEXT_INDEX_PATH || path.join(process.cwd(), 'data', 'fulltext-index.jsonl');
+}
+
+function buildSearchTerm(raw: string): SearchTerm | null {
+  const tokens = tokenize(raw);
+  if (tokens.length === 0) return null;
+
+  // Tokens may be separated by any run of punctuation or whitespace in the source text
+  const source = `\\b${tokens.map(escapeRegExp).join('[^a-z0-9]+')}\\b`;
+  return { text: tokens.join(' '), tokens, pattern: new RegExp(source, 'i') };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -0,0 +1,517 @@
+// Frames Screener - Screens all filers on XBRL frames with SIC and state of incorporation filters
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getStandardMetric, STANDARD_METRICS, StandardMetric } from './xbrl-concepts';
+import { getCompanyDirectory } from './company-directory';
+import { findSicCodes } from './sic-codes';
+import { DATA_DIR } from './data-dir';
+
+export interface FrameDataPoint {
+  accn?: string;
+  cik: number;
+  entityName: string;
+  loc?: string; // Business address, "US-CA"
+  start?: string; // Duration frames only
+  end: string;
+  val: number;
+}
+
+export interface FrameResponse {
+  taxonomy: string;
+  tag: string;
+  ccp: string; // Calendar period, "CY2023", "CY2023Q4I"
+  uom: string;
+  label?: string;
+  pts: number;
+  data: FrameDataPoint[];
+}
+
+/**
+ * Where frames and company attributes come from. SECEdgarClient satisfies this
+ * directly; the snapshot source serves a local file for offline use. A frame
+ * nobody reported must reject with an error whose statusCode is 404.
+ */
+export interface FramesSource {
+  getFrames(taxonomy: string, tag: string, unit: string, period: string): Promise<FrameResponse>;
+  getCompanySubmissions(cik: string): Promise<any>;
+}
+
+export type ScreenOperator = 'gt' | 'gte' | 'lt' | 'lte' | 'between';
+
+export interface ScreenCondition {
+  metric: string; // Standard name, key or alias: "TotalRevenue", "revenue", "net income"
+  operator: ScreenOperator;
+  value: number; // USD
+  max?: number; // Upper bound for "between"
+}
+
+export interface ScreenCriteria {
+  period: string; // "CY2023" or "CY2023Q3"; instant metrics use the quarter-end frame
+  conditions: ScreenCondition[];
+  sic?: string[]; // SIC codes or prefixes: "7372", "73"
+  stateOfIncorporation?: string[]; // Two-letter codes: "DE", "NV"
+  ciks?: string[]; // Restrict to these companies, e.g. when ranking a named peer set
+  sortBy?: string; // Metric to rank by; defaults to the first condition's
+  nearest?: number; // Positive sort metric value; when attribute lookups are capped, check the closest companies first
+  include?: string[]; // Extra metrics to report; unlike conditions, companies may lack them
+  order?: 'asc' | 'desc';
+  limit?: number;
+}
+
+export interface ScreenValue {
+  value: number;
+  tag: string; // Concept the value was reported under
+  start?: string;
+  end: string;
+  accn?: string;
+}
+
+export interface ScreenRow {
+  cik: string;
+  entityName: string;
+  ticker?: string;
+  sic?: string;
+  sicDescription?: string;
+  stateOfIncorporation?: string;
+  values: { [metricKey: string]: ScreenValue };
+}
+
+export interface ScreenResult {
+  criteria: ScreenCriteria;
+  metrics: Array<{ key: string; label: string; frame: string; tags: string[] }>;
+  rows: ScreenRow[]; // Ranked, up to criteria.limit
+  total: number; // Matches before the limit
+  source: 'live' | 'snapshot';
+  warnings: string[];
+}
+
+interface FramesSnapshot {
+  frames: { [key: string]: FrameResponse };
+  companies: { [cik: string]: { name?: string; sic?: string; sicDescription?: string; stateOfIncorporation?: string } };
+}
+
+const DEFAULT_LIMIT = 25;
+const MAX_LIMIT = 500;
+// Attribute filters need a submissions lookup per candidate; beyond this the screen is truncated
+const MAX_ATTRIBUTE_LOOKUPS = 250;
+const FETCH_CONCURRENCY = 4;
+const PERIOD_PATTERN = /^CY\d{4}(Q[1-4])?$/i;
+
+/**
+ * Frames fetched straight from data.sec.gov (or SEC_API_BASE_URL, so the
+ * mock feed can stand in)
+ */
+export class LiveFramesSource implements FramesSource {
+  private baseUrl = process.env.SEC_API_BASE_URL || 'https://data.sec.gov';
+  private headers = { 'User-Agent': process.env.SEC_API_USER_AGENT || 'SEC Query App/1.0' };
+
+  async getFrames(taxonomy: string, tag: string, unit: string, period: string): Promise<FrameResponse> {
+    const response = await fetch(`${this.baseUrl}/api/xbrl/frames/${taxonomy}/${tag}/${unit}/${period}.json`, { headers: this.headers });
+    if (!response.ok) {
+      throw Object.assign(new Error(`SEC API error: ${response.status}`), { statusCode: response.status });
+    }
+    const frame: any = await response.json();
+    return frame;
+  }
+
+  async getCompanySubmissions(cik: string): Promise<any> {
+    const response = await fetch(`${this.baseUrl}/submissions/CIK${cik.padStart(10, '0')}.json`, { headers: this.headers });
+    if (!response.ok) {
+      throw new Error(`SEC API error: ${response.status}`);
+    }
+    return response.json();
+  }
+}
+
+/**
+ * Frames served from a local snapshot (data/frames-snapshot.json by default)
+ * for development and tests without network access
+ */
+export class SnapshotFramesSource implements FramesSource {
+  private snapshot: FramesSnapshot | null = null;
+
+  constructor(private snapshotPath: string = process.env.FRAMES_SNAPSHOT_PATH || path.join(DATA_DIR, 'frames-snapshot.json')) {}
+
+  async getFrames(taxonomy: string, tag: string, unit: string, period: string): Promise<FrameResponse> {
+    const frame = this.load().frames[`${taxonomy}/${tag}/${unit}/${period}`];
+    if (!frame) {
+      throw Object.assign(new Error(`Frame ${taxonomy}/${tag}/${unit}/${period} is not in the snapshot`), { statusCode: 404 });
+    }
+    return frame;
+  }
+
+  async getCompanySubmissions(cik: string): Promise<any> {
+    const company = this.load().companies[cik.padStart(10, '0')];
+    if (!company) {
+      throw new Error(`CIK ${cik} is not in the snapshot`);
+    }
+    return company;
+  }
+
+  private load(): FramesSnapshot {
+    if (!this.snapshot) {
+      this.snapshot = JSON.parse(fs.readFileSync(this.snapshotPath, 'utf8')) as FramesSnapshot;
+    }
+    return this.snapshot;
+  }
+}
+
+/**
+ * The frame period for a metric: balance sheet items are instants at the
+ * end of the period ("CY2023" becomes "CY2023Q4I")
+ */
+export function framePeriod(period: string, metric: StandardMetric): string {
+  if (!metric.instant) return period;
+  return /Q[1-4]$/.test(period) ? `${period}I` : `${period}Q4I`;
+}
+
+export function isValidFramePeriod(period: string): boolean {
+  return PERIOD_PATTERN.test(period);
+}
+
+function matchesCondition(value: number, condition: ScreenCondition): boolean {
+  switch (condition.operator) {
+    case 'gt': return value > condition.value;
+    case 'gte': return value >= condition.value;
+    case 'lt': return value < condition.value;
+    case 'lte': return value <= condition.value;
+    case 'between': return value >= condition.value && value <= (condition.max ?? Infinity);
+  }
+}
+
+export class FramesScreener {
+  // Company attributes rarely change; keep them for the life of the process. Failed
+  // lookups are not cached, so the next screen retries them.
+  private attributes = new Map<string, { sic?: string; sicDescription?: string; stateOfIncorporation?: string }>();
+
+  constructor(private source: FramesSource, private sourceType: ScreenResult['source'] = 'live') {}
+
+  /**
+   * Run a screen: every condition must hold, then SIC and state filters are
+   * applied and the matches ranked by the sort metric
+   */
+  async screen(criteria: ScreenCriteria): Promise<ScreenResult> {
+    const warnings: string[] = [];
+    const sortMetric = getStandardMetric(criteria.sortBy || criteria.conditions[0]?.metric || '');
+    const metrics = new Map<string, StandardMetric>();
+    [...criteria.conditions.map(condition => condition.metric), ...(sortMetric ? [sortMetric.standardName] : [])].forEach(identifier => {
+      const metric = getStandardMetric(identifier);
+      if (!metric) throw new Error(`Unknown metric: ${identifier}`);
+      metrics.set(metric.key, metric);
+    });
+    if (metrics.size === 0) {
+      throw new Error('A screen needs at least one condition or a metric to rank by');
+    }
+    const required = new Set(metrics.keys());
+    (criteria.include || []).forEach(identifier => {
+      const metric = getStandardMetric(identifier);
+      if (!metric) throw new Error(`Unknown metric: ${identifier}`);
+      if (!metrics.has(metric.key)) metrics.set(metric.key, metric);
+    });
+
+    // One merged frame per metric, keyed by zero-padded CIK
+    const frames = new Map<string, Map<string, ScreenValue & { entityName: string }>>();
+    const metricInfo: ScreenResult['metrics'] = [];
+    for (const metric of metrics.values()) {
+      const period = framePeriod(criteria.period, metric);
+      const { values, tags } = await this.fetchMetricFrame(metric, period, warnings);
+      if (tags.length === 0) warnings.push(`No ${metric.label} frame is available for ${period}`);
+      frames.set(metric.key, values);
+      metricInfo.push({ key: metric.key, label: metric.label, frame: period, tags });
+    }
+
+    // Candidates must report every screened metric; included ones are filled in where reported
+    const restrictTo = criteria.ciks ? new Set(criteria.ciks.map(cik => cik.padStart(10, '0'))) : null;
+    const [firstKey, ...otherKeys] = Array.from(required);
+    let rows: ScreenRow[] = [];
+    for (const [cik, first] of frames.get(firstKey)!) {
+      if (restrictTo && !restrictTo.has(cik)) continue;
+      if (otherKeys.some(key => !frames.get(key)!.has(cik))) continue;
+
+      const values: ScreenRow['values'] = {};
+      for (const [key, frame] of frames) {
+        const point = frame.get(cik);
+        if (!point) continue;
+        const { entityName, ...value } = point;
+        values[key] = value;
+      }
+      const passes = criteria.conditions.every(condition => {
+        const metric = getStandardMetric(condition.metric)!;
+        return matchesCondition(values[metric.key].value, condition);
+      });
+      if (passes) rows.push({ cik, entityName: first.entityName, values });
+    }
+
+    if (criteria.sic?.length || criteria.stateOfIncorporation?.length) {
+      if (rows.length > MAX_ATTRIBUTE_LOOKUPS) {
+        const checked = criteria.nearest !== undefined && sortMetric
+          ? `the ${MAX_ATTRIBUTE_LOOKUPS} closest in ${sortMetric.label}`
+          : `the first ${MAX_ATTRIBUTE_LOOKUPS} by ${sortMetric?.label || 'value'}`;
+        warnings.push(`${rows.length} companies matched before SIC and state filters; only ${checked} were checked`);
+        rows = (criteria.nearest !== undefined ? this.rankNearest(rows, sortMetric, criteria.nearest) : this.rank(rows, sortMetric, criteria.order))
+          .slice(0, MAX_ATTRIBUTE_LOOKUPS);
+      }
+      const failed = await this.loadAttributes(rows.map(row => row.cik));
+      if (failed > 0) warnings.push(`SIC and state could not be fetched for ${failed} companies; they were left out`);
+      rows = rows.filter(row => {
+        const attributes = this.attributes.get(row.cik);
+        if (!attributes) return false;
+        if (criteria.sic?.length && !criteria.sic.some(code => attributes.sic?.startsWith(code))) return false;
+        if (criteria.stateOfIncorporation?.length
+          && !criteria.stateOfIncorporation.some(state => state.toUpperCase() === attributes.stateOfIncorporation?.toUpperCase())) return false;
+        return true;
+      });
+    }
+
+    const directory = getCompanyDirectory();
+    const ranked = this.rank(rows, sortMetric, criteria.order).map(row => ({
+      ...row,
+      ticker: directory.getByCik(row.cik)?.tickers[0],
+      ...(this.attributes.get(row.cik) || {})
+    }));
+    const limit = Math.min(criteria.limit || DEFAULT_LIMIT, MAX_LIMIT);
+
+    return {
+      criteria,
+      metrics: metricInfo,
+      rows: ranked.slice(0, limit),
+      total: ranked.length,
+      source: this.sourceType,
+      warnings
+    };
+  }
+
+  /**
+   * SIC code, SIC description and state of incorporation for one company,
+   * from its submissions. Null when they could not be fetched.
+   */
+  async getCompanyAttributes(cik: string): Promise<{ sic?: string; sicDescription?: string; stateOfIncorporation?: string } | null> {
+    const paddedCik = cik.padStart(10, '0');
+    await this.loadAttributes([paddedCik]);
+    return this.attributes.get(paddedCik) || null;
+  }
+
+  /**
+   * Merge the frames of every us-gaap tag in a metric's concept chain. A
+   * company reporting under two tags keeps the value of the earlier one.
+   * Frames that fail for any reason but a 404 are noted in warnings.
+   */
+  private async fetchMetricFrame(metric: StandardMetric, period: string, warnings: string[]): Promise<{
+    values: Map<string, ScreenValue & { entityName: string }>;
+    tags: string[];
+  }> {
+    const values = new Map<string, ScreenValue & { entityName: string }>();
+    const tags: string[] = [];
+
+    // Frames are per taxonomy and unit; IFRS filers report in their own currencies
+    for (const conceptTag of metric.tags.filter(t => t.taxonomy === 'us-gaap')) {
+      let frame: FrameResponse;
+      try {
+        frame = await this.source.getFrames(conceptTag.taxonomy, conceptTag.tag, metric.unit, period);
+      } catch (error: any) {
+        // Tags nobody reported for the period have no frame; anything else is an outage
+        if (error?.statusCode !== 404) {
+          warnings.push(`The ${conceptTag.tag} frame for ${period} could not be fetched: ${error?.message || error}`);
+        }
+        continue;
+      }
+
+      tags.push(conceptTag.tag);
+      for (const point of frame.data || []) {
+        const cik = String(point.cik).padStart(10, '0');
+        if (values.has(cik)) continue;
+        values.set(cik, {
+          entityName: point.entityName,
+          value: point.val,
+          tag: conceptTag.tag,
+          start: point.start,
+          end: point.end,
+          accn: point.accn
+        });
+      }
+    }
+
+    return { values, tags };
+  }
+
+  // Fetch attributes not yet known; returns how many lookups failed
+  private async loadAttributes(ciks: string[]): Promise<number> {
+    const missing = ciks.filter(cik => !this.attributes.has(cik));
+    let failed = 0;
+    for (let i = 0; i < missing.length; i += FETCH_CONCURRENCY) {
+      await Promise.all(missing.slice(i, i + FETCH_CONCURRENCY).map(async cik => {
+        try {
+          const submissions = await this.source.getCompanySubmissions(cik);
+          this.attributes.set(cik, {
+            sic: submissions.sic || undefined,
+            sicDescription: submissions.sicDescription || undefined,
+            stateOfIncorporation: submissions.stateOfIncorporation || undefined
+          });
+        } catch (error) {
+          console.error(`Failed to fetch attributes for CIK ${cik}:`, error);
+          failed++;
+        }
+      }));
+    }
+    return failed;
+  }
+
+  private rank(rows: ScreenRow[], metric: StandardMetric | undefined, order: ScreenCriteria['order'] = 'desc'): ScreenRow[] {
+    if (!metric) return rows;
+    const direction = order === 'asc' ? 1 : -1;
+    return [...rows].sort((a, b) => direction * ((a.values[metric.key]?.value ?? 0) - (b.values[metric.key]?.value ?? 0)));
+  }
+
+  // Closest to the value first, on a log scale so 2x larger and 2x smaller count the same
+  private rankNearest(rows: ScreenRow[], metric: StandardMetric | undefined, nearest: number): ScreenRow[] {
+    if (!metric) return rows;
+    const distance = (row: ScreenRow) => {
+      const value = row.values[metric.key]?.value ?? 0;
+      return value > 0 ? Math.abs(Math.log(value / nearest)) : Infinity;
+    };
+    return [...rows].sort((a, b) => distance(a) - distance(b));
+  }
+}
+
+let sharedScreener: FramesScreener | null = null;
+
+/**
+ * Process-wide screener. FRAMES_SOURCE=snapshot serves frames from
+ * FRAMES_SNAPSHOT_PATH (default: data/frames-snapshot.json) instead of EDGAR.
+ */
+export function getFramesScreener(): FramesScreener {
+  if (!sharedScreener) {
+    sharedScreener = process.env.FRAMES_SOURCE === 'snapshot'
+      ? new FramesScreener(new SnapshotFramesSource(), 'snapshot')
+      : new FramesScreener(new LiveFramesSource(), 'live');
+  }
+  return sharedScreener;
+}
+
+// ============= NATURAL LANGUAGE CRITERIA =============
+
+const US_STATES: { [name: string]: string } = {
+  alabama: 'AL', alaska: 'AK', arizona: 'AZ', arkansas: 'AR', california: 'CA', colorado: 'CO',
+  connecticut: 'CT', delaware: 'DE', florida: 'FL', georgia: 'GA', hawaii: 'HI', idaho: 'ID',
+  illinois: 'IL', indiana: 'IN', iowa: 'IA', kansas: 'KS', kentucky: 'KY', louisiana: 'LA',
+  maine: 'ME', maryland: 'MD', massachusetts: 'MA', michigan: 'MI', minnesota: 'MN', mississippi: 'MS',
+  missouri: 'MO', montana: 'MT', nebraska: 'NE', nevada: 'NV', 'new hampshire': 'NH', 'new jersey': 'NJ',
+  'new mexico': 'NM', 'new york': 'NY', 'north carolina': 'NC', 'north dakota': 'ND', ohio: 'OH',
+  oklahoma: 'OK', oregon: 'OR', pennsylvania: 'PA', 'rhode island': 'RI', 'south carolina': 'SC',
+  'south dakota': 'SD', tennessee: 'TN', texas: 'TX', utah: 'UT', vermont: 'VT', virginia: 'VA',
+  washington: 'WA', 'west virginia': 'WV', wisconsin: 'WI', wyoming: 'WY'
+};
+
+const AMOUNT = String.raw`\$?\s*(\d+(?:,\d{3})*(?:\.\d+)?)\s*(trillion|billion|million|thousand|tn|bn|[tbmk])?\b`;
+const SCALES: { [unit: string]: number } = {
+  trillion: 1e12, tn: 1e12, t: 1e12,
+  billion: 1e9, bn: 1e9, b: 1e9,
+  million: 1e6, m: 1e6,
+  thousand: 1e3, k: 1e3
+};
+
+function parseAmount(digits: string, unit?: string): number {
+  return parseFloat(digits.replace(/,/g, '')) * (unit ? SCALES[unit.toLowerCase()] : 1);
+}
+
+// Aliases of every metric, longest first so "net income" wins over "income"
+const METRIC_PHRASES = STANDARD_METRICS
+  .flatMap(metric => [metric.label.toLowerCase(), ...metric.aliases].map(phrase => ({ phrase, metric })))
+  .sort((a, b) => b.phrase.length - a.phrase.length);
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * The calendar period a question names: "CY2023", "Q3 2023", "in 2023".
+ * Null when it names none, so callers can pick their own default.
+ */
+export function parseFramePeriod(query: string): string | null {
+  const text = query.toLowerCase();
+  const calendar = text.match(/\bcy\s?(\d{4})(q[1-4])?\b/);
+  const quarter = text.match(/\b(q[1-4])\s*(?:of\s*)?(?:fy|cy)?\s?(\d{4})\b/);
+  const year = text.match(/\b(?:in|for|during|fy|fiscal( year)?)\s*((?:19|20)\d{2})\b/);
+  if (calendar) return `CY${calendar[1]}${(calendar[2] || '').toUpperCase()}`;
+  if (quarter) return `CY${quarter[2]}${quarter[1].toUpperCase()}`;
+  if (year) return `CY${year[2]}`;
+  return null;
+}
+
+/**
+ * Read screening criteria from a question such as "companies with revenue
+ * over $10B and negative net income in CY2023". Returns null when the
+ * question names no metric condition or ranking.
+ */
+export function parseScreenCriteria(query: string, now: Date = new Date()): ScreenCriteria | null {
+  const text = query.toLowerCase();
+  const found: Array<{ condition: ScreenCondition; index: number }> = [];
+  const claimed: Array<[number, number]> = [];
+
+  for (const { phrase, metric } of METRIC_PHRASES) {
+    const pattern = new RegExp(String.raw`(negative|positive)?\s*\b${escapeRegExp(phrase)}\b(?:\s+(?:of|was|is|at))?\s*(?:(over|above|greater than|more than|exceeding|at least|under|below|less than|at most|between)\s*${AMOUNT}(?:\s*and\s*${AMOUNT})?)?`, 'g');
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      if (claimed.some(([from, to]) => start < to && end > from)) continue;
+
+      const [, sign, comparison, digits, unit, maxDigits, maxUnit] = match;
+      let condition: ScreenCondition | null = null;
+      if (sign) {
+        condition = { metric: metric.standardName, operator: sign === 'negative' ? 'lt' : 'gt', value: 0 };
+      } else if (comparison === 'between' && maxDigits) {
+        condition = { metric: metric.standardName, operator: 'between', value: parseAmount(digits, unit), max: parseAmount(maxDigits, maxUnit || unit) };
+      } else if (comparison && digits) {
+        const operator: ScreenOperator = /over|above|greater|more|exceeding/.test(comparison) ? 'gt'
+          : comparison === 'at least' ? 'gte'
+          : comparison === 'at most' ? 'lte'
+          : 'lt';
+        condition = { metric: metric.standardName, operator, value: parseAmount(digits, unit) };
+      }
+
+      if (condition) {
+        found.push({ condition, index: start });
+        claimed.push([start, end]);
+      }
+    }
+  }
+  // In the order the question states them; the first condition sets the default ranking
+  const conditions = found.sort((a, b) => a.index - b.index).map(({ condition }) => condition);
+
+  // "unprofitable companies", "companies with a net loss"
+  if (/\bunprofitable\b|\b(a|with) net loss(es)?\b|\blost money\b/.test(text) && !conditions.some(condition => condition.metric === 'NetIncome')) {
+    conditions.push({ metric: 'NetIncome', operator: 'lt', value: 0 });
+  }
+
+  // "top 10 by revenue", "largest companies by total assets", "lowest net income"
+  let sortBy: string | undefined;
+  let order: ScreenCriteria['order'];
+  let limit: number | undefined;
+  const ranking = text.match(/\b(top|bottom|largest|biggest|highest|smallest|lowest)\b\s*(\d+)?/);
+  if (ranking) {
+    order = /bottom|smallest|lowest/.test(ranking[1]) ? 'asc' : 'desc';
+    limit = ranking[2] ? parseInt(ranking[2], 10) : undefined;
+    const after = text.substring(ranking.index! + ranking[0].length);
+    sortBy = METRIC_PHRASES.find(({ phrase }) => new RegExp(String.raw`^(?:[\w\s]*?\bby\s+|\s*)${escapeRegExp(phrase)}\b`).test(after))?.metric.standardName;
+  }
+  if (conditions.length === 0 && !sortBy) return null;
+
+  // Unless the question names a period, the last complete calendar year
+  const period = parseFramePeriod(text) || `CY${now.getFullYear() - 1}`;
+  const states = Object.entries(US_STATES)
+    .filter(([name]) => new RegExp(String.raw`\b(incorporated|domiciled|organized) in ${name}\b|\b${name} (corporations|companies)\b`).test(text))
+    .map(([, code]) => code);
+  // "SIC 7372", "semiconductor companies", "the utilities sector"
+  const sic = Array.from(new Set(findSicCodes(text).flatMap(match => match.codes)));
+
+  return {
+    period,
+    conditions,
+    sic: sic.length > 0 ? sic : undefined,
+    stateOfIncorporation: states.length > 0 ? states : undefined,
+    sortBy,
+    order,
+    limit
+  };
+}
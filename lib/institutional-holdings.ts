@@ -0,0 +1,758 @@
+// Institutional Holdings - Parses 13F-HR information tables and tracks manager positions quarter over quarter
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { buildArchivesUrl, buildIndexJsonUrl } from './edgar-filing-index';
+import { getCompanyDirectory, normalizeCompanyName } from './company-directory';
+import { blocks, numeric, text } from './edgar-xml';
+import { DATA_DIR } from './data-dir';
+
+export interface InformationTableEntry {
+  nameOfIssuer: string;
+  titleOfClass: string;
+  cusip: string;
+  figi?: string;
+  value: number; // USD
+  shares: number; // Shares, or principal amount for PRN rows
+  shareType: 'SH' | 'PRN';
+  putCall?: 'Put' | 'Call';
+  investmentDiscretion?: string; // SOLE, DFND or OTR
+  otherManager?: string;
+  votingAuthority: { sole: number; shared: number; none: number };
+}
+
+export interface ThirteenFCoverPage {
+  managerName: string;
+  periodOfReport: string; // YYYY-MM-DD, the calendar quarter end
+  reportType?: string; // "13F HOLDINGS REPORT", "13F NOTICE" or "13F COMBINATION REPORT"
+  isAmendment: boolean;
+  amendmentType?: 'RESTATEMENT' | 'NEW HOLDINGS';
+  tableEntryTotal?: number;
+  tableValueTotal?: number;
+}
+
+/**
+ * One issuer's securities in a manager's report, summed across the rows
+ * filed for each investment discretion and other manager. Options are kept
+ * apart from the underlying shares.
+ */
+export interface HoldingPosition {
+  cusip: string;
+  issuer: string;
+  titleOfClass: string;
+  putCall?: 'Put' | 'Call';
+  shareType: 'SH' | 'PRN';
+  shares: number;
+  value: number;
+}
+
+export interface ManagerFiling {
+  managerCik: string;
+  managerName: string;
+  accessionNumber: string;
+  form: string; // 13F-HR or 13F-HR/A
+  filingDate: string;
+  periodOfReport: string;
+  amendmentType?: ThirteenFCoverPage['amendmentType'];
+  url?: string;
+  positions: HoldingPosition[];
+}
+
+export type PositionChangeType = 'new' | 'added' | 'reduced' | 'exited' | 'unchanged';
+
+export interface PositionChange {
+  cusip: string;
+  issuer: string;
+  ticker?: string;
+  titleOfClass: string;
+  putCall?: 'Put' | 'Call';
+  type: PositionChangeType;
+  sharesBefore: number;
+  sharesAfter: number;
+  shareChange: number;
+  percentChange: number | null; // null for new positions
+  valueBefore: number;
+  valueAfter: number;
+}
+
+export interface ManagerPositionChanges {
+  managerCik: string;
+  managerName: string;
+  period: string;
+  previousPeriod?: string; // Absent when the manager's prior report has not been ingested
+  positions: number;
+  totalValue: number;
+  counts: Record<PositionChangeType, number>;
+  changes: PositionChange[]; // Largest moves by value first; empty without a previous period
+}
+
+export interface InstitutionalHolder {
+  managerCik: string;
+  managerName: string;
+  accessionNumber: string;
+  shares: number;
+  value: number;
+  change?: PositionChangeType;
+  shareChange?: number;
+}
+
+export interface HolderLookup {
+  issuer: string;
+  cik?: string;
+  ticker?: string;
+  cusips: string[];
+  period?: string;
+  holders: InstitutionalHolder[]; // Largest first
+  totalShares: number;
+  totalValue: number;
+  managersTracked: number; // Holders are only found among managers whose 13Fs were ingested
+}
+
+export interface CusipMapping {
+  cusip: string;
+  issuer: string;
+  titleOfClass?: string;
+  cik?: string;
+  ticker?: string;
+  source: 'seed' | '13f' | 'manual';
+  updatedAt?: string;
+}
+
+export interface ManagerSummary {
+  managerCik: string;
+  managerName: string;
+  periods: string[]; // Newest first
+  filings: number;
+}
+
+export interface InstitutionalHoldingsKnowledge {
+  holders: HolderLookup[]; // "Which funds hold NVDA?"
+  managers: ManagerPositionChanges[]; // "What did Berkshire add last quarter?"
+}
+
+export interface ManagerFilingOptions {
+  quarters?: number; // Most recent report periods to ingest
+}
+
+export interface ManagerIngestResult {
+  managerCik: string;
+  managerName?: string;
+  periods: string[];
+  ingested: string[]; // Accession numbers fetched this call
+  skipped: string[]; // Already in the store
+}
+
+interface StoreFile {
+  version: number;
+  filings: ManagerFiling[];
+  cusips: Record<string, CusipMapping>; // Learned and manually maintained mappings
+}
+
+export const THIRTEEN_F_FORMS = ['13F-HR', '13F-HR/A'];
+
+const STORE_VERSION = 1;
+const DEFAULT_QUARTERS = 2;
+// Filings made from this date report values in dollars; earlier ones in thousands
+const DOLLAR_VALUES_FROM = '2023-01-03';
+// Batch writes when a manager's quarters are ingested together
+const SAVE_DELAY_MS = 1000;
+// Mapping sources in order of trust; a mapping is never replaced by a less trusted one
+const SOURCE_RANK: Record<CusipMapping['source'], number> = { '13f': 0, seed: 1, manual: 2 };
+
+/**
+ * Normalize a CUSIP to its 9-character upper-case form
+ */
+export function normalizeCusip(cusip: string): string {
+  return cusip.replace(/[^0-9a-z]/gi, '').toUpperCase();
+}
+
+/**
+ * Parse a 13F information table. Values are returned as filed; see
+ * toDollars for filings made before the switch from thousands to dollars.
+ */
+export function parseInformationTable(xml: string): InformationTableEntry[] {
+  return blocks(xml, 'infoTable').map(row => {
+    const putCall = text(row, 'putCall');
+    return {
+      nameOfIssuer: text(row, 'nameOfIssuer') || 'Unknown issuer',
+      titleOfClass: text(row, 'titleOfClass') || '',
+      cusip: normalizeCusip(text(row, 'cusip') || ''),
+      figi: text(row, 'figi'),
+      value: numeric(row, 'value') || 0,
+      shares: numeric(row, 'shrsOrPrnAmt', 'sshPrnamt') || 0,
+      shareType: text(row, 'shrsOrPrnAmt', 'sshPrnamtType')?.toUpperCase() === 'PRN' ? 'PRN' : 'SH',
+      putCall: putCall ? (/^put$/i.test(putCall) ? 'Put' : 'Call') : undefined,
+      investmentDiscretion: text(row, 'investmentDiscretion'),
+      otherManager: text(row, 'otherManager'),
+      votingAuthority: {
+        sole: numeric(row, 'votingAuthority', 'Sole') || 0,
+        shared: numeric(row, 'votingAuthority', 'Shared') || 0,
+        none: numeric(row, 'votingAuthority', 'None') || 0
+      }
+    } as InformationTableEntry;
+  }).filter(entry => entry.cusip.length === 9);
+}
+
+/**
+ * Parse the cover and summary pages of a 13F primary_doc.xml
+ */
+export function parse13FCoverPage(xml: string): ThirteenFCoverPage {
+  const coverPage = blocks(xml, 'coverPage')[0] || '';
+  const amendmentType = text(coverPage, 'amendmentInfo', 'amendmentType')?.toUpperCase();
+  const period = text(coverPage, 'reportCalendarOrQuarter') || text(xml, 'periodOfReport') || '';
+
+  return {
+    managerName: text(coverPage, 'filingManager', 'name') || 'Unknown manager',
+    periodOfReport: toIsoDate(period),
+    reportType: text(coverPage, 'reportType'),
+    isAmendment: /^(true|1|y)/i.test(text(coverPage, 'isAmendment') || ''),
+    amendmentType: amendmentType === 'RESTATEMENT' || amendmentType === 'NEW HOLDINGS' ? amendmentType : undefined,
+    tableEntryTotal: numeric(xml, 'summaryPage', 'tableEntryTotal'),
+    tableValueTotal: numeric(xml, 'summaryPage', 'tableValueTotal')
+  };
+}
+
+/**
+ * 13F values were reported in thousands of dollars until January 2023
+ */
+export function toDollars(value: number, filingDate: string): number {
+  return filingDate < DOLLAR_VALUES_FROM ? value * 1000 : value;
+}
+
+/**
+ * Sum information table rows into one position per CUSIP, keeping puts and calls separate
+ */
+export function aggregatePositions(entries: InformationTableEntry[], filingDate: string): HoldingPosition[] {
+  const positions = new Map<string, HoldingPosition>();
+
+  entries.forEach(entry => {
+    const key = positionKey(entry);
+    const existing = positions.get(key);
+    if (existing) {
+      existing.shares += entry.shares;
+      existing.value += toDollars(entry.value, filingDate);
+    } else {
+      positions.set(key, {
+        cusip: entry.cusip,
+        issuer: entry.nameOfIssuer,
+        titleOfClass: entry.titleOfClass,
+        putCall: entry.putCall,
+        shareType: entry.shareType,
+        shares: entry.shares,
+        value: toDollars(entry.value, filingDate)
+      });
+    }
+  });
+
+  return Array.from(positions.values());
+}
+
+/**
+ * Compare two quarters of one manager's positions, matched by CUSIP. Every
+ * position held in either quarter appears once.
+ */
+export function comparePositions(current: HoldingPosition[], previous: HoldingPosition[]): PositionChange[] {
+  const before = new Map(previous.map(position => [positionKey(position), position]));
+  const after = new Map(current.map(position => [positionKey(position), position]));
+  const keys = new Set([...after.keys(), ...before.keys()]);
+
+  return Array.from(keys).map(key => {
+    const now = after.get(key);
+    const then = before.get(key);
+    const reference = (now || then)!;
+    const sharesBefore = then?.shares || 0;
+    const sharesAfter = now?.shares || 0;
+    const shareChange = sharesAfter - sharesBefore;
+
+    let type: PositionChangeType = 'unchanged';
+    if (!then) type = 'new';
+    else if (!now) type = 'exited';
+    else if (shareChange > 0) type = 'added';
+    else if (shareChange < 0) type = 'reduced';
+
+    return {
+      cusip: reference.cusip,
+      issuer: reference.issuer,
+      titleOfClass: reference.titleOfClass,
+      putCall: reference.putCall,
+      type,
+      sharesBefore,
+      sharesAfter,
+      shareChange,
+      percentChange: sharesBefore > 0 ? Math.round((shareChange / sharesBefore) * 10000) / 100 : null,
+      valueBefore: then?.value || 0,
+      valueAfter: now?.value || 0
+    };
+  });
+}
+
+function positionKey(position: { cusip: string; putCall?: string }): string {
+  return position.putCall ? `${position.cusip}:${position.putCall}` : position.cusip;
+}
+
+// 13F cover pages write dates as MM-DD-YYYY
+function toIsoDate(date: string): string {
+  const match = date.match(/^(\d{2})-(\d{2})-(\d{4})$/);
+  return match ? `${match[3]}-${match[1]}-${match[2]}` : date;
+}
+
+/**
+ * 13F filings by manager and period, plus the CUSIP-to-issuer map that ties
+ * positions back to companies. Seed mappings ship in data/cusip_map.json;
+ * mappings learned from filed issuer names and manual corrections are kept
+ * with the filings.
+ */
+export class InstitutionalHoldingsStore {
+  private filings = new Map<string, ManagerFiling>();
+  private cusips = new Map<string, CusipMapping>();
+  private loaded = false;
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private filePath: string = defaultStorePath(),
+    private seedPath: string = path.join(DATA_DIR, 'cusip_map.json')
+  ) {}
+
+  get size(): number {
+    this.load();
+    return this.filings.size;
+  }
+
+  has(accessionNumber: string): boolean {
+    this.load();
+    return this.filings.has(accessionNumber);
+  }
+
+  /**
+   * Add or replace a filing and learn mappings for the CUSIPs it reports
+   */
+  addFiling(filing: ManagerFiling): void {
+    this.load();
+    this.filings.set(filing.accessionNumber, { ...filing, managerCik: filing.managerCik.padStart(10, '0') });
+    filing.positions.forEach(position => this.learnCusip(position));
+    this.scheduleSave();
+  }
+
+  /**
+   * Managers with ingested reports, by name
+   */
+  listManagers(): ManagerSummary[] {
+    this.load();
+    const managers = new Map<string, ManagerSummary>();
+
+    this.filings.forEach(filing => {
+      const summary = managers.get(filing.managerCik)
+        || { managerCik: filing.managerCik, managerName: filing.managerName, periods: [], filings: 0 };
+      if (!summary.periods.includes(filing.periodOfReport)) summary.periods.push(filing.periodOfReport);
+      summary.filings++;
+      managers.set(filing.managerCik, summary);
+    });
+
+    return Array.from(managers.values())
+      .map(summary => ({ ...summary, periods: summary.periods.sort().reverse() }))
+      .sort((a, b) => a.managerName.localeCompare(b.managerName));
+  }
+
+  /**
+   * Ingested managers whose filed name appears in free text, for managers the
+   * company directory does not list
+   */
+  findManagers(text: string): ManagerSummary[] {
+    const haystack = ` ${normalizeCompanyName(text)} `;
+    return this.listManagers().filter(manager => {
+      const name = normalizeCompanyName(manager.managerName);
+      return name.length > 0 && haystack.includes(` ${name} `);
+    });
+  }
+
+  /**
+   * A manager's positions for a period (default: its latest). The original
+   * report or latest restatement is the base; later "new holdings"
+   * amendments add to it.
+   */
+  getHoldings(managerCik: string, period?: string): { filing: ManagerFiling; positions: HoldingPosition[] } | null {
+    this.load();
+    const cik = managerCik.padStart(10, '0');
+    const reports = Array.from(this.filings.values())
+      .filter(filing => filing.managerCik === cik)
+      .sort((a, b) => a.filingDate.localeCompare(b.filingDate));
+    const targetPeriod = period || reports.map(filing => filing.periodOfReport).sort().pop();
+    const forPeriod = reports.filter(filing => filing.periodOfReport === targetPeriod);
+
+    const baseIndex = forPeriod.map(filing => filing.amendmentType !== 'NEW HOLDINGS').lastIndexOf(true);
+    if (baseIndex < 0) return null;
+
+    const base = forPeriod[baseIndex];
+    const additions = forPeriod.slice(baseIndex + 1).filter(filing => filing.amendmentType === 'NEW HOLDINGS');
+    const positions = additions.length === 0
+      ? base.positions
+      : mergePositions([base, ...additions].flatMap(filing => filing.positions));
+
+    return { filing: base, positions };
+  }
+
+  /**
+   * Quarter-over-quarter changes in a manager's positions, against the
+   * manager's closest earlier ingested report
+   */
+  getPositionChanges(managerCik: string, period?: string): ManagerPositionChanges | null {
+    const current = this.getHoldings(managerCik, period);
+    if (!current) return null;
+
+    const previousPeriod = this.periodsFor(current.filing.managerCik)
+      .find(candidate => candidate < current.filing.periodOfReport);
+    const previous = previousPeriod ? this.getHoldings(managerCik, previousPeriod) : null;
+
+    // With no earlier report every position would look new, so nothing is classified
+    const changes = previous ? comparePositions(current.positions, previous.positions) : [];
+    changes.forEach(change => {
+      change.ticker = this.getCusip(change.cusip)?.ticker;
+    });
+
+    const counts: Record<PositionChangeType, number> = { new: 0, added: 0, reduced: 0, exited: 0, unchanged: 0 };
+    changes.forEach(change => counts[change.type]++);
+
+    return {
+      managerCik: current.filing.managerCik,
+      managerName: current.filing.managerName,
+      period: current.filing.periodOfReport,
+      previousPeriod: previous?.filing.periodOfReport,
+      positions: current.positions.length,
+      totalValue: current.positions.reduce((sum, position) => sum + position.value, 0),
+      counts,
+      changes: changes.sort((a, b) =>
+        Math.abs(b.valueAfter - b.valueBefore) - Math.abs(a.valueAfter - a.valueBefore) || b.valueAfter - a.valueAfter)
+    };
+  }
+
+  /**
+   * Managers holding any of an issuer's CUSIPs in a period (default: the
+   * latest period any ingested manager reported them). Option positions are
+   * not counted as holdings.
+   */
+  getHolders(cusips: string[], period?: string): Omit<HolderLookup, 'issuer' | 'cik' | 'ticker'> {
+    this.load();
+    const wanted = new Set(cusips.map(normalizeCusip));
+    const managers = this.listManagers();
+
+    const candidates = managers.flatMap(manager => {
+      const holdings = this.getHoldings(manager.managerCik, period || manager.periods[0]);
+      if (!holdings) return [];
+      const positions = holdings.positions.filter(position => wanted.has(position.cusip) && !position.putCall);
+      return positions.length > 0 ? [{ manager, holdings, positions }] : [];
+    });
+
+    const targetPeriod = period || candidates.map(candidate => candidate.holdings.filing.periodOfReport).sort().pop();
+    const holders: InstitutionalHolder[] = candidates
+      .filter(candidate => candidate.holdings.filing.periodOfReport === targetPeriod)
+      .map(({ manager, holdings, positions }) => {
+        const shares = positions.reduce((sum, position) => sum + position.shares, 0);
+        const changes = this.getPositionChanges(manager.managerCik, targetPeriod);
+        const related = changes?.previousPeriod
+          ? changes.changes.filter(change => wanted.has(change.cusip) && !change.putCall)
+          : [];
+        const shareChange = related.reduce((sum, change) => sum + change.shareChange, 0);
+
+        return {
+          managerCik: manager.managerCik,
+          managerName: holdings.filing.managerName,
+          accessionNumber: holdings.filing.accessionNumber,
+          shares,
+          value: positions.reduce((sum, position) => sum + position.value, 0),
+          change: related.length === 0 ? undefined
+            : related.every(change => change.type === 'new') ? 'new'
+              : shareChange > 0 ? 'added' : shareChange < 0 ? 'reduced' : 'unchanged',
+          shareChange: related.length > 0 ? shareChange : undefined
+        } as InstitutionalHolder;
+      })
+      .sort((a, b) => b.value - a.value);
+
+    return {
+      cusips: Array.from(wanted),
+      period: targetPeriod,
+      holders,
+      totalShares: holders.reduce((sum, holder) => sum + holder.shares, 0),
+      totalValue: holders.reduce((sum, holder) => sum + holder.value, 0),
+      managersTracked: managers.length
+    };
+  }
+
+  /**
+   * Holders of a company's securities, found by ticker, CIK, name or CUSIP
+   */
+  getHoldersOf(identifier: string, period?: string): HolderLookup | null {
+    const trimmed = identifier.trim();
+    const mapping = /^[0-9A-Z]{9}$/i.test(trimmed) ? this.getCusip(trimmed) : undefined;
+    const company = mapping?.cik
+      ? getCompanyDirectory().getByCik(mapping.cik)
+      : mapping ? undefined : getCompanyDirectory().resolve(trimmed)?.company;
+
+    const cusips = company ? this.cusipsForCik(company.cik).map(entry => entry.cusip) : [];
+    if (mapping && !cusips.includes(mapping.cusip)) cusips.push(mapping.cusip);
+    if (cusips.length === 0) return null;
+
+    return {
+      issuer: company?.name || mapping!.issuer,
+      cik: company?.cik,
+      ticker: company?.tickers[0],
+      ...this.getHolders(cusips, period)
+    };
+  }
+
+  getCusip(cusip: string): CusipMapping | undefined {
+    this.load();
+    return this.cusips.get(normalizeCusip(cusip));
+  }
+
+  /**
+   * Every mapped CUSIP for a company, across share classes
+   */
+  cusipsForCik(cik: string): CusipMapping[] {
+    this.load();
+    const padded = cik.padStart(10, '0');
+    return Array.from(this.cusips.values()).filter(mapping => mapping.cik === padded);
+  }
+
+  /**
+   * Record a mapping by hand; manual mappings are never replaced by seeded or learned ones
+   */
+  setCusip(mapping: Omit<CusipMapping, 'source' | 'updatedAt'>): CusipMapping {
+    this.load();
+    const saved: CusipMapping = {
+      ...mapping,
+      cusip: normalizeCusip(mapping.cusip),
+      cik: mapping.cik?.padStart(10, '0'),
+      source: 'manual',
+      updatedAt: new Date().toISOString()
+    };
+    this.cusips.set(saved.cusip, saved);
+    this.scheduleSave();
+    return saved;
+  }
+
+  /**
+   * Write pending changes to disk immediately
+   */
+  flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    this.save();
+  }
+
+  private periodsFor(managerCik: string): string[] {
+    return this.listManagers().find(manager => manager.managerCik === managerCik)?.periods || [];
+  }
+
+  /**
+   * Map an unseen CUSIP from a filing. The first six characters identify the
+   * issuer, so a new share class inherits its sibling's company; otherwise
+   * the filed issuer name is looked up in the company directory.
+   */
+  private learnCusip(position: HoldingPosition): void {
+    if (this.cusips.has(position.cusip)) return;
+
+    const sibling = Array.from(this.cusips.values())
+      .find(mapping => mapping.cik && mapping.cusip.substring(0, 6) === position.cusip.substring(0, 6));
+    const match = sibling ? undefined : getCompanyDirectory().resolve(position.issuer);
+    // Fuzzy matches on abbreviated 13F issuer names are too loose to trust
+    const company = sibling?.cik
+      ? getCompanyDirectory().getByCik(sibling.cik)
+      : match && match.matchedOn !== 'fuzzy' ? match.company : undefined;
+
+    this.cusips.set(position.cusip, {
+      cusip: position.cusip,
+      issuer: position.issuer,
+      titleOfClass: position.titleOfClass,
+      cik: company?.cik,
+      ticker: company && company.tickers.length === 1 ? company.tickers[0] : undefined,
+      source: '13f',
+      updatedAt: new Date().toISOString()
+    });
+  }
+
+  private load(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    if (fs.existsSync(this.seedPath)) {
+      try {
+        const seed: { cusips: Record<string, Omit<CusipMapping, 'cusip' | 'source'>> } =
+          JSON.parse(fs.readFileSync(this.seedPath, 'utf8'));
+        Object.entries(seed.cusips).forEach(([cusip, mapping]) => {
+          this.cusips.set(cusip, { ...mapping, cusip, source: 'seed' });
+        });
+      } catch (error) {
+        console.error('Failed to load CUSIP map:', error);
+      }
+    }
+
+    if (!fs.existsSync(this.filePath)) return;
+
+    try {
+      const data: StoreFile = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      if (data.version !== STORE_VERSION) {
+        console.warn(`Ignoring holdings store at ${this.filePath}: version ${data.version}, expected ${STORE_VERSION}`);
+        return;
+      }
+      data.filings.forEach(filing => this.filings.set(filing.accessionNumber, filing));
+      Object.values(data.cusips).forEach(mapping => {
+        const existing = this.cusips.get(mapping.cusip);
+        if (!existing || SOURCE_RANK[mapping.source] >= SOURCE_RANK[existing.source]) {
+          this.cusips.set(mapping.cusip, mapping);
+        }
+      });
+      console.log(`Loaded holdings store: ${this.filings.size} 13F filings`);
+    } catch (error) {
+      console.error('Failed to load holdings store:', error);
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, SAVE_DELAY_MS);
+  }
+
+  private save(): void {
+    try {
+      // Seeded mappings live in their own file
+      const cusips = Object.fromEntries(
+        Array.from(this.cusips.entries()).filter(([, mapping]) => mapping.source !== 'seed')
+      );
+      const data: StoreFile = { version: STORE_VERSION, filings: Array.from(this.filings.values()), cusips };
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      // Write then rename so a crash mid-write never leaves a truncated store
+      const tempPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(data));
+      fs.renameSync(tempPath, this.filePath);
+    } catch (error) {
+      console.error('Failed to save holdings store:', error);
+    }
+  }
+}
+
+function mergePositions(positions: HoldingPosition[]): HoldingPosition[] {
+  const merged = new Map<string, HoldingPosition>();
+  positions.forEach(position => {
+    const key = positionKey(position);
+    const existing = merged.get(key);
+    merged.set(key, existing
+      ? { ...existing, shares: existing.shares + position.shares, value: existing.value + position.value }
+      : { ...position });
+  });
+  return Array.from(merged.values());
+}
+
+let sharedStore: InstitutionalHoldingsStore | null = null;
+
+/**
+ * Process-wide store backed by HOLDINGS_STORE_PATH (default: data/institutional-holdings.json)
+ */
+export function getHoldingsStore(): InstitutionalHoldingsStore {
+  if (!sharedStore) {
+    sharedStore = new InstitutionalHoldingsStore();
+  }
+  return sharedStore;
+}
+
+function defaultStorePath(): string {
+  return process.env.HOLDINGS_STORE_PATH || path.join(process.cwd(), 'data', 'institutional-holdings.json');
+}
+
+/**
+ * Fetch a manager's 13F-HR reports for its most recent periods into the
+ * store. Filings already stored are not fetched again.
+ */
+export async function fetchManagerFilings(
+  cik: string,
+  options: ManagerFilingOptions = {},
+  store: InstitutionalHoldingsStore = getHoldingsStore()
+): Promise<ManagerIngestResult> {
+  const paddedCik = cik.padStart(10, '0');
+  const headers = { 'User-Agent': process.env.SEC_API_USER_AGENT || 'SEC Query App/1.0' };
+  const result: ManagerIngestResult = { managerCik: paddedCik, periods: [], ingested: [], skipped: [] };
+
+  const response = await fetch(`https://data.sec.gov/submissions/CIK${paddedCik}.json`, { headers });
+  if (!response.ok) {
+    throw new Error(`SEC API error: ${response.status}`);
+  }
+  const submissions: any = await response.json();
+  const recent = submissions.filings?.recent;
+  result.managerName = submissions.name;
+  if (!recent) return result;
+
+  const filings: Array<{ accessionNumber: string; form: string; filingDate: string; reportDate: string }> = [];
+  for (let i = 0; i < recent.form.length; i++) {
+    if (!THIRTEEN_F_FORMS.includes(recent.form[i])) continue;
+    filings.push({
+      accessionNumber: recent.accessionNumber[i],
+      form: recent.form[i],
+      filingDate: recent.filingDate[i],
+      reportDate: recent.reportDate[i]
+    });
+  }
+
+  result.periods = [...new Set(filings.map(filing => filing.reportDate))]
+    .sort()
+    .reverse()
+    .slice(0, options.quarters ?? DEFAULT_QUARTERS);
+
+  for (const filing of filings.filter(candidate => result.periods.includes(candidate.reportDate))) {
+    if (store.has(filing.accessionNumber)) {
+      result.skipped.push(filing.accessionNumber);
+      continue;
+    }
+    try {
+      store.addFiling(await fetchManagerFiling(paddedCik, filing, headers));
+      result.ingested.push(filing.accessionNumber);
+    } catch (error: any) {
+      console.warn(`Skipping 13F filing ${filing.accessionNumber}:`, error.message);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Fetch one 13F-HR: the cover page is primary_doc.xml and the information
+ * table is the filing's other XML document, whatever the filer named it
+ */
+async function fetchManagerFiling(
+  cik: string,
+  filing: { accessionNumber: string; form: string; filingDate: string; reportDate: string },
+  headers: Record<string, string>
+): Promise<ManagerFiling> {
+  const indexResponse = await fetch(buildIndexJsonUrl(cik, filing.accessionNumber), { headers });
+  if (!indexResponse.ok) throw new Error(`Filing index HTTP ${indexResponse.status}`);
+  const indexJson: any = await indexResponse.json();
+  const names: string[] = (indexJson.directory?.item || []).map((item: any) => item.name);
+
+  const fetchXml = async (name: string) => {
+    const xmlResponse = await fetch(buildArchivesUrl(cik, filing.accessionNumber, name), { headers });
+    if (!xmlResponse.ok) throw new Error(`${name} HTTP ${xmlResponse.status}`);
+    return xmlResponse.text();
+  };
+
+  const primaryName = names.find(name => /^primary_doc\.xml$/i.test(name));
+  const tableName = names.find(name => /\.xml$/i.test(name) && name !== primaryName && !/^xsl/i.test(name));
+  if (!tableName) throw new Error('No information table in filing');
+
+  const cover = primaryName ? parse13FCoverPage(await fetchXml(primaryName)) : undefined;
+  const entries = parseInformationTable(await fetchXml(tableName));
+
+  return {
+    managerCik: cik,
+    managerName: cover?.managerName || getCompanyDirectory().getByCik(cik)?.name || cik,
+    accessionNumber: filing.accessionNumber,
+    form: filing.form,
+    filingDate: filing.filingDate,
+    periodOfReport: cover?.periodOfReport || filing.reportDate,
+    amendmentType: cover?.amendmentType,
+    url: buildArchivesUrl(cik, filing.accessionNumber, tableName),
+    positions: aggregatePositions(entries, filing.filingDate)
+  };
+}
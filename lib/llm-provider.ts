@@ -0,0 +1,189 @@
+// LLM Provider - Chat completion backends for parsing and synthesis (OpenAI, OpenAI-compatible servers, fixtures)
+
+import * as fs from 'fs';
+import OpenAI from 'openai';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  messages: LLMMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  /**
+   * What the completion is for ("extract_entities", "narrative", ...). Fixture
+   * providers answer by purpose; network providers ignore it.
+   */
+  purpose?: string;
+  /** JSON schema the response must follow; sent as response_format where the backend supports it */
+  responseSchema?: { name: string; schema: object };
+}
+
+/**
+ * A chat completion backend. complete() resolves to the message text and
+ * rejects when the backend has no answer, so callers keep their rule-based
+ * fallbacks in the catch path.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(request: LLMCompletionRequest): Promise<string>;
+}
+
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+export interface OpenAIProviderOptions {
+  apiKey?: string;
+  baseURL?: string;
+  model?: string;
+  timeoutMs?: number;
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string = 'openai';
+  readonly model: string;
+  private client: OpenAI;
+
+  constructor(options: OpenAIProviderOptions = {}) {
+    this.model = options.model || process.env.OPENAI_MODEL || DEFAULT_OPENAI_MODEL;
+    this.client = new OpenAI({
+      apiKey: options.apiKey ?? process.env.OPENAI_API_KEY,
+      baseURL: options.baseURL,
+      timeout: options.timeoutMs
+    });
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      messages: request.messages,
+      response_format: request.responseSchema
+        ? { type: 'json_schema', json_schema: { name: request.responseSchema.name, schema: request.responseSchema.schema as { [key: string]: unknown }, strict: false } }
+        : undefined
+    });
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) throw new Error(`No response from ${this.name} (${this.model})`);
+    return content;
+  }
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API: Ollama, vLLM,
+ * llama.cpp, LM Studio. Local servers usually ignore the API key.
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  readonly name: string = 'openai-compatible';
+
+  constructor(options: OpenAIProviderOptions & { baseURL: string }) {
+    super({
+      ...options,
+      apiKey: options.apiKey || 'not-needed',
+      model: options.model || DEFAULT_OPENAI_MODEL
+    });
+  }
+}
+
+export type FixtureResponse = string | object | ((request: LLMCompletionRequest) => string | object | null);
+
+export interface LLMFixture {
+  purpose?: string;
+  /** Substring (case-insensitive) or pattern the last user message must contain */
+  match?: string | RegExp;
+  response: FixtureResponse;
+}
+
+/**
+ * Deterministic provider for tests and offline deployments. Answers come from
+ * fixtures matched on purpose and prompt text, first match wins; objects are
+ * returned as JSON. Without a matching fixture complete() rejects, which
+ * sends every caller down its rule-based path.
+ */
+export class FixtureProvider implements LLMProvider {
+  readonly name = 'fixture';
+  readonly model = 'fixture';
+  private fixtures: LLMFixture[];
+
+  constructor(fixtures: LLMFixture[] = []) {
+    this.fixtures = [...fixtures];
+  }
+
+  /** Loads `{ "fixtures": [{ "purpose", "match", "response" }] }` or a bare array */
+  static fromFile(filePath: string): FixtureProvider {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    const fixtures: LLMFixture[] = Array.isArray(parsed) ? parsed : parsed.fixtures || [];
+    return new FixtureProvider(fixtures);
+  }
+
+  add(fixture: LLMFixture): this {
+    this.fixtures.push(fixture);
+    return this;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<string> {
+    const prompt = [...request.messages].reverse().find(message => message.role === 'user')?.content || '';
+
+    for (const fixture of this.fixtures) {
+      if (fixture.purpose && fixture.purpose !== request.purpose) continue;
+      if (fixture.match && !matchesPrompt(fixture.match, prompt)) continue;
+
+      const response = typeof fixture.response === 'function' ? fixture.response(request) : fixture.response;
+      if (response === null || response === undefined) continue;
+      return typeof response === 'string' ? response : JSON.stringify(response);
+    }
+
+    throw new Error(`No fixture for ${request.purpose || 'completion'}`);
+  }
+}
+
+function matchesPrompt(match: string | RegExp, prompt: string): boolean {
+  return typeof match === 'string'
+    ? prompt.toLowerCase().includes(match.toLowerCase())
+    : match.test(prompt);
+}
+
+/**
+ * Provider from the environment. LLM_PROVIDER picks one explicitly:
+ * - openai: OPENAI_API_KEY, model OPENAI_MODEL (default gpt-4o-mini)
+ * - openai-compatible: LLM_BASE_URL, LLM_MODEL, optional LLM_API_KEY
+ * - fixture: LLM_FIXTURES_PATH, or no fixtures (rule-based answers only)
+ * Unset, it is openai with a key, openai-compatible with a base URL and
+ * fixture otherwise, so nothing reaches the network without configuration.
+ */
+export function createLLMProvider(env: NodeJS.ProcessEnv = process.env): LLMProvider {
+  const kind = env.LLM_PROVIDER || (env.OPENAI_API_KEY ? 'openai' : env.LLM_BASE_URL ? 'openai-compatible' : 'fixture');
+  const timeoutMs = env.LLM_TIMEOUT_MS ? parseInt(env.LLM_TIMEOUT_MS, 10) : undefined;
+
+  switch (kind) {
+    case 'openai':
+      return new OpenAIProvider({ apiKey: env.OPENAI_API_KEY, model: env.OPENAI_MODEL, timeoutMs });
+    case 'openai-compatible':
+      if (!env.LLM_BASE_URL) {
+        throw new Error('LLM_PROVIDER=openai-compatible requires LLM_BASE_URL');
+      }
+      return new OpenAICompatibleProvider({ baseURL: env.LLM_BASE_URL, apiKey: env.LLM_API_KEY, model: env.LLM_MODEL, timeoutMs });
+    case 'fixture':
+      return env.LLM_FIXTURES_PATH ? FixtureProvider.fromFile(env.LLM_FIXTURES_PATH) : new FixtureProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${kind}`);
+  }
+}
+
+let sharedProvider: LLMProvider | null = null;
+
+/** Process-wide provider from createLLMProvider() */
+export function getLLMProvider(): LLMProvider {
+  if (!sharedProvider) {
+    sharedProvider = createLLMProvider();
+  }
+  return sharedProvider;
+}
+
+/** Replaces the process-wide provider, e.g. with fixtures in tests */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  sharedProvider = provider;
+}
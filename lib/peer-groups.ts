@@ -0,0 +1,292 @@
+// Peer Groups - Selects comparable companies by SIC code and size band and benchmarks their ratios
+
+import { FramesScreener, getFramesScreener, parseFramePeriod, ScreenResult, ScreenRow } from './frames-screener';
+import { classifySic, SicClassification } from './sic-codes';
+import { getStandardMetric } from './xbrl-concepts';
+
+export type PeerSizeMetric = 'TotalRevenue' | 'TotalAssets';
+
+export interface PeerGroupOptions {
+  period: string; // Frame period, "CY2023"
+  sizeMetric?: PeerSizeMetric; // Defaults by SIC code, see defaultSizeMetric
+  band?: number; // Peers fall within size / band to size * band
+  minPeers?: number; // Widen from four to three to two SIC digits until this many are found
+  maxPeers?: number;
+  sic?: string; // Override the company's own SIC code
+}
+
+export interface PeerGroup {
+  target: ScreenRow;
+  period: string;
+  classification: SicClassification | null;
+  sicPrefix: string; // The SIC digits peers share after widening: "3711", "371" or "37"
+  sizeMetric: { name: PeerSizeMetric; key: string; label: string };
+  sizeRange: { min: number; max: number };
+  peers: ScreenRow[]; // Closest in size first
+  source: ScreenResult['source'];
+  warnings: string[];
+}
+
+export interface PeerRatioDefinition {
+  name: string;
+  numerator: string; // Standard metric names
+  denominator: string;
+  unit: 'percent' | 'ratio' | 'times';
+  higherIsBetter: boolean;
+}
+
+export interface PeerBenchmark {
+  ratio: string;
+  unit: PeerRatioDefinition['unit'];
+  formula: string;
+  higherIsBetter: boolean;
+  value: number | null; // The company's own ratio
+  median: number | null;
+  p25: number | null;
+  p75: number | null;
+  min: number | null;
+  max: number | null;
+  peerCount: number; // Peers reporting both inputs
+  percentile: number | null; // Share of peers below the company, 0-100
+  rank: number | null; // Among the company and its peers, 1 = best
+  standing?: 'top_quartile' | 'above_median' | 'below_median' | 'bottom_quartile';
+}
+
+export interface PeerBenchmarkResult {
+  group: PeerGroup;
+  benchmarks: PeerBenchmark[];
+  companies: Array<{ cik: string; entityName: string; ticker?: string; isTarget: boolean; ratios: { [ratio: string]: number } }>;
+  warnings: string[];
+}
+
+/**
+ * Ratios computable from a single frame period. Balance sheet inputs are
+ * period-end values, so returns use ending rather than average balances.
+ */
+export const PEER_RATIOS: PeerRatioDefinition[] = [
+  { name: 'Gross Margin', numerator: 'GrossProfit', denominator: 'TotalRevenue', unit: 'percent', higherIsBetter: true },
+  { name: 'Operating Margin', numerator: 'OperatingIncome', denominator: 'TotalRevenue', unit: 'percent', higherIsBetter: true },
+  { name: 'Net Margin', numerator: 'NetIncome', denominator: 'TotalRevenue', unit: 'percent', higherIsBetter: true },
+  { name: 'R&D Intensity', numerator: 'ResearchAndDevelopment', denominator: 'TotalRevenue', unit: 'percent', higherIsBetter: true },
+  { name: 'Return on Assets', numerator: 'NetIncome', denominator: 'TotalAssets', unit: 'percent', higherIsBetter: true },
+  { name: 'Return on Equity', numerator: 'NetIncome', denominator: 'StockholdersEquity', unit: 'percent', higherIsBetter: true },
+  { name: 'Asset Turnover', numerator: 'TotalRevenue', denominator: 'TotalAssets', unit: 'times', higherIsBetter: true },
+  { name: 'Current Ratio', numerator: 'CurrentAssets', denominator: 'CurrentLiabilities', unit: 'ratio', higherIsBetter: true },
+  { name: 'Liabilities to Assets', numerator: 'TotalLiabilities', denominator: 'TotalAssets', unit: 'ratio', higherIsBetter: false }
+];
+
+const DEFAULT_BAND = 4;
+const DEFAULT_MIN_PEERS = 5;
+const DEFAULT_MAX_PEERS = 15;
+// The band screen returns every match in the widest SIC prefix; narrower prefixes are filtered locally
+const BAND_SCREEN_LIMIT = 500;
+
+/**
+ * Linear-interpolated quantile of sorted values, q from 0 to 1
+ */
+export function quantile(sorted: number[], q: number): number | null {
+  if (sorted.length === 0) return null;
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Share of values below the given one, counting ties as half, from 0 to 100
+ */
+export function percentileRank(values: number[], value: number): number | null {
+  if (values.length === 0) return null;
+  const below = values.filter(v => v < value).length;
+  const equal = values.filter(v => v === value).length;
+  return ((below + equal / 2) / values.length) * 100;
+}
+
+/**
+ * Periods to benchmark a question on: the one it names, otherwise the last
+ * two calendar years, newest first, since frames fill in as 10-Ks are filed
+ */
+export function candidatePeriods(query: string, now: Date = new Date()): string[] {
+  const named = parseFramePeriod(query);
+  return named ? [named] : [`CY${now.getFullYear() - 1}`, `CY${now.getFullYear() - 2}`];
+}
+
+/**
+ * Banks, insurers and other financial companies (SIC 60-67) are sized by
+ * total assets; their revenue is not comparable across business models.
+ * Everyone else is sized by revenue.
+ */
+export function defaultSizeMetric(sic: string | undefined): PeerSizeMetric {
+  const majorGroup = (sic || '').padStart(4, '0').substring(0, 2);
+  return majorGroup >= '60' && majorGroup <= '67' ? 'TotalAssets' : 'TotalRevenue';
+}
+
+export class PeerGroupBuilder {
+  constructor(private screener: FramesScreener = getFramesScreener()) {}
+
+  /**
+   * Select a company's peers: filers in the same four-digit SIC industry whose
+   * revenue (or assets) falls within the size band, widening to the industry
+   * group and then the major group when too few qualify
+   */
+  async build(cik: string, options: PeerGroupOptions): Promise<PeerGroup> {
+    const { period, band = DEFAULT_BAND, minPeers = DEFAULT_MIN_PEERS, maxPeers = DEFAULT_MAX_PEERS } = options;
+    const paddedCik = cik.padStart(10, '0');
+    const warnings: string[] = [];
+
+    const attributes = await this.screener.getCompanyAttributes(paddedCik);
+    const sic = options.sic || attributes?.sic;
+    if (!sic) {
+      throw new Error(`No SIC code on file for CIK ${cik}`);
+    }
+    const sizeMetric = options.sizeMetric || defaultSizeMetric(sic);
+    const metric = getStandardMetric(sizeMetric)!;
+
+    const targetScreen = await this.screener.screen({ period, conditions: [], sortBy: sizeMetric, ciks: [paddedCik], limit: 1 });
+    const target = targetScreen.rows[0];
+    if (!target) {
+      throw new Error(`CIK ${cik} reported no ${metric.label} in the ${period} frames`);
+    }
+
+    const size = target.values[metric.key].value;
+    if (size <= 0) {
+      throw new Error(`${target.entityName} reported non-positive ${metric.label} for ${period}; size bands need a positive value`);
+    }
+
+    const classification = classifySic(sic);
+    const code = classification?.sic || sic;
+    const sizeRange = { min: size / band, max: size * band };
+
+    const bandScreen = await this.screener.screen({
+      period,
+      conditions: [{ metric: sizeMetric, operator: 'between', value: sizeRange.min, max: sizeRange.max }],
+      sic: [code.substring(0, 2)],
+      sortBy: sizeMetric,
+      // Crowded bands are cut before the SIC filter; keep the companies nearest the target's size
+      nearest: size,
+      limit: BAND_SCREEN_LIMIT
+    });
+    warnings.push(...bandScreen.warnings);
+
+    const candidates = bandScreen.rows.filter(row => row.cik !== paddedCik);
+    let sicPrefix = code;
+    let peers: ScreenRow[] = [];
+    for (const digits of [4, 3, 2]) {
+      sicPrefix = code.substring(0, digits);
+      peers = candidates.filter(row => row.sic?.padStart(4, '0').startsWith(sicPrefix));
+      if (peers.length >= minPeers) break;
+    }
+    if (peers.length < minPeers) {
+      warnings.push(`Only ${peers.length} companies in SIC ${sicPrefix} fall within the ${metric.label} band; benchmarks rest on a small group`);
+    }
+    if (bandScreen.total > bandScreen.rows.length) {
+      warnings.push(`${bandScreen.total} companies in SIC ${code.substring(0, 2)} fall within the ${metric.label} band; only the largest ${bandScreen.rows.length} were considered`);
+    }
+
+    // Closest in size first, measured on a log scale so 2x larger and 2x smaller count the same
+    const distance = (row: ScreenRow) => Math.abs(Math.log(row.values[metric.key].value / size));
+    peers = [...peers].sort((a, b) => distance(a) - distance(b)).slice(0, maxPeers);
+
+    return {
+      target: { ...target, sic: target.sic || attributes?.sic, sicDescription: target.sicDescription || attributes?.sicDescription },
+      period,
+      classification,
+      sicPrefix,
+      sizeMetric: { name: sizeMetric, key: metric.key, label: metric.label },
+      sizeRange,
+      peers,
+      source: bandScreen.source,
+      warnings
+    };
+  }
+
+  /**
+   * Rank a company's ratios against its peer group: median, interquartile
+   * range and the company's percentile for each ratio both sides report
+   */
+  async benchmark(cik: string, options: PeerGroupOptions): Promise<PeerBenchmarkResult> {
+    const group = await this.build(cik, options);
+    const metricNames = Array.from(new Set(PEER_RATIOS.flatMap(ratio => [ratio.numerator, ratio.denominator])));
+
+    const screen = await this.screener.screen({
+      period: group.period,
+      conditions: [],
+      sortBy: group.sizeMetric.name,
+      include: metricNames,
+      ciks: [group.target.cik, ...group.peers.map(peer => peer.cik)],
+      limit: group.peers.length + 1
+    });
+    const warnings = [...group.warnings, ...screen.warnings];
+
+    const companies: PeerBenchmarkResult['companies'] = screen.rows.map(row => ({
+      cik: row.cik,
+      entityName: row.entityName,
+      ticker: row.ticker,
+      isTarget: row.cik === group.target.cik,
+      ratios: this.calculateRatios(row)
+    }));
+
+    const target = companies.find(company => company.isTarget);
+    const benchmarks = PEER_RATIOS.map(definition => {
+      const peerValues = companies
+        .filter(company => !company.isTarget && company.ratios[definition.name] !== undefined)
+        .map(company => company.ratios[definition.name])
+        .sort((a, b) => a - b);
+      return this.benchmarkRatio(definition, target?.ratios[definition.name] ?? null, peerValues);
+    }).filter(benchmark => benchmark.value !== null || benchmark.peerCount > 0);
+
+    return { group, benchmarks, companies, warnings };
+  }
+
+  private calculateRatios(row: ScreenRow): { [ratio: string]: number } {
+    const ratios: { [ratio: string]: number } = {};
+    const value = (name: string) => row.values[getStandardMetric(name)!.key]?.value;
+
+    for (const definition of PEER_RATIOS) {
+      const numerator = value(definition.numerator);
+      const denominator = value(definition.denominator);
+      if (numerator === undefined || denominator === undefined || denominator === 0) continue;
+      // A negative equity base turns ROE meaningless rather than negative
+      if (definition.denominator === 'StockholdersEquity' && denominator < 0) continue;
+      ratios[definition.name] = numerator / denominator;
+    }
+
+    return ratios;
+  }
+
+  private benchmarkRatio(definition: PeerRatioDefinition, value: number | null, peerValues: number[]): PeerBenchmark {
+    const median = quantile(peerValues, 0.5);
+    const p25 = quantile(peerValues, 0.25);
+    const p75 = quantile(peerValues, 0.75);
+    const percentile = value !== null ? percentileRank(peerValues, value) : null;
+
+    let rank: number | null = null;
+    let standing: PeerBenchmark['standing'];
+    if (value !== null && percentile !== null && median !== null) {
+      const better = peerValues.filter(v => definition.higherIsBetter ? v > value : v < value).length;
+      rank = better + 1;
+
+      // Quartiles follow the percentile, which stays meaningful in the small groups where interpolated p25/p75 do not
+      const score = definition.higherIsBetter ? percentile : 100 - percentile;
+      const aboveMedian = definition.higherIsBetter ? value > median : value < median;
+      standing = score >= 75 ? 'top_quartile' : score <= 25 ? 'bottom_quartile' : aboveMedian ? 'above_median' : 'below_median';
+    }
+
+    return {
+      ratio: definition.name,
+      unit: definition.unit,
+      formula: `${getStandardMetric(definition.numerator)!.label} / ${getStandardMetric(definition.denominator)!.label}`,
+      higherIsBetter: definition.higherIsBetter,
+      value,
+      median,
+      p25,
+      p75,
+      min: peerValues.length > 0 ? peerValues[0] : null,
+      max: peerValues.length > 0 ? peerValues[peerValues.length - 1] : null,
+      peerCount: peerValues.length,
+      percentile,
+      rank,
+      standing
+    };
+  }
+}
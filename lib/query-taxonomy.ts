@@ -0,0 +1,205 @@
+// Query Taxonomy - Canonical intents and entities shared by the NLP service, query processor, universal parser and MCP router
+
+import { PrimaryIntent, SecondaryIntent, UniversalQuery } from './universal/types';
+import { getStandardMetric } from './xbrl-concepts';
+import { findSicCodes } from './sic-codes';
+
+/**
+ * What a question asks for, whichever stack parsed it. Finer than
+ * PrimaryIntent where the backend routes differently (officers, insiders,
+ * peers), coarser than the backend enum where only the metric differs:
+ * revenue, profit and balance sheet questions are all financial_metrics.
+ */
+export const CANONICAL_INTENTS = [
+  'company_overview',       // "Tell me about Tesla"
+  'company_officers',       // "Who runs Apple?"
+  'financial_metrics',      // "What was Apple's revenue in 2023?"
+  'trend_analysis',         // "Amazon's profit over the last 5 years"
+  'comparison',             // "Compare Google and Meta revenue"
+  'peer_analysis',          // "How does Ford compare to its peers?"
+  'sector_analysis',        // "Companies in the semiconductor industry"
+  'filing_lookup',          // "Tesla's latest 10-K"
+  'content_search',         // "Which filings mention supply chain disruption?"
+  'insider_activity',       // "Insider selling at Nvidia"
+  'risk_analysis',
+  'regulatory_analysis',
+  'relationship_analysis',
+  'pattern_analysis',
+  'predictive_analysis',
+  'meta_analysis',
+  'unknown'
+] as const;
+
+export type CanonicalIntent = typeof CANONICAL_INTENTS[number];
+
+export interface CanonicalCompany {
+  name: string;
+  ticker?: string;
+  cik?: string;
+  confidence: number;
+}
+
+export interface CanonicalPeriod {
+  description: string; // "2023", "Q2 2024", "last 3 years"
+  year?: number;
+  quarter?: number;
+}
+
+export interface CanonicalEntities {
+  companies: CanonicalCompany[];
+  metrics: string[]; // Standard metric names from xbrl-concepts ("TotalRevenue")
+  periods: CanonicalPeriod[];
+  filingTypes: string[]; // Form types ("10-K")
+  sectors: string[]; // Industry labels from the SIC table
+  concepts: string[];
+}
+
+export interface CanonicalQuery {
+  originalQuery: string;
+  intent: CanonicalIntent;
+  secondary: SecondaryIntent[];
+  frequency: 'annual' | 'quarterly';
+  entities: CanonicalEntities;
+  confidence: number;
+}
+
+/**
+ * Every intent name in use anywhere (backend QueryIntent values, universal
+ * PrimaryIntent, the AI query processor, names the MCP router used to
+ * accept), normalized to lower snake case
+ */
+export const INTENT_ALIASES: Readonly<{ [name: string]: CanonicalIntent }> = {
+  // Backend QueryIntent
+  company_lookup: 'company_overview',
+  company_profile: 'company_overview',
+  revenue_query: 'financial_metrics',
+  profit_query: 'financial_metrics',
+  balance_sheet: 'financial_metrics',
+  cash_flow: 'financial_metrics',
+  filing_search: 'filing_lookup',
+  filing_content: 'content_search',
+  insider_trading: 'insider_activity',
+  company_comparison: 'comparison',
+  historical_data: 'trend_analysis',
+  quarterly_trends: 'trend_analysis',
+  year_over_year: 'trend_analysis',
+  // Universal PrimaryIntent
+  business_overview: 'company_overview',
+  comparative_analysis: 'comparison',
+  market_analysis: 'sector_analysis',
+  // AI query processor
+  company_info: 'company_overview',
+  sec_filings: 'filing_lookup',
+  general: 'unknown',
+  // Former MCP router cases
+  company_information: 'company_overview',
+  revenue_analysis: 'financial_metrics',
+  profitability_analysis: 'financial_metrics',
+  document_analysis: 'content_search',
+  document_content_search: 'content_search',
+  insider_analysis: 'insider_activity',
+  industry_analysis: 'sector_analysis',
+  // Invented by models often enough to keep
+  financial_data: 'financial_metrics',
+  historical_analysis: 'trend_analysis',
+  full_text_search: 'content_search',
+  risk_assessment: 'risk_analysis',
+  market_screen: 'sector_analysis'
+};
+
+/** The canonical intent for any intent name; names nobody defines are 'unknown' */
+export function resolveIntent(name: string | undefined | null): CanonicalIntent {
+  const normalized = (name || '').trim().toLowerCase().replace(/[\s-]+/g, '_');
+  if ((CANONICAL_INTENTS as readonly string[]).includes(normalized)) {
+    return normalized as CanonicalIntent;
+  }
+  return INTENT_ALIASES[normalized] || 'unknown';
+}
+
+/** Every intent name resolveIntent() recognizes */
+export function knownIntentNames(): string[] {
+  return [...CANONICAL_INTENTS, ...Object.keys(INTENT_ALIASES)];
+}
+
+const PRIMARY_BY_CANONICAL: Record<CanonicalIntent, PrimaryIntent> = {
+  company_overview: 'business_overview',
+  company_officers: 'business_overview',
+  financial_metrics: 'financial_metrics',
+  trend_analysis: 'trend_analysis',
+  comparison: 'comparative_analysis',
+  peer_analysis: 'comparative_analysis',
+  sector_analysis: 'market_analysis',
+  filing_lookup: 'filing_lookup',
+  content_search: 'content_search',
+  insider_activity: 'filing_lookup',
+  risk_analysis: 'risk_analysis',
+  regulatory_analysis: 'regulatory_analysis',
+  relationship_analysis: 'relationship_analysis',
+  pattern_analysis: 'pattern_analysis',
+  predictive_analysis: 'predictive_analysis',
+  meta_analysis: 'meta_analysis',
+  unknown: 'business_overview'
+};
+
+export function toPrimaryIntent(intent: CanonicalIntent): PrimaryIntent {
+  return PRIMARY_BY_CANONICAL[intent];
+}
+
+/** Standard metric name for a metric as any stack names it ("Net Income", "revenue", "TotalRevenue") */
+export function canonicalMetric(name: string): string | undefined {
+  return getStandardMetric(name)?.standardName;
+}
+
+export function canonicalPeriod(description: string): CanonicalPeriod {
+  const year = description.match(/\b(19|20)\d{2}\b/);
+  const quarter = description.match(/\bq([1-4])\b/i);
+  return {
+    description,
+    year: year ? parseInt(year[0], 10) : undefined,
+    quarter: quarter ? parseInt(quarter[1], 10) : undefined
+  };
+}
+
+/**
+ * The canonical form of a UniversalQueryParser result. Scope and secondary
+ * intents refine the primary one: benchmarking or peer data make a comparison
+ * a peer analysis, insider transactions make a lookup insider activity.
+ */
+export function fromUniversalQuery(query: UniversalQuery): CanonicalQuery {
+  const { intent, scope, entities } = query;
+  const dataTypes = scope?.dataTypes || [];
+  let canonical = resolveIntent(intent.primary);
+
+  if (dataTypes.includes('insider_transactions') && ['company_overview', 'filing_lookup'].includes(canonical)) {
+    canonical = 'insider_activity';
+  } else if (dataTypes.includes('executive_compensation') && canonical === 'company_overview') {
+    canonical = 'company_officers';
+  } else if (canonical === 'comparison' && (dataTypes.includes('peer_data') || intent.secondary.includes('benchmarking'))) {
+    canonical = 'peer_analysis';
+  }
+
+  const metrics = entities.metrics
+    .map(metric => canonicalMetric(metric.standardName) || canonicalMetric(metric.metric))
+    .filter((name): name is string => !!name);
+
+  return {
+    originalQuery: query.originalQuery,
+    intent: canonical,
+    secondary: intent.secondary,
+    frequency: entities.timeRanges.some(range => range.period === 'quarterly') ? 'quarterly' : 'annual',
+    entities: {
+      companies: entities.companies.map(company => ({
+        name: company.name,
+        ticker: company.ticker,
+        cik: company.cik,
+        confidence: company.confidence
+      })),
+      metrics: [...new Set(metrics)],
+      periods: entities.timeRanges.map(range => canonicalPeriod(range.description)),
+      filingTypes: entities.filingTypes.map(filing => filing.formType),
+      sectors: findSicCodes(query.originalQuery).map(match => match.label),
+      concepts: entities.concepts.map(concept => concept.concept)
+    },
+    confidence: query.confidence
+  };
+}
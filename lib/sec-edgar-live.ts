@@ -1,4 +1,9 @@
 // Live SEC EDGAR API integration
+import { resolveConcept } from './xbrl-concepts';
+import { getLatestAnnualValue, normalizePeriods } from './xbrl-periods';
+import { buildArchivesUrl, buildFilingIndex, buildIndexJsonUrl, buildIndexPageUrl, FilingIndex } from './edgar-filing-index';
+import { getCompanyDirectory } from './company-directory';
+
 const SEC_BASE_URL = 'https://data.sec.gov';
 const USER_AGENT = process.env.SEC_API_USER_AGENT || 'Edgar Query App/1.0';
 
@@ -45,43 +50,14 @@ export async function searchCompaniesByCIK(cik: string) {
 
 export async function searchCompaniesByTicker(ticker: string) {
   try {
-    // Use predefined CIK mappings for major companies (SEC API endpoint changed)
-    const tickerToCik: { [key: string]: string } = {
-      'AAPL': '0000320193',
-      'APPLE': '0000320193',
-      'TSLA': '0001318605',
-      'TESLA': '0001318605',
-      'MSFT': '0000789019',
-      'MICROSOFT': '0000789019',
-      'GOOGL': '0001652044',
-      'GOOGLE': '0001652044',
-      'ALPHABET': '0001652044',
-      'AMZN': '0001018724',
-      'AMAZON': '0001018724',
-      'META': '0001326801',
-      'FACEBOOK': '0001326801',
-      'NFLX': '0001065280',
-      'NETFLIX': '0001065280',
-      'NVDA': '0001045810',
-      'NVIDIA': '0001045810'
-    };
-    
-    const upperTicker = ticker.toUpperCase();
-    const cik = tickerToCik[upperTicker];
-    
-    if (!cik) {
-      // Try to extract ticker from company name like "Tesla (TSLA)"
-      const tickerMatch = ticker.match(/\(([A-Z]+)\)/);
-      if (tickerMatch) {
-        const extractedTicker = tickerMatch[1];
-        const extractedCik = tickerToCik[extractedTicker];
-        if (extractedCik) {
-          return await searchCompaniesByCIK(extractedCik);
-        }
-      }
-      throw new Error(`CIK mapping not found for ticker ${ticker}. Supported: AAPL, TSLA, MSFT, GOOGL, AMZN, META, NFLX, NVDA`);
+    // Accepts tickers, names, aliases and "Tesla (TSLA)" style strings
+    const match = getCompanyDirectory().resolve(ticker);
+    if (!match) {
+      throw new Error(`No company found for ticker or name ${ticker}`);
     }
 
+    const cik = match.company.cik;
+
     // Get full company data using CIK
     return await searchCompaniesByCIK(cik);
   } catch (error) {
@@ -138,6 +114,8 @@ export async function getRecentFilings(cik: string, count = 10, formType?: strin
           primaryDocument: filings.primaryDocument[i],
           primaryDocDescription: filings.primaryDocDescription[i],
           items: filings.items ? filings.items[i] : '',
+          url: buildArchivesUrl(cik, filings.accessionNumber[i], filings.primaryDocument[i]),
+          indexUrl: buildIndexPageUrl(cik, filings.accessionNumber[i]),
         });
       }
     }
@@ -176,7 +154,7 @@ export async function getLatestEarningsRelease(cik: string) {
       type: '8-K_earnings',
       isRecentEarnings: true,
       filingDate: latestEarnings.filingDate,
-      documentUrl: `https://www.sec.gov/Archives/edgar/data/${cik.padStart(10, '0')}/${latestEarnings.accessionNumber.replace(/-/g, '')}/${latestEarnings.primaryDocument}`
+      documentUrl: buildArchivesUrl(cik, latestEarnings.accessionNumber, latestEarnings.primaryDocument)
     };
   } catch (error) {
     console.error('Error getting earnings release:', error);
@@ -184,45 +162,73 @@ export async function getLatestEarningsRelease(cik: string) {
   }
 }
 
-export async function getFinancialMetrics(cik: string, concept: string = 'Revenues') {
+// Resolve every document in a filing (primary document, exhibits, XBRL files)
+export async function getFilingIndex(cik: string, accessionNumber: string, primaryDocument?: string): Promise<FilingIndex> {
   try {
-    const facts: any = await getCompanyFacts(cik);
-    
-    if (!facts.facts || !facts.facts['us-gaap']) {
-      return null;
+    const response = await rateLimitedFetch(buildIndexJsonUrl(cik, accessionNumber));
+    if (!response.ok) {
+      throw new Error(`SEC filing index error: ${response.status}`);
     }
-    
-    // Try multiple common revenue concept names
-    const revenueConcepts = ['Revenues', 'Revenue', 'SalesRevenueNet', 'RevenueFromContractWithCustomerExcludingAssessedTax'];
-    let actualConcept = concept;
-    
-    if (concept === 'Revenues' || concept.toLowerCase().includes('revenue')) {
-      actualConcept = revenueConcepts.find(c => facts.facts['us-gaap'][c]) || concept;
+    const indexJson = await response.json();
+    
+    // Document types and descriptions only appear on the HTML index page
+    let indexPage: string | undefined;
+    try {
+      const pageResponse = await rateLimitedFetch(buildIndexPageUrl(cik, accessionNumber), {
+        headers: { 'Accept': 'text/html' }
+      });
+      if (pageResponse.ok) {
+        indexPage = await pageResponse.text();
+      }
+    } catch (error) {
+      console.warn('SEC filing index page unavailable:', error);
     }
     
-    if (!facts.facts['us-gaap'][actualConcept]) {
-      console.log(`Available concepts for ${facts.entityName}:`, Object.keys(facts.facts['us-gaap']).filter(k => k.toLowerCase().includes('revenue')));
+    return buildFilingIndex(cik, accessionNumber, indexJson, indexPage, primaryDocument);
+  } catch (error) {
+    console.error('SEC filing index error:', error);
+    throw error;
+  }
+}
+
+export async function getFinancialMetrics(cik: string, concept: string = 'Revenues') {
+  try {
+    const facts: any = await getCompanyFacts(cik);
+    
+    if (!facts.facts) {
       return null;
     }
     
-    const conceptData = facts.facts['us-gaap'][actualConcept];
-    const units = Object.keys(conceptData.units)[0]; // Usually 'USD'
-    
-    if (!conceptData.units[units]) {
-      return null;
+    // Standard metrics follow their concept fallback chain; anything else is looked up as a raw us-gaap tag
+    const resolved = resolveConcept(facts, concept);
+    const actualConcept = resolved?.concept || concept;
+    let units = resolved?.unit;
+    let values: any[] = resolved?.values || [];
+    
+    if (!resolved) {
+      const conceptData = facts.facts['us-gaap']?.[concept];
+      units = conceptData ? Object.keys(conceptData.units)[0] : undefined; // Usually 'USD'
+      if (!units || !conceptData.units[units]) {
+        console.log(`No XBRL data for ${concept} in ${facts.entityName}`);
+        return null;
+      }
+      values = conceptData.units[units].map((item: any) => ({ ...item, concept, taxonomy: 'us-gaap', unit: units }));
     }
     
-    // Get financial data from all relevant filing types
-    const relevantForms = ['10-K', '10-Q', '8-K', '20-F', '40-F'];
-    const financialData = conceptData.units[units]
-      .filter((item: any) => relevantForms.includes(item.form))
-      .sort((a: any, b: any) => new Date(b.end).getTime() - new Date(a.end).getTime())
-      .slice(0, 10); // Get more records to find latest data
+    // One value per fiscal year and discrete quarter; balance sheet concepts are instants
+    const instant = resolved ? resolved.metric.instant : values.every(item => !item.start);
+    const { annual, quarterly } = normalizePeriods(values, { instant });
+    const financialData = [...annual, ...quarterly]
+      .sort((a, b) => b.end.localeCompare(a.end) || (a.fiscalPeriod === 'FY' ? -1 : 1))
+      .slice(0, 10);
     
     return {
       concept: actualConcept,
       unit: units,
       data: financialData,
+      annual,
+      quarterly,
+      latestAnnual: getLatestAnnualValue(values, { instant }) || null,
       company: {
         name: facts.entityName,
         cik: facts.cik,
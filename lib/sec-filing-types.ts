@@ -1,5 +1,7 @@
 // Comprehensive SEC filing types database and matching system
 
+import { getCompanyDirectory } from './company-directory';
+
 export interface FilingType {
   form: string;
   name: string;
@@ -131,7 +133,23 @@ export const SEC_FILING_TYPES: FilingType[] = [
     aliases: ['n-q', 'fund holdings', 'portfolio holdings'],
     category: 'investment'
   },
-  
+  {
+    form: '13F-HR',
+    name: 'Institutional Holdings Report',
+    description: 'Quarterly report of equity holdings by institutional investment managers',
+    keywords: ['institutional holdings', 'institutional investors', 'fund positions', 'hedge fund holdings'],
+    aliases: ['13f', '13f-hr', 'form 13f', '13f filing', 'institutional holdings report'],
+    category: 'investment'
+  },
+  {
+    form: '13F-NT',
+    name: 'Institutional Holdings Notice',
+    description: 'Notice that a manager\'s holdings are reported by another manager',
+    keywords: ['holdings reported by another manager'],
+    aliases: ['13f-nt', '13f notice'],
+    category: 'investment'
+  },
+
   // Special Forms
   {
     form: '11-K',
@@ -275,22 +293,6 @@ export function isFilingQuery(query: string): boolean {
  * Extract potential company references from query
  */
 export function extractCompanyReferences(query: string): string[] {
-  const companies: string[] = [];
-  
-  // Common company patterns
-  const companyPatterns = [
-    /\b([A-Z]{2,5})\b/g, // Ticker symbols
-    /\b([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)\s+(?:Inc|Corp|Company|Co)\b/g, // Company names
-    /\bApple\b/gi, /\bMicrosoft\b/gi, /\bGoogle\b/gi, /\bAmazon\b/gi, /\bTesla\b/gi,
-    /\bMeta\b/gi, /\bNetflix\b/gi, /\bNvidia\b/gi, /\bSalesforce\b/gi
-  ];
-  
-  for (const pattern of companyPatterns) {
-    const matches = query.match(pattern);
-    if (matches) {
-      companies.push(...matches);
-    }
-  }
-  
-  return [...new Set(companies)]; // Remove duplicates
+  // Names, aliases and tickers known to the company directory, as written in the query
+  return getCompanyDirectory().findInText(query).map(match => match.matchedText);
 }
\ No newline at end of file
@@ -0,0 +1,245 @@
+// SIC Codes - Standard Industrial Classification divisions, major groups and EDGAR industry titles
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { DATA_DIR } from './data-dir';
+
+export interface SicDivision {
+  code: string; // "A" through "K"
+  title: string;
+  from: string; // First major group, "20"
+  to: string; // Last major group, "39"
+}
+
+export interface SicMajorGroup {
+  code: string; // Two digits, "37"
+  title: string;
+  sector: string;
+}
+
+export interface SicClassification {
+  sic: string; // Four digits, zero-padded
+  industry?: string; // EDGAR industry title, "Motor Vehicles & Passenger Car Bodies"
+  industryGroup: string; // Three-digit prefix, "371"
+  majorGroup?: SicMajorGroup;
+  division?: SicDivision;
+  sector: string;
+}
+
+/**
+ * An industry named in free text: "semiconductor companies", "the banking
+ * sector", "SIC 7372"
+ */
+export interface SicMatch {
+  text: string; // Phrase that matched
+  label: string; // Industry or sector it stands for
+  codes: string[]; // Four-digit codes or prefixes, usable as ScreenCriteria.sic
+  sector?: string; // Set when a whole sector was named
+}
+
+interface SicFile {
+  divisions: SicDivision[];
+  majorGroups: { [code: string]: { title: string; sector: string } };
+  sectorOverrides: Array<{ from: string; to: string; sector: string }>;
+  industries: { [sic: string]: string };
+}
+
+const SIC_PATH = process.env.SIC_CODES_PATH || path.join(DATA_DIR, 'sic_codes.json');
+
+/**
+ * Everyday names for industries, mapped to the codes EDGAR files them under.
+ * Specific names come before general ones so "oil and gas services" beats "oil and gas".
+ */
+const INDUSTRY_KEYWORDS: Array<{ pattern: RegExp; label: string; codes: string[] }> = [
+  { pattern: /\bsemiconductors?\b|\bchip ?makers?\b|\bchips?\b/, label: 'Semiconductors', codes: ['3674'] },
+  { pattern: /\b(software|saas)\b/, label: 'Prepackaged Software', codes: ['7372'] },
+  { pattern: /\binternet\b|\bdata processing\b|\bit services\b/, label: 'Computer Programming & Data Processing', codes: ['737'] },
+  { pattern: /\b(computer hardware|computers?|pc makers?)\b/, label: 'Computer & Office Equipment', codes: ['357'] },
+  { pattern: /\b(pharma(ceuticals?)?|drug ?makers?)\b/, label: 'Pharmaceutical Preparations', codes: ['2834'] },
+  { pattern: /\bbiotech(nology)?\b/, label: 'Biotechnology', codes: ['2836', '8731'] },
+  { pattern: /\bmedical devices?\b|\bmedtech\b/, label: 'Medical Instruments & Devices', codes: ['3841', '3842', '3845'] },
+  { pattern: /\bhospitals?\b|\bhealth ?care providers?\b/, label: 'Hospitals & Health Services', codes: ['80'] },
+  { pattern: /\bhealth insurers?\b|\bmanaged care\b/, label: 'Hospital & Medical Service Plans', codes: ['6324'] },
+  { pattern: /\b(auto ?makers?|car ?makers?|automobile manufacturers?|(electric )?vehicle manufacturers?)\b/, label: 'Motor Vehicles', codes: ['3711'] },
+  { pattern: /\bauto parts\b/, label: 'Motor Vehicle Parts & Accessories', codes: ['3714'] },
+  { pattern: /\baircraft\b|\baerospace\b/, label: 'Aircraft & Parts', codes: ['372'] },
+  { pattern: /\bdefen[cs]e contractors?\b/, label: 'Guided Missiles, Aircraft & Defense Systems', codes: ['372', '376', '3812'] },
+  { pattern: /\boil (and|&) gas (equipment|services)\b|\boilfield services\b/, label: 'Oil & Gas Field Services', codes: ['138', '3533'] },
+  { pattern: /\boil (and|&) gas\b|\b(oil|gas) producers?\b|\bexploration (and|&) production\b/, label: 'Crude Petroleum & Natural Gas', codes: ['1311'] },
+  { pattern: /\brefiners?\b|\brefining\b/, label: 'Petroleum Refining', codes: ['2911'] },
+  { pattern: /\bpipelines?\b|\bmidstream\b/, label: 'Pipelines & Natural Gas Transmission', codes: ['4610', '4922', '4923'] },
+  { pattern: /\bbanks?\b|\bbanking\b/, label: 'Commercial Banks', codes: ['6021', '6022', '6029'] },
+  { pattern: /\bbroker[- ]?dealers?\b|\binvestment banks?\b/, label: 'Security Brokers & Dealers', codes: ['6211'] },
+  { pattern: /\basset managers?\b|\binvestment advis[eo]rs?\b/, label: 'Investment Advice', codes: ['6282'] },
+  { pattern: /\binsurers?\b|\binsurance\b/, label: 'Insurance Carriers', codes: ['63'] },
+  { pattern: /\breits?\b|\breal estate investment trusts?\b/, label: 'Real Estate Investment Trusts', codes: ['6798'] },
+  { pattern: /\bspacs?\b|\bblank check\b/, label: 'Blank Checks', codes: ['6770'] },
+  { pattern: /\bairlines?\b/, label: 'Scheduled Air Transportation', codes: ['4512'] },
+  { pattern: /\brail(roads?|ways?)\b/, label: 'Railroads', codes: ['4011'] },
+  { pattern: /\btrucking\b|\bfreight\b/, label: 'Trucking & Freight', codes: ['421', '4731'] },
+  { pattern: /\btelecom(munications?)?\b|\bwireless carriers?\b/, label: 'Telephone Communications', codes: ['4812', '4813'] },
+  { pattern: /\bcable\b|\bpay tv\b/, label: 'Cable & Pay Television', codes: ['4841'] },
+  { pattern: /\bbroadcast(ers|ing)?\b/, label: 'Radio & Television Broadcasting', codes: ['4832', '4833'] },
+  { pattern: /\b(movie|film) studios?\b|\bstreaming\b|\bentertainment\b/, label: 'Motion Picture & Video Production', codes: ['7812', '7822'] },
+  { pattern: /\belectric utilit(y|ies)\b|\butilit(y|ies)\b/, label: 'Electric, Gas & Sanitary Services', codes: ['49'] },
+  { pattern: /\brestaurants?\b/, label: 'Eating Places', codes: ['5812'] },
+  { pattern: /\bgrocer(s|y|ies)\b|\bsupermarkets?\b/, label: 'Grocery Stores', codes: ['5411'] },
+  { pattern: /\be-?commerce\b|\bonline retail(ers)?\b/, label: 'Catalog & Mail-Order Houses', codes: ['5961'] },
+  { pattern: /\bretail(ers)?\b|\bdepartment stores?\b/, label: 'Retail Trade', codes: ['52', '53', '54', '55', '56', '57', '58', '59'] },
+  { pattern: /\bbeverages?\b|\bsoft drinks?\b|\bbrewers?\b/, label: 'Beverages', codes: ['208'] },
+  { pattern: /\bfood (companies|makers|processors|producers)\b|\bpackaged foods?\b/, label: 'Food & Kindred Products', codes: ['20'] },
+  { pattern: /\btobacco\b|\bcigarettes?\b/, label: 'Tobacco Products', codes: ['21'] },
+  { pattern: /\bcosmetics\b|\bhousehold products\b/, label: 'Soap, Detergents & Cosmetics', codes: ['284'] },
+  { pattern: /\bchemicals?\b/, label: 'Chemicals & Allied Products', codes: ['28'] },
+  { pattern: /\bsteel\b/, label: 'Steel Works & Rolling Mills', codes: ['331'] },
+  { pattern: /\bgold miners?\b|\bgold mining\b/, label: 'Gold & Silver Ores', codes: ['1040'] },
+  { pattern: /\bmining\b|\bminers\b/, label: 'Mining', codes: ['10', '12', '14'] },
+  { pattern: /\bhomebuilders?\b|\bhome ?builders?\b/, label: 'Operative Builders', codes: ['1531'] },
+  { pattern: /\bhotels?\b|\blodging\b/, label: 'Hotels & Motels', codes: ['7011'] },
+  { pattern: /\bcasinos?\b|\bgaming\b/, label: 'Amusement & Recreation Services', codes: ['79'] },
+  { pattern: /\badvertising\b/, label: 'Advertising', codes: ['731'] }
+];
+
+let sicData: SicFile | null = null;
+
+// Query parsing calls this for every query, so a missing or unreadable table
+// only costs industry matching and classification, once, with a warning
+function load(): SicFile {
+  if (!sicData) {
+    try {
+      sicData = JSON.parse(fs.readFileSync(SIC_PATH, 'utf8')) as SicFile;
+    } catch (error) {
+      console.warn(`SIC table ${SIC_PATH} could not be loaded; industries will not be classified:`, error);
+      sicData = { divisions: [], majorGroups: {}, sectorOverrides: [], industries: {} };
+    }
+  }
+  return sicData;
+}
+
+/**
+ * SIC codes arrive as numbers or unpadded strings ("100" for agricultural crops)
+ */
+export function normalizeSic(sic: string | number | undefined | null): string | null {
+  if (sic === undefined || sic === null) return null;
+  const digits = String(sic).trim();
+  if (!/^\d{1,4}$/.test(digits)) return null;
+  return digits.padStart(4, '0');
+}
+
+export function getSicDivisions(): SicDivision[] {
+  return load().divisions;
+}
+
+export function getSicMajorGroup(code: string): SicMajorGroup | undefined {
+  const group = load().majorGroups[code.substring(0, 2)];
+  return group ? { code: code.substring(0, 2), ...group } : undefined;
+}
+
+export function getSicDivision(sic: string): SicDivision | undefined {
+  const majorGroup = sic.substring(0, 2);
+  return load().divisions.find(division => majorGroup >= division.from && majorGroup <= division.to);
+}
+
+/**
+ * Full classification of a four-digit code: its EDGAR industry title,
+ * industry group, major group, division and sector
+ */
+export function classifySic(sic: string | number | undefined | null): SicClassification | null {
+  const code = normalizeSic(sic);
+  if (!code) return null;
+
+  const data = load();
+  const majorGroup = getSicMajorGroup(code);
+  const division = getSicDivision(code);
+  if (!majorGroup && !division) return null;
+
+  // Narrow ranges re-sector a few industries within their major group: 3711 is Automotive, not Industrials
+  const override = data.sectorOverrides.find(range => code >= range.from && code <= range.to);
+
+  return {
+    sic: code,
+    industry: data.industries[code],
+    industryGroup: code.substring(0, 3),
+    majorGroup,
+    division,
+    sector: override?.sector || majorGroup?.sector || division?.title || 'Other'
+  };
+}
+
+export function getSectorFromSic(sic: string | number | undefined | null): string {
+  if (!normalizeSic(sic)) return 'Unknown';
+  return classifySic(sic)?.sector || 'Other';
+}
+
+/**
+ * The EDGAR industry codes under a prefix: "37" lists 3711 through 3790
+ */
+export function listIndustries(prefix: string = ''): Array<{ sic: string; title: string }> {
+  return Object.entries(load().industries)
+    .filter(([sic]) => sic.startsWith(prefix))
+    .map(([sic, title]) => ({ sic, title }));
+}
+
+/**
+ * Every sector in use, in the order the major groups define them
+ */
+export function listSectors(): string[] {
+  const data = load();
+  const sectors = [
+    ...Object.values(data.majorGroups).map(group => group.sector),
+    ...data.sectorOverrides.map(range => range.sector)
+  ];
+  return Array.from(new Set(sectors));
+}
+
+/**
+ * The EDGAR industry codes that classify into a sector. Returned as full
+ * four-digit codes since sectors cut across major groups.
+ */
+export function getSectorSicCodes(sector: string): string[] {
+  const wanted = sector.toLowerCase();
+  return Object.keys(load().industries).filter(sic => classifySic(sic)?.sector.toLowerCase() === wanted);
+}
+
+/**
+ * Find the industries and sectors a question names: explicit SIC codes,
+ * sector names ("technology sector") and everyday industry names
+ * ("semiconductor companies", "banks"). Each phrase is claimed once.
+ */
+export function findSicCodes(text: string): SicMatch[] {
+  const lower = text.toLowerCase();
+  const matches: SicMatch[] = [];
+  const claimed: Array<[number, number]> = [];
+  const claim = (index: number, length: number): boolean => {
+    if (claimed.some(([from, to]) => index < to && index + length > from)) return false;
+    claimed.push([index, index + length]);
+    return true;
+  };
+
+  for (const match of lower.matchAll(/\bsic(?: code)?s?\s*(\d{2,4})\b/g)) {
+    if (!claim(match.index!, match[0].length)) continue;
+    const code = match[1];
+    const classification = code.length === 4 ? classifySic(code) : null;
+    matches.push({
+      text: match[0],
+      label: classification?.industry || getSicMajorGroup(code)?.title || `SIC ${code}`,
+      codes: [code]
+    });
+  }
+
+  // Sector names only count with "sector" or "industry" after them; "technology" alone is too loose
+  for (const sector of listSectors().sort((a, b) => b.length - a.length)) {
+    const name = sector.toLowerCase().replace(/[&]/g, '(?:&|and)').replace(/\s+/g, '\\s+');
+    const match = new RegExp(`\\b${name}\\s+(sector|industry|companies|stocks)\\b`).exec(lower);
+    if (!match || !claim(match.index, match[0].length)) continue;
+    matches.push({ text: match[0], label: sector, codes: getSectorSicCodes(sector), sector });
+  }
+
+  for (const keyword of INDUSTRY_KEYWORDS) {
+    const match = keyword.pattern.exec(lower);
+    if (!match || !claim(match.index, match[0].length)) continue;
+    matches.push({ text: match[0], label: keyword.label, codes: keyword.codes });
+  }
+
+  return matches;
+}
@@ -0,0 +1,91 @@
+import { claimVerificationMode, verifyNarrativeClaims } from '../claim-verifier';
+import { CompanyKnowledge, FilingKnowledge, KnowledgeSet } from '../types';
+
+const company = {
+  identity: { cik: '0000320193', name: 'Apple Inc.', ticker: 'AAPL' },
+  business: { description: 'Apple designs smartphones, personal computers and wearables.', segments: [] },
+  financial: {
+    metrics: { revenue: 383285000000, net_income: 96995000000, period: { start: new Date('2022-09-25'), end: new Date('2023-09-30') }, currency: 'USD' },
+    trends: [{
+      metric: 'revenue',
+      direction: 'down',
+      change: -0.028,
+      series: [
+        { period: 'FY2022', end: '2022-09-24', value: 394328000000 },
+        { period: 'FY2023', end: '2023-09-30', value: 383285000000, growth: -0.028 }
+      ]
+    }],
+    ratios: [{ name: 'Net Margin', value: 0.253, unit: 'percent' }],
+    segments: [],
+    guidance: [],
+    accounting_policies: []
+  },
+  governance: { board: [], executives: [], policies: [] },
+  timeline: { events: [], milestones: [] },
+  filings: [{ type: '10-K', date: '2023-11-03', summary: 'Annual report', form: '10-K', filingDate: '2023-11-03' }]
+} as unknown as CompanyKnowledge;
+
+const annualReport = {
+  metadata: { accessionNumber: '0000320193-23-000106', formType: '10-K', filingDate: new Date('2023-11-03') },
+  content: {
+    management_discussion: 'The Company had approximately 161,000 full-time equivalent employees. '
+      + 'Net sales in Greater China decreased 2% during 2023. '
+      + 'The Company operates 532 retail stores in 26 countries, and 17% of them opened after 2015.'
+  }
+} as unknown as FilingKnowledge;
+
+const knowledge = {
+  companies: [company],
+  filings: [annualReport],
+  relationships: [],
+  industry: { sector: 'Technology', industry: 'Consumer Electronics', competitors: [], trends: [] },
+  market: { cap: 0, volatility: 0, trends: [] },
+  sources: [],
+  confidence: 0.85,
+  completeness: 0.64
+} as KnowledgeSet;
+
+const unsupported = (narrative: string) =>
+  verifyNarrativeClaims(narrative, knowledge, 'How did Apple do in FY2023?').unsupported.map(claim => claim.text);
+
+describe('verifyNarrativeClaims', () => {
+  it('accepts figures reported as XBRL facts, trends and ratios', () => {
+    expect(unsupported(
+      'Apple reported revenue of $383.3 billion in fiscal 2023, down 2.8% from $394.3 billion, with a net margin of 25.3%.'
+    )).toEqual([]);
+  });
+
+  it('accepts filing dates and years named in the question', () => {
+    expect(unsupported('Apple filed its 10-K on November 3, 2023, covering FY2023.')).toEqual([]);
+  });
+
+  it('flags percentages and small figures that only appear in unrelated prose', () => {
+    expect(unsupported('Gross margin reached 17% and operating income grew 26%.')).toEqual(['17%', '26%']);
+    expect(unsupported('Revenue rose 161,000 dollars.')).toEqual(['161,000']);
+  });
+
+  it('does not treat scores like confidence and completeness as figures', () => {
+    expect(unsupported('Net income rose 85% while sales grew 64%.')).toEqual(['85%', '64%']);
+  });
+
+  it('accepts a figure from prose when the narrative ties it to the same metric', () => {
+    expect(unsupported('Sales in China fell 2% in 2023.')).toEqual([]);
+    expect(unsupported('Apple has about 161,000 employees.')).toEqual([]);
+  });
+});
+
+describe('claimVerificationMode', () => {
+  it('accepts the known modes in any case and defaults to flag', () => {
+    expect(claimVerificationMode('remove')).toBe('remove');
+    expect(claimVerificationMode(' OFF ')).toBe('off');
+    expect(claimVerificationMode(undefined)).toBe('flag');
+  });
+
+  it('warns about unknown values and falls back to flag', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(claimVerificationMode('strict')).toBe('flag');
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Unknown CLAIM_VERIFICATION "strict"'));
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,59 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { classifyCurrentReport, extractEventSummary } from '../current-reports';
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+
+describe('classifyCurrentReport', () => {
+  it('headlines the most significant item', () => {
+    const report = classifyCurrentReport('2.02,5.02,9.01');
+
+    expect(report.items.map(item => item.item)).toEqual(['2.02', '5.02', '9.01']);
+    expect(report.primary).toEqual({ item: '5.02', title: 'Departure or Appointment of Directors or Officers', category: 'leadership' });
+    expect(report.significance).toBe('high');
+  });
+
+  it('breaks ties by the lowest item number and skips malformed items', () => {
+    const report = classifyCurrentReport('7.01, 8.01 9.01 12.34');
+
+    expect(report.items.map(item => item.item)).toEqual(['7.01', '8.01', '9.01']);
+    expect(report.primary?.item).toBe('7.01');
+    expect(report.significance).toBe('low');
+  });
+
+  it('only falls back to 9.01 when the report lists nothing else', () => {
+    expect(classifyCurrentReport('9.01').primary?.item).toBe('9.01');
+    expect(classifyCurrentReport(undefined)).toEqual({ items: [], primary: undefined, significance: 'low' });
+  });
+});
+
+describe('extractEventSummary', () => {
+  const html = fixture('8-k-sample.htm');
+
+  it('summarizes the body under the item heading rather than the cover-page list', () => {
+    expect(extractEventSummary(html, '2.02')).toBe(
+      'On February 12, 2024, Acme Widget Corp. (the “Company”) issued a press release announcing its financial results for the fourth quarter '
+      + 'and fiscal year ended December 31, 2023. A copy of the press release is furnished as Exhibit 99.1.'
+    );
+  });
+
+  it('stops at whole sentences near 300 characters without splitting on abbreviations', () => {
+    const summary = extractEventSummary(html, '5.02')!;
+
+    expect(summary).toMatch(/^On February 9, 2024, Mr\. Richard Roe notified the Company/);
+    expect(summary).toMatch(/policies or practices\.$/);
+    expect(summary).not.toContain('Ms. Ann Lee');
+  });
+
+  it('truncates a single sentence longer than the limit', () => {
+    const longSentence = `<p>Item 8.01 Other Events.</p><p>The Company ${'announced a program '.repeat(20)}today.</p>`;
+    const summary = extractEventSummary(longSentence, '8.01')!;
+
+    expect(summary).toHaveLength(300);
+    expect(summary.endsWith('...')).toBe(true);
+  });
+
+  it('returns undefined for items the document does not contain', () => {
+    expect(extractEventSummary(html, '1.01')).toBeUndefined();
+  });
+});
@@ -0,0 +1,67 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseSummaryCompensationTable } from '../executive-compensation';
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+
+describe('parseSummaryCompensationTable', () => {
+  const executives = parseSummaryCompensationTable(fixture('def-14a-sample.htm'));
+
+  it('finds the table after its heading, skipping the director and pay-versus-performance tables', () => {
+    expect(executives.map(executive => executive.name)).toEqual(['Jane Doe', 'John Smith', 'Maria Garcia']);
+  });
+
+  it('reads titles from the name cell, the next row or after a comma', () => {
+    expect(executives.map(executive => executive.title)).toEqual([
+      'Chief Executive Officer',
+      'Executive Vice President and Chief Financial Officer',
+      'Former Chief Operating Officer'
+    ]);
+  });
+
+  it('lines values up with stacked headers and strips footnote markers', () => {
+    expect(executives[0].years).toEqual([
+      {
+        year: 2023,
+        salary: 1200000,
+        bonus: 0,
+        stockAwards: 8500000,
+        optionAwards: 1500000,
+        nonEquityIncentive: 2100000,
+        pensionAndDeferred: -12000,
+        allOther: 212000,
+        total: 13500000
+      },
+      {
+        year: 2022,
+        salary: 1150000,
+        bonus: 250000,
+        stockAwards: 7000000,
+        optionAwards: 1400000,
+        nonEquityIncentive: 1800000,
+        pensionAndDeferred: 45000,
+        allOther: 155000,
+        total: 11800000
+      }
+    ]);
+  });
+
+  it('keeps one entry per fiscal year, newest first', () => {
+    expect(executives[1].years.map(year => [year.year, year.total])).toEqual([[2023, 3500000], [2022, 2990000]]);
+    expect(executives[2].years.map(year => [year.year, year.allOther, year.total])).toEqual([[2023, 1250000, 1650000]]);
+  });
+
+  it('adds up the components when the total is left blank', () => {
+    const html = `<p>Summary Compensation Table</p><table>
+      <tr><td>Name and Principal Position</td><td>Year</td><td>Salary ($)</td><td>Bonus ($)</td><td>Total ($)</td></tr>
+      <tr><td>Jane Doe, Chief Executive Officer</td><td>2023</td><td>500,000</td><td>50,000</td><td></td></tr>
+    </table>`;
+    expect(parseSummaryCompensationTable(html)).toEqual([
+      { name: 'Jane Doe', title: 'Chief Executive Officer', years: [{ year: 2023, salary: 500000, bonus: 50000, total: 550000 }] }
+    ]);
+  });
+
+  it('returns nothing for a filing without the table', () => {
+    expect(parseSummaryCompensationTable(fixture('10-k-sample.htm'))).toEqual([]);
+  });
+});
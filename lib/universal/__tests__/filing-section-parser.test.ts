@@ -0,0 +1,80 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FilingSectionParser } from '../filing-section-parser';
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+
+describe('FilingSectionParser', () => {
+  const parser = new FilingSectionParser();
+
+  describe('10-K', () => {
+    const parsed = parser.parse(fixture('10-k-sample.htm'), '10-K');
+
+    it('extracts each item once, in document order, skipping the table of contents', () => {
+      expect(parsed.formType).toBe('10-K');
+      expect(parsed.sections.map(section => section.item)).toEqual(['1', '1A', '1B', '2', '3', '7', '8']);
+    });
+
+    it('uses the standard item titles', () => {
+      expect(parser.getSection(parsed, '1A')?.title).toBe('Risk Factors');
+      expect(parser.getSection(parsed, '7')?.title).toBe("Management's Discussion and Analysis of Financial Condition and Results of Operations");
+    });
+
+    it('keeps section text up to the next heading, including cross-references', () => {
+      const business = parser.getSection(parsed, '1')!;
+      expect(business.text).toMatch(/^Acme Widget Corporation \(“Acme” or the “Company”\) designs/);
+      expect(business.text).toContain('Refer to Item 7 of this report');
+      expect(business.text).not.toContain('Risk Factors');
+
+      const mdna = parser.getSection(parsed, '7')!;
+      expect(mdna.text).toContain('Net sales increased 8% to $1.2 billion in 2023');
+      expect(mdna.text).toContain('See Item 1A above');
+      expect(parser.getSection(parsed, '1B')?.text).toBe('None.');
+    });
+
+    it('drops the inline XBRL header', () => {
+      expect(parsed.text).not.toContain('Hidden registrant name');
+    });
+
+    it('maps items onto FilingContent', () => {
+      const content = parser.toFilingContent(parsed);
+      expect(content.business_description).toContain('industrial widgets');
+      expect(content.management_discussion).toContain('Industrial segment');
+      expect(content.risk_factors?.map(risk => risk.title)).toEqual([
+        'Disruptions in our supply chain could adversely affect our results of operations.',
+        'We face intense competition that could reduce our market share and margins.'
+      ]);
+      expect(content.risk_factors?.[0].description).toContain('limited number of suppliers');
+      expect(content.legal_proceedings).toHaveLength(1);
+      expect(content.legal_proceedings?.[0].case).toBe('Smith v. Acme Widget Corporation');
+      expect(content.structured_data.sections).toHaveLength(7);
+    });
+  });
+
+  describe('10-Q', () => {
+    const parsed = parser.parse(fixture('10-q-sample.htm'), '10-Q');
+
+    it('keeps items that repeat across parts apart', () => {
+      expect(parsed.sections.map(section => `${section.part}:${section.item}`)).toEqual(['I:1', 'I:2', 'II:1', 'II:1A', 'II:6']);
+      expect(parser.getSection(parsed, 'I:1')?.title).toBe('Financial Statements');
+      expect(parser.getSection(parsed, 'II:1')?.title).toBe('Legal Proceedings');
+    });
+
+    it('extracts the text of each part', () => {
+      expect(parser.getSection(parsed, 'I:1')?.text).toContain('Net sales $ 310.4');
+      expect(parser.getSection(parsed, 'I:2')?.text).toContain('third quarter of 2023 were $310.4 million');
+      expect(parser.getSection(parsed, 'II:1A')?.text).toMatch(/^There have been no material changes/);
+    });
+
+    it('maps items onto FilingContent by part', () => {
+      const content = parser.toFilingContent(parsed);
+      expect(content.business_description).toBeUndefined();
+      expect(content.management_discussion).toContain('pricing actions');
+      expect(content.legal_proceedings?.[0].description).toContain('Smith v. Acme Widget Corporation');
+    });
+
+    it('treats amended forms as the base form', () => {
+      expect(parser.parse(fixture('10-q-sample.htm'), '10-Q/A').sections).toHaveLength(5);
+    });
+  });
+});
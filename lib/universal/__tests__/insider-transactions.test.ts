@@ -0,0 +1,86 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseOwnershipXml, summarizeInsiderActivity, supersedeAmendments } from '../insider-transactions';
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+
+describe('parseOwnershipXml', () => {
+  const document = parseOwnershipXml(fixture('form4-sample.xml'), '0001765432-24-000010');
+
+  it('reads the issuer, period and reporting owner', () => {
+    expect(document.form).toBe('4');
+    expect(document.periodOfReport).toBe('2024-03-15');
+    expect(document.issuer).toEqual({ cik: '0001234567', name: 'Acme Widget Corp', ticker: 'ACME' });
+    expect(document.owners).toHaveLength(1);
+    expect(document.owners[0]).toMatchObject({
+      cik: '0001765432',
+      name: 'Doe Jane',
+      relationship: { isDirector: true, isOfficer: true, isTenPercentOwner: false, officerTitle: 'Chief Executive Officer' }
+    });
+  });
+
+  it('parses non-derivative and derivative transactions with their footnotes', () => {
+    expect(document.transactions.map(transaction => [transaction.transactionCode, transaction.isDerivative]))
+      .toEqual([['M', false], ['S', false], ['M', true]]);
+
+    const [exercise, sale, option] = document.transactions;
+    expect(exercise).toMatchObject({ shares: 10000, pricePerShare: 20, acquiredDisposed: 'A', sharesOwnedAfter: 60000 });
+    expect(sale).toMatchObject({
+      accessionNumber: '0001765432-24-000010',
+      transactionDate: '2024-03-15',
+      transactionDescription: 'Open market or private sale',
+      shares: 4000,
+      pricePerShare: 52.25,
+      value: 209000,
+      acquiredDisposed: 'D',
+      sharesOwnedAfter: 56000,
+      directOrIndirect: 'D'
+    });
+    expect(sale.footnotes).toHaveLength(2);
+    expect(sale.footnotes![0]).toMatch(/Rule 10b5-1 trading plan/);
+    expect(option).toMatchObject({ securityTitle: 'Stock Option (Right to Buy)', underlyingSecurity: 'Common Stock', acquiredDisposed: 'D' });
+  });
+
+  it('keeps positions reported without a transaction as holdings', () => {
+    expect(document.holdings).toEqual([
+      { securityTitle: 'Common Stock', isDerivative: false, sharesOwned: 12500, directOrIndirect: 'I' }
+    ]);
+  });
+
+  it('rejects documents that are not ownership XML', () => {
+    expect(() => parseOwnershipXml('<html><body>Form 4</body></html>')).toThrow(/missing <ownershipDocument>/);
+  });
+});
+
+describe('supersedeAmendments', () => {
+  const original = parseOwnershipXml(fixture('form4-sample.xml'), '0001765432-24-000010');
+  // The amendment restates the whole report, correcting the number of shares sold
+  const amendment = parseOwnershipXml(
+    fixture('form4-sample.xml')
+      .replace('<documentType>4</documentType>', '<documentType>4/A</documentType>')
+      .replace('<value>4000</value>', '<value>3500</value>'),
+    '0001765432-24-000012'
+  );
+  const asOf = '2024-04-01';
+
+  it('replaces the original filing with its amendment', () => {
+    expect(supersedeAmendments([amendment, original])).toEqual([amendment]);
+  });
+
+  it('counts amended trades once', () => {
+    const documents = supersedeAmendments([amendment, original]);
+    const [summary] = summarizeInsiderActivity(documents.flatMap(document => document.transactions), { asOf });
+
+    expect(summary.filings).toBe(1);
+    expect(summary.sales).toEqual({ count: 1, shares: 3500, value: 182875 });
+    expect(summary.signal).toBe('net_selling');
+  });
+
+  it('keeps filings from other owners and periods', () => {
+    const laterFiling = { ...original, periodOfReport: '2024-03-20' };
+    const otherOwner = { ...original, owners: [{ ...original.owners[0], cik: '0001999999' }] };
+
+    expect(supersedeAmendments([amendment, laterFiling, otherOwner, original]))
+      .toEqual([amendment, laterFiling, otherOwner]);
+  });
+});
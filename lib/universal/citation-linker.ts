@@ -0,0 +1,124 @@
+// Citation Linker - Numbers an answer's citations and ties the narrative's figures and dates to them with [n] markers
+
+import { Citation } from './types';
+import { ExtractedClaim, extractClaims, sentenceBounds } from './claim-verifier';
+
+/** A citation and the figures and dates it stands behind */
+export interface CitationEvidence {
+  citation: Omit<Citation, 'id'>;
+  numbers: number[];
+  days: string[]; // YYYY-MM-DD
+  optional?: boolean; // Single XBRL facts: kept only when the narrative cites them
+}
+
+export interface LinkedNarrative {
+  narrative: string;
+  citations: Citation[]; // Cited ones first, numbered in order of first reference
+}
+
+/** Sources listed in the narrative prompt; the model may cite only these */
+export const MAX_PROMPT_SOURCES = 40;
+
+// "[2]" but not a markdown link label ("[View Filing](...)")
+const MARKER = /( ?)\[(\d{1,3})\](?!\()/g;
+const HAS_MARKER = /\[\d{1,3}\](?!\()/;
+
+/** The figures and dates written in a passage, parsed the way narrative claims are */
+export function figuresIn(text: string | undefined): Pick<CitationEvidence, 'numbers' | 'days'> {
+  const claims = text ? extractClaims(text) : [];
+  return {
+    numbers: claims.filter(claim => claim.kind === 'number').map(claim => claim.value!),
+    days: claims.filter(claim => claim.day).map(claim => claim.day!)
+  };
+}
+
+/** Numbered source list for the narrative prompt; [n] here is the marker the model writes */
+export function describeSources(evidence: CitationEvidence[], limit: number = MAX_PROMPT_SOURCES): string {
+  return evidence.slice(0, limit).map((item, index) => `[${index + 1}] ${describeCitation(item.citation)}`).join('\n');
+}
+
+function describeCitation(citation: Omit<Citation, 'id'>): string {
+  const parts = [citation.source.name];
+  if (citation.filing?.section) parts.push(citation.filing.section);
+  (citation.facts || []).forEach(fact => {
+    parts.push(`${fact.concept} ${fact.period || fact.end} = ${fact.value.toLocaleString()}${fact.unit ? ` ${fact.unit}` : ''}`);
+  });
+  return parts.join(', ');
+}
+
+/**
+ * Links a narrative to its sources. Markers the model wrote are kept when
+ * they name one of the first `offered` sources and dropped otherwise;
+ * sentences it left uncited get a marker for each source holding one of
+ * their figures or dates, placed before the closing punctuation. Markers are
+ * then renumbered in reading order and the citations numbered to match.
+ * Evidence is searched in order, so list the most specific sources first.
+ */
+export function linkCitations(
+  narrative: string,
+  evidence: CitationEvidence[],
+  offered: number = Math.min(evidence.length, MAX_PROMPT_SOURCES)
+): LinkedNarrative {
+  let text = narrative.replace(MARKER, (marker: string, _: string, n: string) => {
+    const index = parseInt(n, 10);
+    return index >= 1 && index <= offered ? marker : '';
+  });
+
+  // Sentence end -> evidence indexes to cite there
+  const insertions = new Map<number, number[]>();
+  for (const claim of extractClaims(text)) {
+    const [start, end] = sentenceBounds(text, claim.index);
+    if (HAS_MARKER.test(text.slice(start, end))) continue;
+
+    const source = evidence.findIndex(item => supports(item, claim));
+    if (source < 0) continue;
+    const at = markerPosition(text, start, end);
+    const sources = insertions.get(at) || [];
+    if (!sources.includes(source)) sources.push(source);
+    insertions.set(at, sources);
+  }
+
+  // Back to front so earlier offsets stay valid
+  for (const at of [...insertions.keys()].sort((a, b) => b - a)) {
+    const markers = insertions.get(at)!.map(source => `[${source + 1}]`).join('');
+    text = `${text.slice(0, at)} ${markers}${text.slice(at)}`;
+  }
+
+  const order: number[] = [];
+  for (const match of text.matchAll(MARKER)) {
+    const index = parseInt(match[2], 10) - 1;
+    if (!order.includes(index)) order.push(index);
+  }
+  evidence.forEach((item, index) => {
+    if (!item.optional && !order.includes(index)) order.push(index);
+  });
+
+  const ids = new Map(order.map((index, position) => [index, position + 1]));
+  return {
+    narrative: text.replace(MARKER, (marker, space: string, n: string) => `${space}[${ids.get(parseInt(n, 10) - 1)}]`),
+    citations: order.map(index => ({ id: ids.get(index)!, ...evidence[index].citation }))
+  };
+}
+
+function supports(item: CitationEvidence, claim: ExtractedClaim): boolean {
+  if (claim.kind === 'date') {
+    // A bare year matches nearly every source, so it cites none
+    if (claim.day) return item.days.includes(claim.day);
+    if (claim.month) return item.days.some(day => day.startsWith(claim.month!));
+    return false;
+  }
+
+  const value = Math.abs(claim.value!);
+  const tolerance = claim.tolerance!;
+  return item.numbers.some(number => Math.abs(Math.abs(number) - value) <= tolerance
+    // "25.3%" may be stored as 25.3 as well as 0.253
+    || (claim.percent === true && Math.abs(Math.abs(number) - value * 100) <= tolerance * 100));
+}
+
+// Before the sentence's closing punctuation and any trailing whitespace
+function markerPosition(text: string, start: number, end: number): number {
+  let at = end;
+  while (at > start && /\s/.test(text[at - 1])) at--;
+  if (at > start && /[.!?]/.test(text[at - 1])) at--;
+  return at;
+}
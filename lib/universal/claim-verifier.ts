@@ -0,0 +1,397 @@
+// Claim Verifier - Checks every figure and date in a narrative against the knowledge it was written from
+
+import { CompanyKnowledge, FilingKnowledge, KnowledgeSet } from './types';
+
+export type ClaimVerificationMode = 'flag' | 'remove' | 'off';
+
+export interface NarrativeClaim {
+  text: string; // As written: "$383.3 billion", "March 15, 2024"
+  kind: 'number' | 'date';
+  index: number; // Offset in the narrative
+  value?: number; // Numbers in base units: 383300000000, 0.253 for "25.3%"
+  supported: boolean;
+}
+
+export interface ClaimVerification {
+  narrative: string; // With unsupported claims flagged or their sentences removed
+  mode: ClaimVerificationMode;
+  claims: NarrativeClaim[];
+  unsupported: NarrativeClaim[];
+}
+
+export const UNVERIFIED_MARKER = '[unverified]';
+
+const SCALES: { [unit: string]: number } = {
+  thousand: 1e3, k: 1e3,
+  million: 1e6, m: 1e6, mm: 1e6,
+  billion: 1e9, b: 1e9, bn: 1e9,
+  trillion: 1e12, t: 1e12
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAME = '(Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sept?(?:ember)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\\.?';
+
+const ISO_DATE = /\b(\d{4})-(\d{2})-(\d{2})\b/g;
+const US_DATE = /\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/g;
+const MONTH_DAY_YEAR = new RegExp(`\\b${MONTH_NAME}\\s+(\\d{1,2}),?\\s+(\\d{4})\\b`, 'gi');
+const MONTH_YEAR = new RegExp(`\\b${MONTH_NAME}\\s+(\\d{4})\\b`, 'gi');
+const FISCAL_YEAR = /\b(?:FY\s?|fiscal\s+(?:year\s+)?|Q[1-4]\s+|CY)((?:19|20)\d{2})\b/gi;
+
+// A number with optional sign, dollar sign, scale word or suffix. Form names
+// ("10-K", "13F", "Item 1A"), quarters ("Q3") and footnote markers ("[2]")
+// are excluded by the surrounding-character checks.
+const NUMBER = /(?<![\w.[\/-])(-|−)?(\$)?(\d{1,3}(?:,\d{3})+|\d+)(\.\d+)?(?:\s*(trillion|billion|million|thousand|percent|bn|mm)\b|(%|[kmbt]\b|x\b)|(?:st|nd|rd|th)\b)?(?![\w\]\/-])/gi;
+
+// Metrics a sentence can be about. A figure quoted in prose backs a claim
+// only when both sentences name the same one.
+const CONCEPTS: Array<[string, RegExp]> = [
+  ['revenue', /\b(?:revenues?|net sales|sales|top line)\b/i],
+  ['gross_margin', /\bgross (?:margin|profit)s?\b/i],
+  ['operating_income', /\boperating (?:income|loss|profit|margin)s?\b/i],
+  ['net_income', /\b(?:net (?:income|loss|earnings)|earnings|profits?)\b/i],
+  ['eps', /\b(?:EPS|per (?:diluted |basic )?share)\b/i],
+  ['cash_flow', /\b(?:cash flows?|free cash)\b/i],
+  ['cash', /\bcash(?: and cash equivalents)?\b/i],
+  ['debt', /\b(?:debt|borrowings?|notes payable|leverage)\b/i],
+  ['assets', /\bassets\b/i],
+  ['equity', /\b(?:equity|stockholders|shareholders)\b/i],
+  ['expenses', /\b(?:expenses?|costs?|spending|capital expenditures|capex|research and development|R&D)\b/i],
+  ['shareholder_returns', /\b(?:dividends?|buybacks?|repurchases?)\b/i],
+  ['shares', /\bshares\b/i],
+  ['margin', /\bmargins?\b/i],
+  ['tax', /\btax(?:es)?\b/i],
+  ['employees', /\b(?:employees|headcount|workforce)\b/i]
+];
+
+function conceptsIn(text: string): string[] {
+  return CONCEPTS.filter(([, pattern]) => pattern.test(text)).map(([concept]) => concept);
+}
+
+/**
+ * Everything the narrative may state. Figures come from structured values
+ * only: XBRL facts and trend series, computed metrics and ratios, insider,
+ * compensation, screen, peer and holdings data, and filing and event dates.
+ * Figures written in prose (filing sections, 8-K summaries, full-text hits)
+ * are kept with the metrics their sentence names. Years and figures named in
+ * the question are fair to repeat too.
+ */
+class GroundTruth {
+  private numbers: number[] = [];
+  private stated: Array<{ value: number; concepts: string[] }> = [];
+  private days = new Set<string>();
+  private months = new Set<string>();
+  private years = new Set<number>();
+
+  constructor(knowledge: KnowledgeSet, question: string) {
+    knowledge.companies.forEach(company => this.addCompany(company));
+    knowledge.filings.forEach(filing => this.addFiling(filing));
+    this.addValues([knowledge.screenResults?.rows, knowledge.peerBenchmarks, knowledge.institutionalHoldings]);
+    (knowledge.contentMatches?.hits || []).forEach(hit => {
+      this.addValues(hit.filingDate);
+      hit.snippets.forEach(snippet => this.addPassage(snippet.text));
+    });
+    this.addQuestion(question);
+    this.numbers.sort((a, b) => a - b);
+  }
+
+  hasNumber(value: number, tolerance: number): boolean {
+    // Binary search for the first value >= value - tolerance
+    let low = 0;
+    let high = this.numbers.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.numbers[mid] < value - tolerance) low = mid + 1; else high = mid;
+    }
+    return low < this.numbers.length && this.numbers[low] <= value + tolerance;
+  }
+
+  /** A figure written in a prose passage about one of the given metrics */
+  hasStatedNumber(value: number, tolerance: number, concepts: string[]): boolean {
+    return this.stated.some(figure => Math.abs(figure.value - value) <= tolerance
+      && figure.concepts.some(concept => concepts.includes(concept)));
+  }
+
+  hasDay(day: string): boolean {
+    return this.days.has(day);
+  }
+
+  hasMonth(month: string): boolean {
+    return this.months.has(month);
+  }
+
+  hasYear(year: number): boolean {
+    return this.years.has(year);
+  }
+
+  private addCompany(company: CompanyKnowledge): void {
+    const { financial, governance } = company;
+    this.addValues([
+      financial?.metrics,
+      financial?.trends,
+      financial?.ratios,
+      financial?.segments,
+      company.business?.segments,
+      governance?.insiderTransactions,
+      governance?.insiderActivity,
+      governance?.executiveCompensation,
+      company.filings
+    ]);
+    (financial?.guidance || []).forEach(guidance => this.addPassage(guidance.guidance, guidance.metric));
+    (company.timeline?.events || []).forEach(event => {
+      this.addValues([event.date, event.eventDate]);
+      this.addPassage(event.summary);
+    });
+    this.addPassage(company.business?.description);
+  }
+
+  private addFiling(filing: FilingKnowledge): void {
+    const { metadata, content } = filing;
+    this.addValues([metadata?.filingDate, metadata?.reportingPeriod, content?.financial_statements]);
+    this.addPassage(content?.business_description);
+    this.addPassage(content?.management_discussion);
+    (content?.risk_factors || []).forEach(risk => this.addPassage(risk.description, risk.title));
+    (content?.legal_proceedings || []).forEach(proceeding => this.addPassage(proceeding.description));
+  }
+
+  /**
+   * Numbers, dates and YYYY-MM-DD strings anywhere in a structured value.
+   * Other strings are names, identifiers or prose and are skipped.
+   */
+  private addValues(value: unknown, seen: WeakSet<object> = new WeakSet()): void {
+    if (value === null || value === undefined) return;
+    if (typeof value === 'number') {
+      this.addNumber(value);
+    } else if (typeof value === 'string') {
+      if (/^\d{4}-\d{2}-\d{2}(?:T|$)/.test(value)) this.addDate(value.slice(0, 10));
+    } else if (value instanceof Date) {
+      if (!isNaN(value.getTime())) this.addDate(value.toISOString().slice(0, 10));
+    } else if (typeof value === 'object') {
+      if (seen.has(value)) return;
+      seen.add(value);
+      for (const item of Array.isArray(value) ? value : Object.values(value)) {
+        this.addValues(item, seen);
+      }
+    }
+  }
+
+  // Each figure is kept with the metrics named in its sentence, or in the
+  // label the passage was filed under (a guidance metric, a risk heading)
+  private addPassage(text: string | undefined, label: string = ''): void {
+    if (!text) return;
+    for (const claim of extractClaims(text)) {
+      if (claim.kind !== 'number') continue;
+      const [start, end] = sentenceBounds(text, claim.index);
+      const concepts = conceptsIn(`${label} ${text.slice(start, end)}`);
+      if (concepts.length > 0) this.stated.push({ value: Math.abs(claim.value!), concepts });
+    }
+  }
+
+  private addNumber(value: number): void {
+    if (!Number.isFinite(value)) return;
+    this.numbers.push(value, Math.abs(value));
+    if (Number.isInteger(value) && value >= 1900 && value <= 2100) this.years.add(value);
+  }
+
+  private addDate(day: string): void {
+    this.days.add(day);
+    this.months.add(day.slice(0, 7));
+    this.years.add(parseInt(day.slice(0, 4), 10));
+  }
+
+  private addQuestion(question: string): void {
+    for (const claim of extractClaims(question)) {
+      if (claim.day) this.addDate(claim.day);
+      else if (claim.month) this.months.add(claim.month);
+      else if (claim.year) this.years.add(claim.year);
+      else if (claim.value !== undefined) this.addNumber(claim.value);
+    }
+  }
+}
+
+const CLAIM_VERIFICATION_MODES: ClaimVerificationMode[] = ['flag', 'remove', 'off'];
+
+/**
+ * The mode CLAIM_VERIFICATION selects. Unset means 'flag'; an unrecognised
+ * value is warned about and also falls back to 'flag'.
+ */
+export function claimVerificationMode(value: string | undefined = process.env.CLAIM_VERIFICATION): ClaimVerificationMode {
+  if (!value) return 'flag';
+
+  const mode = value.trim().toLowerCase() as ClaimVerificationMode;
+  if (CLAIM_VERIFICATION_MODES.includes(mode)) return mode;
+
+  console.warn(`Unknown CLAIM_VERIFICATION "${value}"; expected ${CLAIM_VERIFICATION_MODES.join(', ')}. Flagging unsupported claims.`);
+  return 'flag';
+}
+
+/**
+ * Extracts every number and date claim from a narrative and checks each
+ * against the knowledge set. A figure is supported when a structured value
+ * matches it to the precision it was written with ("$383.3 billion" covers
+ * 383.25 to 383.35 billion), or when a prose passage states it in a sentence
+ * about the same metric; percentages also match ratios stored as fractions.
+ * Unsupported claims are flagged inline or, in remove mode, their sentences
+ * are dropped.
+ */
+export function verifyNarrativeClaims(
+  narrative: string,
+  knowledge: KnowledgeSet,
+  question: string,
+  mode: ClaimVerificationMode = 'flag'
+): ClaimVerification {
+  if (mode === 'off') {
+    return { narrative, mode, claims: [], unsupported: [] };
+  }
+
+  const truth = new GroundTruth(knowledge, question);
+  const claims: NarrativeClaim[] = extractClaims(narrative).map(claim => ({
+    text: claim.text,
+    kind: claim.kind,
+    index: claim.index,
+    value: claim.value,
+    supported: isSupported(claim, truth, narrative)
+  }));
+  const unsupported = claims.filter(claim => !claim.supported);
+
+  return {
+    narrative: mode === 'remove' ? removeSentences(narrative, unsupported) : flagClaims(narrative, unsupported),
+    mode,
+    claims,
+    unsupported
+  };
+}
+
+export type ExtractedClaim = Omit<NarrativeClaim, 'supported'> & { day?: string; month?: string; year?: number; tolerance?: number; percent?: boolean };
+
+/**
+ * Every figure and date in a narrative, in order, with the precision each
+ * was written to. Dates carry the day, month or year they name.
+ */
+export function extractClaims(narrative: string): ExtractedClaim[] {
+  const claims: ExtractedClaim[] = [];
+  const taken: Array<[number, number]> = [];
+  const overlaps = (start: number, end: number) => taken.some(([s, e]) => start < e && end > s);
+  const addDate = (match: RegExpMatchArray, fields: Pick<ExtractedClaim, 'day' | 'month' | 'year'>) => {
+    const start = match.index!;
+    const end = start + match[0].length;
+    if (overlaps(start, end)) return;
+    taken.push([start, end]);
+    claims.push({ text: match[0], kind: 'date', index: start, ...fields });
+  };
+  const pad = (n: string | number) => String(n).padStart(2, '0');
+
+  for (const match of narrative.matchAll(ISO_DATE)) {
+    addDate(match, { day: match[0] });
+  }
+  for (const match of narrative.matchAll(MONTH_DAY_YEAR)) {
+    const month = MONTHS.indexOf(match[1].slice(0, 3).toLowerCase()) + 1;
+    addDate(match, { day: `${match[3]}-${pad(month)}-${pad(match[2])}` });
+  }
+  for (const match of narrative.matchAll(US_DATE)) {
+    addDate(match, { day: `${match[3]}-${pad(match[1])}-${pad(match[2])}` });
+  }
+  for (const match of narrative.matchAll(MONTH_YEAR)) {
+    const month = MONTHS.indexOf(match[1].slice(0, 3).toLowerCase()) + 1;
+    addDate(match, { month: `${match[2]}-${pad(month)}` });
+  }
+  for (const match of narrative.matchAll(FISCAL_YEAR)) {
+    addDate(match, { year: parseInt(match[1], 10) });
+  }
+
+  for (const match of narrative.matchAll(NUMBER)) {
+    const start = match.index!;
+    const end = start + match[0].length;
+    if (overlaps(start, end)) continue;
+
+    const [text, sign, dollar, digits, decimals = '', word, suffix] = match;
+    const unit = (word || suffix || '').toLowerCase();
+    const raw = parseFloat(digits.replace(/,/g, '') + decimals);
+
+    // Bare years are date claims; bare small integers are counts and list numbers
+    if (!dollar && !unit && !decimals && !digits.includes(',')) {
+      if (raw >= 1900 && raw <= 2100) {
+        claims.push({ text, kind: 'date', index: start, year: raw });
+        continue;
+      }
+      if (raw <= 12) continue;
+    }
+
+    const scale = SCALES[unit] || 1;
+    const percent = unit === '%' || unit === 'percent';
+    const places = decimals.length > 0 ? decimals.length - 1 : 0;
+    const value = (sign ? -1 : 1) * raw * scale;
+    claims.push({
+      text: text.trim(),
+      kind: 'number',
+      index: start,
+      value: percent ? value / 100 : value,
+      // Half a unit in the last written place, never tighter than 0.5%
+      tolerance: Math.max(0.5 * Math.pow(10, -places) * scale * (percent ? 0.01 : 1), Math.abs(value) * 0.005 * (percent ? 0.01 : 1)),
+      percent
+    });
+  }
+
+  return claims.sort((a, b) => a.index - b.index);
+}
+
+function isSupported(claim: ExtractedClaim, truth: GroundTruth, narrative: string): boolean {
+  if (claim.kind === 'date') {
+    if (claim.day) return truth.hasDay(claim.day);
+    if (claim.month) return truth.hasMonth(claim.month);
+    return truth.hasYear(claim.year!);
+  }
+
+  const value = claim.value!;
+  const tolerance = claim.tolerance!;
+  if (truth.hasNumber(value, tolerance) || truth.hasNumber(Math.abs(value), tolerance)) return true;
+  // "25.3%" may be stored as 25.3 as well as 0.253
+  if (claim.percent === true && truth.hasNumber(Math.abs(value) * 100, tolerance * 100)) return true;
+
+  const [start, end] = sentenceBounds(narrative, claim.index);
+  return truth.hasStatedNumber(Math.abs(value), tolerance, conceptsIn(narrative.slice(start, end)));
+}
+
+function flagClaims(narrative: string, unsupported: NarrativeClaim[]): string {
+  let result = narrative;
+  // Back to front so earlier offsets stay valid
+  for (const claim of [...unsupported].sort((a, b) => b.index - a.index)) {
+    const end = claim.index + claim.text.length;
+    result = `${result.slice(0, end)} ${UNVERIFIED_MARKER}${result.slice(end)}`;
+  }
+  return result;
+}
+
+function removeSentences(narrative: string, unsupported: NarrativeClaim[]): string {
+  const ranges = unsupported.map(claim => sentenceBounds(narrative, claim.index)).sort((a, b) => a[0] - b[0]);
+  let result = '';
+  let cursor = 0;
+  for (const [start, end] of ranges) {
+    if (end <= cursor) continue;
+    result += narrative.slice(cursor, Math.max(cursor, start));
+    cursor = end;
+  }
+  result += narrative.slice(cursor);
+  return result.replace(/[ \t]{2,}/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+// A sentence ends at ., ! or ? followed by whitespace, or at a line break
+export function sentenceBounds(text: string, index: number): [number, number] {
+  let start = index;
+  while (start > 0 && !/[.!?]\s/.test(text.slice(start - 2, start)) && text[start - 1] !== '\n') start--;
+  let end = index;
+  while (end < text.length && !(/[.!?]/.test(text[end]) && (end + 1 >= text.length || /\s/.test(text[end + 1]))) && text[end] !== '\n') end++;
+  if (end < text.length && text[end] !== '\n') end++;
+  while (end < text.length && text[end] === ' ') end++;
+  return [start, end];
+}
+
+/** One line for AnswerAssessment.limitations, or null when every claim checked out */
+export function describeVerification(verification: ClaimVerification): string | null {
+  const { unsupported, claims, mode } = verification;
+  if (unsupported.length === 0) return null;
+
+  const examples = unsupported.slice(0, 5).map(claim => `"${claim.text}"`).join(', ');
+  const more = unsupported.length > 5 ? ` and ${unsupported.length - 5} more` : '';
+  const action = mode === 'remove' ? 'the sentences stating them were removed' : `they are marked ${UNVERIFIED_MARKER}`;
+  return `${unsupported.length} of ${claims.length} figures and dates in the narrative could not be matched to the source data and ${action}: ${examples}${more}`;
+}
@@ -0,0 +1,225 @@
+// Current Reports - Classifies 8-K filings by item and assembles company event timelines
+
+import { CompanyTimeline, CurrentReportItem, EventCategory, TimelineEvent } from './types';
+import { FilingSectionParser } from './filing-section-parser';
+import { buildArchivesUrl } from '../edgar-filing-index';
+
+interface ItemDefinition {
+  title: string;
+  category: EventCategory;
+  significance: TimelineEvent['significance'];
+}
+
+/**
+ * Form 8-K items. 2.02, 7.01 and 8.01 are the most common; 9.01 (exhibits)
+ * accompanies almost every report and never describes an event on its own.
+ */
+export const EIGHT_K_ITEMS: Record<string, ItemDefinition> = {
+  '1.01': { title: 'Entry into a Material Definitive Agreement', category: 'agreement', significance: 'medium' },
+  '1.02': { title: 'Termination of a Material Definitive Agreement', category: 'agreement', significance: 'medium' },
+  '1.03': { title: 'Bankruptcy or Receivership', category: 'bankruptcy', significance: 'high' },
+  '1.04': { title: 'Mine Safety - Reporting of Shutdowns and Patterns of Violations', category: 'mine_safety', significance: 'low' },
+  '1.05': { title: 'Material Cybersecurity Incidents', category: 'cybersecurity', significance: 'high' },
+  '2.01': { title: 'Completion of Acquisition or Disposition of Assets', category: 'acquisition', significance: 'high' },
+  '2.02': { title: 'Results of Operations and Financial Condition', category: 'earnings', significance: 'medium' },
+  '2.03': { title: 'Creation of a Direct Financial Obligation', category: 'financing', significance: 'medium' },
+  '2.04': { title: 'Triggering Events That Accelerate a Financial Obligation', category: 'financing', significance: 'high' },
+  '2.05': { title: 'Costs Associated with Exit or Disposal Activities', category: 'restructuring', significance: 'high' },
+  '2.06': { title: 'Material Impairments', category: 'impairment', significance: 'high' },
+  '3.01': { title: 'Notice of Delisting or Failure to Satisfy a Listing Rule', category: 'listing', significance: 'high' },
+  '3.02': { title: 'Unregistered Sales of Equity Securities', category: 'financing', significance: 'medium' },
+  '3.03': { title: 'Material Modification to Rights of Security Holders', category: 'governance', significance: 'medium' },
+  '4.01': { title: 'Changes in Registrant\'s Certifying Accountant', category: 'auditor', significance: 'high' },
+  '4.02': { title: 'Non-Reliance on Previously Issued Financial Statements', category: 'restatement', significance: 'high' },
+  '5.01': { title: 'Changes in Control of Registrant', category: 'control', significance: 'high' },
+  '5.02': { title: 'Departure or Appointment of Directors or Officers', category: 'leadership', significance: 'high' },
+  '5.03': { title: 'Amendments to Articles of Incorporation or Bylaws', category: 'governance', significance: 'low' },
+  '5.04': { title: 'Suspension of Trading Under Employee Benefit Plans', category: 'governance', significance: 'low' },
+  '5.05': { title: 'Amendments to the Code of Ethics', category: 'governance', significance: 'low' },
+  '5.06': { title: 'Change in Shell Company Status', category: 'control', significance: 'medium' },
+  '5.07': { title: 'Submission of Matters to a Vote of Security Holders', category: 'shareholder_vote', significance: 'low' },
+  '5.08': { title: 'Shareholder Director Nominations', category: 'governance', significance: 'low' },
+  '6.01': { title: 'ABS Informational and Computational Material', category: 'asset_backed', significance: 'low' },
+  '6.02': { title: 'Change of Servicer or Trustee', category: 'asset_backed', significance: 'low' },
+  '6.03': { title: 'Change in Credit Enhancement', category: 'asset_backed', significance: 'low' },
+  '6.04': { title: 'Failure to Make a Required Distribution', category: 'asset_backed', significance: 'medium' },
+  '6.05': { title: 'Securities Act Updating Disclosure', category: 'asset_backed', significance: 'low' },
+  '7.01': { title: 'Regulation FD Disclosure', category: 'disclosure', significance: 'low' },
+  '8.01': { title: 'Other Events', category: 'other', significance: 'low' },
+  '9.01': { title: 'Financial Statements and Exhibits', category: 'other', significance: 'low' }
+};
+
+const SIGNIFICANCE_RANK: Record<TimelineEvent['significance'], number> = { high: 3, medium: 2, low: 1 };
+const SUMMARY_LENGTH = 300;
+const FETCH_CONCURRENCY = 4;
+
+// A period after these does not end a sentence ("Mr. Roe", "Acme Corp. (the Company)")
+const ABBREVIATIONS = /\b(mr|ms|mrs|dr|inc|corp|co|ltd|llc|no|jr|sr|u\.s|st|vs)\.$/i;
+
+const sectionParser = new FilingSectionParser();
+
+function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  let start = 0;
+  for (const match of text.matchAll(/[.!?]+(?=\s+["(]?[A-Z0-9]|\s*$)/g)) {
+    const end = match.index! + match[0].length;
+    if (ABBREVIATIONS.test(text.substring(start, end))) continue;
+    sentences.push(text.substring(start, end).trim());
+    start = end;
+  }
+  if (start < text.length && text.substring(start).trim()) sentences.push(text.substring(start).trim());
+  return sentences;
+}
+
+/**
+ * Parse the items of an 8-K as listed in the submissions feed ("2.02,9.01").
+ * Unknown item numbers are kept with a generic title so nothing is dropped.
+ */
+export function parseCurrentReportItems(items: string | undefined): CurrentReportItem[] {
+  if (!items) return [];
+
+  return items
+    .split(/[,;\s]+/)
+    .map(item => item.trim())
+    .filter(item => /^\d\.\d{2}$/.test(item))
+    .map(item => {
+      const definition = EIGHT_K_ITEMS[item];
+      return {
+        item,
+        title: definition?.title || `Item ${item}`,
+        category: definition?.category || 'other'
+      };
+    });
+}
+
+/**
+ * Classify an 8-K by its items. The headline item is the most significant
+ * one, with 9.01 only chosen when the report lists nothing else.
+ */
+export function classifyCurrentReport(items: string | undefined): {
+  items: CurrentReportItem[];
+  primary?: CurrentReportItem;
+  significance: TimelineEvent['significance'];
+} {
+  const parsed = parseCurrentReportItems(items);
+  const candidates = parsed.filter(item => item.item !== '9.01');
+  const pool = candidates.length > 0 ? candidates : parsed;
+
+  const rank = (item: CurrentReportItem) => SIGNIFICANCE_RANK[EIGHT_K_ITEMS[item.item]?.significance || 'low'];
+  // Ties go to the lowest item number, which is how the form orders events by importance
+  const primary = pool.reduce<CurrentReportItem | undefined>(
+    (best, item) => (!best || rank(item) > rank(best) ? item : best),
+    undefined
+  );
+
+  return {
+    items: parsed,
+    primary,
+    significance: primary ? EIGHT_K_ITEMS[primary.item]?.significance || 'low' : 'low'
+  };
+}
+
+/**
+ * Pull a short summary for one item out of an 8-K document: the opening
+ * sentences under its "Item X.XX" heading, up to about 300 characters
+ */
+export function extractEventSummary(html: string, item: string): string | undefined {
+  const text = sectionParser.htmlToText(html);
+  const heading = new RegExp(`item\\s*${item.replace('.', '\\.')}\\.?[^\\n]*\\n`, 'gi');
+  const headings = Array.from(text.matchAll(heading));
+  if (headings.length === 0) return undefined;
+
+  // The last heading is the body, not a cover-page list of items
+  const match = headings[headings.length - 1];
+  const body = text.substring(match.index! + match[0].length);
+  const nextItem = body.search(/\n\s*item\s*\d\.\d{2}|\n\s*signatures?\s*\n/i);
+  const section = (nextItem >= 0 ? body.substring(0, nextItem) : body).replace(/\s+/g, ' ').trim();
+  if (!section) return undefined;
+
+  let summary = '';
+  for (const sentence of splitSentences(section)) {
+    const next = `${summary} ${sentence}`.trim();
+    if (summary && next.length > SUMMARY_LENGTH) break;
+    summary = next;
+  }
+
+  return summary.length > SUMMARY_LENGTH ? `${summary.substring(0, SUMMARY_LENGTH - 3).trimEnd()}...` : summary;
+}
+
+/**
+ * The events of a timeline worth calling out: bankruptcies, acquisitions,
+ * leadership changes, restatements and the like
+ */
+export function selectMilestones(events: TimelineEvent[]): TimelineEvent[] {
+  return events.filter(event => event.significance === 'high');
+}
+
+/**
+ * Build a company's event timeline from its 8-K filings, newest first.
+ * Summaries need one document fetch per report; set includeSummaries to
+ * false to classify from the submissions feed alone.
+ */
+export async function fetchCompanyTimeline(
+  cik: string,
+  options: { maxEvents?: number; since?: string; until?: string; includeSummaries?: boolean } = {}
+): Promise<CompanyTimeline> {
+  const { maxEvents = 20, since, until, includeSummaries = true } = options;
+  const paddedCik = cik.padStart(10, '0');
+  const headers = { 'User-Agent': process.env.SEC_API_USER_AGENT || 'SEC Query App/1.0' };
+
+  const response = await fetch(`https://data.sec.gov/submissions/CIK${paddedCik}.json`, { headers });
+  if (!response.ok) {
+    throw new Error(`SEC API error: ${response.status}`);
+  }
+  const submissions: any = await response.json();
+  const recent = submissions.filings?.recent;
+  if (!recent) return { events: [], milestones: [] };
+
+  const events: TimelineEvent[] = [];
+  const primaryItems = new Map<TimelineEvent, string>();
+  for (let i = 0; i < recent.form.length && events.length < maxEvents; i++) {
+    const form = recent.form[i];
+    const date = recent.filingDate[i];
+    if (form !== '8-K' && form !== '8-K/A') continue;
+    if ((since && date < since) || (until && date > until)) continue;
+
+    const classification = classifyCurrentReport(recent.items?.[i]);
+    const primary = classification.primary;
+    const accessionNumber = recent.accessionNumber[i];
+
+    const event: TimelineEvent = {
+      date,
+      eventDate: recent.reportDate?.[i] || undefined,
+      category: primary?.category || 'other',
+      title: form === '8-K/A'
+        ? `${primary?.title || 'Current Report'} (Amendment)`
+        : primary?.title || 'Current Report',
+      significance: classification.significance,
+      items: classification.items,
+      form,
+      accessionNumber,
+      url: recent.primaryDocument?.[i] ? buildArchivesUrl(paddedCik, accessionNumber, recent.primaryDocument[i]) : undefined
+    };
+    events.push(event);
+    if (primary) primaryItems.set(event, primary.item);
+  }
+
+  if (includeSummaries) {
+    for (let i = 0; i < events.length; i += FETCH_CONCURRENCY) {
+      await Promise.all(events.slice(i, i + FETCH_CONCURRENCY).map(async event => {
+        const item = primaryItems.get(event);
+        if (!event.url || !item) return;
+
+        try {
+          const documentResponse = await fetch(event.url, { headers });
+          if (!documentResponse.ok) return;
+          event.summary = extractEventSummary(await documentResponse.text(), item);
+        } catch (error) {
+          console.error(`Failed to summarize 8-K ${event.accessionNumber}:`, error);
+        }
+      }));
+    }
+  }
+
+  return { events, milestones: selectMilestones(events) };
+}
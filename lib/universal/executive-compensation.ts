@@ -0,0 +1,243 @@
+// Executive Compensation - Parses the Summary Compensation Table from DEF 14A proxy statements
+
+import { CompensationYear, ExecutiveCompensation, NamedExecutiveOfficer } from './types';
+import { FilingSectionParser } from './filing-section-parser';
+import { buildArchivesUrl } from '../edgar-filing-index';
+
+type CompensationField = Exclude<keyof CompensationYear, 'year'>;
+type Column = CompensationField | 'name' | 'year';
+
+interface Cell {
+  text: string;
+  start: number; // First grid column, after colspans and rowspans from earlier rows
+  span: number;
+}
+
+// Header wording varies by filer; the first pattern a header matches wins
+const COLUMN_PATTERNS: Array<[Column, RegExp]> = [
+  ['name', /name|principal position/i],
+  ['year', /^(fiscal )?year$/i],
+  ['nonEquityIncentive', /non-?equity/i],
+  ['salary', /salary/i],
+  ['bonus', /bonus/i],
+  ['stockAwards', /stock awards?/i],
+  ['optionAwards', /option awards?/i],
+  ['pensionAndDeferred', /pension|deferred/i],
+  ['allOther', /all other/i],
+  ['total', /^total/i]
+];
+
+const COMPONENT_FIELDS: CompensationField[] = [
+  'salary', 'bonus', 'stockAwards', 'optionAwards', 'nonEquityIncentive', 'pensionAndDeferred', 'allOther'
+];
+
+// Job titles, used to tell a title row apart from the next executive's name
+const TITLE_PATTERN = /\b(chief|officer|president|chair(man|woman|person)?|ceo|cfo|coo|cto|director|counsel|secretary|treasurer|vice|former|executive|founder|head|partner|controller)\b/i;
+const YEAR_PATTERN = /^(19|20)\d{2}$/;
+
+const sectionParser = new FilingSectionParser();
+
+function cellText(html: string): string {
+  // Footnote markers sit in <sup>; dropping them keeps "Salary ($)(1)" and "2,000,000(2)" clean
+  return sectionParser.htmlToText(html.replace(/<sup[\s\S]*?<\/sup>/gi, ''))
+    .replace(/(?<=\S)\(\d{1,2}\)/g, '')
+    .trim();
+}
+
+/**
+ * Split a table into rows of positioned cells, honouring colspan and rowspan
+ * so that values line up with the headers above them
+ */
+function tableRows(table: string): Cell[][] {
+  const rows: Cell[][] = [];
+  const carried: number[] = []; // Rows still covered by a rowspan, per grid column
+
+  for (const rowMatch of table.matchAll(/<tr[\s\S]*?<\/tr>/gi)) {
+    const cells: Cell[] = [];
+    let column = 0;
+
+    for (const cellMatch of rowMatch[0].matchAll(/<t([dh])(\s[^>]*)?>([\s\S]*?)<\/t\1>/gi)) {
+      while (carried[column] > 0) column++;
+
+      const attributes = cellMatch[2] || '';
+      const span = parseInt(attributes.match(/colspan\s*=\s*["']?(\d+)/i)?.[1] || '1', 10);
+      const rowSpan = parseInt(attributes.match(/rowspan\s*=\s*["']?(\d+)/i)?.[1] || '1', 10);
+
+      cells.push({ text: cellText(cellMatch[3]), start: column, span });
+      for (let i = column; i < column + span; i++) {
+        carried[i] = Math.max(carried[i] || 0, rowSpan);
+      }
+      column += span;
+    }
+
+    carried.forEach((remaining, index) => {
+      carried[index] = Math.max(remaining - 1, 0);
+    });
+    rows.push(cells.filter(cell => cell.text && cell.text !== '$'));
+  }
+
+  return rows;
+}
+
+function classifyHeader(label: string): Column | undefined {
+  const normalized = label.replace(/\(\$\)|\$/g, '').replace(/\s+/g, ' ').trim();
+  return COLUMN_PATTERNS.find(([, pattern]) => pattern.test(normalized))?.[0];
+}
+
+// Dashes mean nothing was paid; parentheses are negative (pension values can fall)
+function parseAmount(text: string): number | undefined {
+  const cleaned = text.replace(/[$,\s]/g, '');
+  if (/^[—–\-−]+$/.test(cleaned)) return 0;
+
+  const match = cleaned.match(/^\(?(\d+(?:\.\d+)?)\)?$/);
+  if (!match) return undefined;
+  const value = parseFloat(match[1]);
+  return cleaned.startsWith('(') ? -value : value;
+}
+
+function splitNameAndTitle(text: string): { name: string; title?: string } {
+  const lines = text.split('\n').map(line => line.replace(/\s+\(\d{1,2}\)$/, '').trim()).filter(Boolean);
+  if (lines.length > 1) {
+    return { name: lines[0], title: lines.slice(1).join(' ') };
+  }
+
+  // "Jane Doe, Chief Financial Officer" on one line
+  const comma = text.indexOf(',');
+  if (comma > 0 && TITLE_PATTERN.test(text.substring(comma + 1))) {
+    return { name: text.substring(0, comma).trim(), title: text.substring(comma + 1).trim() };
+  }
+  return { name: text.trim() };
+}
+
+/**
+ * Find the Summary Compensation Table: the first table with Year, Salary and
+ * Total columns. Tables after a "Summary Compensation Table" heading are tried
+ * first, so the pay-versus-performance and director tables are not mistaken for it.
+ */
+function findSummaryCompensationTable(html: string): string | undefined {
+  const tables = Array.from(html.matchAll(/<table[\s\S]*?<\/table>/gi), match => ({ html: match[0], index: match.index! }));
+  const headingIndexes = Array.from(html.matchAll(/summary\s+compensation\s+table/gi), match => match.index!);
+
+  const isCompensationTable = (table: string) => {
+    const headerText = sectionParser.htmlToText(table).toLowerCase();
+    return /\byear\b/.test(headerText) && headerText.includes('salary') && /\btotal\b/.test(headerText);
+  };
+
+  const afterHeading = tables.filter(table => headingIndexes.some(index => index < table.index));
+  return (afterHeading.find(table => isCompensationTable(table.html)) || tables.find(table => isCompensationTable(table.html)))?.html;
+}
+
+/**
+ * Parse the Summary Compensation Table of a proxy statement into named
+ * executive officers with one entry per fiscal year
+ */
+export function parseSummaryCompensationTable(html: string): NamedExecutiveOfficer[] {
+  const table = findSummaryCompensationTable(html);
+  if (!table) return [];
+
+  const rows = tableRows(table);
+  const firstDataRow = rows.findIndex(row => row.some(cell => YEAR_PATTERN.test(cell.text)));
+  if (firstDataRow < 1) return [];
+
+  // Headers can stack over several rows ("Stock" / "Awards"), so labels are built per grid column
+  const labels: string[] = [];
+  rows.slice(0, firstDataRow).forEach(row => row.forEach(cell => {
+    for (let i = cell.start; i < cell.start + cell.span; i++) {
+      labels[i] = labels[i] ? `${labels[i]} ${cell.text}` : cell.text;
+    }
+  }));
+  const columns = labels.map(label => (label ? classifyHeader(label) : undefined));
+
+  // Values are sometimes offset a column or two from their header's span
+  const columnAt = (start: number): Column | undefined => {
+    for (let i = start; i >= Math.max(start - 2, 0); i--) {
+      if (columns[i]) return columns[i];
+    }
+    return undefined;
+  };
+
+  const executives: NamedExecutiveOfficer[] = [];
+  let current: NamedExecutiveOfficer | undefined;
+  let pendingName: string | undefined;
+
+  const startExecutive = (text: string) => {
+    const { name, title } = splitNameAndTitle(text);
+    current = { name, title, years: [] };
+    executives.push(current);
+  };
+
+  rows.slice(firstDataRow).forEach(row => {
+    const yearCell = row.find(cell => YEAR_PATTERN.test(cell.text) && columnAt(cell.start) !== 'name');
+    const nameText = row
+      .filter(cell => cell !== yearCell && parseAmount(cell.text) === undefined && (!yearCell || cell.start < yearCell.start))
+      .map(cell => cell.text)
+      .join('\n');
+
+    if (nameText) {
+      if (current && !current.title && current.years.length <= 1 && TITLE_PATTERN.test(nameText) && !nameText.includes('\n')) {
+        current.title = nameText;
+      } else if (yearCell) {
+        startExecutive(pendingName ? `${pendingName}\n${nameText}` : nameText);
+        pendingName = undefined;
+      } else {
+        pendingName = pendingName ? `${pendingName}\n${nameText}` : nameText;
+      }
+    }
+    if (!yearCell) return;
+
+    if (pendingName) {
+      startExecutive(pendingName);
+      pendingName = undefined;
+    }
+    if (!current) return;
+
+    const entry: CompensationYear = { year: parseInt(yearCell.text, 10) };
+    row.filter(cell => cell.start > yearCell.start).forEach(cell => {
+      const column = columnAt(cell.start);
+      const amount = parseAmount(cell.text);
+      if (!column || column === 'name' || column === 'year' || amount === undefined) return;
+      entry[column] = (entry[column] || 0) + amount;
+    });
+
+    if (entry.total === undefined && COMPONENT_FIELDS.some(field => entry[field] !== undefined)) {
+      entry.total = COMPONENT_FIELDS.reduce((sum, field) => sum + (entry[field] || 0), 0);
+    }
+    current.years.push(entry);
+  });
+
+  return executives
+    .filter(executive => executive.years.length > 0)
+    .map(executive => ({ ...executive, years: executive.years.sort((a, b) => b.year - a.year) }));
+}
+
+/**
+ * Fetch the company's latest definitive proxy statement and parse its
+ * Summary Compensation Table; null when the company has no DEF 14A
+ */
+export async function fetchExecutiveCompensation(cik: string): Promise<ExecutiveCompensation | null> {
+  const paddedCik = cik.padStart(10, '0');
+  const headers = { 'User-Agent': process.env.SEC_API_USER_AGENT || 'SEC Query App/1.0' };
+
+  const response = await fetch(`https://data.sec.gov/submissions/CIK${paddedCik}.json`, { headers });
+  if (!response.ok) {
+    throw new Error(`SEC API error: ${response.status}`);
+  }
+  const submissions: any = await response.json();
+  const recent = submissions.filings?.recent;
+  const index = recent ? recent.form.findIndex((form: string) => form === 'DEF 14A') : -1;
+  if (index < 0) return null;
+
+  const accessionNumber = recent.accessionNumber[index];
+  const url = buildArchivesUrl(paddedCik, accessionNumber, recent.primaryDocument[index]);
+  const documentResponse = await fetch(url, { headers });
+  if (!documentResponse.ok) {
+    throw new Error(`Failed to fetch proxy statement: ${documentResponse.status}`);
+  }
+
+  return {
+    accessionNumber,
+    filingDate: recent.filingDate[index],
+    url,
+    executives: parseSummaryCompensationTable(await documentResponse.text())
+  };
+}
@@ -0,0 +1,359 @@
+// Filing Section Parser - Splits 10-K/10-Q primary documents into their Items
+
+import { FilingContent, RiskFactor, LegalProceeding } from './types';
+
+export interface FilingSection {
+  item: string; // "1A", "7"
+  part?: string; // "I", "II" (10-Q items repeat across parts)
+  title: string;
+  text: string;
+  position: number; // Character offset of the heading in the extracted text
+}
+
+export interface ParsedFiling {
+  formType: string;
+  sections: FilingSection[];
+  text: string;
+}
+
+interface HeadingCandidate {
+  key: string;
+  item: string;
+  part?: string;
+  title: string;
+  position: number;
+  contentStart: number;
+  tocEntry: boolean;
+}
+
+const TEN_K_ITEMS: { [item: string]: string } = {
+  '1': 'Business',
+  '1A': 'Risk Factors',
+  '1B': 'Unresolved Staff Comments',
+  '1C': 'Cybersecurity',
+  '2': 'Properties',
+  '3': 'Legal Proceedings',
+  '4': 'Mine Safety Disclosures',
+  '5': "Market for Registrant's Common Equity, Related Stockholder Matters and Issuer Purchases of Equity Securities",
+  '6': '[Reserved]',
+  '7': "Management's Discussion and Analysis of Financial Condition and Results of Operations",
+  '7A': 'Quantitative and Qualitative Disclosures About Market Risk',
+  '8': 'Financial Statements and Supplementary Data',
+  '9': 'Changes in and Disagreements with Accountants on Accounting and Financial Disclosure',
+  '9A': 'Controls and Procedures',
+  '9B': 'Other Information',
+  '9C': 'Disclosure Regarding Foreign Jurisdictions that Prevent Inspections',
+  '10': 'Directors, Executive Officers and Corporate Governance',
+  '11': 'Executive Compensation',
+  '12': 'Security Ownership of Certain Beneficial Owners and Management and Related Stockholder Matters',
+  '13': 'Certain Relationships and Related Transactions, and Director Independence',
+  '14': 'Principal Accountant Fees and Services',
+  '15': 'Exhibits and Financial Statement Schedules',
+  '16': 'Form 10-K Summary'
+};
+
+const TEN_Q_ITEMS: { [key: string]: string } = {
+  'I:1': 'Financial Statements',
+  'I:2': "Management's Discussion and Analysis of Financial Condition and Results of Operations",
+  'I:3': 'Quantitative and Qualitative Disclosures About Market Risk',
+  'I:4': 'Controls and Procedures',
+  'II:1': 'Legal Proceedings',
+  'II:1A': 'Risk Factors',
+  'II:2': 'Unregistered Sales of Equity Securities and Use of Proceeds',
+  'II:3': 'Defaults Upon Senior Securities',
+  'II:4': 'Mine Safety Disclosures',
+  'II:5': 'Other Information',
+  'II:6': 'Exhibits'
+};
+
+// Where each FilingContent field lives, by form
+const CONTENT_ITEMS = {
+  '10-K': { business: '1', risk: '1A', mdna: '7', legal: '3' },
+  '10-Q': { business: null, risk: 'II:1A', mdna: 'I:2', legal: 'II:1' }
+};
+
+const ITEM_HEADING = /^(?:part\s+(i{1,3}|iv)\s*[.,:\-–—]?\s*)?item\s*(\d{1,2}\s*[a-c]?)\s*[.:\-–—]?\s*(.*)$/i;
+const PART_HEADING = /^part\s+(i{1,3}|iv)\b/i;
+// "Item 7 of this report", "Item 1A above" are cross-references, not headings
+const CROSS_REFERENCE = /^(?:of|in|and|or|to|above|below|herein|for|as|under|through|hereof)\b/i;
+// Table of contents rows end with a page number
+const PAGE_NUMBER = /\s(?:\d{1,3}|[ivx]{1,5})$/i;
+
+const MAX_CONTENT_LENGTH = 50000;
+
+export class FilingSectionParser {
+
+  parse(html: string, formType: string): ParsedFiling {
+    const form = this.baseForm(formType);
+    const text = this.htmlToText(html);
+    const candidates = this.findHeadings(text, form);
+
+    // Each item usually appears twice: once in the table of contents, once as the real heading.
+    // Keep the occurrence with the most content before the next heading.
+    const best = new Map<string, { heading: HeadingCandidate; length: number }>();
+    candidates.forEach((heading, index) => {
+      if (heading.tocEntry) return;
+      const next = candidates[index + 1];
+      const length = (next ? next.position : text.length) - heading.contentStart;
+      const existing = best.get(heading.key);
+      if (!existing || length > existing.length) {
+        best.set(heading.key, { heading, length });
+      }
+    });
+
+    const chosen = Array.from(best.values())
+      .map(entry => entry.heading)
+      .sort((a, b) => a.position - b.position);
+
+    const sections = chosen.map((heading, index) => {
+      const next = chosen[index + 1];
+      return {
+        item: heading.item,
+        part: heading.part,
+        title: this.itemTitle(form, heading) || heading.title,
+        text: text.substring(heading.contentStart, next ? next.position : text.length).trim(),
+        position: heading.position
+      };
+    });
+
+    return { formType: form, sections, text };
+  }
+
+  getSection(parsed: ParsedFiling, key: string | null): FilingSection | undefined {
+    if (!key) return undefined;
+    const [part, item] = key.includes(':') ? key.split(':') : [undefined, key];
+    return parsed.sections.find(section =>
+      section.item === item && (!part || section.part === part)
+    );
+  }
+
+  toFilingContent(parsed: ParsedFiling): FilingContent {
+    const items = CONTENT_ITEMS[parsed.formType as keyof typeof CONTENT_ITEMS];
+    if (!items) return {};
+
+    const business = this.getSection(parsed, items.business);
+    const risk = this.getSection(parsed, items.risk);
+    const mdna = this.getSection(parsed, items.mdna);
+    const legal = this.getSection(parsed, items.legal);
+
+    const content: FilingContent = {
+      structured_data: {
+        sections: parsed.sections.map(section => ({
+          item: section.item,
+          part: section.part,
+          title: section.title,
+          length: section.text.length
+        }))
+      }
+    };
+
+    if (business) content.business_description = business.text.substring(0, MAX_CONTENT_LENGTH);
+    if (risk) content.risk_factors = this.parseRiskFactors(risk.text);
+    if (mdna) content.management_discussion = mdna.text.substring(0, MAX_CONTENT_LENGTH);
+    if (legal) content.legal_proceedings = this.parseLegalProceedings(legal.text);
+
+    return content;
+  }
+
+  // First substantial paragraphs of Item 1, for company profiles
+  summarizeBusiness(text: string, maxLength: number = 2000): string {
+    const paragraphs = this.paragraphs(text).filter(p => p.length > 100);
+    return paragraphs.slice(0, 3).join('\n\n').substring(0, maxLength);
+  }
+
+  parseRiskFactors(text: string): RiskFactor[] {
+    const paragraphs = this.paragraphs(text);
+    const riskFactors: RiskFactor[] = [];
+    let current: { title: string; body: string[] } | null = null;
+
+    const flush = () => {
+      if (!current) return;
+      const description = [current.title, ...current.body].join(' ');
+      riskFactors.push({
+        title: current.title,
+        category: this.categorizeRiskFactor(description),
+        description: current.body.join(' ').substring(0, 1000) || current.title,
+        severity: this.assessRiskSeverity(description),
+        likelihood: 'possible',
+        trend: 'stable'
+      });
+    };
+
+    paragraphs.forEach((paragraph, index) => {
+      const next = paragraphs[index + 1];
+      // Risk factor headings are a single sentence followed by a longer explanation;
+      // group headings ("Risks Related to Our Business") have no terminal punctuation
+      const isHeading = paragraph.length >= 30 && paragraph.length <= 400 &&
+        /[.!?]$/.test(paragraph) && !/[.!?]\s+[A-Z]/.test(paragraph) &&
+        !!next && next.length > paragraph.length;
+      const isGroupHeading = paragraph.length < 120 && !/[.!?:]$/.test(paragraph);
+
+      if (isHeading) {
+        flush();
+        current = { title: paragraph, body: [] };
+      } else if (current && !isGroupHeading) {
+        current.body.push(paragraph);
+      }
+    });
+    flush();
+
+    return riskFactors;
+  }
+
+  parseLegalProceedings(text: string): LegalProceeding[] {
+    const paragraphs = this.paragraphs(text).filter(p => p.length > 80);
+    if (paragraphs.length === 0 || /^(?:none|not applicable)\.?$/i.test(text.trim())) return [];
+
+    return paragraphs.slice(0, 10).map(paragraph => {
+      // Party names are runs of capitalized words on either side of "v."
+      const caseName = paragraph.match(/(?:[A-Z][\w.&'-]*\s+){1,6}v\.\s+(?:[A-Z][\w.&'-]*(?:\s+|$)){1,6}/);
+      return {
+        case: caseName ? caseName[0].trim() : paragraph.split(/(?<=\.)\s/)[0].substring(0, 200),
+        status: this.legalStatus(paragraph),
+        description: paragraph.substring(0, 1000)
+      };
+    });
+  }
+
+  htmlToText(html: string): string {
+    return this.decodeEntities(
+      html
+        // Inline XBRL headers hold hidden facts that are not part of the document text
+        .replace(/<ix:header[\s\S]*?<\/ix:header>/gi, ' ')
+        .replace(/<(script|style|head|title)[\s\S]*?<\/\1>/gi, ' ')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(p|div|tr|li|h[1-6]|table|center)>/gi, '\n')
+        .replace(/<\/t[dh]>/gi, ' ')
+        .replace(/<[^>]*>/g, '')
+    )
+      .replace(/[ \t ]+/g, ' ')
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line.length > 0)
+      .join('\n');
+  }
+
+  private findHeadings(text: string, form: string): HeadingCandidate[] {
+    const headings: HeadingCandidate[] = [];
+    let part: string | undefined;
+    let position = 0;
+
+    for (const line of text.split('\n')) {
+      const partMatch = line.match(PART_HEADING);
+      if (partMatch) part = partMatch[1].toUpperCase();
+
+      const match = line.length <= 300 ? line.match(ITEM_HEADING) : null;
+      if (match && !CROSS_REFERENCE.test(match[3])) {
+        const item = match[2].replace(/\s+/g, '').toUpperCase();
+        const headingPart = match[1] ? match[1].toUpperCase() : part;
+        const key = form === '10-Q' ? `${headingPart || 'I'}:${item}` : item;
+
+        headings.push({
+          key,
+          item,
+          part: form === '10-Q' ? headingPart || 'I' : headingPart,
+          title: match[3].replace(PAGE_NUMBER, '').trim(),
+          position,
+          contentStart: position + line.length + 1,
+          tocEntry: PAGE_NUMBER.test(line) && match[3].length < 200
+        });
+      }
+
+      position += line.length + 1;
+    }
+
+    return headings;
+  }
+
+  private itemTitle(form: string, heading: HeadingCandidate): string | undefined {
+    return form === '10-Q' ? TEN_Q_ITEMS[heading.key] : TEN_K_ITEMS[heading.item];
+  }
+
+  private baseForm(formType: string): string {
+    const form = formType.toUpperCase().replace(/\/A$/, '');
+    if (form === '10-KT' || form === '10-K405') return '10-K';
+    if (form === '10-QT') return '10-Q';
+    return form;
+  }
+
+  private paragraphs(text: string): string[] {
+    return text.split('\n').map(p => p.trim()).filter(p => p.length > 0);
+  }
+
+  private decodeEntities(text: string): string {
+    const named: { [entity: string]: string } = {
+      nbsp: ' ', amp: '&', lt: '<', gt: '>', quot: '"', apos: "'",
+      rsquo: "'", lsquo: "'", rdquo: '"', ldquo: '"', mdash: '—', ndash: '–', bull: '•', hellip: '...'
+    };
+
+    return text
+      .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+      .replace(/&#(\d+);/g, (_, dec) => String.fromCharCode(parseInt(dec, 10)))
+      .replace(/&([a-z]+);/gi, (entity, name) => named[name.toLowerCase()] ?? entity);
+  }
+
+  private legalStatus(text: string): string {
+    const lowerText = text.toLowerCase();
+    if (lowerText.includes('settle')) return 'settled';
+    if (lowerText.includes('dismiss')) return 'dismissed';
+    if (lowerText.includes('appeal')) return 'on appeal';
+    if (lowerText.includes('judgment') || lowerText.includes('verdict')) return 'decided';
+    return 'pending';
+  }
+
+  private categorizeRiskFactor(riskText: string): string {
+    const lowerText = riskText.toLowerCase();
+
+    if (lowerText.includes('cyber') || lowerText.includes('data') || lowerText.includes('security')) {
+      return 'Cybersecurity & Data Protection';
+    }
+    if (lowerText.includes('regulatory') || lowerText.includes('compliance') || lowerText.includes('legal')) {
+      return 'Regulatory & Legal';
+    }
+    if (lowerText.includes('market') || lowerText.includes('competition') || lowerText.includes('customer')) {
+      return 'Market & Competition';
+    }
+    if (lowerText.includes('financial') || lowerText.includes('credit') || lowerText.includes('liquidity')) {
+      return 'Financial';
+    }
+    if (lowerText.includes('operational') || lowerText.includes('supply') || lowerText.includes('manufacturing')) {
+      return 'Operational';
+    }
+    if (lowerText.includes('technology') || lowerText.includes('innovation') || lowerText.includes('intellectual')) {
+      return 'Technology & IP';
+    }
+    if (lowerText.includes('human') || lowerText.includes('talent') || lowerText.includes('employee')) {
+      return 'Human Capital';
+    }
+    if (lowerText.includes('environmental') || lowerText.includes('climate') || lowerText.includes('sustainability')) {
+      return 'Environmental & Climate';
+    }
+
+    return 'General Business';
+  }
+
+  private assessRiskSeverity(riskText: string): 'low' | 'medium' | 'high' | 'critical' {
+    const lowerText = riskText.toLowerCase();
+
+    // Critical risk indicators
+    if (lowerText.includes('material adverse') || lowerText.includes('significant harm') ||
+        lowerText.includes('going concern') || lowerText.includes('bankruptcy')) {
+      return 'critical';
+    }
+
+    // High risk indicators
+    if (lowerText.includes('substantial') || lowerText.includes('significant') ||
+        lowerText.includes('materially') || lowerText.includes('severe')) {
+      return 'high';
+    }
+
+    // Medium risk indicators
+    if (lowerText.includes('adverse') || lowerText.includes('negative') ||
+        lowerText.includes('harm') || lowerText.includes('impact')) {
+      return 'medium';
+    }
+
+    // Default to low
+    return 'low';
+  }
+}
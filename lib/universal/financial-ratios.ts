@@ -0,0 +1,212 @@
+// Financial Ratio Calculator - Derives period-aligned ratios from XBRL company facts
+
+import { FinancialRatio, RatioInput } from './types';
+import { resolveConcept, ResolvedConcept } from '../xbrl-concepts';
+import { normalizePeriods, NormalizedPeriods, NormalizedValue } from '../xbrl-periods';
+
+// Ratio inputs keyed by their standard metric (see lib/xbrl-concepts.ts)
+const RATIO_INPUTS: { [key: string]: string } = {
+  revenue: 'TotalRevenue',
+  costOfRevenue: 'CostOfRevenue',
+  grossProfit: 'GrossProfit',
+  operatingIncome: 'OperatingIncome',
+  netIncome: 'NetIncome',
+  interestExpense: 'InterestExpense',
+  totalAssets: 'TotalAssets',
+  currentAssets: 'CurrentAssets',
+  currentLiabilities: 'CurrentLiabilities',
+  cash: 'CashAndEquivalents',
+  shortTermInvestments: 'ShortTermInvestments',
+  receivables: 'AccountsReceivable',
+  equity: 'StockholdersEquity',
+  longTermDebt: 'LongTermDebt',
+  currentDebt: 'CurrentDebt'
+};
+
+interface RatioSource {
+  resolved: ResolvedConcept;
+  periods: NormalizedPeriods;
+}
+
+export class FinancialRatioCalculator {
+
+  calculate(facts: any): FinancialRatio[] {
+    if (!facts?.facts) return [];
+
+    const inputs = new Map<string, RatioSource>();
+    for (const [key, standardName] of Object.entries(RATIO_INPUTS)) {
+      const resolved = resolveConcept(facts, standardName);
+      if (resolved) {
+        inputs.set(key, { resolved, periods: normalizePeriods(resolved.values, { instant: resolved.metric.instant }) });
+      }
+    }
+
+    const anchor = this.findAnchorPeriod(inputs);
+    if (!anchor) return [];
+
+    const priorEnd = this.findPriorBalanceDate(inputs.get('totalAssets'), anchor.fiscalYear);
+    const get = (key: string, end: string = anchor.end) => this.getValue(inputs.get(key), end);
+
+    const revenue = get('revenue');
+    const costOfRevenue = get('costOfRevenue');
+    const grossProfit = get('grossProfit');
+    const operatingIncome = get('operatingIncome');
+    const netIncome = get('netIncome');
+    const interestExpense = get('interestExpense');
+    const totalAssets = get('totalAssets');
+    const currentAssets = get('currentAssets');
+    const currentLiabilities = get('currentLiabilities');
+    const cash = get('cash');
+    const shortTermInvestments = get('shortTermInvestments');
+    const receivables = get('receivables');
+    const equity = get('equity');
+    const longTermDebt = get('longTermDebt');
+    const currentDebt = get('currentDebt');
+    const priorAssets = priorEnd ? get('totalAssets', priorEnd) : null;
+    const priorEquity = priorEnd ? get('equity', priorEnd) : null;
+
+    const ratios: FinancialRatio[] = [];
+    const add = (
+      name: string,
+      category: FinancialRatio['category'],
+      unit: FinancialRatio['unit'],
+      formula: string,
+      inputs: RatioInput[],
+      value: number
+    ) => {
+      if (!isFinite(value)) return;
+      ratios.push({
+        name,
+        value,
+        category,
+        unit,
+        formula,
+        period: { start: new Date(anchor.start), end: new Date(anchor.end), description: `FY${anchor.fiscalYear}` },
+        fiscalYear: anchor.fiscalYear,
+        inputs
+      });
+    };
+
+    // Profitability
+    if (revenue && revenue.value !== 0) {
+      if (grossProfit) {
+        add('Gross Margin', 'profitability', 'percent', 'Gross Profit / Revenue',
+          [grossProfit, revenue], grossProfit.value / revenue.value);
+      } else if (costOfRevenue) {
+        add('Gross Margin', 'profitability', 'percent', '(Revenue - Cost of Revenue) / Revenue',
+          [revenue, costOfRevenue], (revenue.value - costOfRevenue.value) / revenue.value);
+      }
+
+      if (operatingIncome) {
+        add('Operating Margin', 'profitability', 'percent', 'Operating Income / Revenue',
+          [operatingIncome, revenue], operatingIncome.value / revenue.value);
+      }
+
+      if (netIncome) {
+        add('Net Margin', 'profitability', 'percent', 'Net Income / Revenue',
+          [netIncome, revenue], netIncome.value / revenue.value);
+      }
+    }
+
+    // Returns
+    if (netIncome && equity) {
+      const average = this.average(equity, priorEquity);
+      add('Return on Equity', 'returns', 'percent',
+        `Net Income / ${average.averaged ? "Average Stockholders' Equity" : "Ending Stockholders' Equity"}`,
+        [netIncome, ...average.inputs], netIncome.value / average.value);
+    }
+
+    if (netIncome && totalAssets) {
+      const average = this.average(totalAssets, priorAssets);
+      add('Return on Assets', 'returns', 'percent',
+        `Net Income / ${average.averaged ? 'Average Total Assets' : 'Ending Total Assets'}`,
+        [netIncome, ...average.inputs], netIncome.value / average.value);
+    }
+
+    // Liquidity
+    if (currentAssets && currentLiabilities && currentLiabilities.value !== 0) {
+      add('Current Ratio', 'liquidity', 'ratio', 'Current Assets / Current Liabilities',
+        [currentAssets, currentLiabilities], currentAssets.value / currentLiabilities.value);
+    }
+
+    if (cash && currentLiabilities && currentLiabilities.value !== 0) {
+      const quickAssets = [cash, shortTermInvestments, receivables].filter(Boolean) as RatioInput[];
+      add('Quick Ratio', 'liquidity', 'ratio',
+        `(${quickAssets.map(i => i.label).join(' + ')}) / Current Liabilities`,
+        [...quickAssets, currentLiabilities],
+        quickAssets.reduce((sum, i) => sum + i.value, 0) / currentLiabilities.value);
+    }
+
+    // Leverage
+    if (equity && equity.value !== 0 && (longTermDebt || currentDebt)) {
+      const debtInputs = [longTermDebt, currentDebt].filter(Boolean) as RatioInput[];
+      add('Debt to Equity', 'leverage', 'ratio',
+        `(${debtInputs.map(i => i.label).join(' + ')}) / Stockholders' Equity`,
+        [...debtInputs, equity],
+        debtInputs.reduce((sum, i) => sum + i.value, 0) / equity.value);
+    }
+
+    if (operatingIncome && interestExpense && interestExpense.value !== 0) {
+      add('Interest Coverage', 'leverage', 'times', 'Operating Income / Interest Expense',
+        [operatingIncome, interestExpense], operatingIncome.value / interestExpense.value);
+    }
+
+    // Efficiency
+    if (revenue && totalAssets) {
+      const average = this.average(totalAssets, priorAssets);
+      add('Asset Turnover', 'efficiency', 'times',
+        `Revenue / ${average.averaged ? 'Average Total Assets' : 'Ending Total Assets'}`,
+        [revenue, ...average.inputs], revenue.value / average.value);
+    }
+
+    return ratios;
+  }
+
+  // Latest fiscal year with an annual income statement; every ratio is aligned to its end date
+  private findAnchorPeriod(inputs: Map<string, RatioSource>): { start: string; end: string; fiscalYear: number } | null {
+    let anchor: NormalizedValue | null = null;
+
+    for (const key of ['revenue', 'netIncome']) {
+      const annual = inputs.get(key)?.periods.annual || [];
+      const latest = annual[annual.length - 1];
+      if (latest && (!anchor || latest.end > anchor.end)) anchor = latest;
+    }
+
+    if (!anchor || !anchor.start) return null;
+
+    return {
+      start: anchor.start,
+      end: anchor.end,
+      fiscalYear: anchor.fiscalYear
+    };
+  }
+
+  private findPriorBalanceDate(totalAssets: RatioSource | undefined, fiscalYear: number): string | null {
+    const prior = totalAssets?.periods.annual.find(value => value.fiscalYear === fiscalYear - 1);
+    return prior ? prior.end : null;
+  }
+
+  private getValue(source: RatioSource | undefined, end: string): RatioInput | null {
+    if (!source) return null;
+
+    // Normalized periods already carry the latest restated value for each period
+    const match = source.periods.annual.find(value => value.end === end) ||
+      (source.resolved.metric.instant ? source.periods.quarterly.find(value => value.end === end) : undefined);
+    if (!match) return null;
+
+    return {
+      label: source.resolved.metric.label,
+      concept: `${match.taxonomy}:${match.concept}`,
+      value: match.value,
+      end: match.end,
+      accessionNumber: match.accessionNumber
+    };
+  }
+
+  private average(current: RatioInput, prior: RatioInput | null): { value: number; averaged: boolean; inputs: RatioInput[] } {
+    if (!prior) {
+      return { value: current.value, averaged: false, inputs: [current] };
+    }
+    return { value: (current.value + prior.value) / 2, averaged: true, inputs: [current, prior] };
+  }
+}
@@ -0,0 +1,199 @@
+// Financial Trend Analyzer - Builds multi-period series from XBRL company facts
+
+import { FinancialTrend, TrendPoint, InflectionPoint } from './types';
+import { resolveConcept } from '../xbrl-concepts';
+import { normalizePeriods, NormalizedValue } from '../xbrl-periods';
+
+// Standard metrics (see lib/xbrl-concepts.ts) that get a trend series
+const TREND_METRICS = [
+  'TotalRevenue',
+  'GrossProfit',
+  'OperatingIncome',
+  'NetIncome',
+  'EPSDiluted',
+  'OperatingCashFlow',
+  'TotalAssets'
+];
+
+const MAX_ANNUAL_POINTS = 5;
+const MAX_QUARTERLY_POINTS = 8;
+
+// Growth below this magnitude is reported as 'stable'
+const STABLE_THRESHOLD = 0.02;
+// Change in growth rate (percentage points) that counts as acceleration/deceleration
+const ACCELERATION_THRESHOLD = 0.1;
+
+export class FinancialTrendAnalyzer {
+
+  analyze(facts: any): FinancialTrend[] {
+    if (!facts?.facts) return [];
+
+    const trends: FinancialTrend[] = [];
+
+    for (const standardName of TREND_METRICS) {
+      const resolved = resolveConcept(facts, standardName);
+      if (!resolved) continue;
+
+      const info = {
+        metric: resolved.metric.key,
+        concept: `${resolved.taxonomy}:${resolved.concept}`,
+        unit: resolved.unit
+      };
+
+      // One canonical value per fiscal year and quarter, with restatements applied and Q4 derived
+      const periods = normalizePeriods(resolved.values, { instant: resolved.metric.instant });
+
+      const annual = periods.annual.map(value => this.toPoint(value)).slice(-MAX_ANNUAL_POINTS);
+      const annualTrend = this.buildTrend(info, 'annual', annual);
+      if (annualTrend) trends.push(annualTrend);
+
+      const quarterly = periods.quarterly.map(value => this.toPoint(value)).slice(-MAX_QUARTERLY_POINTS);
+      const quarterlyTrend = this.buildTrend(info, 'quarterly', quarterly);
+      if (quarterlyTrend) trends.push(quarterlyTrend);
+    }
+
+    return trends;
+  }
+
+  private toPoint(value: NormalizedValue): TrendPoint {
+    return {
+      period: value.label,
+      start: value.start,
+      end: value.end,
+      value: value.value,
+      accessionNumber: value.accessionNumber,
+      derived: value.derived || undefined
+    };
+  }
+
+  private buildTrend(
+    info: { metric: string; concept: string; unit: string },
+    periodType: 'annual' | 'quarterly',
+    series: TrendPoint[]
+  ): FinancialTrend | null {
+    if (series.length < 2) return null;
+
+    this.applyGrowthRates(series, periodType);
+
+    const latestGrowth = series[series.length - 1].growth ?? 0;
+
+    return {
+      metric: info.metric,
+      direction: this.getDirection(latestGrowth),
+      change: latestGrowth,
+      periodType,
+      concept: info.concept,
+      unit: info.unit,
+      series,
+      cagr: this.calculateCAGR(series),
+      inflectionPoints: this.findInflectionPoints(series)
+    };
+  }
+
+  private applyGrowthRates(series: TrendPoint[], periodType: 'annual' | 'quarterly'): void {
+    // Only compare consecutive periods; a missing filing would otherwise inflate growth
+    const maxGapDays = periodType === 'annual' ? 380 : 100;
+
+    for (let i = 1; i < series.length; i++) {
+      const gapDays = (new Date(series[i].end).getTime() - new Date(series[i - 1].end).getTime()) / (24 * 60 * 60 * 1000);
+      if (gapDays <= maxGapDays) {
+        series[i].growth = this.growthRate(series[i - 1].value, series[i].value);
+      }
+    }
+
+    for (let i = 0; i < series.length; i++) {
+      const priorYear = this.findPriorYearPoint(series, i);
+      if (priorYear) {
+        series[i].yoyGrowth = this.growthRate(priorYear.value, series[i].value);
+      }
+    }
+  }
+
+  private findPriorYearPoint(series: TrendPoint[], index: number): TrendPoint | null {
+    // Match the period ending roughly one year earlier; gaps in filings make index arithmetic unreliable
+    const targetEnd = new Date(series[index].end).getTime() - 365 * 24 * 60 * 60 * 1000;
+    const tolerance = 20 * 24 * 60 * 60 * 1000;
+
+    for (let i = index - 1; i >= 0; i--) {
+      const end = new Date(series[i].end).getTime();
+      if (Math.abs(end - targetEnd) <= tolerance) return series[i];
+      if (end < targetEnd - tolerance) break;
+    }
+
+    return null;
+  }
+
+  private growthRate(previous: number, current: number): number | undefined {
+    if (!previous) return undefined;
+    // Use the absolute base so a move from a loss to a smaller loss reads as growth
+    return (current - previous) / Math.abs(previous);
+  }
+
+  private calculateCAGR(series: TrendPoint[]): number | undefined {
+    const first = series[0];
+    const last = series[series.length - 1];
+    if (first.value <= 0 || last.value <= 0) return undefined;
+
+    const years = (new Date(last.end).getTime() - new Date(first.end).getTime()) / (365.25 * 24 * 60 * 60 * 1000);
+    if (years < 1) return undefined;
+
+    return Math.pow(last.value / first.value, 1 / years) - 1;
+  }
+
+  private findInflectionPoints(series: TrendPoint[]): InflectionPoint[] {
+    const points: InflectionPoint[] = [];
+
+    for (let i = 1; i < series.length - 1; i++) {
+      const previous = series[i - 1].value;
+      const current = series[i].value;
+      const next = series[i + 1].value;
+
+      if (current > previous && current > next) {
+        points.push({
+          period: series[i].period,
+          type: 'peak',
+          description: `${series[i].period} was a local high before declining in ${series[i + 1].period}`
+        });
+      } else if (current < previous && current < next) {
+        points.push({
+          period: series[i].period,
+          type: 'trough',
+          description: `${series[i].period} was a local low before recovering in ${series[i + 1].period}`
+        });
+      }
+    }
+
+    for (let i = 2; i < series.length; i++) {
+      const previousGrowth = series[i - 1].growth;
+      const currentGrowth = series[i].growth;
+      if (previousGrowth === undefined || currentGrowth === undefined) continue;
+
+      const delta = currentGrowth - previousGrowth;
+      if (Math.abs(delta) < ACCELERATION_THRESHOLD) continue;
+      // Sign changes are already reported as peaks or troughs
+      if (Math.sign(currentGrowth) !== Math.sign(previousGrowth)) continue;
+
+      points.push({
+        period: series[i].period,
+        type: delta > 0 ? 'acceleration' : 'deceleration',
+        description: `Growth ${delta > 0 ? 'accelerated' : 'slowed'} from ${this.formatPercent(previousGrowth)} to ${this.formatPercent(currentGrowth)} in ${series[i].period}`
+      });
+    }
+
+    return points.sort((a, b) => this.periodIndex(series, a.period) - this.periodIndex(series, b.period));
+  }
+
+  private getDirection(growth: number): 'up' | 'down' | 'stable' {
+    if (growth > STABLE_THRESHOLD) return 'up';
+    if (growth < -STABLE_THRESHOLD) return 'down';
+    return 'stable';
+  }
+
+  private periodIndex(series: TrendPoint[], period: string): number {
+    return series.findIndex(point => point.period === period);
+  }
+
+  private formatPercent(value: number): string {
+    return `${(value * 100).toFixed(1)}%`;
+  }
+}
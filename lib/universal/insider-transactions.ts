@@ -0,0 +1,431 @@
+// Insider Transactions - Parses Form 3/4/5 ownership XML and aggregates insider buying and selling
+
+import {
+  InsiderActivity,
+  InsiderActivitySummary,
+  InsiderRelationship,
+  InsiderTradeTotals,
+  InsiderTransaction,
+  ReportingOwner
+} from './types';
+import { buildArchivesUrl } from '../edgar-filing-index';
+import { block, blocks, parseNumeric, plainText } from '../edgar-xml';
+
+export interface OwnershipHolding {
+  securityTitle: string;
+  isDerivative: boolean;
+  sharesOwned?: number;
+  directOrIndirect: 'D' | 'I';
+}
+
+export interface OwnershipDocument {
+  form: string;
+  periodOfReport?: string;
+  issuer: { cik: string; name: string; ticker?: string };
+  owners: ReportingOwner[];
+  transactions: InsiderTransaction[];
+  holdings: OwnershipHolding[]; // Positions reported without a transaction, e.g. on Form 3
+  footnotes: Record<string, string>;
+}
+
+export interface InsiderActivityOptions {
+  windowDays?: number;
+  asOf?: Date | string; // End of the window; defaults to today
+}
+
+export interface OwnershipFilingOptions extends InsiderActivityOptions {
+  maxFilings?: number;
+}
+
+export interface InsiderActivityResult {
+  transactions: InsiderTransaction[];
+  documents: OwnershipDocument[];
+  activity: InsiderActivitySummary | null;
+}
+
+// Form 4 transaction codes (General Instructions, Item 8)
+export const TRANSACTION_CODES: Record<string, string> = {
+  P: 'Open market or private purchase',
+  S: 'Open market or private sale',
+  V: 'Transaction voluntarily reported earlier than required',
+  A: 'Grant or award',
+  D: 'Disposition to the issuer',
+  F: 'Payment of exercise price or tax by delivering securities',
+  I: 'Discretionary transaction',
+  M: 'Exercise or conversion of derivative security',
+  C: 'Conversion of derivative security',
+  E: 'Expiration of short derivative position',
+  H: 'Expiration or cancellation of long derivative position',
+  O: 'Exercise of out-of-the-money derivative security',
+  X: 'Exercise of in-the-money derivative security',
+  G: 'Gift',
+  L: 'Small acquisition',
+  W: 'Acquisition or disposition by will or laws of descent',
+  Z: 'Deposit into or withdrawal from voting trust',
+  J: 'Other acquisition or disposition',
+  K: 'Equity swap or similar instrument',
+  U: 'Disposition due to a tender of shares in a change of control'
+};
+
+export const OWNERSHIP_FORMS = ['3', '4', '5', '3/A', '4/A', '5/A'];
+
+export const DEFAULT_ACTIVITY_WINDOW_DAYS = 90;
+const DEFAULT_MAX_FILINGS = 40;
+const FETCH_CONCURRENCY = 4;
+
+// Leaf text; most ownership fields wrap their content in <value>
+function text(xml: string, ...path: string[]): string | undefined {
+  const found = block(xml, ...path);
+  if (found === undefined) return undefined;
+  return plainText(block(found, 'value') ?? found);
+}
+
+function numeric(xml: string, ...path: string[]): number | undefined {
+  return parseNumeric(text(xml, ...path));
+}
+
+function flag(xml: string, tag: string): boolean {
+  const value = text(xml, tag);
+  return value === '1' || value?.toLowerCase() === 'true';
+}
+
+function footnoteIds(xml: string): string[] {
+  return Array.from(xml.matchAll(/<footnoteId\s+id="([^"]+)"/g), match => match[1]);
+}
+
+function parseOwner(xml: string): ReportingOwner {
+  const relationship = block(xml, 'reportingOwnerRelationship') || '';
+  return {
+    cik: (text(xml, 'reportingOwnerId', 'rptOwnerCik') || '').padStart(10, '0'),
+    name: text(xml, 'reportingOwnerId', 'rptOwnerName') || 'Unknown reporting owner',
+    relationship: {
+      isDirector: flag(relationship, 'isDirector'),
+      isOfficer: flag(relationship, 'isOfficer'),
+      isTenPercentOwner: flag(relationship, 'isTenPercentOwner'),
+      isOther: flag(relationship, 'isOther'),
+      officerTitle: text(relationship, 'officerTitle'),
+      otherText: text(relationship, 'otherText')
+    }
+  };
+}
+
+/**
+ * Describe an insider's relationship to the issuer, e.g. "Director, Chief Executive Officer"
+ */
+export function describeRelationship(relationship: InsiderRelationship): string {
+  const roles: string[] = [];
+  if (relationship.isDirector) roles.push('Director');
+  if (relationship.isOfficer) roles.push(relationship.officerTitle || 'Officer');
+  if (relationship.isTenPercentOwner) roles.push('10% Owner');
+  if (relationship.isOther) roles.push(relationship.otherText || 'Other');
+  return roles.join(', ') || 'Reporting owner';
+}
+
+/**
+ * Parse an ownershipDocument (the XML behind Forms 3, 4 and 5)
+ */
+export function parseOwnershipXml(xml: string, accessionNumber?: string): OwnershipDocument {
+  const document = block(xml, 'ownershipDocument');
+  if (document === undefined) {
+    throw new Error('Not an ownership document: missing <ownershipDocument>');
+  }
+
+  const form = text(document, 'documentType') || '4';
+  const issuer = {
+    cik: (text(document, 'issuer', 'issuerCik') || '').padStart(10, '0'),
+    name: text(document, 'issuer', 'issuerName') || '',
+    ticker: text(document, 'issuer', 'issuerTradingSymbol')
+  };
+  const owners = blocks(document, 'reportingOwner').map(parseOwner);
+  const [owner = parseOwner(''), ...coOwners] = owners;
+
+  const footnotes: Record<string, string> = {};
+  for (const match of (block(document, 'footnotes') || '').matchAll(/<footnote\s+id="([^"]+)"\s*>([\s\S]*?)<\/footnote>/g)) {
+    footnotes[match[1]] = plainText(match[2]) || '';
+  }
+
+  const toTransaction = (xml: string, isDerivative: boolean): InsiderTransaction => {
+    const code = (text(xml, 'transactionCoding', 'transactionCode') || 'J').toUpperCase();
+    const shares = numeric(xml, 'transactionAmounts', 'transactionShares') ?? 0;
+    const pricePerShare = numeric(xml, 'transactionAmounts', 'transactionPricePerShare');
+    const notes = footnoteIds(xml).map(id => footnotes[id]).filter(Boolean);
+
+    return {
+      accessionNumber,
+      form,
+      issuerCik: issuer.cik,
+      issuerName: issuer.name,
+      issuerTicker: issuer.ticker,
+      owner,
+      coOwners: coOwners.length > 0 ? coOwners.map(coOwner => coOwner.name) : undefined,
+      securityTitle: text(xml, 'securityTitle') || '',
+      isDerivative,
+      transactionDate: (text(xml, 'transactionDate') || text(document, 'periodOfReport') || '').substring(0, 10),
+      transactionCode: code,
+      transactionDescription: TRANSACTION_CODES[code] || 'Other',
+      acquiredDisposed: text(xml, 'transactionAmounts', 'transactionAcquiredDisposedCode') === 'D' ? 'D' : 'A',
+      shares,
+      pricePerShare,
+      value: pricePerShare !== undefined ? Math.round(shares * pricePerShare * 100) / 100 : undefined,
+      sharesOwnedAfter: numeric(xml, 'postTransactionAmounts', 'sharesOwnedFollowingTransaction'),
+      directOrIndirect: text(xml, 'ownershipNature', 'directOrIndirectOwnership') === 'I' ? 'I' : 'D',
+      underlyingSecurity: isDerivative ? text(xml, 'underlyingSecurity', 'underlyingSecurityTitle') : undefined,
+      footnotes: notes.length > 0 ? notes : undefined
+    };
+  };
+
+  const toHolding = (xml: string, isDerivative: boolean): OwnershipHolding => ({
+    securityTitle: text(xml, 'securityTitle') || '',
+    isDerivative,
+    sharesOwned: numeric(xml, 'postTransactionAmounts', 'sharesOwnedFollowingTransaction'),
+    directOrIndirect: text(xml, 'ownershipNature', 'directOrIndirectOwnership') === 'I' ? 'I' : 'D'
+  });
+
+  const nonDerivative = block(document, 'nonDerivativeTable') || '';
+  const derivative = block(document, 'derivativeTable') || '';
+
+  return {
+    form,
+    periodOfReport: text(document, 'periodOfReport'),
+    issuer,
+    owners,
+    transactions: [
+      ...blocks(nonDerivative, 'nonDerivativeTransaction').map(xml => toTransaction(xml, false)),
+      ...blocks(derivative, 'derivativeTransaction').map(xml => toTransaction(xml, true))
+    ],
+    holdings: [
+      ...blocks(nonDerivative, 'nonDerivativeHolding').map(xml => toHolding(xml, false)),
+      ...blocks(derivative, 'derivativeHolding').map(xml => toHolding(xml, true))
+    ],
+    footnotes
+  };
+}
+
+const emptyTotals = (): InsiderTradeTotals => ({ count: 0, shares: 0, value: 0 });
+
+function addTrade(totals: InsiderTradeTotals, transaction: InsiderTransaction): void {
+  totals.count++;
+  totals.shares += transaction.shares;
+  totals.value += transaction.value || 0;
+}
+
+// The window ends on asOf (default today) and reaches back windowDays
+function activityWindow(options: InsiderActivityOptions): { start: string; end: string; days: number } {
+  const days = options.windowDays ?? DEFAULT_ACTIVITY_WINDOW_DAYS;
+  const endDate = options.asOf ? new Date(options.asOf) : new Date();
+  const startDate = new Date(endDate);
+  startDate.setUTCDate(startDate.getUTCDate() - days);
+  return { start: startDate.toISOString().split('T')[0], end: endDate.toISOString().split('T')[0], days };
+}
+
+/**
+ * Aggregate transactions per issuer and, within each, per insider over a window.
+ * Net buying and selling counts open-market trades only (codes P and S);
+ * awards, exercises, tax withholding and gifts are tallied separately since
+ * they say little about an insider's view of the stock.
+ */
+export function summarizeInsiderActivity(
+  transactions: InsiderTransaction[],
+  options: InsiderActivityOptions = {}
+): InsiderActivitySummary[] {
+  const { start, end, days } = activityWindow(options);
+
+  const byIssuer = new Map<string, InsiderTransaction[]>();
+  transactions
+    .filter(transaction => transaction.transactionDate >= start && transaction.transactionDate <= end)
+    .forEach(transaction => {
+      const list = byIssuer.get(transaction.issuerCik) || [];
+      list.push(transaction);
+      byIssuer.set(transaction.issuerCik, list);
+    });
+
+  return Array.from(byIssuer.values()).map(issuerTransactions => {
+    const insiders = new Map<string, InsiderActivity>();
+    const latestHolding = new Map<string, string>(); // owner -> date of the holding recorded in sharesOwned
+
+    // Oldest first, so the last non-derivative transaction sets current holdings
+    [...issuerTransactions]
+      .sort((a, b) => a.transactionDate.localeCompare(b.transactionDate))
+      .forEach(transaction => {
+        const key = transaction.owner.cik || transaction.owner.name;
+        let insider = insiders.get(key);
+        if (!insider) {
+          insider = {
+            ownerCik: transaction.owner.cik,
+            ownerName: transaction.owner.name,
+            role: describeRelationship(transaction.owner.relationship),
+            purchases: emptyTotals(),
+            sales: emptyTotals(),
+            netShares: 0,
+            netValue: 0,
+            otherAcquired: 0,
+            otherDisposed: 0,
+            transactions: 0,
+            lastTransactionDate: transaction.transactionDate
+          };
+          insiders.set(key, insider);
+        }
+
+        insider.transactions++;
+        insider.lastTransactionDate = transaction.transactionDate;
+
+        if (!transaction.isDerivative && transaction.transactionCode === 'P') {
+          addTrade(insider.purchases, transaction);
+        } else if (!transaction.isDerivative && transaction.transactionCode === 'S') {
+          addTrade(insider.sales, transaction);
+        } else if (transaction.acquiredDisposed === 'A') {
+          insider.otherAcquired += transaction.shares;
+        } else {
+          insider.otherDisposed += transaction.shares;
+        }
+
+        if (!transaction.isDerivative && transaction.directOrIndirect === 'D' && transaction.sharesOwnedAfter !== undefined
+          && transaction.transactionDate >= (latestHolding.get(key) || '')) {
+          insider.sharesOwned = transaction.sharesOwnedAfter;
+          latestHolding.set(key, transaction.transactionDate);
+        }
+      });
+
+    const activity = Array.from(insiders.values()).map(insider => ({
+      ...insider,
+      netShares: insider.purchases.shares - insider.sales.shares,
+      netValue: Math.round((insider.purchases.value - insider.sales.value) * 100) / 100
+    }));
+    activity.sort((a, b) => Math.abs(b.netValue) - Math.abs(a.netValue) || Math.abs(b.netShares) - Math.abs(a.netShares));
+
+    const purchases = emptyTotals();
+    const sales = emptyTotals();
+    activity.forEach(insider => {
+      purchases.count += insider.purchases.count;
+      purchases.shares += insider.purchases.shares;
+      purchases.value += insider.purchases.value;
+      sales.count += insider.sales.count;
+      sales.shares += insider.sales.shares;
+      sales.value += insider.sales.value;
+    });
+
+    const netShares = purchases.shares - sales.shares;
+    const netValue = Math.round((purchases.value - sales.value) * 100) / 100;
+    const [first] = issuerTransactions;
+
+    return {
+      issuerCik: first.issuerCik,
+      issuerName: first.issuerName,
+      issuerTicker: first.issuerTicker,
+      window: { start, end, days },
+      filings: new Set(issuerTransactions.map(transaction => transaction.accessionNumber).filter(Boolean)).size,
+      purchases,
+      sales,
+      netShares,
+      netValue,
+      buyers: activity.filter(insider => insider.netShares > 0).length,
+      sellers: activity.filter(insider => insider.netShares < 0).length,
+      signal: netShares > 0 ? 'net_buying' : netShares < 0 ? 'net_selling' : 'neutral',
+      insiders: activity
+    };
+  });
+}
+
+/**
+ * Drop filings an amendment restates. A 4/A or 5/A usually repeats the whole
+ * original report, so summing both would count its trades twice; the newest
+ * amendment replaces the original and any earlier amendments from the same
+ * owner for the same period. Documents must be ordered newest filed first.
+ */
+export function supersedeAmendments(documents: OwnershipDocument[]): OwnershipDocument[] {
+  const amended = new Set<string>();
+  return documents.filter(document => {
+    const key = `${document.form.replace(/\/A$/i, '')}|${document.owners[0]?.cik}|${document.periodOfReport}`;
+    if (amended.has(key)) return false;
+    if (/\/A$/i.test(document.form)) amended.add(key);
+    return true;
+  });
+}
+
+/**
+ * Directors and officers named on ownership filings, latest title first.
+ * Shapes match GovernanceProfile.board and GovernanceProfile.executives.
+ */
+export function insidersByRole(documents: OwnershipDocument[]): {
+  board: Array<{ name: string; cik: string; roles: string }>;
+  executives: Array<{ name: string; cik: string; title: string }>;
+} {
+  const board = new Map<string, { name: string; cik: string; roles: string }>();
+  const executives = new Map<string, { name: string; cik: string; title: string }>();
+
+  // Latest filings first, so the most recent title wins
+  [...documents]
+    .sort((a, b) => (b.periodOfReport || '').localeCompare(a.periodOfReport || ''))
+    .forEach(document => document.owners.forEach(owner => {
+      if (owner.relationship.isDirector && !board.has(owner.cik)) {
+        board.set(owner.cik, { name: owner.name, cik: owner.cik, roles: describeRelationship(owner.relationship) });
+      }
+      if (owner.relationship.isOfficer && !executives.has(owner.cik)) {
+        executives.set(owner.cik, { name: owner.name, cik: owner.cik, title: owner.relationship.officerTitle || 'Officer' });
+      }
+    }));
+
+  return { board: Array.from(board.values()), executives: Array.from(executives.values()) };
+}
+
+/**
+ * EDGAR lists the XSL-rendered view (e.g. xslF345X05/form4.xml) as the primary
+ * document; the raw XML sits at the same name in the filing folder.
+ */
+export function rawOwnershipDocument(primaryDocument: string): string {
+  return primaryDocument.replace(/^xsl[^/]+\//i, '');
+}
+
+/**
+ * Fetch and parse a company's Form 3/4/5 filings within the window, newest
+ * first, and summarize the insider activity they report
+ */
+export async function fetchInsiderActivity(cik: string, options: OwnershipFilingOptions = {}): Promise<InsiderActivityResult> {
+  const paddedCik = cik.padStart(10, '0');
+  const { start, end, days } = activityWindow(options);
+  const headers = { 'User-Agent': process.env.SEC_API_USER_AGENT || 'SEC Query App/1.0' };
+
+  const response = await fetch(`https://data.sec.gov/submissions/CIK${paddedCik}.json`, { headers });
+  if (!response.ok) {
+    throw new Error(`SEC API error: ${response.status}`);
+  }
+  const submissions: any = await response.json();
+  const recent = submissions.filings?.recent;
+  if (!recent) {
+    return { transactions: [], documents: [], activity: null };
+  }
+
+  const filings: Array<{ accessionNumber: string; primaryDocument: string }> = [];
+  for (let i = 0; i < recent.form.length && filings.length < (options.maxFilings ?? DEFAULT_MAX_FILINGS); i++) {
+    if (!OWNERSHIP_FORMS.includes(recent.form[i]) || !recent.primaryDocument[i]?.endsWith('.xml')) continue;
+    // Filed within a few days of the trade, so the filing date bounds the window well enough
+    if (recent.filingDate[i] < start || recent.filingDate[i] > end) continue;
+    filings.push({ accessionNumber: recent.accessionNumber[i], primaryDocument: recent.primaryDocument[i] });
+  }
+
+  const documents: OwnershipDocument[] = [];
+  for (let i = 0; i < filings.length; i += FETCH_CONCURRENCY) {
+    const batch = await Promise.all(filings.slice(i, i + FETCH_CONCURRENCY).map(async filing => {
+      try {
+        const url = buildArchivesUrl(paddedCik, filing.accessionNumber, rawOwnershipDocument(filing.primaryDocument));
+        const xmlResponse = await fetch(url, { headers });
+        if (!xmlResponse.ok) throw new Error(`HTTP ${xmlResponse.status}`);
+        return parseOwnershipXml(await xmlResponse.text(), filing.accessionNumber);
+      } catch (error: any) {
+        console.warn(`Skipping ownership filing ${filing.accessionNumber}:`, error.message);
+        return null;
+      }
+    }));
+    batch.forEach(document => document && documents.push(document));
+  }
+
+  // Reporting owners file these too; keep only filings about this issuer. Filings
+  // were listed newest first, which is the order amendments are resolved in.
+  const issuerDocuments = supersedeAmendments(documents.filter(document => document.issuer.cik === paddedCik));
+  const transactions = issuerDocuments
+    .flatMap(document => document.transactions)
+    .sort((a, b) => b.transactionDate.localeCompare(a.transactionDate));
+  const [activity = null] = summarizeInsiderActivity(transactions, { windowDays: days, asOf: end });
+
+  return { transactions, documents: issuerDocuments, activity };
+}
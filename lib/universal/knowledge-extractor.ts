@@ -11,10 +11,56 @@ import {
   RiskProfile,
   FilingContent,
   FilingMetadata,
-  DataSource
+  DataSource,
+  FinancialTrend,
+  FinancialRatio,
+  Exhibit,
+  RiskFactor,
+  RiskTrend,
+  GovernanceProfile,
+  CompanyTimeline,
+  DataType,
+  IndustryKnowledge
 } from './types';
+import { FinancialTrendAnalyzer } from './financial-trends';
+import { FinancialRatioCalculator } from './financial-ratios';
+import { FilingSectionParser, ParsedFiling } from './filing-section-parser';
+import { RiskFactorDiffer, RiskFactorDiff } from './risk-factor-diff';
+import { fetchInsiderActivity, insidersByRole, DEFAULT_ACTIVITY_WINDOW_DAYS } from './insider-transactions';
+import { fetchExecutiveCompensation } from './executive-compensation';
+import { fetchCompanyTimeline } from './current-reports';
+import { buildArchivesUrl, buildFilingIndex, buildIndexJsonUrl, buildIndexPageUrl, FilingIndex } from '../edgar-filing-index';
+import { resolveConcept } from '../xbrl-concepts';
+import { getLatestAnnualValue } from '../xbrl-periods';
+import { getFullTextIndex, extractSearchPhrase, FullTextSearchResult } from '../filing-fulltext-index';
+import { getCompanyDirectory } from '../company-directory';
+import { getHoldingsStore, fetchManagerFilings, InstitutionalHoldingsKnowledge } from '../institutional-holdings';
+import { getFramesScreener, parseScreenCriteria, ScreenResult } from '../frames-screener';
+import { candidatePeriods, PeerBenchmarkResult, PeerGroupBuilder } from '../peer-groups';
+import { getSectorFromSic } from '../sic-codes';
+
+// Standard metrics (see lib/xbrl-concepts.ts) reported in FinancialProfile.metrics
+const LATEST_METRICS = [
+  'TotalRevenue',
+  'NetIncome',
+  'TotalAssets',
+  'StockholdersEquity',
+  'CashAndEquivalents',
+  'LongTermDebt',
+  'OperatingCashFlow'
+];
 
 export class KnowledgeExtractionEngine {
+  private trendAnalyzer = new FinancialTrendAnalyzer();
+  private ratioCalculator = new FinancialRatioCalculator();
+  private sectionParser = new FilingSectionParser();
+  private riskDiffer = new RiskFactorDiffer();
+  // Item 1A diffs keyed by the later 10-K's accession number, reused when building FilingKnowledge
+  private riskDiffs = new Map<string, RiskFactorDiff>();
+  // Every parsed filing is added so content searches work offline
+  private fullTextIndex = getFullTextIndex();
+  private holdingsStore = getHoldingsStore();
+  private peerBuilder = new PeerGroupBuilder();
   
   async extractKnowledge(query: UniversalQuery): Promise<KnowledgeSet> {
     console.log('=== KNOWLEDGE EXTRACTION ===');
@@ -41,7 +87,7 @@ export class KnowledgeExtractionEngine {
         
         // Add company filings to overall filing knowledge
         for (const filing of companyKnowledge.filings) {
-          const detailedFiling = await this.extractFilingKnowledge(filing.accessionNumber || '', query);
+          const detailedFiling = await this.extractFilingKnowledge(companyKnowledge.identity, filing, query);
           if (detailedFiling) {
             knowledgeSet.filings.push(detailedFiling);
           }
@@ -52,6 +98,24 @@ export class KnowledgeExtractionEngine {
       }
     }
 
+    if (query.intent.primary === 'content_search') {
+      knowledgeSet.contentMatches = this.searchFilingText(query, knowledgeSet.companies.map(c => c.identity.cik));
+    }
+
+    if (query.scope.dataTypes.includes('institutional_holdings')) {
+      knowledgeSet.institutionalHoldings = await this.extractInstitutionalHoldings(query, knowledgeSet.companies.map(c => c.identity));
+    }
+
+    if (query.scope.breadth === 'market_wide' || query.intent.secondary.includes('ranking')) {
+      knowledgeSet.screenResults = await this.screenCompanies(query, knowledgeSet.companies.map(c => c.identity.cik));
+    }
+
+    if (query.scope.dataTypes.includes('peer_data') || query.intent.secondary.includes('benchmarking')) {
+      knowledgeSet.peerBenchmarks = await this.benchmarkPeers(query, knowledgeSet.companies.map(c => c.identity));
+    }
+
+    knowledgeSet.industry = this.describeIndustry(knowledgeSet);
+
     // Calculate overall confidence and completeness
     knowledgeSet.confidence = this.calculateKnowledgeConfidence(knowledgeSet);
     knowledgeSet.completeness = this.calculateKnowledgeCompleteness(knowledgeSet, query);
@@ -66,6 +130,63 @@ export class KnowledgeExtractionEngine {
     return knowledgeSet;
   }
 
+  /**
+   * Screen every filer on XBRL frames for market-wide questions. A ranking
+   * question that names companies is ranked among those companies only.
+   */
+  private async screenCompanies(query: UniversalQuery, ciks: string[]): Promise<ScreenResult | undefined> {
+    const criteria = parseScreenCriteria(query.originalQuery);
+    if (!criteria) return undefined;
+    if (query.scope.breadth !== 'market_wide' && ciks.length > 0) {
+      criteria.ciks = ciks;
+    }
+
+    try {
+      const result = await getFramesScreener().screen(criteria);
+      console.log(`Frames screen for ${criteria.period}: ${result.total} companies matched ${criteria.conditions.length} conditions`);
+      return result;
+    } catch (error) {
+      console.error('Failed to screen companies:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Build each company's peer group and rank its ratios against it, on the
+   * newest period whose frames include the company
+   */
+  private async benchmarkPeers(query: UniversalQuery, identities: CompanyIdentity[]): Promise<PeerBenchmarkResult[]> {
+    const periods = candidatePeriods(query.originalQuery);
+    const results: PeerBenchmarkResult[] = [];
+
+    for (const identity of identities) {
+      for (const period of periods) {
+        try {
+          const result = await this.peerBuilder.benchmark(identity.cik, { period, sic: identity.industry.sic || undefined });
+          console.log(`Peer group for ${identity.name} (${period}): ${result.group.peers.length} peers in SIC ${result.group.sicPrefix}`);
+          results.push(result);
+          break;
+        } catch (error) {
+          console.error(`Failed to benchmark ${identity.name} against peers for ${period}:`, error);
+        }
+      }
+    }
+
+    return results;
+  }
+
+  private describeIndustry(knowledgeSet: KnowledgeSet): IndustryKnowledge {
+    const identity = knowledgeSet.companies[0]?.identity;
+    const peers = knowledgeSet.peerBenchmarks?.find(result => result.group.target.cik === identity?.cik.padStart(10, '0'))?.group.peers || [];
+
+    return {
+      sector: identity?.industry.sector || '',
+      industry: identity?.industry.sicDescription || '',
+      competitors: peers.map(peer => peer.entityName),
+      trends: []
+    };
+  }
+
   private async extractCompanyKnowledge(
     companyEntity: any, 
     query: UniversalQuery
@@ -79,10 +200,10 @@ export class KnowledgeExtractionEngine {
       identity,
       business: await this.extractBusinessProfile(identity, query),
       financial: await this.extractFinancialProfile(identity, query),
-      governance: {} as any,
+      governance: await this.extractGovernanceProfile(identity, query),
       risk: await this.extractRiskProfile(identity, query),
       relationships: {} as any,
-      timeline: {} as any,
+      timeline: await this.extractCompanyTimeline(identity, query),
       filings: await this.getRecentFilingSummary(identity.cik)
     };
 
@@ -99,6 +220,7 @@ export class KnowledgeExtractionEngine {
 
     // Get detailed company info from SEC API
     const companyData = await this.fetchCompanySubmissions(cik);
+    getCompanyDirectory().addFormerNames(cik, (companyData.formerNames || []).map((former: any) => former.name));
     
     return {
       cik,
@@ -108,7 +230,7 @@ export class KnowledgeExtractionEngine {
       industry: {
         sic: companyData.sic || '',
         sicDescription: companyData.sicDescription || '',
-        sector: this.getSectorFromSIC(companyData.sic),
+        sector: getSectorFromSic(companyData.sic),
         industry: companyData.sicDescription || ''
       },
       headquarters: {
@@ -188,15 +310,27 @@ export class KnowledgeExtractionEngine {
     query: UniversalQuery
   ): Promise<RiskProfile> {
     
-    // Extract risk factors from latest 10-K
-    if (query.scope.dataTypes.includes('risk_factors')) {
-      const latest10K = await this.getLatest10K(identity.cik);
+    // Extract risk factors from the latest 10-K and compare them with the prior year's
+    if (query.scope.dataTypes.includes('risk_factors') || query.intent.primary === 'risk_analysis') {
+      const [latest10K, prior10K] = await this.getAnnualReports(identity.cik, 2);
       if (latest10K) {
-        const riskFactors = await this.extractRiskFactorsFrom10K(latest10K);
+        let riskFactors = await this.extractRiskFactorsFrom10K(latest10K);
+        let riskTrends: RiskTrend[] = [];
+
+        if (prior10K && riskFactors.length > 0) {
+          const priorRiskFactors = await this.extractRiskFactorsFrom10K(prior10K);
+          if (priorRiskFactors.length > 0) {
+            const diff = this.riskDiffer.diff(riskFactors, priorRiskFactors);
+            console.log(`Risk factor changes vs ${prior10K.filingDate} 10-K:`, diff.summary);
+            this.riskDiffs.set(latest10K.accessionNumber, diff);
+            riskFactors = diff.annotated;
+            riskTrends = diff.trends;
+          }
+        }
         
         return {
           risk_factors: riskFactors,
-          risk_trends: [],
+          risk_trends: riskTrends,
           material_litigation: [],
           regulatory_risks: [],
           operational_risks: [],
@@ -215,25 +349,109 @@ export class KnowledgeExtractionEngine {
     };
   }
 
+  private async extractGovernanceProfile(
+    identity: CompanyIdentity,
+    query: UniversalQuery
+  ): Promise<GovernanceProfile> {
+    const governance: GovernanceProfile = { board: [], executives: [], policies: [] };
+    const wants = (...dataTypes: DataType[]) => query.scope.dataTypes.some(dataType => dataTypes.includes(dataType));
+
+    // Insiders and their trades come from Form 3/4/5 ownership filings
+    if (wants('insider_transactions', 'corporate_governance')) {
+      try {
+        const { transactions, documents, activity } = await fetchInsiderActivity(identity.cik, this.insiderActivityWindow(query));
+        const roles = insidersByRole(documents);
+        console.log(`Insider activity for ${identity.name}: ${transactions.length} transactions in ${documents.length} ownership filings`);
+
+        governance.board = roles.board;
+        governance.executives = roles.executives;
+        governance.insiderTransactions = transactions;
+        governance.insiderActivity = activity || undefined;
+      } catch (error) {
+        console.error('Failed to extract insider activity:', error);
+      }
+    }
+
+    // Pay comes from the Summary Compensation Table in the latest proxy statement
+    if (wants('executive_compensation', 'corporate_governance')) {
+      try {
+        const compensation = await fetchExecutiveCompensation(identity.cik);
+        console.log(`Executive compensation for ${identity.name}: ${compensation?.executives.length ?? 0} named executive officers`);
+        governance.executiveCompensation = compensation || undefined;
+      } catch (error) {
+        console.error('Failed to extract executive compensation:', error);
+      }
+    }
+
+    return governance;
+  }
+
+  private async extractCompanyTimeline(
+    identity: CompanyIdentity,
+    query: UniversalQuery
+  ): Promise<CompanyTimeline> {
+    // Events come from 8-K current reports, classified by the items they disclose
+    if (!query.scope.dataTypes.includes('historical_events')) {
+      return { events: [], milestones: [] };
+    }
+
+    const range = query.entities.timeRanges.find(r => r.start || r.end);
+    const toDate = (date?: Date) => (date && !isNaN(new Date(date).getTime()) ? new Date(date).toISOString().substring(0, 10) : undefined);
+
+    try {
+      const timeline = await fetchCompanyTimeline(identity.cik, { since: toDate(range?.start), until: toDate(range?.end) });
+      console.log(`Event timeline for ${identity.name}: ${timeline.events.length} 8-K events, ${timeline.milestones.length} milestones`);
+      return timeline;
+    } catch (error) {
+      console.error('Failed to build event timeline:', error);
+      return { events: [], milestones: [] };
+    }
+  }
+
+  // A query's time range sets the window; otherwise the last DEFAULT_ACTIVITY_WINDOW_DAYS
+  private insiderActivityWindow(query: UniversalQuery): { windowDays: number; asOf?: Date } {
+    const range = query.entities.timeRanges.find(r => r.start || r.end);
+    const start = range?.start ? new Date(range.start) : null;
+    const end = range?.end ? new Date(range.end) : new Date();
+
+    if (!start || isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) {
+      return { windowDays: DEFAULT_ACTIVITY_WINDOW_DAYS };
+    }
+    return { windowDays: Math.ceil((end.getTime() - start.getTime()) / 86400000), asOf: end };
+  }
+
   private async extractFilingKnowledge(
-    accessionNumber: string, 
+    identity: CompanyIdentity,
+    filing: any,
     query: UniversalQuery
   ): Promise<FilingKnowledge | null> {
     
     try {
-      // Get filing metadata
-      const metadata = await this.getFilingMetadata(accessionNumber);
-      
       // Parse filing content based on query needs
-      const content = await this.parseFilingContent(accessionNumber, query);
+      const content = await this.parseFilingContent(identity, filing, query);
+      const sections: any[] = content.structured_data?.sections || [];
+
+      // Resolve the filing's documents so exhibits can be cited and fetched directly
+      const exhibits = await this.extractExhibits(identity.cik, filing, query);
+      if (exhibits.length > 0) {
+        content.exhibits = exhibits;
+        filing.exhibits = exhibits;
+      }
+
+      // Get filing metadata
+      const metadata = await this.getFilingMetadata(identity, filing, sections);
       
       return {
         metadata,
-        structure: {} as any,
+        structure: {
+          sections: sections.map(section => `Item ${section.item}${section.part ? ` (Part ${section.part})` : ''}: ${section.title}`),
+          exhibits: exhibits.map(exhibit => `${exhibit.type}: ${exhibit.description || exhibit.document}`),
+          amendments: filing.form?.endsWith('/A') ? 1 : 0
+        },
         content,
         intelligence: {} as any,
         relationships: {} as any,
-        changes: []
+        changes: this.riskDiffs.get(filing.accessionNumber)?.filingChanges || []
       };
       
     } catch (error) {
@@ -244,25 +462,8 @@ export class KnowledgeExtractionEngine {
 
   // SEC API integration methods
   private async resolveTicker(identifier: string): Promise<string> {
-    // Map common tickers to CIKs
-    const tickerMap: { [key: string]: string } = {
-      'TESLA': '0001318605',
-      'TSLA': '0001318605',
-      'APPLE': '0000320193',
-      'AAPL': '0000320193',
-      'MICROSOFT': '0000789019',
-      'MSFT': '0000789019',
-      'GOOGLE': '0001652044',
-      'GOOGL': '0001652044',
-      'ALPHABET': '0001652044',
-      'AMAZON': '0001018724',
-      'AMZN': '0001018724',
-      'META': '0001326801',
-      'FACEBOOK': '0001326801'
-    };
-
-    const cik = tickerMap[identifier.toUpperCase()];
-    if (cik) return cik;
+    const match = getCompanyDirectory().resolve(identifier);
+    if (match) return match.company.cik;
     
     throw new Error(`Cannot resolve identifier: ${identifier}`);
   }
@@ -302,23 +503,30 @@ export class KnowledgeExtractionEngine {
   }
 
   private async getLatest10K(cik: string): Promise<any> {
+    const [latest] = await this.getAnnualReports(cik, 1);
+    return latest || null;
+  }
+
+  private async getAnnualReports(cik: string, count: number): Promise<any[]> {
     const submissions = await this.fetchCompanySubmissions(cik);
     const filings = submissions.filings?.recent;
     
-    if (!filings) return null;
+    if (!filings) return [];
     
-    // Find most recent 10-K
-    for (let i = 0; i < filings.form.length; i++) {
+    // Most recent 10-Ks first; amendments rarely restate Item 1A in full
+    const reports: any[] = [];
+    for (let i = 0; i < filings.form.length && reports.length < count; i++) {
       if (filings.form[i] === '10-K') {
-        return {
+        reports.push({
+          cik,
           accessionNumber: filings.accessionNumber[i],
           filingDate: filings.filingDate[i],
           primaryDocument: filings.primaryDocument[i]
-        };
+        });
       }
     }
     
-    return null;
+    return reports;
   }
 
   private async getRecentFilingSummary(cik: string): Promise<any[]> {
@@ -336,9 +544,13 @@ export class KnowledgeExtractionEngine {
         accessionNumber,
         form: filings.form[i],
         filingDate: filings.filingDate[i],
+        reportDate: filings.reportDate?.[i],
+        size: filings.size?.[i],
+        items: filings.items?.[i],
         primaryDocument,
-        // Generate direct SEC EDGAR URL
-        url: this.generateSecEdgarUrl(cik, accessionNumber, primaryDocument),
+        // Generate direct SEC EDGAR URLs for the primary document and the full document index
+        url: buildArchivesUrl(cik, accessionNumber, primaryDocument),
+        indexUrl: buildIndexPageUrl(cik, accessionNumber),
         // Generate browse URL for the filing
         browseUrl: `https://www.sec.gov/edgar/browse/?CIK=${cik.padStart(10, '0')}&owner=exclude`
       });
@@ -347,19 +559,17 @@ export class KnowledgeExtractionEngine {
     return recentFilings;
   }
 
-  private generateSecEdgarUrl(cik: string, accessionNumber: string, primaryDocument: string): string {
-    // Format: https://www.sec.gov/Archives/edgar/data/CIK/ACCESSION-NUMBER-NO-DASHES/PRIMARY-DOCUMENT
-    const paddedCik = cik.padStart(10, '0');
-    const cleanAccession = accessionNumber.replace(/-/g, '');
-    
-    return `https://www.sec.gov/Archives/edgar/data/${paddedCik}/${cleanAccession}/${primaryDocument}`;
-  }
-
   // Content extraction methods - actual SEC filing parsing
   private async extractBusinessDescriptionFrom10K(filing: any): Promise<string> {
     try {
-      const filingContent = await this.fetchFilingContent(filing.accessionNumber, filing.primaryDocument);
-      return await this.parseBusinessSection(filingContent);
+      const filingContent = await this.fetchFilingContent(filing.cik, filing.accessionNumber, filing.primaryDocument);
+      const parsed = this.sectionParser.parse(filingContent, '10-K');
+      const business = this.sectionParser.getSection(parsed, '1');
+
+      if (business) {
+        return this.sectionParser.summarizeBusiness(business.text);
+      }
+      return 'Business description could not be extracted from filing content.';
     } catch (error) {
       console.error('Failed to extract business description:', error);
       return `Business description extraction failed for ${filing.accessionNumber}`;
@@ -391,10 +601,12 @@ export class KnowledgeExtractionEngine {
     return [];
   }
 
-  private async extractRiskFactorsFrom10K(filing: any): Promise<any[]> {
+  private async extractRiskFactorsFrom10K(filing: any): Promise<RiskFactor[]> {
     try {
-      const filingContent = await this.fetchFilingContent(filing.accessionNumber, filing.primaryDocument);
-      return await this.parseRiskFactors(filingContent);
+      const filingContent = await this.fetchFilingContent(filing.cik, filing.accessionNumber, filing.primaryDocument);
+      const parsed = this.sectionParser.parse(filingContent, '10-K');
+      const riskSection = this.sectionParser.getSection(parsed, '1A');
+      return riskSection ? this.sectionParser.parseRiskFactors(riskSection.text) : [];
     } catch (error) {
       console.error('Failed to extract risk factors:', error);
       return [];
@@ -402,69 +614,163 @@ export class KnowledgeExtractionEngine {
   }
 
   private async extractLatestMetrics(facts: any): Promise<any> {
-    // Extract latest financial metrics from XBRL facts
-    const usGaap = facts.facts?.['us-gaap'];
-    if (!usGaap) return {};
+    // Extract latest fiscal year values, following each metric's concept fallback chain
+    if (!facts?.facts) return {};
 
     const metrics: any = {};
-    
-    // Revenue
-    if (usGaap.Revenues || usGaap.Revenue) {
-      const revenueData = usGaap.Revenues || usGaap.Revenue;
-      const latestRevenue = this.getLatestValue(revenueData);
-      if (latestRevenue) metrics.revenue = latestRevenue.val;
-    }
 
-    // Net Income
-    if (usGaap.NetIncomeLoss) {
-      const netIncomeData = usGaap.NetIncomeLoss;
-      const latestNetIncome = this.getLatestValue(netIncomeData);
-      if (latestNetIncome) metrics.net_income = latestNetIncome.val;
+    for (const standardName of LATEST_METRICS) {
+      const resolved = resolveConcept(facts, standardName);
+      if (!resolved) continue;
+
+      const latest = getLatestAnnualValue(resolved.values, { instant: resolved.metric.instant });
+      if (latest) metrics[resolved.metric.key] = latest.value;
     }
 
     return metrics;
   }
 
-  private async extractFinancialTrends(facts: any): Promise<any[]> {
-    // TODO: Implement trend analysis
-    return [];
+  private async extractFinancialTrends(facts: any): Promise<FinancialTrend[]> {
+    return this.trendAnalyzer.analyze(facts);
   }
 
-  private async calculateFinancialRatios(facts: any): Promise<any[]> {
-    // TODO: Implement ratio calculations
-    return [];
+  private async calculateFinancialRatios(facts: any): Promise<FinancialRatio[]> {
+    return this.ratioCalculator.calculate(facts);
   }
 
-  private getLatestValue(conceptData: any): any {
-    if (!conceptData.units) return null;
-    
-    const units = Object.keys(conceptData.units)[0];
-    if (!conceptData.units[units]) return null;
-    
-    return conceptData.units[units]
-      .filter((item: any) => item.form === '10-K')
-      .sort((a: any, b: any) => new Date(b.end).getTime() - new Date(a.end).getTime())[0];
+  private async getFilingMetadata(identity: CompanyIdentity, filing: any, sections: any[]): Promise<FilingMetadata> {
+    const reportDate = filing.reportDate ? new Date(filing.reportDate) : new Date(filing.filingDate);
+
+    return {
+      accessionNumber: filing.accessionNumber,
+      formType: filing.form,
+      filingDate: new Date(filing.filingDate),
+      reportingPeriod: { start: reportDate, end: reportDate, description: filing.reportDate || filing.filingDate },
+      company: identity,
+      size: filing.size || 0,
+      // 8-K items come from the submissions index; periodic reports from the parsed document
+      items: sections.length > 0
+        ? sections.map(section => section.part ? `${section.part}:${section.item}` : section.item)
+        : (filing.items ? filing.items.split(',').filter(Boolean) : []),
+      amendments: []
+    };
   }
 
-  private async getFilingMetadata(accessionNumber: string): Promise<FilingMetadata> {
-    // TODO: Implement filing metadata extraction
-    return {} as FilingMetadata;
+  private async extractExhibits(cik: string, filing: any, query: UniversalQuery): Promise<Exhibit[]> {
+    if (!query.scope.dataTypes.includes('filing_content') || !filing.accessionNumber) {
+      return [];
+    }
+
+    try {
+      const index = await this.getFilingIndex(cik, filing.accessionNumber, filing.primaryDocument);
+      return index.exhibits.map(exhibit => ({
+        number: exhibit.type.replace(/^EX-/i, ''),
+        description: exhibit.description,
+        type: exhibit.type,
+        document: exhibit.name,
+        url: exhibit.url
+      }));
+    } catch (error) {
+      console.error('Failed to resolve filing index:', error);
+      return [];
+    }
   }
 
-  private async parseFilingContent(accessionNumber: string, query: UniversalQuery): Promise<FilingContent> {
-    // TODO: Implement content parsing based on query needs
-    return {};
+  private async parseFilingContent(identity: CompanyIdentity, filing: any, query: UniversalQuery): Promise<FilingContent> {
+    // Only periodic reports have an item structure worth parsing
+    if (!/^10-[KQ]/.test(filing.form || '') || !filing.primaryDocument) {
+      return {};
+    }
+
+    const wanted = ['business_description', 'risk_factors', 'management_discussion', 'legal_proceedings', 'filing_content'];
+    if (!query.scope.dataTypes.some(dataType => wanted.includes(dataType)) && query.intent.primary !== 'content_search') {
+      return {};
+    }
+
+    const html = await this.fetchFilingContent(identity.cik, filing.accessionNumber, filing.primaryDocument);
+    const parsed = this.sectionParser.parse(html, filing.form);
+    this.indexFilingText(identity, filing, parsed);
+    return this.sectionParser.toFilingContent(parsed);
+  }
+
+  private indexFilingText(identity: CompanyIdentity, filing: any, parsed: ParsedFiling): void {
+    const sections = parsed.sections.length > 0
+      ? parsed.sections.map(section => ({
+        key: section.part ? `${section.part}:${section.item}` : section.item,
+        title: section.title,
+        text: section.text
+      }))
+      : [{ key: 'document', title: filing.form, text: parsed.text }];
+
+    this.fullTextIndex.addFiling({
+      accessionNumber: filing.accessionNumber,
+      cik: identity.cik,
+      companyName: identity.name,
+      ticker: identity.ticker,
+      formType: filing.form,
+      filingDate: filing.filingDate,
+      reportDate: filing.reportDate,
+      url: filing.url,
+      sections
+    });
   }
 
-  private getSectorFromSIC(sic: string): string {
-    if (!sic) return 'Unknown';
-    
-    const sicCode = parseInt(sic);
-    if (sicCode >= 3700 && sicCode <= 3799) return 'Automotive';
-    if (sicCode >= 7370 && sicCode <= 7379) return 'Technology';
-    if (sicCode >= 2800 && sicCode <= 2899) return 'Chemicals';
-    
-    return 'Other';
+  private searchFilingText(query: UniversalQuery, ciks: string[]): FullTextSearchResult {
+    const q = extractSearchPhrase(query.originalQuery, query.entities.concepts.map(c => c.concept));
+    const range = query.entities.timeRanges.find(r => r.start || r.end);
+    const toDate = (value?: Date) => {
+      const date = value ? new Date(value) : null;
+      return date && !isNaN(date.getTime()) ? date.toISOString().split('T')[0] : undefined;
+    };
+
+    const result = this.fullTextIndex.search({
+      q,
+      forms: query.entities.filingTypes.map(f => f.formType),
+      ciks,
+      startDate: toDate(range?.start),
+      endDate: toDate(range?.end)
+    });
+
+    console.log(`Full-text search for ${q}: ${result.total} of ${result.indexedFilings} indexed filings`);
+    return result;
+  }
+
+  /**
+   * Holders of each company's stock among the managers in the holdings store,
+   * and quarter-over-quarter changes for companies that file 13F-HR themselves
+   * or for stored managers named in the query
+   */
+  private async extractInstitutionalHoldings(
+    query: UniversalQuery,
+    identities: CompanyIdentity[]
+  ): Promise<InstitutionalHoldingsKnowledge> {
+    const holdings: InstitutionalHoldingsKnowledge = { holders: [], managers: [] };
+    const managerCiks = new Set(this.holdingsStore.findManagers(query.originalQuery).map(manager => manager.managerCik));
+
+    for (const identity of identities) {
+      const lookup = this.holdingsStore.getHoldersOf(identity.cik);
+      if (lookup && lookup.holders.length > 0) {
+        holdings.holders.push(lookup);
+      }
+
+      try {
+        // Only investment managers file 13F-HR; other companies have no reports to fetch
+        const ingest = await fetchManagerFilings(identity.cik, {}, this.holdingsStore);
+        if (ingest.periods.length > 0) {
+          managerCiks.add(ingest.managerCik);
+        }
+      } catch (error) {
+        console.error(`Failed to fetch 13F filings for ${identity.name}:`, error);
+      }
+    }
+
+    managerCiks.forEach(cik => {
+      const changes = this.holdingsStore.getPositionChanges(cik);
+      if (changes) holdings.managers.push(changes);
+    });
+
+    console.log(`Institutional holdings: ${holdings.holders.length} holder lookups, ${holdings.managers.length} managers`);
+    return holdings;
   }
 
   private calculateKnowledgeConfidence(knowledgeSet: KnowledgeSet): number {
@@ -478,9 +784,8 @@ export class KnowledgeExtractionEngine {
   }
 
   // SEC Filing Content Fetching and Parsing
-  private async fetchFilingContent(accessionNumber: string, primaryDocument: string): Promise<string> {
-    const cleanAccession = accessionNumber.replace(/-/g, '');
-    const url = `https://www.sec.gov/Archives/edgar/data/${cleanAccession}/${accessionNumber}/${primaryDocument}`;
+  private async fetchFilingContent(cik: string, accessionNumber: string, primaryDocument: string): Promise<string> {
+    const url = buildArchivesUrl(cik, accessionNumber, primaryDocument);
     
     const response = await fetch(url, {
       headers: {
@@ -495,180 +800,19 @@ export class KnowledgeExtractionEngine {
     return await response.text();
   }
 
-  private async parseBusinessSection(htmlContent: string): Promise<string> {
-    // Parse HTML content to extract Item 1 - Business section
-    try {
-      // Look for Item 1 or Business section headers
-      const businessSectionRegex = /(?:item\s*1\s*[.\-\s]*business|business\s*overview|our\s*business)(.*?)(?:item\s*1a|item\s*2|risk\s*factors)/is;
-      const match = htmlContent.match(businessSectionRegex);
-      
-      if (match && match[1]) {
-        let businessText = match[1];
-        
-        // Clean HTML tags and excessive whitespace
-        businessText = businessText
-          .replace(/<[^>]*>/g, ' ') // Remove HTML tags
-          .replace(/&nbsp;/g, ' ') // Replace HTML entities
-          .replace(/&amp;/g, '&')
-          .replace(/&lt;/g, '<')
-          .replace(/&gt;/g, '>')
-          .replace(/\s+/g, ' ') // Normalize whitespace
-          .trim();
-          
-        // Extract first substantial paragraph (usually contains main business description)
-        const paragraphs = businessText.split(/\n\s*\n/).filter(p => p.length > 100);
-        
-        if (paragraphs.length > 0) {
-          // Return first substantial paragraph with some context
-          return paragraphs.slice(0, 3).join('\n\n').substring(0, 2000);
-        }
-        
-        return businessText.substring(0, 1500);
-      }
-      
-      // Fallback: Look for company description patterns
-      const descriptionPatterns = [
-        /we\s+(?:are|operate|provide|manufacture|develop)(.*?)(?:\.|we\s+also)/is,
-        /the\s+company\s+(?:is|operates|provides)(.*?)(?:\.|the\s+company)/is,
-        /(?:^|\.)\s*[A-Z][^.]*?(?:operates|provides|manufactures|develops|offers)[^.]*?\./gm
-      ];
-      
-      for (const pattern of descriptionPatterns) {
-        const match = htmlContent.match(pattern);
-        if (match) {
-          return this.cleanText(match[0]).substring(0, 1000);
-        }
-      }
-      
-      return 'Business description could not be extracted from filing content.';
-      
-    } catch (error) {
-      console.error('Error parsing business section:', error);
-      return 'Error parsing business section from filing.';
-    }
-  }
+  private async getFilingIndex(cik: string, accessionNumber: string, primaryDocument?: string): Promise<FilingIndex> {
+    const headers = { 'User-Agent': process.env.SEC_API_USER_AGENT || 'SEC Query App/1.0' };
 
-  private async parseRiskFactors(htmlContent: string): Promise<any[]> {
-    try {
-      // Look for Item 1A - Risk Factors section
-      const riskSectionRegex = /(?:item\s*1a\s*[.\-\s]*risk\s*factors|risk\s*factors)(.*?)(?:item\s*1b|item\s*2|unresolved\s*staff\s*comments)/is;
-      const match = htmlContent.match(riskSectionRegex);
-      
-      if (!match || !match[1]) {
-        return [];
-      }
-      
-      let riskContent = match[1];
-      
-      // Clean HTML and extract individual risk factors
-      riskContent = this.cleanText(riskContent);
-      
-      // Split into individual risk factors (often separated by bullet points or headers)
-      const riskFactors: any[] = [];
-      
-      // Look for common risk factor patterns
-      const riskPatterns = [
-        // Bullet points or numbered lists
-        /(?:^|\n)\s*[•·\-\*]\s*([^\n]{50,})/gm,
-        // Bold headers followed by descriptions
-        /(?:^|\n)\s*([A-Z][^\n]{20,100})\s*[\n\r]\s*([^\n]{100,})/gm,
-        // Paragraph starting with risk keywords
-        /(?:^|\.)\s*([^.]*?(?:risk|uncertainty|challenge|threat|adverse|negative|decline|volatility)[^.]*?\.[^.]*?\.[^.]*?\.)/gim
-      ];
-      
-      let factorCount = 0;
-      for (const pattern of riskPatterns) {
-        let match;
-        while ((match = pattern.exec(riskContent)) !== null && factorCount < 10) {
-          const riskText = match[1] || match[0];
-          if (riskText.length > 50) {
-            riskFactors.push({
-              category: this.categorizeRiskFactor(riskText),
-              description: riskText.substring(0, 500),
-              severity: this.assessRiskSeverity(riskText),
-              likelihood: 'unknown',
-              trend: 'unknown'
-            });
-            factorCount++;
-          }
-        }
-      }
-      
-      return riskFactors;
-      
-    } catch (error) {
-      console.error('Error parsing risk factors:', error);
-      return [];
+    const response = await fetch(buildIndexJsonUrl(cik, accessionNumber), { headers });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch filing index: ${response.status}`);
     }
-  }
+    const indexJson = await response.json();
 
-  private cleanText(text: string): string {
-    return text
-      .replace(/<[^>]*>/g, ' ') // Remove HTML tags
-      .replace(/&nbsp;/g, ' ') // Replace HTML entities
-      .replace(/&amp;/g, '&')
-      .replace(/&lt;/g, '<')
-      .replace(/&gt;/g, '>')
-      .replace(/&quot;/g, '"')
-      .replace(/&#\d+;/g, ' ') // Remove numeric HTML entities
-      .replace(/\s+/g, ' ') // Normalize whitespace
-      .replace(/\n\s*\n/g, '\n') // Remove extra line breaks
-      .trim();
-  }
-
-  private categorizeRiskFactor(riskText: string): string {
-    const lowerText = riskText.toLowerCase();
-    
-    if (lowerText.includes('cyber') || lowerText.includes('data') || lowerText.includes('security')) {
-      return 'Cybersecurity & Data Protection';
-    }
-    if (lowerText.includes('regulatory') || lowerText.includes('compliance') || lowerText.includes('legal')) {
-      return 'Regulatory & Legal';
-    }
-    if (lowerText.includes('market') || lowerText.includes('competition') || lowerText.includes('customer')) {
-      return 'Market & Competition';
-    }
-    if (lowerText.includes('financial') || lowerText.includes('credit') || lowerText.includes('liquidity')) {
-      return 'Financial';
-    }
-    if (lowerText.includes('operational') || lowerText.includes('supply') || lowerText.includes('manufacturing')) {
-      return 'Operational';
-    }
-    if (lowerText.includes('technology') || lowerText.includes('innovation') || lowerText.includes('intellectual')) {
-      return 'Technology & IP';
-    }
-    if (lowerText.includes('human') || lowerText.includes('talent') || lowerText.includes('employee')) {
-      return 'Human Capital';
-    }
-    if (lowerText.includes('environmental') || lowerText.includes('climate') || lowerText.includes('sustainability')) {
-      return 'Environmental & Climate';
-    }
-    
-    return 'General Business';
-  }
+    // Document types and descriptions are only on the HTML index page
+    const pageResponse = await fetch(buildIndexPageUrl(cik, accessionNumber), { headers });
+    const indexPage = pageResponse.ok ? await pageResponse.text() : undefined;
 
-  private assessRiskSeverity(riskText: string): 'low' | 'medium' | 'high' | 'critical' {
-    const lowerText = riskText.toLowerCase();
-    
-    // Critical risk indicators
-    if (lowerText.includes('material adverse') || lowerText.includes('significant harm') || 
-        lowerText.includes('going concern') || lowerText.includes('bankruptcy')) {
-      return 'critical';
-    }
-    
-    // High risk indicators
-    if (lowerText.includes('substantial') || lowerText.includes('significant') || 
-        lowerText.includes('materially') || lowerText.includes('severe')) {
-      return 'high';
-    }
-    
-    // Medium risk indicators
-    if (lowerText.includes('adverse') || lowerText.includes('negative') || 
-        lowerText.includes('harm') || lowerText.includes('impact')) {
-      return 'medium';
-    }
-    
-    // Default to low
-    return 'low';
+    return buildFilingIndex(cik, accessionNumber, indexJson, indexPage, primaryDocument);
   }
 }
\ No newline at end of file
@@ -1,26 +1,35 @@
 // Knowledge Synthesis Engine - Combines knowledge to generate comprehensive answers
 
-import OpenAI from 'openai';
 import { 
   UniversalQuery,
   KnowledgeSet,
   UniversalAnswer,
   AnswerData,
-  Citation,
+  Timeline,
   AnswerAssessment,
   FollowUpSuggestions,
   DataSource,
-  FilingReference
+  FilingReference,
+  FinancialTrend,
+  FinancialRatio,
+  Table,
+  ChartConfig,
+  RiskTrend,
+  InsiderActivitySummary,
+  ExecutiveCompensation
 } from './types';
+import { buildArchivesUrl } from '../edgar-filing-index';
+import { FullTextSearchResult } from '../filing-fulltext-index';
+import { InstitutionalHoldingsKnowledge, ManagerPositionChanges } from '../institutional-holdings';
+import { ScreenCondition, ScreenResult } from '../frames-screener';
+import { PeerBenchmark, PeerBenchmarkResult } from '../peer-groups';
+import { getStandardMetric } from '../xbrl-concepts';
+import { LLMProvider, getLLMProvider } from '../llm-provider';
+import { ClaimVerification, claimVerificationMode, describeVerification, verifyNarrativeClaims } from './claim-verifier';
+import { CitationEvidence, describeSources, figuresIn, linkCitations } from './citation-linker';
 
 export class KnowledgeSynthesizer {
-  private openai: OpenAI;
-  
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-  }
+  constructor(private llm: LLMProvider = getLLMProvider()) {}
 
   async synthesizeAnswer(query: UniversalQuery, knowledge: KnowledgeSet): Promise<UniversalAnswer> {
     console.log('=== KNOWLEDGE SYNTHESIS ===');
@@ -31,19 +40,27 @@ export class KnowledgeSynthesizer {
       confidence: knowledge.confidence
     });
 
-    // 1. Generate primary narrative response
-    const narrative = await this.generateNarrative(query, knowledge);
+    // 1. Gather citable sources; the narrative prompt lists them by number
+    const evidence = this.generateCitationEvidence(knowledge);
+
+    // 2. Generate primary narrative response; figures and dates the knowledge does not support are flagged or removed
+    const verification = verifyNarrativeClaims(
+      await this.generateNarrative(query, knowledge, evidence),
+      knowledge,
+      query.originalQuery,
+      claimVerificationMode()
+    );
+
+    // 3. Tie the remaining figures and dates to numbered citations with [n] markers
+    const { narrative, citations } = linkCitations(verification.narrative, evidence);
     
-    // 2. Structure supporting data
+    // 4. Structure supporting data
     const data = await this.structureSupportingData(query, knowledge);
     
-    // 3. Generate citations
-    const citations = this.generateCitations(knowledge);
+    // 5. Assess answer quality
+    const assessment = this.assessAnswer(query, knowledge, narrative, verification);
     
-    // 4. Assess answer quality
-    const assessment = this.assessAnswer(query, knowledge, narrative);
-    
-    // 5. Generate follow-up suggestions
+    // 6. Generate follow-up suggestions
     const followUp = this.generateFollowUpSuggestions(query, knowledge);
 
     const answer: UniversalAnswer = {
@@ -71,9 +88,11 @@ export class KnowledgeSynthesizer {
     return answer;
   }
 
-  private async generateNarrative(query: UniversalQuery, knowledge: KnowledgeSet): Promise<string> {
+  private async generateNarrative(query: UniversalQuery, knowledge: KnowledgeSet, evidence: CitationEvidence[]): Promise<string> {
     // Handle simple filing lookup queries directly without AI
-    if (query.intent.primary === 'filing_lookup' && knowledge.companies.length > 0) {
+    // Compensation and 8-K event questions often read as filing lookups, but deserve the parsed figures
+    if (query.intent.primary === 'filing_lookup' && knowledge.companies.length > 0
+      && !knowledge.companies.some(company => company.governance?.executiveCompensation?.executives.length || company.timeline?.events?.length)) {
       return this.generateFilingLookupResponse(query, knowledge);
     }
     
@@ -95,6 +114,9 @@ QUERY ANALYSIS:
 AVAILABLE KNOWLEDGE:
 ${context}
 
+CITABLE SOURCES:
+${describeSources(evidence)}
+
 REQUIREMENTS:
 1. Provide a direct, comprehensive answer to the specific question asked
 2. Use specific data and facts from the knowledge provided
@@ -107,29 +129,25 @@ REQUIREMENTS:
 9. If analyzing trends, explain the trajectory and implications
 10. Maintain professional, analytical tone
 11. IMPORTANT: Reference specific SEC filings when citing data (e.g., "According to Tesla's 10-K filed on [date]...")
+12. Cite the source of each figure, date and filing detail by its number from CITABLE SOURCES in square brackets at the end of the sentence (e.g., "Revenue was $96.8 billion in FY2023 [3]."); use only numbers listed under CITABLE SOURCES
 
 RESPONSE FORMAT:
 - Start with a direct answer to the main question
 - Provide supporting details and context with filing references
 - Include specific data points and metrics with sources
 - End with implications or significance
-- Note: Source links will be provided separately, focus on clear attribution in text
+- Note: Citation markers become footnotes linking to the source passage, so do not write URLs
 
 Generate a comprehensive response:`;
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        max_tokens: 2000,
+      return await this.llm.complete({
+        purpose: 'narrative',
+        maxTokens: 2000,
         temperature: 0.1,
         messages: [{ role: 'user', content: prompt }]
       });
 
-      const content = response.choices[0]?.message?.content;
-      if (!content) throw new Error('No response from OpenAI');
-
-      return content;
-
     } catch (error) {
       console.error('Narrative generation failed:', error);
       return this.generateFallbackNarrative(query, knowledge);
@@ -153,12 +171,62 @@ Generate a comprehensive response:`;
         if (company.financial.metrics.net_income) {
           context += `   - Net Income: $${(company.financial.metrics.net_income / 1000000).toFixed(0)}M\n`;
         }
+
+        // Add multi-period trends
+        (company.financial.trends || [])
+          .filter(trend => trend.periodType === 'annual' && trend.series && trend.series.length > 1)
+          .forEach(trend => {
+            context += `   - ${this.formatMetricName(trend.metric)} Trend: ${this.describeTrend(trend)}\n`;
+          });
+
+        // Add ratios with their formulas so the narrative can explain how they were derived
+        (company.financial.ratios || []).forEach(ratio => {
+          context += `   - ${ratio.name} (${ratio.period?.description || 'latest'}): ${this.formatRatioValue(ratio)} = ${ratio.formula}\n`;
+        });
         
         // Add risk factors
         if (company.risk.risk_factors.length > 0) {
           context += `   - Key Risks: ${company.risk.risk_factors.slice(0, 3).map(r => r.category).join(', ')}\n`;
         }
+
+        // Add year-over-year risk factor changes; new disclosures are the strongest signal
+        const riskChanges = company.risk.risk_trends.filter(t => t.change);
+        if (riskChanges.length > 0) {
+          const count = (change: string) => riskChanges.filter(t => t.change === change).length;
+          context += `   - Risk Factor Changes vs Prior 10-K: ${count('added')} new, ${count('removed')} removed, ${count('reworded')} materially reworded\n`;
+          riskChanges.slice(0, 5).forEach(t => {
+            context += `     * ${t.change}: ${t.risk.substring(0, 200)}\n`;
+          });
+        }
         
+        // Add insider trading from Form 4s; only open-market trades count toward net buying or selling
+        const insiderActivity = company.governance?.insiderActivity;
+        if (insiderActivity) {
+          context += `   - Insider Activity (${insiderActivity.window.start} to ${insiderActivity.window.end}): ${this.describeInsiderActivity(insiderActivity)}\n`;
+          insiderActivity.insiders.slice(0, 5).forEach(insider => {
+            context += `     * ${insider.ownerName} (${insider.role}): bought ${insider.purchases.shares.toLocaleString()} and sold ${insider.sales.shares.toLocaleString()} shares on the open market`;
+            context += insider.sharesOwned !== undefined ? `, holds ${insider.sharesOwned.toLocaleString()} directly\n` : '\n';
+          });
+        }
+
+        // Add named executive officer pay from the proxy's Summary Compensation Table
+        const compensation = company.governance?.executiveCompensation;
+        if (compensation && compensation.executives.length > 0) {
+          context += `   - Executive Compensation (DEF 14A filed ${compensation.filingDate}):\n`;
+          compensation.executives.forEach(executive => {
+            context += `     * ${executive.name}${executive.title ? ` (${executive.title})` : ''}: ${executive.years.map(year => `${year.year} total ${this.formatDollars(year.total)}`).join(', ')}\n`;
+          });
+        }
+
+        // Add 8-K events, classified by the items they report
+        const events = company.timeline?.events || [];
+        if (events.length > 0) {
+          context += `   - Recent Events (8-K):\n`;
+          events.slice(0, 10).forEach(event => {
+            context += `     * ${event.date} [${event.items.map(item => item.item).join(', ')}] ${event.title}${event.summary ? `: ${event.summary}` : ''}\n`;
+          });
+        }
+
         // Add recent filings
         if (company.filings.length > 0) {
           context += `   - Recent Filings: ${company.filings.slice(0, 3).map(f => f.form).join(', ')}\n`;
@@ -182,6 +250,60 @@ Generate a comprehensive response:`;
       });
     }
 
+    // Add full-text matches; snippets are the only evidence for content queries
+    if (knowledge.contentMatches) {
+      const matches = knowledge.contentMatches;
+      context += `\nFILING TEXT MATCHES for ${matches.terms.map(t => `"${t}"`).join(' AND ')}: ${matches.total} of ${matches.indexedFilings} locally indexed filings\n`;
+      matches.hits.slice(0, 10).forEach((hit, index) => {
+        context += `\n${index + 1}. ${hit.companyName} ${hit.formType} (${hit.filingDate}), ${hit.hitCount} mentions:\n`;
+        hit.snippets.forEach(snippet => {
+          context += `   - Item ${snippet.section}: "${snippet.text}"\n`;
+        });
+      });
+    }
+
+    // Add frames screen matches; frames hold one calendar-aligned value per company
+    if (knowledge.screenResults) {
+      const screen = knowledge.screenResults;
+      context += `\nSCREEN RESULTS (${screen.criteria.period}, ${this.describeScreenCriteria(screen)}): ${screen.total} companies matched\n`;
+      screen.rows.slice(0, 15).forEach((row, index) => {
+        context += `${index + 1}. ${row.entityName}${row.ticker ? ` (${row.ticker})` : ''}: ${screen.metrics.map(metric => `${metric.label} ${this.formatCurrency(row.values[metric.key]?.value)}`).join(', ')}\n`;
+      });
+      screen.warnings.forEach(warning => {
+        context += `   - Note: ${warning}\n`;
+      });
+    }
+
+    // Add peer benchmarks; peers share the company's SIC prefix and fall within its size band
+    knowledge.peerBenchmarks?.forEach(result => {
+      const { group } = result;
+      context += `\nPEER BENCHMARKS for ${group.target.entityName} (${group.period}, ${group.peers.length} peers in SIC ${group.sicPrefix}, ${group.sizeMetric.label} ${this.formatCurrency(group.sizeRange.min)} to ${this.formatCurrency(group.sizeRange.max)}): ${group.peers.map(peer => peer.entityName).join(', ')}\n`;
+      result.benchmarks.forEach(benchmark => {
+        context += `   - ${benchmark.ratio}: ${this.formatBenchmarkValue(benchmark, benchmark.value)} vs peer median ${this.formatBenchmarkValue(benchmark, benchmark.median)}`;
+        context += benchmark.percentile !== null ? `, ${benchmark.percentile.toFixed(0)}th percentile, rank ${benchmark.rank} of ${benchmark.peerCount + 1}\n` : '\n';
+      });
+      result.warnings.forEach(warning => {
+        context += `   - Note: ${warning}\n`;
+      });
+    });
+
+    // Add 13F holdings; holders can only be found among managers whose reports were ingested
+    if (knowledge.institutionalHoldings) {
+      knowledge.institutionalHoldings.holders.forEach(lookup => {
+        context += `\nINSTITUTIONAL HOLDERS of ${lookup.issuer} (13F period ${lookup.period}): ${lookup.holders.length} of ${lookup.managersTracked} tracked managers, ${lookup.totalShares.toLocaleString()} shares worth ${this.formatCurrency(lookup.totalValue)}\n`;
+        lookup.holders.slice(0, 10).forEach(holder => {
+          context += `   - ${holder.managerName}: ${holder.shares.toLocaleString()} shares (${this.formatCurrency(holder.value)})`;
+          context += holder.change ? `, ${holder.change} ${holder.shareChange?.toLocaleString()} shares vs prior quarter\n` : '\n';
+        });
+      });
+      knowledge.institutionalHoldings.managers.forEach(manager => {
+        context += `\n13F POSITION CHANGES for ${manager.managerName}: ${this.describePositionChanges(manager)}\n`;
+        manager.changes.filter(change => change.type !== 'unchanged').slice(0, 15).forEach(change => {
+          context += `   - ${change.type}: ${change.issuer}${change.putCall ? ` (${change.putCall})` : ''} ${change.sharesBefore.toLocaleString()} -> ${change.sharesAfter.toLocaleString()} shares\n`;
+        });
+      });
+    }
+
     // Add data sources
     context += `\nDATA SOURCES: ${knowledge.sources.map(s => s.name).join(', ')}\n`;
     context += `KNOWLEDGE CONFIDENCE: ${(knowledge.confidence * 100).toFixed(0)}%\n`;
@@ -201,15 +323,65 @@ Generate a comprehensive response:`;
     // Generate financial metrics table
     if (query.intent.primary === 'financial_metrics') {
       data.tables = [...(data.tables || []), this.generateFinancialMetricsTable(knowledge.companies)];
+
+      const ratioTable = this.generateRatioTable(knowledge.companies);
+      if (ratioTable) {
+        data.tables.push(ratioTable);
+      }
+    }
+
+    // Generate trend tables and charts
+    if (query.intent.primary === 'trend_analysis') {
+      data.tables = [...(data.tables || []), ...this.generateTrendTables(knowledge.companies)];
+      data.charts = [...(data.charts || []), ...this.generateTrendCharts(knowledge.companies)];
     }
 
     // Generate risk analysis table
     if (query.intent.primary === 'risk_analysis') {
       data.tables = [...(data.tables || []), this.generateRiskAnalysisTable(knowledge.companies)];
+
+      const riskChangeTable = this.generateRiskChangeTable(knowledge.companies);
+      if (riskChangeTable) {
+        data.tables.push(riskChangeTable);
+      }
     }
 
-    // Generate timeline for historical analysis
-    if (query.intent.requiresHistorical) {
+    // Generate insider activity table from Form 3/4/5 filings
+    if (query.scope.dataTypes.includes('insider_transactions')) {
+      const insiderTable = this.generateInsiderActivityTable(knowledge.companies);
+      if (insiderTable) {
+        data.tables = [...(data.tables || []), insiderTable];
+      }
+    }
+
+    // Generate executive compensation table from DEF 14A proxy statements
+    const compensationTable = this.generateCompensationTable(knowledge.companies);
+    if (compensationTable) {
+      data.tables = [...(data.tables || []), compensationTable];
+    }
+
+    // Generate 13F holder and position change tables
+    if (query.scope.dataTypes.includes('institutional_holdings') && knowledge.institutionalHoldings) {
+      data.tables = [...(data.tables || []), ...this.generateHoldingsTables(knowledge.institutionalHoldings)];
+    }
+
+    // Generate frames screen table
+    if (knowledge.screenResults) {
+      data.tables = [...(data.tables || []), this.generateScreenTable(knowledge.screenResults)];
+    }
+
+    // Generate peer benchmark and peer group tables
+    knowledge.peerBenchmarks?.forEach(result => {
+      data.tables = [...(data.tables || []), ...this.generatePeerTables(result)];
+    });
+
+    // Generate full-text match table
+    if (query.intent.primary === 'content_search' && knowledge.contentMatches) {
+      data.tables = [...(data.tables || []), this.generateContentMatchTable(knowledge.contentMatches)];
+    }
+
+    // Generate timeline for historical analysis and event questions
+    if (query.intent.requiresHistorical || query.scope.dataTypes.includes('historical_events')) {
       data.timelines = this.generateTimelines(knowledge);
     }
 
@@ -278,8 +450,475 @@ Generate a comprehensive response:`;
     };
   }
 
-  private generateTimelines(knowledge: KnowledgeSet): any[] {
-    // Generate timeline from filing dates and key events
+  private generateRiskChangeTable(companies: any[]): Table | null {
+    const rows: (string | number)[][] = [];
+
+    companies.forEach(company => {
+      const changes: RiskTrend[] = (company.risk?.risk_trends || []).filter((t: RiskTrend) => t.change);
+      changes.forEach(change => {
+        rows.push([
+          company.identity.name,
+          change.change === 'added' ? 'New' : change.change === 'removed' ? 'Removed' : 'Reworded',
+          change.category || 'N/A',
+          change.risk.length > 120 ? change.risk.substring(0, 120) + '...' : change.risk,
+          change.trend
+        ]);
+      });
+    });
+
+    if (rows.length === 0) return null;
+
+    return {
+      title: 'Risk Factor Changes vs Prior Annual Report',
+      headers: ['Company', 'Change', 'Risk Category', 'Risk Factor', 'Trend'],
+      rows: rows.slice(0, 25),
+      source: 'Item 1A of the two most recent 10-K filings',
+      notes: [
+        'Risk factors are aligned by heading, falling back to body text for retitled risks',
+        'Reworded risks changed materially in wording between the two filings'
+      ]
+    };
+  }
+
+  private generateInsiderActivityTable(companies: any[]): Table | null {
+    const rows: (string | number)[][] = [];
+    let window: InsiderActivitySummary['window'] | undefined;
+
+    companies.forEach(company => {
+      const activity: InsiderActivitySummary | undefined = company.governance?.insiderActivity;
+      if (!activity) return;
+      window = activity.window;
+
+      activity.insiders.forEach(insider => {
+        rows.push([
+          company.identity.name,
+          insider.ownerName,
+          insider.role,
+          insider.purchases.shares,
+          insider.sales.shares,
+          this.formatSignedCurrency(insider.netValue),
+          insider.sharesOwned ?? 'N/A'
+        ]);
+      });
+    });
+
+    if (rows.length === 0) return null;
+
+    return {
+      title: 'Insider Buying and Selling',
+      headers: ['Company', 'Insider', 'Role', 'Shares Bought', 'Shares Sold', 'Net Value', 'Shares Held After'],
+      rows: rows.slice(0, 25),
+      source: 'Form 3/4/5 ownership filings',
+      notes: [
+        `Transactions dated ${window!.start} to ${window!.end}`,
+        'Bought and sold count open-market trades (codes P and S) only; awards, option exercises, tax withholding and gifts are excluded',
+        'Shares held are direct holdings after each insider\'s latest reported transaction'
+      ]
+    };
+  }
+
+  private describeInsiderActivity(activity: InsiderActivitySummary): string {
+    const trades = `${activity.purchases.count} open-market purchases (${activity.purchases.shares.toLocaleString()} shares) and ${activity.sales.count} sales (${activity.sales.shares.toLocaleString()} shares)`;
+    const signal = activity.signal === 'net_buying' ? 'net buying' : activity.signal === 'net_selling' ? 'net selling' : 'no net buying or selling';
+    return `${trades} across ${activity.filings} filings; ${signal} of ${Math.abs(activity.netShares).toLocaleString()} shares (${this.formatSignedCurrency(activity.netValue)})`;
+  }
+
+  private formatSignedCurrency(amount: number): string {
+    const sign = amount > 0 ? '+' : amount < 0 ? '-' : '';
+    return `${sign}$${Math.abs(amount).toLocaleString('en-US', { maximumFractionDigits: 0 })}`;
+  }
+
+  private generateCompensationTable(companies: any[]): Table | null {
+    const rows: (string | number)[][] = [];
+    const filings: string[] = [];
+
+    companies.forEach(company => {
+      const compensation: ExecutiveCompensation | undefined = company.governance?.executiveCompensation;
+      if (!compensation || compensation.executives.length === 0) return;
+      filings.push(`${company.identity.name} DEF 14A filed ${compensation.filingDate}`);
+
+      compensation.executives.forEach(executive => {
+        executive.years.forEach(year => {
+          rows.push([
+            company.identity.name,
+            executive.name,
+            executive.title || '',
+            year.year,
+            this.formatDollars(year.salary),
+            this.formatDollars(year.bonus),
+            this.formatDollars(year.stockAwards),
+            this.formatDollars(year.optionAwards),
+            this.formatDollars(year.nonEquityIncentive),
+            this.formatDollars(year.allOther),
+            this.formatDollars(year.total)
+          ]);
+        });
+      });
+    });
+
+    if (rows.length === 0) return null;
+
+    return {
+      title: 'Executive Compensation',
+      headers: ['Company', 'Executive', 'Title', 'Year', 'Salary', 'Bonus', 'Stock Awards', 'Option Awards', 'Non-Equity Incentive', 'All Other', 'Total'],
+      rows,
+      source: 'Summary Compensation Table, DEF 14A proxy statements',
+      notes: [
+        ...filings,
+        'Stock and option awards are grant-date fair values, not pay realized in the year',
+        'Amounts the proxy shows as a dash are reported as $0'
+      ]
+    };
+  }
+
+  private formatDollars(amount: number | undefined): string {
+    if (amount === undefined) return 'N/A';
+    return `$${amount.toLocaleString('en-US', { maximumFractionDigits: 0 })}`;
+  }
+
+  private generateHoldingsTables(holdings: InstitutionalHoldingsKnowledge): Table[] {
+    const holderTables: Table[] = holdings.holders.map(lookup => ({
+      title: `Institutional Holders of ${lookup.ticker ? `${lookup.issuer} (${lookup.ticker})` : lookup.issuer}`,
+      headers: ['Manager', 'Shares', 'Value', 'Change vs Prior Quarter'],
+      rows: lookup.holders.slice(0, 25).map(holder => [
+        holder.managerName,
+        holder.shares,
+        this.formatCurrency(holder.value),
+        holder.change ? `${holder.change} (${holder.shareChange! > 0 ? '+' : ''}${holder.shareChange!.toLocaleString()})` : 'N/A'
+      ]),
+      source: '13F-HR information tables',
+      notes: [
+        `Report period ${lookup.period}`,
+        `Only the ${lookup.managersTracked} managers whose 13F-HR reports have been ingested are searched`,
+        'Put and call option positions are excluded'
+      ]
+    }));
+
+    const changeTables: Table[] = holdings.managers
+      .filter(manager => manager.changes.length > 0)
+      .map(manager => ({
+        title: `${manager.managerName} Position Changes`,
+        headers: ['Issuer', 'Class', 'Change', 'Shares Before', 'Shares After', 'Share Change', 'Value After'],
+        rows: manager.changes
+          .filter(change => change.type !== 'unchanged')
+          .slice(0, 25)
+          .map(change => [
+            change.ticker ? `${change.issuer} (${change.ticker})` : change.issuer,
+            change.putCall ? `${change.titleOfClass} ${change.putCall}` : change.titleOfClass,
+            change.type,
+            change.sharesBefore,
+            change.sharesAfter,
+            change.percentChange === null ? 'new' : `${change.percentChange > 0 ? '+' : ''}${change.percentChange}%`,
+            this.formatCurrency(change.valueAfter)
+          ]),
+        source: '13F-HR information tables',
+        notes: [
+          `${manager.previousPeriod} to ${manager.period}`,
+          'Positions are matched by CUSIP; puts and calls are compared separately from shares'
+        ]
+      }));
+
+    return [...holderTables, ...changeTables];
+  }
+
+  private describePositionChanges(manager: ManagerPositionChanges): string {
+    if (!manager.previousPeriod) {
+      return `${manager.positions} positions worth ${this.formatCurrency(manager.totalValue)} at ${manager.period}; no earlier report to compare`;
+    }
+    const { counts } = manager;
+    return `${counts.new} new, ${counts.added} increased, ${counts.reduced} reduced and ${counts.exited} exited positions between ${manager.previousPeriod} and ${manager.period}, leaving ${manager.positions} positions worth ${this.formatCurrency(manager.totalValue)}`;
+  }
+
+  private generateScreenTable(screen: ScreenResult): Table {
+    const sic = screen.criteria.sic || [];
+    const filters = [
+      // Sectors expand to dozens of industry codes
+      sic.length > 0 ? `SIC ${sic.slice(0, 6).join(', ')}${sic.length > 6 ? ` and ${sic.length - 6} more` : ''}` : '',
+      screen.criteria.stateOfIncorporation?.length ? `incorporated in ${screen.criteria.stateOfIncorporation.join(', ')}` : ''
+    ].filter(Boolean);
+
+    return {
+      title: `Companies Matching ${this.describeScreenCriteria(screen)} (${screen.criteria.period})`,
+      headers: ['Company', 'CIK', ...screen.metrics.map(metric => metric.label), 'Period End'],
+      rows: screen.rows.map(row => [
+        row.ticker ? `${row.entityName} (${row.ticker})` : row.entityName,
+        row.cik,
+        ...screen.metrics.map(metric => this.formatCurrency(row.values[metric.key]?.value)),
+        Object.values(row.values)[0]?.end || ''
+      ]),
+      source: screen.source === 'snapshot' ? 'Local XBRL frames snapshot' : 'SEC XBRL frames API',
+      notes: [
+        `${screen.rows.length} of ${screen.total} matching companies shown`,
+        ...(filters.length > 0 ? [`Filtered to ${filters.join(' and ')}`] : []),
+        'Frames report one value per company for the calendar period closest to its fiscal period',
+        ...screen.warnings
+      ]
+    };
+  }
+
+  private generatePeerTables(result: PeerBenchmarkResult): Table[] {
+    const { group } = result;
+    const source = group.source === 'snapshot' ? 'Local XBRL frames snapshot' : 'SEC XBRL frames API';
+    const standing: { [key in NonNullable<PeerBenchmark['standing']>]: string } = {
+      top_quartile: 'Top quartile',
+      above_median: 'Above median',
+      below_median: 'Below median',
+      bottom_quartile: 'Bottom quartile'
+    };
+    const size = group.target.values[group.sizeMetric.key]?.value;
+
+    return [
+      {
+        title: `${group.target.entityName} vs ${group.peers.length} Peers in SIC ${group.sicPrefix} (${group.period})`,
+        headers: ['Ratio', group.target.ticker || group.target.entityName, 'Peer Median', '25th Percentile', '75th Percentile', 'Percentile', 'Rank', 'Standing'],
+        rows: result.benchmarks.map(benchmark => [
+          benchmark.ratio,
+          this.formatBenchmarkValue(benchmark, benchmark.value),
+          this.formatBenchmarkValue(benchmark, benchmark.median),
+          this.formatBenchmarkValue(benchmark, benchmark.p25),
+          this.formatBenchmarkValue(benchmark, benchmark.p75),
+          benchmark.percentile !== null ? `${benchmark.percentile.toFixed(0)}th` : 'N/A',
+          benchmark.rank !== null ? `${benchmark.rank} of ${benchmark.peerCount + 1}` : 'N/A',
+          benchmark.standing ? standing[benchmark.standing] : 'N/A'
+        ]),
+        source,
+        notes: [
+          'Percentile is the share of peers with a lower value; rank and standing account for ratios where lower is better',
+          'Balance sheet inputs are period-end values, so returns use ending rather than average balances',
+          ...result.warnings
+        ]
+      },
+      {
+        title: `Peer Group for ${group.target.entityName}`,
+        headers: ['Company', 'CIK', 'SIC', 'Industry', group.sizeMetric.label, 'Size vs Company'],
+        rows: group.peers.map(peer => [
+          peer.ticker ? `${peer.entityName} (${peer.ticker})` : peer.entityName,
+          peer.cik,
+          peer.sic || '',
+          peer.sicDescription || '',
+          this.formatCurrency(peer.values[group.sizeMetric.key]?.value),
+          size ? `${(peer.values[group.sizeMetric.key].value / size).toFixed(2)}x` : 'N/A'
+        ]),
+        source,
+        notes: [
+          `${group.classification?.industry || group.target.sicDescription || `SIC ${group.sicPrefix}`} (${group.classification?.sector || 'Other'} sector)`,
+          `Peers share SIC prefix ${group.sicPrefix} and report ${group.sizeMetric.label} between ${this.formatCurrency(group.sizeRange.min)} and ${this.formatCurrency(group.sizeRange.max)}`
+        ]
+      }
+    ];
+  }
+
+  private formatBenchmarkValue(benchmark: PeerBenchmark, value: number | null): string {
+    return value === null ? 'N/A' : this.formatRatioValue({ value, unit: benchmark.unit });
+  }
+
+  private describeScreenCriteria(screen: ScreenResult): string {
+    const describe = (condition: ScreenCondition) => {
+      const label = getStandardMetric(condition.metric)?.label || condition.metric;
+      if (condition.value === 0 && (condition.operator === 'lt' || condition.operator === 'gt')) {
+        return `${condition.operator === 'lt' ? 'negative' : 'positive'} ${label}`;
+      }
+      switch (condition.operator) {
+        case 'between': return `${label} between ${this.formatCurrency(condition.value)} and ${this.formatCurrency(condition.max)}`;
+        case 'gt': return `${label} over ${this.formatCurrency(condition.value)}`;
+        case 'gte': return `${label} of at least ${this.formatCurrency(condition.value)}`;
+        case 'lt': return `${label} under ${this.formatCurrency(condition.value)}`;
+        case 'lte': return `${label} of at most ${this.formatCurrency(condition.value)}`;
+      }
+    };
+
+    if (screen.criteria.conditions.length === 0) {
+      const metric = screen.metrics[0];
+      return `${screen.criteria.order === 'asc' ? 'Lowest' : 'Highest'} ${metric?.label || 'Value'}`;
+    }
+    return screen.criteria.conditions.map(describe).join(' and ');
+  }
+
+  private generateContentMatchTable(matches: FullTextSearchResult): Table {
+    return {
+      title: `Filings Mentioning ${matches.terms.map(t => `"${t}"`).join(' and ')}`,
+      headers: ['Company', 'Form', 'Filed', 'Mentions', 'Excerpt'],
+      rows: matches.hits.map(hit => [
+        hit.ticker ? `${hit.companyName} (${hit.ticker})` : hit.companyName,
+        hit.formType,
+        hit.filingDate,
+        hit.hitCount,
+        hit.snippets[0]?.text || ''
+      ]),
+      source: 'Local full-text index of ingested SEC filings',
+      notes: [
+        `${matches.total} of ${matches.indexedFilings} indexed filings match`,
+        'Only filings already ingested by this application are searched'
+      ]
+    };
+  }
+
+  private generateRatioTable(companies: any[]): Table | null {
+    const rows: (string | number)[][] = [];
+
+    companies.forEach(company => {
+      const ratios: FinancialRatio[] = company.financial?.ratios || [];
+      ratios.forEach(ratio => {
+        rows.push([
+          company.identity.name,
+          ratio.name,
+          this.formatRatioValue(ratio),
+          ratio.period?.description || 'N/A',
+          ratio.formula || ''
+        ]);
+      });
+    });
+
+    if (rows.length === 0) return null;
+
+    return {
+      title: 'Financial Ratios',
+      headers: ['Company', 'Ratio', 'Value', 'Period', 'Formula'],
+      rows,
+      source: 'Calculated from XBRL company facts',
+      notes: ['All inputs for a ratio are taken from the same fiscal period', 'Averages use opening and closing balances where both are reported']
+    };
+  }
+
+  private formatRatioValue(ratio: Pick<FinancialRatio, 'value' | 'unit'>): string {
+    if (ratio.unit === 'percent') return `${(ratio.value * 100).toFixed(1)}%`;
+    if (ratio.unit === 'times') return `${ratio.value.toFixed(1)}x`;
+    return ratio.value.toFixed(2);
+  }
+
+  private generateTrendTables(companies: any[]): Table[] {
+    const tables: Table[] = [];
+
+    companies.forEach(company => {
+      const trends: FinancialTrend[] = company.financial?.trends || [];
+
+      (['annual', 'quarterly'] as const).forEach(periodType => {
+        const periodTrends = trends.filter(t => t.periodType === periodType && t.series && t.series.length > 1);
+        if (periodTrends.length === 0) return;
+
+        tables.push({
+          title: `${company.identity.name} ${periodType === 'annual' ? 'Annual' : 'Quarterly'} Trends`,
+          headers: ['Metric', 'Periods', 'Latest', periodType === 'annual' ? 'YoY Growth' : 'QoQ Growth', 'YoY Growth', 'CAGR', 'Direction'],
+          rows: periodTrends.map(trend => {
+            const series = trend.series!;
+            const latest = series[series.length - 1];
+            return [
+              this.formatMetricName(trend.metric),
+              `${series[0].period} - ${latest.period}`,
+              this.formatTrendValue(latest.value, trend.unit),
+              this.formatGrowth(latest.growth),
+              this.formatGrowth(latest.yoyGrowth),
+              this.formatGrowth(trend.cagr),
+              trend.direction
+            ];
+          }),
+          source: 'XBRL company facts from SEC filings',
+          notes: [
+            'Periods are fiscal periods; where a value was restated, the most recently filed figure is used',
+            'Growth rates are computed against the absolute value of the prior period',
+            ...(periodTrends.some(t => t.series!.some(point => point.derived))
+              ? ['Quarters not reported as three-month figures are derived from year-to-date values (Q4 = FY - Q1 - Q2 - Q3)']
+              : []),
+            ...periodTrends.flatMap(t => (t.inflectionPoints || []).map(p => `${this.formatMetricName(t.metric)}: ${p.description}`))
+          ]
+        });
+      });
+    });
+
+    return tables;
+  }
+
+  private generateTrendCharts(companies: any[]): ChartConfig[] {
+    const charts: ChartConfig[] = [];
+
+    companies.forEach(company => {
+      const trends: FinancialTrend[] = company.financial?.trends || [];
+
+      trends
+        .filter(t => t.periodType === 'annual' && t.series && t.series.length > 1 && !t.unit?.endsWith('/shares'))
+        .forEach(trend => {
+          const series = trend.series!;
+          charts.push({
+            type: 'line',
+            title: `${company.identity.name} ${this.formatMetricName(trend.metric)}`,
+            labels: series.map(point => point.period),
+            data: {
+              datasets: [{
+                label: `${this.formatMetricName(trend.metric)} ($M)`,
+                data: series.map(point => Math.round(point.value / 1000000))
+              }]
+            },
+            source: `XBRL ${trend.concept}`
+          });
+        });
+    });
+
+    return charts;
+  }
+
+  private describeTrend(trend: FinancialTrend): string {
+    const series = trend.series!;
+    const first = series[0];
+    const latest = series[series.length - 1];
+
+    let description = `${first.period} ${this.formatTrendValue(first.value, trend.unit)} -> ${latest.period} ${this.formatTrendValue(latest.value, trend.unit)}`;
+    description += `, latest YoY ${this.formatGrowth(latest.growth)}`;
+    if (trend.cagr !== undefined) {
+      description += `, CAGR ${this.formatGrowth(trend.cagr)}`;
+    }
+
+    const inflections = trend.inflectionPoints || [];
+    if (inflections.length > 0) {
+      description += ` (${inflections.map(p => `${p.type} in ${p.period}`).join('; ')})`;
+    }
+
+    return description;
+  }
+
+  private formatMetricName(metric: string): string {
+    return metric
+      .split('_')
+      .map(word => word === 'eps' ? 'EPS' : word.charAt(0).toUpperCase() + word.slice(1))
+      .join(' ');
+  }
+
+  private formatTrendValue(value: number, unit?: string): string {
+    if (unit?.endsWith('/shares')) return `$${value.toFixed(2)}`;
+    return `$${(value / 1000000).toFixed(0)}M`;
+  }
+
+  private formatGrowth(growth: number | undefined): string {
+    if (growth === undefined) return 'N/A';
+    return `${growth >= 0 ? '+' : ''}${(growth * 100).toFixed(1)}%`;
+  }
+
+  private generateTimelines(knowledge: KnowledgeSet): Timeline[] {
+    const timelines: Timeline[] = [];
+
+    // One event timeline per company from its classified 8-K reports
+    knowledge.companies.forEach(company => {
+      const events = company.timeline?.events || [];
+      if (events.length === 0) return;
+
+      timelines.push({
+        title: `${company.identity.name} Event Timeline`,
+        period: `${events[events.length - 1].date} to ${events[0].date}`,
+        events: events.map(event => ({
+          date: event.date,
+          event: event.title,
+          summary: event.summary,
+          company: company.identity.name,
+          type: event.category,
+          significance: event.significance,
+          items: event.items.map(item => item.item),
+          url: event.url
+        })),
+        source: 'Form 8-K current reports'
+      });
+    });
+    if (timelines.length > 0) return timelines;
+
+    // Without 8-K events, fall back to a timeline of filing dates
     const events: any[] = [];
     
     knowledge.companies.forEach(company => {
@@ -295,63 +934,268 @@ Generate a comprehensive response:`;
 
     // Sort by date
     events.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    const recent = events.slice(-10); // Last 10 events
 
     return [{
       title: 'Filing Timeline',
-      events: events.slice(-10), // Last 10 events
+      period: recent.length > 0 ? `${recent[0].date} to ${recent[recent.length - 1].date}` : '',
+      events: recent,
       source: 'SEC filing dates'
     }];
   }
 
-  private generateCitations(knowledge: KnowledgeSet): Citation[] {
-    const citations: Citation[] = [];
+  /**
+   * Every source the answer may cite, with the figures and dates each can
+   * back. Single XBRL facts come first so a figure is cited to the fact it
+   * was reported as rather than to the whole filing; they are listed only
+   * when the narrative cites them.
+   */
+  private generateCitationEvidence(knowledge: KnowledgeSet): CitationEvidence[] {
+    const evidence: CitationEvidence[] = [];
 
-    // Add company data sources with direct filing links
+    // Add the reported XBRL facts behind each trend series
     knowledge.companies.forEach(company => {
-      company.filings.forEach(filing => {
-        const paddedCik = company.identity.cik.padStart(10, '0');
-        const cleanAccession = filing.accessionNumber?.replace(/-/g, '') || '';
-        
-        // Generate direct filing URL
-        const filingUrl = filing.url || 
-          `https://www.sec.gov/Archives/edgar/data/${paddedCik}/${cleanAccession}/${filing.primaryDocument}`;
-        
-        citations.push({
+      (company.financial?.trends || []).forEach(trend => {
+        (trend.series || []).filter(point => !point.derived).forEach(point => {
+          evidence.push({
+            citation: {
+              source: {
+                type: 'sec_api',
+                name: `${company.identity.name} ${this.formatMetricName(trend.metric)} ${point.period}`,
+                timestamp: new Date(point.end),
+                reliability: 1.0,
+                isOfficial: true
+              },
+              facts: [{
+                concept: trend.concept || trend.metric,
+                value: point.value,
+                unit: trend.unit,
+                period: point.period,
+                end: point.end,
+                accessionNumber: point.accessionNumber
+              }],
+              content: `${trend.concept || trend.metric} for ${point.period} (period ended ${point.end}): ${point.value.toLocaleString()}${trend.unit ? ` ${trend.unit}` : ''}`,
+              url: point.accessionNumber ? buildArchivesUrl(company.identity.cik, point.accessionNumber) : undefined,
+              confidence: 0.95,
+              relevance: 0.85
+            },
+            numbers: [point.value],
+            days: [point.end],
+            optional: true
+          });
+        });
+      });
+    });
+
+    // Add frames screen values, one fact per company and metric
+    const screen = knowledge.screenResults;
+    screen?.rows.slice(0, 15).forEach(row => {
+      screen.metrics.forEach(metric => {
+        const value = row.values[metric.key];
+        if (!value) return;
+        evidence.push({
+          citation: {
+            source: {
+              type: 'sec_api',
+              name: `${row.entityName} ${metric.label} (${metric.frame})`,
+              timestamp: new Date(value.end),
+              reliability: 1.0,
+              isOfficial: true
+            },
+            facts: [{ concept: value.tag, value: value.value, unit: 'USD', period: metric.frame, end: value.end, accessionNumber: value.accn }],
+            content: `${value.tag} for ${metric.frame} (period ended ${value.end}): ${value.value.toLocaleString()} USD`,
+            url: value.accn ? buildArchivesUrl(row.cik, value.accn) : undefined,
+            confidence: 0.95,
+            relevance: 0.8
+          },
+          numbers: [value.value],
+          days: [value.end],
+          optional: true
+        });
+      });
+    });
+
+    // Add calculated ratios with the formula and XBRL inputs they were derived from
+    knowledge.companies.forEach(company => {
+      (company.financial?.ratios || []).forEach(ratio => {
+        const inputs = (ratio.inputs || []).map(i => `${i.concept} ${i.end} = ${i.value.toLocaleString()}`);
+        evidence.push({
+          citation: {
+            source: {
+              type: 'calculated',
+              name: `${company.identity.name} ${ratio.name} (${ratio.period?.description || 'latest'})`,
+              timestamp: ratio.period?.end || new Date(),
+              reliability: 0.9,
+              isOfficial: false
+            },
+            facts: (ratio.inputs || []).map(input => ({
+              concept: input.concept,
+              value: input.value,
+              end: input.end,
+              accessionNumber: input.accessionNumber
+            })),
+            content: `${ratio.name} = ${ratio.formula}; inputs: ${inputs.join('; ')}`,
+            url: ratio.inputs?.[0]?.accessionNumber
+              ? buildArchivesUrl(company.identity.cik, ratio.inputs[0].accessionNumber)
+              : undefined,
+            confidence: 0.9,
+            relevance: 0.7
+          },
+          numbers: [ratio.value],
+          days: []
+        });
+      });
+    });
+
+    // Add the proxy's Summary Compensation Table
+    knowledge.companies.forEach(company => {
+      const compensation = company.governance?.executiveCompensation;
+      if (!compensation?.accessionNumber || compensation.executives.length === 0) return;
+      const filingDate = compensation.filingDate || '';
+      evidence.push({
+        citation: {
           source: {
             type: 'sec_filing',
-            name: `${company.identity.name} ${filing.form} (${filing.filingDate})`,
-            timestamp: filing.filingDate ? new Date(filing.filingDate) : new Date(),
+            name: `${company.identity.name} DEF 14A (${filingDate})`,
+            timestamp: filingDate ? new Date(filingDate) : new Date(),
             reliability: 1.0,
             isOfficial: true
           },
           filing: {
-            accessionNumber: filing.accessionNumber || '',
-            formType: filing.form || '',
-            filingDate: filing.filingDate ? new Date(filing.filingDate) : new Date(),
-            section: filing.form === '10-K' ? 'Item 1 - Business' : undefined,
-            item: filing.form === '8-K' ? 'Current Report' : undefined
+            accessionNumber: compensation.accessionNumber,
+            formType: 'DEF 14A',
+            filingDate: filingDate ? new Date(filingDate) : new Date(),
+            section: 'Summary Compensation Table'
           },
-          content: `SEC Filing: ${filing.form} filed on ${filing.filingDate}`,
-          url: filingUrl,
+          content: compensation.executives
+            .map(executive => `${executive.name}: ${executive.years.map(year => `${year.year} total ${this.formatDollars(year.total)}`).join(', ')}`)
+            .join('; '),
+          url: compensation.url || buildArchivesUrl(company.identity.cik, compensation.accessionNumber),
           confidence: 0.95,
-          relevance: 0.9
+          relevance: 0.85
+        },
+        numbers: compensation.executives.flatMap(executive => executive.years.flatMap(year =>
+          [year.salary, year.bonus, year.stockAwards, year.optionAwards, year.nonEquityIncentive, year.pensionAndDeferred, year.allOther, year.total]
+            .filter((amount): amount is number => amount !== undefined)
+        )),
+        days: filingDate ? [filingDate] : []
+      });
+    });
+
+    // Add 8-K events with the items they report
+    knowledge.companies.forEach(company => {
+      (company.timeline?.events || []).slice(0, 10).forEach(event => {
+        const mainItem = event.items[0];
+        const figures = figuresIn(event.summary);
+        evidence.push({
+          citation: {
+            source: {
+              type: 'sec_filing',
+              name: `${company.identity.name} ${event.form} (${event.date})`,
+              timestamp: new Date(event.date),
+              reliability: 1.0,
+              isOfficial: true
+            },
+            filing: {
+              accessionNumber: event.accessionNumber,
+              formType: event.form,
+              filingDate: new Date(event.date),
+              section: mainItem ? `Item ${mainItem.item} - ${mainItem.title}` : undefined,
+              item: event.items.map(item => item.item).join(', ')
+            },
+            content: event.summary || event.title,
+            url: event.url || buildArchivesUrl(company.identity.cik, event.accessionNumber),
+            confidence: 0.95,
+            relevance: event.significance === 'high' ? 0.9 : 0.75
+          },
+          numbers: figures.numbers,
+          days: [event.date, ...(event.eventDate ? [event.eventDate] : []), ...figures.days]
+        });
+      });
+    });
+
+    // Add the passages behind each full-text match, one per section quoted
+    (knowledge.contentMatches?.hits || []).forEach(hit => {
+      hit.snippets.forEach(snippet => {
+        const figures = figuresIn(snippet.text);
+        evidence.push({
+          citation: {
+            source: {
+              type: 'sec_filing',
+              name: `${hit.companyName} ${hit.formType} (${hit.filingDate})`,
+              timestamp: new Date(hit.filingDate),
+              reliability: 1.0,
+              isOfficial: true
+            },
+            filing: {
+              accessionNumber: hit.accessionNumber,
+              formType: hit.formType,
+              filingDate: new Date(hit.filingDate),
+              section: `Item ${snippet.section} - ${snippet.sectionTitle}`,
+              item: snippet.section
+            },
+            content: snippet.text,
+            url: hit.url || buildArchivesUrl(hit.cik, hit.accessionNumber),
+            confidence: 0.95,
+            relevance: Math.min(0.5 + hit.hitCount / 20, 0.95)
+          },
+          numbers: figures.numbers,
+          days: [hit.filingDate, ...figures.days]
+        });
+      });
+    });
+
+    // Add company data sources with direct filing links
+    knowledge.companies.forEach(company => {
+      company.filings.forEach(filing => {
+        // Generate direct filing URL
+        const filingUrl = filing.url ||
+          buildArchivesUrl(company.identity.cik, filing.accessionNumber || '', filing.primaryDocument);
+        
+        evidence.push({
+          citation: {
+            source: {
+              type: 'sec_filing',
+              name: `${company.identity.name} ${filing.form} (${filing.filingDate})`,
+              timestamp: filing.filingDate ? new Date(filing.filingDate) : new Date(),
+              reliability: 1.0,
+              isOfficial: true
+            },
+            filing: {
+              accessionNumber: filing.accessionNumber || '',
+              formType: filing.form || '',
+              filingDate: filing.filingDate ? new Date(filing.filingDate) : new Date(),
+              section: filing.form === '10-K' ? 'Item 1 - Business' : undefined,
+              item: filing.form === '8-K' ? 'Current Report' : undefined
+            },
+            content: `SEC Filing: ${filing.form} filed on ${filing.filingDate}`,
+            url: filingUrl,
+            confidence: 0.95,
+            relevance: 0.9
+          },
+          numbers: [],
+          days: filing.filingDate ? [filing.filingDate] : []
         });
       });
     });
 
     // Add XBRL data sources with company links
     knowledge.sources.forEach(source => {
-      citations.push({
-        source,
-        confidence: 0.9,
-        relevance: 0.8
+      evidence.push({
+        citation: {
+          source,
+          confidence: 0.9,
+          relevance: 0.8
+        },
+        numbers: [],
+        days: []
       });
     });
 
-    return citations;
+    return evidence;
   }
 
-  private assessAnswer(query: UniversalQuery, knowledge: KnowledgeSet, narrative: string): AnswerAssessment {
+  private assessAnswer(query: UniversalQuery, knowledge: KnowledgeSet, narrative: string, verification: ClaimVerification): AnswerAssessment {
     const assessment: AnswerAssessment = {
       confidence: this.calculateAnswerConfidence(query, knowledge, narrative),
       completeness: this.calculateAnswerCompleteness(query, knowledge),
@@ -361,6 +1205,23 @@ Generate a comprehensive response:`;
       bias_risks: this.identifyBiasRisks(query, knowledge)
     };
 
+    if (verification.mode !== 'off') {
+      const { claims, unsupported } = verification;
+      assessment.claimVerification = {
+        mode: verification.mode,
+        checked: claims.length,
+        supported: claims.length - unsupported.length,
+        unsupported: unsupported.map(claim => claim.text)
+      };
+
+      const limitation = describeVerification(verification);
+      if (limitation) {
+        assessment.limitations.unshift(limitation);
+        // Each unsupported figure costs confidence in proportion to its share of the claims
+        assessment.confidence *= 1 - 0.5 * (unsupported.length / claims.length);
+      }
+    }
+
     return assessment;
   }
 
@@ -372,7 +1233,8 @@ Generate a comprehensive response:`;
     else if (query.complexity === 'analytical') confidence *= 0.9;
     
     // Adjust based on data availability
-    if (knowledge.companies.length === 0) confidence *= 0.3;
+    // Screens answer from frames without per-company extraction
+    if (knowledge.companies.length === 0 && !knowledge.screenResults) confidence *= 0.3;
     if (knowledge.filings.length === 0) confidence *= 0.5;
     
     // Adjust based on narrative quality
@@ -399,7 +1261,7 @@ Generate a comprehensive response:`;
   private identifyLimitations(knowledge: KnowledgeSet): string[] {
     const limitations: string[] = [];
     
-    if (knowledge.companies.length === 0) {
+    if (knowledge.companies.length === 0 && !knowledge.screenResults) {
       limitations.push('No company data available');
     }
     
@@ -410,6 +1272,18 @@ Generate a comprehensive response:`;
     if (knowledge.confidence < 0.7) {
       limitations.push('Low confidence in extracted data');
     }
+
+    if (knowledge.screenResults?.source === 'snapshot') {
+      limitations.push('Screen ran against a local frames snapshot that covers only a few large filers');
+    }
+
+    if (knowledge.peerBenchmarks?.some(result => result.group.source === 'snapshot')) {
+      limitations.push('Peer groups were drawn from a local frames snapshot that covers only a few large filers');
+    }
+
+    if (knowledge.contentMatches) {
+      limitations.push(`Full-text search covers only the ${knowledge.contentMatches.indexedFilings} filings ingested into the local index`);
+    }
     
     limitations.push('Analysis based on most recent filings only');
     limitations.push('Risk assessments are qualitative interpretations');
@@ -512,12 +1386,51 @@ Generate a comprehensive response:`;
   }
 
   private generateFallbackNarrative(query: UniversalQuery, knowledge: KnowledgeSet): string {
+    const screen = knowledge.screenResults;
+    if (screen && knowledge.companies.length === 0) {
+      const names = screen.rows.slice(0, 5).map(row => row.ticker ? `${row.entityName} (${row.ticker})` : row.entityName);
+      if (screen.criteria.conditions.length === 0) {
+        return `Ranked by ${screen.metrics[0]?.label} in the ${screen.criteria.period} XBRL frames (${screen.criteria.order === 'asc' ? 'lowest' : 'highest'} first): ${names.join(', ')}.`;
+      }
+      return screen.total === 0
+        ? `No companies reported ${this.describeScreenCriteria(screen)} in the ${screen.criteria.period} XBRL frames.`
+        : `${screen.total} companies reported ${this.describeScreenCriteria(screen)} in the ${screen.criteria.period} XBRL frames, led by ${names.join(', ')}.`;
+    }
+
     if (knowledge.companies.length === 0) {
       return `I was unable to find sufficient company data to answer "${query.originalQuery}". This could be due to the company not being in our database or issues with data extraction.`;
     }
 
     const company = knowledge.companies[0];
-    return `Based on available SEC filing data for ${company.identity.name}: ${company.business.description}. Additional analysis was limited due to data extraction constraints.`;
+    const insiderActivity = company.governance?.insiderActivity;
+    const insiderSummary = insiderActivity
+      ? ` Insiders reported ${this.describeInsiderActivity(insiderActivity)} between ${insiderActivity.window.start} and ${insiderActivity.window.end}.`
+      : '';
+    const topExecutive = company.governance?.executiveCompensation?.executives[0];
+    const latestPay = topExecutive?.years[0];
+    const compensationSummary = topExecutive && latestPay
+      ? ` ${topExecutive.name}${topExecutive.title ? `, ${topExecutive.title},` : ''} received total compensation of ${this.formatDollars(latestPay.total)} for ${latestPay.year} according to the latest proxy statement.`
+      : '';
+    const manager = knowledge.institutionalHoldings?.managers[0];
+    const holdingsSummary = manager ? ` Its 13F-HR reports show ${this.describePositionChanges(manager)}.` : '';
+    const latestEvent = company.timeline?.milestones?.[0] || company.timeline?.events?.[0];
+    const eventSummary = latestEvent ? ` Its most notable recent 8-K, filed ${latestEvent.date}, reported: ${latestEvent.title}.` : '';
+    const peers = knowledge.peerBenchmarks?.find(result => result.group.target.cik === company.identity.cik.padStart(10, '0'));
+    const peerSummary = peers ? ` ${this.describePeerStanding(peers)}` : '';
+    return `Based on available SEC filing data for ${company.identity.name}: ${company.business.description}.${insiderSummary}${compensationSummary}${holdingsSummary}${eventSummary}${peerSummary} Additional analysis was limited due to data extraction constraints.`;
+  }
+
+  private describePeerStanding(result: PeerBenchmarkResult): string {
+    const { group } = result;
+    const ranked = result.benchmarks.filter(benchmark => benchmark.value !== null && benchmark.median !== null);
+    const peerNames = group.peers.slice(0, 5).map(peer => peer.ticker || peer.entityName).join(', ');
+    if (ranked.length === 0) {
+      return `Against ${group.peers.length} peers in SIC ${group.sicPrefix} (${peerNames}), no ratio could be compared for ${group.period}.`;
+    }
+    const details = ranked.map(benchmark =>
+      `${benchmark.ratio} of ${this.formatBenchmarkValue(benchmark, benchmark.value)} vs a peer median of ${this.formatBenchmarkValue(benchmark, benchmark.median)} (rank ${benchmark.rank} of ${benchmark.peerCount + 1})`
+    );
+    return `Against ${group.peers.length} peers in SIC ${group.sicPrefix} (${peerNames}) for ${group.period}, it reported ${details.join('; ')}.`;
   }
 
   private generateFilingLookupResponse(query: UniversalQuery, knowledge: KnowledgeSet): string {
@@ -543,13 +1456,14 @@ Generate a comprehensive response:`;
       }) : 'Unknown';
       
       // Generate direct SEC EDGAR URL if not already present
-      const paddedCik = company.identity.cik.padStart(10, '0');
-      const cleanAccession = filing.accessionNumber?.replace(/-/g, '') || '';
-      const filingUrl = filing.url || 
-        `https://www.sec.gov/Archives/edgar/data/${paddedCik}/${cleanAccession}/${filing.primaryDocument}`;
+      const filingUrl = filing.url ||
+        buildArchivesUrl(company.identity.cik, filing.accessionNumber || '', filing.primaryDocument);
       
       response += `${index + 1}. **${filing.form}** - Filed on ${filingDate}\n`;
       response += `   📄 **[View Filing](${filingUrl})**\n`;
+      if (filing.exhibits && filing.exhibits.length > 0) {
+        response += `   Exhibits: ${filing.exhibits.map(exhibit => `[${exhibit.type}](${exhibit.url})`).join(', ')}\n`;
+      }
       response += `   Accession Number: ${filing.accessionNumber}\n`;
       if (filing.primaryDocument) {
         response += `   Document: ${filing.primaryDocument}\n`;
@@ -1,6 +1,5 @@
 // Universal Query Parser - Advanced NLU for EDGAR queries
 
-import OpenAI from 'openai';
 import { 
   UniversalQuery, 
   EntitySet, 
@@ -13,44 +12,74 @@ import {
   MetricEntity,
   FilingTypeEntity,
   PrimaryIntent,
-  SecondaryIntent
+  SecondaryIntent,
+  DataType
 } from './types';
+import { STANDARD_METRICS } from '../xbrl-concepts';
+import { getCompanyDirectory } from '../company-directory';
+import { ConversationTurn, FollowUpResolution, resolveFollowUp } from '../conversation-context';
+import { LLMProvider, getLLMProvider } from '../llm-provider';
+import { StructuredOutput, completeEntitySet, completeQueryIntent } from './structured-output';
+import { fromUniversalQuery } from '../query-taxonomy';
+
+// Questions about every filer rather than named companies: "which companies...", "firms with..."
+const MARKET_WIDE_PATTERN = /\b(which|what|list|find|show|screen)\b.*\b(companies|firms|issuers|filers)\b|\b(companies|firms|issuers|filers) (with|that|whose|where|having|reporting)\b|\ball (public )?companies\b/i;
+const RANKING_PATTERN = /\b(top|bottom) \d+\b|\b(largest|biggest|highest|lowest|smallest)\b|\brank(ed|ing)?\b/i;
+const PEER_PATTERN = /\bpeers?\b|\bpeer group\b|\bcompetitors?\b|\bcomparables?\b|\bbenchmark(s|ed|ing)?\b|\b(compared?|stack up|versus|vs\.?|against) (to |with |against )?(its|their|the) (industry|sector)\b/i;
 
 export class UniversalQueryParser {
-  private openai: OpenAI;
-  
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-  }
+  constructor(private llm: LLMProvider = getLLMProvider()) {}
 
-  async parse(naturalLanguageQuery: string): Promise<UniversalQuery> {
+  async parse(naturalLanguageQuery: string, previousTurns: ConversationTurn[] = []): Promise<UniversalQuery> {
     console.log('=== UNIVERSAL QUERY PARSING ===');
     console.log('Query:', naturalLanguageQuery);
 
+    // Follow-ups are parsed as the self-contained question they stand for
+    const followUp = resolveFollowUp(naturalLanguageQuery, previousTurns);
+    const query = followUp.resolvedQuery;
+    if (followUp.isFollowUp) {
+      console.log('Resolved follow-up:', query);
+    }
+
     // Multi-step parsing process
-    const entities = await this.extractEntities(naturalLanguageQuery);
-    const intent = await this.classifyIntent(naturalLanguageQuery, entities);
-    const scope = await this.determineScope(naturalLanguageQuery, intent);
-    const constraints = await this.extractConstraints(naturalLanguageQuery);
-    const complexity = this.determineComplexity(naturalLanguageQuery, intent, entities);
+    const entities = await this.extractEntities(query);
+    this.inheritCompanies(entities, followUp);
+    const intent = await this.classifyIntent(query, entities);
+    const scope = await this.determineScope(query, intent);
+    const constraints = await this.extractConstraints(query);
+    const complexity = this.determineComplexity(query, intent, entities);
     const confidence = this.calculateConfidence(entities, intent, scope);
 
     const universalQuery: UniversalQuery = {
-      originalQuery: naturalLanguageQuery,
+      // Later stages answer the resolved question; the words as asked stay in conversation.originalQuery
+      originalQuery: query,
       entities,
       intent,
       scope,
       constraints,
       confidence,
-      complexity
+      complexity,
+      conversation: followUp.isFollowUp ? { ...followUp, originalQuery: naturalLanguageQuery } : undefined
     };
+    universalQuery.canonical = fromUniversalQuery(universalQuery);
 
     console.log('Parsed Query:', JSON.stringify(universalQuery, null, 2));
     return universalQuery;
   }
 
+  private inheritCompanies(entities: EntitySet, followUp: FollowUpResolution): void {
+    if (entities.companies.length > 0) return;
+
+    entities.companies = followUp.inheritedCompanies.map(company => ({
+      name: company.name,
+      ticker: company.ticker,
+      cik: company.cik,
+      variations: [company.name, company.mention],
+      confidence: 0.8,
+      context: 'previous_turn'
+    }));
+  }
+
   private async extractEntities(query: string): Promise<EntitySet> {
     const prompt = `Extract entities from this SEC EDGAR database query. Analyze the query and identify:
 
@@ -70,35 +99,22 @@ Return a JSON object with:
 
 Concept categories: business, financial, risk, regulatory, operational
 Metric categories: revenue, profitability, efficiency, liquidity, leverage, growth
+Metric standardName values: ${STANDARD_METRICS.map(m => m.standardName).join(', ')}
 Filing categories: periodic, proxy, insider, registration, other
 Time periods: current, latest, annual, quarterly
 
 Be generous with variations and synonyms. Include confidence scores 0-1.`;
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        max_tokens: 1000,
+      const result = await completeEntitySet(this.llm, {
+        purpose: 'extract_entities',
+        maxTokens: 1000,
         temperature: 0.1,
         messages: [{ role: 'user', content: prompt }]
       });
+      this.logValidation('Entity extraction', result);
 
-      const content = response.choices[0]?.message?.content;
-      if (!content) throw new Error('No response from OpenAI');
-
-      const entities = JSON.parse(content);
-      
-      // Normalize and validate entities
-      return {
-        companies: entities.companies || [],
-        concepts: entities.concepts || [],
-        timeRanges: entities.timeRanges || [],
-        metrics: entities.metrics || [],
-        filingTypes: entities.filingTypes || [],
-        amounts: entities.amounts || [],
-        people: entities.people || [],
-        locations: entities.locations || []
-      };
+      return result.value;
 
     } catch (error) {
       console.error('Entity extraction failed:', error);
@@ -135,37 +151,25 @@ SECONDARY INTENTS:
 - time_series, benchmarking, correlation, causation
 - ranking, aggregation, summarization
 
-Return JSON:
+Use only the intent names listed above. Return JSON:
 {
   "primary": "business_overview",
   "secondary": ["industry_focus", "time_series"],
   "requiresAnalysis": true,
   "requiresComparison": false,
-  "requiresHistorical": true,
-  "confidence": 0.9,
-  "reasoning": "User wants to understand business evolution over time"
+  "requiresHistorical": true
 }`;
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        max_tokens: 500,
+      const result = await completeQueryIntent(this.llm, {
+        purpose: 'classify_intent',
+        maxTokens: 500,
         temperature: 0.1,
         messages: [{ role: 'user', content: prompt }]
       });
+      this.logValidation('Intent classification', result);
 
-      const content = response.choices[0]?.message?.content;
-      if (!content) throw new Error('No response from OpenAI');
-
-      const result = JSON.parse(content);
-      
-      return {
-        primary: result.primary,
-        secondary: result.secondary || [],
-        requiresAnalysis: result.requiresAnalysis || false,
-        requiresComparison: result.requiresComparison || false,
-        requiresHistorical: result.requiresHistorical || false
-      };
+      return result.value;
 
     } catch (error) {
       console.error('Intent classification failed:', error);
@@ -185,12 +189,16 @@ DATA TYPES:
 - company_profile, financial_statements, filing_content
 - risk_factors, business_description, management_discussion
 - legal_proceedings, corporate_governance, insider_transactions
+- executive_compensation (salary, bonus and awards of named executive officers from the proxy statement)
+- institutional_holdings (13F fund positions: who holds a stock, what a manager bought or sold)
 - market_data, regulatory_context, industry_context
-- peer_data, historical_events, forward_guidance
+- historical_events (8-K current reports classified by item: agreements, acquisitions, officer changes, results)
+- peer_data (comparable companies by SIC industry and revenue or asset size, with ratios ranked against the peer median), forward_guidance
 
 GRANULARITY: summary | detailed | comprehensive
 PERSPECTIVE: factual | analytical | comparative | predictive
 BREADTH: single_company | industry | market_wide | cross_industry
+(market_wide screens every filer on reported figures: "companies with revenue over $10B and negative net income")
 DEPTH: surface | moderate | deep | exhaustive
 
 Return JSON:
@@ -203,16 +211,13 @@ Return JSON:
 }`;
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        max_tokens: 400,
+      const content = await this.llm.complete({
+        purpose: 'determine_scope',
+        maxTokens: 400,
         temperature: 0.1,
         messages: [{ role: 'user', content: prompt }]
       });
 
-      const content = response.choices[0]?.message?.content;
-      if (!content) throw new Error('No response from OpenAI');
-
       return JSON.parse(content);
 
     } catch (error) {
@@ -221,6 +226,14 @@ Return JSON:
     }
   }
 
+  private logValidation(stage: string, result: StructuredOutput<unknown>): void {
+    if (result.errors.length > 0) {
+      console.warn(`${stage} dropped invalid values:`, result.errors);
+    } else if (result.repaired) {
+      console.warn(`${stage} needed a repair retry`);
+    }
+  }
+
   private extractConstraints(query: string): QueryConstraints {
     const lowerQuery = query.toLowerCase();
     
@@ -281,26 +294,15 @@ Return JSON:
     
     // Basic company detection
     const companies: CompanyEntity[] = [];
-    const companyPatterns = [
-      { pattern: /\btesla\b/gi, name: 'Tesla', ticker: 'TSLA', cik: '0001318605' },
-      { pattern: /\bapple\b/gi, name: 'Apple', ticker: 'AAPL', cik: '0000320193' },
-      { pattern: /\bmicrosoft\b/gi, name: 'Microsoft', ticker: 'MSFT', cik: '0000789019' },
-      { pattern: /\bgoogle\b|alphabet/gi, name: 'Alphabet', ticker: 'GOOGL', cik: '0001652044' },
-      { pattern: /\bamazon\b/gi, name: 'Amazon', ticker: 'AMZN', cik: '0001018724' },
-      { pattern: /\bmeta\b|facebook/gi, name: 'Meta', ticker: 'META', cik: '0001326801' }
-    ];
-
-    companyPatterns.forEach(({ pattern, name, ticker, cik }) => {
-      if (pattern.test(query)) {
-        companies.push({
-          name,
-          ticker,
-          cik,
-          variations: [name, ticker],
-          confidence: 0.8,
-          context: 'pattern_match'
-        });
-      }
+    getCompanyDirectory().findInText(query).forEach(({ company, matchedText, confidence }) => {
+      companies.push({
+        name: company.name,
+        ticker: company.tickers[0],
+        cik: company.cik,
+        variations: [company.name, ...company.tickers, ...company.aliases, ...company.formerNames],
+        confidence: Math.min(confidence, 0.8),
+        context: matchedText
+      });
     });
 
     // Basic concept detection
@@ -335,11 +337,22 @@ Return JSON:
       });
     }
 
+    // Metric detection from the standard metric aliases ("revenue", "net income")
+    const metrics: MetricEntity[] = STANDARD_METRICS
+      .map(metric => ({ metric, alias: metric.aliases.find(alias => new RegExp(`\\b${alias}\\b`, 'i').test(query)) }))
+      .filter(({ alias }) => alias)
+      .map(({ metric, alias }) => ({
+        metric: alias!,
+        category: metric.category,
+        standardName: metric.standardName,
+        confidence: 0.7
+      }));
+
     return {
       companies,
       concepts,
       timeRanges,
-      metrics: [],
+      metrics,
       filingTypes,
       amounts: [],
       people: [],
@@ -352,31 +365,56 @@ Return JSON:
     
     let primary: PrimaryIntent = 'business_overview';
     
-    if (/filing|10-k|10-q|8-k|document|last.*filing/i.test(query)) {
+    if (MARKET_WIDE_PATTERN.test(query) && entities.companies.length === 0) {
+      primary = 'market_analysis';
+    } else if (/filing|10-k|10-q|8-k|document|last.*filing/i.test(query)) {
       primary = 'filing_lookup';
     } else if (/what.*business|what.*do|what.*company/i.test(query)) {
       primary = 'business_overview';
+    } else if (PEER_PATTERN.test(query) && entities.companies.length > 0) {
+      primary = 'comparative_analysis';
     } else if (/revenue|profit|income|financial/i.test(query)) {
       primary = 'financial_metrics';
     } else if (/compare|versus|vs\b/i.test(query)) {
       primary = 'comparative_analysis';
     }
 
+    const secondary: SecondaryIntent[] = [];
+    if (RANKING_PATTERN.test(query)) secondary.push('ranking');
+    if (PEER_PATTERN.test(query)) secondary.push('benchmarking');
+
     return {
       primary,
-      secondary: [],
+      secondary,
       requiresAnalysis: /analyze|analysis|trend|impact/i.test(query),
-      requiresComparison: /compare|versus|vs\b/i.test(query),
+      requiresComparison: /compare|versus|vs\b/i.test(query) || PEER_PATTERN.test(query),
       requiresHistorical: /history|historical|over time|since/i.test(query)
     };
   }
 
   private fallbackScopeAnalysis(query: string, intent: QueryIntent): QueryScope {
+    const dataTypes: DataType[] = ['company_profile', 'business_description'];
+    if (/insider|form [345]\b|(executives?|directors?|officers?) (buy|bought|sell|sold|trad)/i.test(query)) {
+      dataTypes.push('insider_transactions');
+    }
+    if (/compensation|salar(y|ies)|bonus|\b(ceo|cfo|executives?|officers?)\b.*\b(paid|pay|earn)/i.test(query)) {
+      dataTypes.push('executive_compensation');
+    }
+    if (/13f|institutional (holders?|investors?|ownership)|(funds?|managers?|institutions?) (hold|own|bought|sold|added|trimmed)|who (holds|owns)|(add|buy|sell|sold|trim)\w* last quarter/i.test(query)) {
+      dataTypes.push('institutional_holdings');
+    }
+    if (/\b8-?k\b|current reports?|timeline|(recent|material|corporate|key) (events|developments|announcements)|what (has )?happened|(ceo|cfo|executive|officer|director|auditor) (change|departure|appointment|resign)/i.test(query)) {
+      dataTypes.push('historical_events');
+    }
+    if (PEER_PATTERN.test(query)) {
+      dataTypes.push('peer_data');
+    }
+
     return {
-      dataTypes: ['company_profile', 'business_description'],
+      dataTypes,
       granularity: 'summary',
       perspective: 'factual',
-      breadth: 'single_company',
+      breadth: MARKET_WIDE_PATTERN.test(query) ? 'market_wide' : PEER_PATTERN.test(query) ? 'industry' : 'single_company',
       depth: 'surface'
     };
   }
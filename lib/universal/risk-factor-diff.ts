@@ -0,0 +1,226 @@
+// Risk Factor Differ - Lines up Item 1A risk factors across consecutive annual reports
+
+import { RiskFactor, RiskTrend, FilingChange } from './types';
+
+export type RiskFactorChangeType = 'added' | 'removed' | 'reworded' | 'unchanged';
+
+export interface RiskFactorChange {
+  type: RiskFactorChangeType;
+  title: string;
+  previousTitle?: string;
+  category: string;
+  severity: RiskFactor['severity'];
+  similarity: number; // 0-1 text similarity between the two years; 0 for added/removed
+}
+
+export interface RiskFactorDiff {
+  changes: RiskFactorChange[];
+  annotated: RiskFactor[]; // Current risk factors with trend and evolution filled in
+  trends: RiskTrend[];
+  filingChanges: FilingChange[];
+  summary: { added: number; removed: number; reworded: number; unchanged: number };
+}
+
+// Headings this similar are the same risk, even if lightly edited
+const TITLE_MATCH_THRESHOLD = 0.6;
+// Fallback for rewritten headings: compare heading plus body
+const BODY_MATCH_THRESHOLD = 0.5;
+// Below this, a matched risk counts as materially reworded
+const REWORD_THRESHOLD = 0.8;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'by', 'can', 'could', 'for', 'from', 'has', 'have',
+  'in', 'into', 'is', 'it', 'its', 'may', 'might', 'of', 'on', 'or', 'our', 'such', 'that', 'the', 'their',
+  'these', 'this', 'to', 'us', 'we', 'which', 'will', 'with', 'would', 'company', 'company\'s'
+]);
+
+const SEVERITY_WEIGHT = { low: 0.25, medium: 0.5, high: 0.75, critical: 1 };
+
+export class RiskFactorDiffer {
+
+  diff(current: RiskFactor[], previous: RiskFactor[]): RiskFactorDiff {
+    const matches = this.alignRiskFactors(current, previous);
+    const changes: RiskFactorChange[] = [];
+    const annotated: RiskFactor[] = [];
+    const trends: RiskTrend[] = [];
+
+    current.forEach((risk, index) => {
+      const match = matches.get(index);
+      const title = this.titleOf(risk);
+
+      if (match === undefined) {
+        changes.push({ type: 'added', title, category: risk.category, severity: risk.severity, similarity: 0 });
+        annotated.push({ ...risk, trend: 'increasing', evolution: 'New risk factor since the prior annual report' });
+        trends.push({ risk: title, trend: 'increasing', impact: this.weight(risk), change: 'added', category: risk.category });
+        return;
+      }
+
+      const prior = previous[match];
+      const similarity = this.textSimilarity(this.fullText(risk), this.fullText(prior));
+      const reworded = similarity < REWORD_THRESHOLD;
+      const previousTitle = this.titleOf(prior) !== title ? this.titleOf(prior) : undefined;
+      const trend = reworded ? this.rewordTrend(risk, prior) : 'stable';
+
+      changes.push({
+        type: reworded ? 'reworded' : 'unchanged',
+        title,
+        previousTitle,
+        category: risk.category,
+        severity: risk.severity,
+        similarity
+      });
+      annotated.push({
+        ...risk,
+        trend,
+        evolution: reworded
+          ? `Materially reworded since the prior annual report (${Math.round(similarity * 100)}% similar)`
+          : 'Unchanged from the prior annual report'
+      });
+      if (reworded) {
+        trends.push({
+          risk: title,
+          trend,
+          impact: this.weight(risk) * (1 - similarity),
+          change: 'reworded',
+          category: risk.category,
+          previousRisk: previousTitle
+        });
+      }
+    });
+
+    const matchedPrevious = new Set(Array.from(matches.values()));
+    previous.forEach((risk, index) => {
+      if (matchedPrevious.has(index)) return;
+      changes.push({ type: 'removed', title: this.titleOf(risk), category: risk.category, severity: risk.severity, similarity: 0 });
+      trends.push({ risk: this.titleOf(risk), trend: 'decreasing', impact: this.weight(risk), change: 'removed', category: risk.category });
+    });
+
+    return {
+      changes,
+      annotated,
+      // New and removed disclosures first, then the most heavily reworded
+      trends: trends.sort((a, b) => b.impact - a.impact),
+      filingChanges: this.toFilingChanges(changes),
+      summary: {
+        added: changes.filter(c => c.type === 'added').length,
+        removed: changes.filter(c => c.type === 'removed').length,
+        reworded: changes.filter(c => c.type === 'reworded').length,
+        unchanged: changes.filter(c => c.type === 'unchanged').length
+      }
+    };
+  }
+
+  // Map each current risk factor index to its counterpart in the prior year, best matches first
+  private alignRiskFactors(current: RiskFactor[], previous: RiskFactor[]): Map<number, number> {
+    const candidates: { currentIndex: number; previousIndex: number; score: number }[] = [];
+
+    current.forEach((risk, currentIndex) => {
+      previous.forEach((prior, previousIndex) => {
+        const titleScore = this.textSimilarity(this.titleOf(risk), this.titleOf(prior));
+        if (titleScore >= TITLE_MATCH_THRESHOLD) {
+          // Heading matches rank ahead of body-only matches
+          candidates.push({ currentIndex, previousIndex, score: 1 + titleScore });
+          return;
+        }
+
+        const bodyScore = this.textSimilarity(this.fullText(risk), this.fullText(prior));
+        if (bodyScore >= BODY_MATCH_THRESHOLD) {
+          candidates.push({ currentIndex, previousIndex, score: bodyScore });
+        }
+      });
+    });
+
+    const matches = new Map<number, number>();
+    const usedPrevious = new Set<number>();
+
+    candidates
+      .sort((a, b) => b.score - a.score)
+      .forEach(candidate => {
+        if (matches.has(candidate.currentIndex) || usedPrevious.has(candidate.previousIndex)) return;
+        matches.set(candidate.currentIndex, candidate.previousIndex);
+        usedPrevious.add(candidate.previousIndex);
+      });
+
+    return matches;
+  }
+
+  private toFilingChanges(changes: RiskFactorChange[]): FilingChange[] {
+    const section = 'Item 1A - Risk Factors';
+
+    return changes
+      .filter(change => change.type !== 'unchanged')
+      .map(change => {
+        if (change.type === 'added') {
+          return { section, type: 'addition' as const, description: `New risk factor: ${change.title}` };
+        }
+        if (change.type === 'removed') {
+          return { section, type: 'deletion' as const, description: `Removed risk factor: ${change.title}` };
+        }
+        return {
+          section,
+          type: 'modification' as const,
+          description: change.previousTitle
+            ? `Reworded risk factor: "${change.previousTitle}" is now "${change.title}"`
+            : `Reworded risk factor (${Math.round(change.similarity * 100)}% similar): ${change.title}`
+        };
+      });
+  }
+
+  // A rewrite that raises severity or adds substantial text signals a growing risk
+  private rewordTrend(current: RiskFactor, prior: RiskFactor): RiskFactor['trend'] {
+    const severityDelta = this.weight(current) - this.weight(prior);
+    if (severityDelta > 0) return 'increasing';
+    if (severityDelta < 0) return 'decreasing';
+
+    const lengthRatio = this.fullText(current).length / Math.max(this.fullText(prior).length, 1);
+    if (lengthRatio >= 1.25) return 'increasing';
+    if (lengthRatio <= 0.75) return 'decreasing';
+    return 'stable';
+  }
+
+  private weight(risk: RiskFactor): number {
+    return SEVERITY_WEIGHT[risk.severity] ?? 0.5;
+  }
+
+  // Dice coefficient over word bigrams; falls back to single words for short headings
+  private textSimilarity(a: string, b: string): number {
+    const wordsA = this.tokenize(a);
+    const wordsB = this.tokenize(b);
+    if (wordsA.length === 0 || wordsB.length === 0) return 0;
+
+    const useBigrams = wordsA.length > 12 && wordsB.length > 12;
+    const setA = new Set(useBigrams ? this.bigrams(wordsA) : wordsA);
+    const setB = new Set(useBigrams ? this.bigrams(wordsB) : wordsB);
+
+    let overlap = 0;
+    setA.forEach(token => {
+      if (setB.has(token)) overlap++;
+    });
+
+    return (2 * overlap) / (setA.size + setB.size);
+  }
+
+  private tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .replace(/[^a-z0-9'\s]/g, ' ')
+      .split(/\s+/)
+      .filter(word => word.length > 1 && !STOPWORDS.has(word));
+  }
+
+  private bigrams(words: string[]): string[] {
+    const result: string[] = [];
+    for (let i = 0; i < words.length - 1; i++) {
+      result.push(`${words[i]} ${words[i + 1]}`);
+    }
+    return result;
+  }
+
+  private titleOf(risk: RiskFactor): string {
+    return risk.title || risk.description.substring(0, 200);
+  }
+
+  private fullText(risk: RiskFactor): string {
+    return `${risk.title || ''} ${risk.description}`;
+  }
+}
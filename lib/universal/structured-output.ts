@@ -0,0 +1,367 @@
+// Structured Output - JSON schemas for model responses, validation with coercion, and one repair retry
+
+import {
+  EntitySet,
+  QueryIntent,
+  PrimaryIntent,
+  PRIMARY_INTENTS,
+  SECONDARY_INTENTS,
+  CONCEPT_CATEGORIES,
+  TIME_PERIODS,
+  AMOUNT_UNITS,
+  AMOUNT_COMPARISONS,
+  LOCATION_TYPES,
+  METRIC_CATEGORIES,
+  FILING_CATEGORIES
+} from './types';
+import { STANDARD_METRICS } from '../xbrl-concepts';
+import { LLMCompletionRequest, LLMProvider } from '../llm-provider';
+import { knownIntentNames, resolveIntent, toPrimaryIntent } from '../query-taxonomy';
+
+/**
+ * The subset of JSON Schema the validator understands. `aliases` is ours:
+ * it maps known wrong enum values onto valid ones and is stripped before the
+ * schema is sent to a model.
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'boolean';
+  description?: string;
+  properties?: { [key: string]: JsonSchema };
+  required?: string[];
+  items?: JsonSchema;
+  enum?: readonly string[];
+  aliases?: { [value: string]: string };
+  minimum?: number;
+  maximum?: number;
+  default?: unknown;
+}
+
+export interface StructuredOutputSpec {
+  name: string;
+  schema: JsonSchema;
+}
+
+export interface ValidationResult<T> {
+  value: T | null; // null when the response as a whole is unusable
+  errors: string[]; // Values that were rejected or dropped; coercions are not errors
+}
+
+export interface StructuredOutput<T> extends ValidationResult<T> {
+  value: T;
+  repaired: boolean;
+}
+
+// ============= SCHEMAS =============
+
+const confidence: JsonSchema = { type: 'number', minimum: 0, maximum: 1, default: 0.7 };
+
+function enumOf(values: readonly string[], extra: Partial<JsonSchema> = {}): JsonSchema {
+  return { type: 'string', enum: values, ...extra };
+}
+
+function listOf(items: JsonSchema): JsonSchema {
+  return { type: 'array', items, default: [] };
+}
+
+/**
+ * Intent names other parts of the system use (the backend enum, the MCP
+ * router, the AI query processor) or that models tend to invent, mapped
+ * through the canonical taxonomy to the primary intent that answers them.
+ * Names that resolve to nothing are rejected.
+ */
+export const PRIMARY_INTENT_ALIASES: { [name: string]: PrimaryIntent } = Object.fromEntries(
+  knownIntentNames()
+    .filter(name => resolveIntent(name) !== 'unknown')
+    .map(name => [name, toPrimaryIntent(resolveIntent(name))])
+);
+
+export const ENTITY_SET_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    companies: listOf({
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        ticker: { type: 'string' },
+        cik: { type: 'string' },
+        variations: { type: 'array', items: { type: 'string' }, default: [] },
+        confidence,
+        context: { type: 'string', default: '' }
+      },
+      required: ['name']
+    }),
+    people: listOf({
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        role: { type: 'string' },
+        company: { type: 'string' },
+        confidence
+      },
+      required: ['name']
+    }),
+    concepts: listOf({
+      type: 'object',
+      properties: {
+        concept: { type: 'string' },
+        category: enumOf(CONCEPT_CATEGORIES, { default: 'business' }),
+        variations: { type: 'array', items: { type: 'string' }, default: [] },
+        confidence
+      },
+      required: ['concept']
+    }),
+    timeRanges: listOf({
+      type: 'object',
+      properties: {
+        description: { type: 'string' },
+        period: enumOf(TIME_PERIODS),
+        start: { type: 'string', description: 'ISO date' },
+        end: { type: 'string', description: 'ISO date' },
+        confidence
+      },
+      required: ['description']
+    }),
+    amounts: listOf({
+      type: 'object',
+      properties: {
+        value: { type: 'number' },
+        currency: { type: 'string', default: 'USD' },
+        unit: enumOf(AMOUNT_UNITS, { default: 'actual' }),
+        comparison: enumOf(AMOUNT_COMPARISONS),
+        confidence
+      }
+    }),
+    locations: listOf({
+      type: 'object',
+      properties: {
+        location: { type: 'string' },
+        type: enumOf(LOCATION_TYPES, { default: 'region' }),
+        confidence
+      },
+      required: ['location']
+    }),
+    metrics: listOf({
+      type: 'object',
+      properties: {
+        metric: { type: 'string' },
+        category: enumOf(METRIC_CATEGORIES, { default: 'profitability' }),
+        standardName: enumOf(STANDARD_METRICS.map(m => m.standardName)),
+        confidence
+      },
+      required: ['metric', 'standardName']
+    }),
+    filingTypes: listOf({
+      type: 'object',
+      properties: {
+        formType: { type: 'string' },
+        description: { type: 'string', default: '' },
+        category: enumOf(FILING_CATEGORIES, { default: 'other' }),
+        confidence
+      },
+      required: ['formType']
+    })
+  },
+  required: ['companies', 'people', 'concepts', 'timeRanges', 'amounts', 'locations', 'metrics', 'filingTypes']
+};
+
+export const QUERY_INTENT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    primary: enumOf(PRIMARY_INTENTS, { aliases: PRIMARY_INTENT_ALIASES }),
+    secondary: listOf(enumOf(SECONDARY_INTENTS)),
+    requiresAnalysis: { type: 'boolean', default: false },
+    requiresComparison: { type: 'boolean', default: false },
+    requiresHistorical: { type: 'boolean', default: false }
+  },
+  required: ['primary', 'secondary', 'requiresAnalysis', 'requiresComparison', 'requiresHistorical']
+};
+
+export const ENTITY_SET_OUTPUT: StructuredOutputSpec = { name: 'entity_set', schema: ENTITY_SET_SCHEMA };
+export const QUERY_INTENT_OUTPUT: StructuredOutputSpec = { name: 'query_intent', schema: QUERY_INTENT_SCHEMA };
+
+/** The schema as sent to a model: standard JSON Schema, nothing of ours */
+export function toWireSchema(schema: JsonSchema): object {
+  const { aliases, properties, items, ...rest } = schema;
+  const wire: any = { ...rest };
+  if (rest.enum) wire.enum = [...rest.enum];
+  if (properties) {
+    wire.properties = Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, toWireSchema(value)]));
+  }
+  if (items) wire.items = toWireSchema(items);
+  return wire;
+}
+
+// ============= VALIDATION =============
+
+type Coerced = { ok: true; value: unknown } | { ok: false };
+
+const normalizeEnumValue = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Validates a parsed response against the schema, coercing what is clearly
+ * meant ("0.9" to 0.9, a lone object to a one-item list, "Financial Metrics"
+ * to financial_metrics, missing optional fields to their defaults). Invalid
+ * list items are dropped; an invalid required field rejects its object.
+ */
+export function validateStructuredOutput<T>(schema: JsonSchema, input: unknown): ValidationResult<T> {
+  const errors: string[] = [];
+  const result = coerce(schema, input, '$', errors);
+  return { value: result.ok ? result.value as T : null, errors };
+}
+
+function coerce(schema: JsonSchema, input: unknown, path: string, errors: string[]): Coerced {
+  switch (schema.type) {
+    case 'object': {
+      if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+        errors.push(`${path} must be an object`);
+        return { ok: false };
+      }
+      const source = input as { [key: string]: unknown };
+      const output: { [key: string]: unknown } = {};
+      for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+        const required = (schema.required || []).includes(key);
+        const raw = source[key];
+        if (raw === undefined || raw === null || raw === '') {
+          if (propertySchema.default !== undefined) {
+            output[key] = propertySchema.default;
+          } else if (required) {
+            errors.push(`${path}.${key} is required`);
+            return { ok: false };
+          }
+          continue;
+        }
+
+        const result = coerce(propertySchema, raw, `${path}.${key}`, errors);
+        if (result.ok) {
+          output[key] = result.value;
+        } else if (propertySchema.default !== undefined) {
+          output[key] = propertySchema.default;
+        } else if (required) {
+          return { ok: false };
+        }
+      }
+      return { ok: true, value: output };
+    }
+
+    case 'array': {
+      const list = Array.isArray(input) ? input : [input];
+      const output: unknown[] = [];
+      list.forEach((item, index) => {
+        const result = coerce(schema.items!, item, `${path}[${index}]`, errors);
+        if (result.ok) output.push(result.value);
+      });
+      return { ok: true, value: output };
+    }
+
+    case 'string': {
+      if (typeof input !== 'string' && typeof input !== 'number' && typeof input !== 'boolean') {
+        errors.push(`${path} must be a string`);
+        return { ok: false };
+      }
+      const value = String(input).trim();
+      if (!schema.enum) return { ok: true, value };
+
+      const normalized = normalizeEnumValue(value);
+      const match = schema.enum.find(option => normalizeEnumValue(option) === normalized);
+      if (match) return { ok: true, value: match };
+
+      const alias = Object.entries(schema.aliases || {}).find(([name]) => normalizeEnumValue(name) === normalized);
+      if (alias) return { ok: true, value: alias[1] };
+
+      errors.push(`${path} "${value}" is not one of ${schema.enum.join(', ')}`);
+      return { ok: false };
+    }
+
+    case 'number': {
+      const value = typeof input === 'number' ? input
+        : typeof input === 'string' ? Number(input.replace(/[,$%\s]/g, ''))
+        : NaN;
+      if (!Number.isFinite(value)) {
+        errors.push(`${path} must be a number`);
+        return { ok: false };
+      }
+      const floor = schema.minimum ?? -Infinity;
+      const ceiling = schema.maximum ?? Infinity;
+      return { ok: true, value: Math.min(ceiling, Math.max(floor, value)) };
+    }
+
+    case 'boolean': {
+      if (typeof input === 'boolean') return { ok: true, value: input };
+      const text = String(input).toLowerCase().trim();
+      if (['true', 'yes', '1'].includes(text)) return { ok: true, value: true };
+      if (['false', 'no', '0'].includes(text)) return { ok: true, value: false };
+      errors.push(`${path} must be a boolean`);
+      return { ok: false };
+    }
+  }
+}
+
+/** JSON from model text, tolerating code fences and prose around the object */
+export function parseModelJson(content: string): unknown {
+  const unfenced = content.replace(/```(?:json)?/gi, '').trim();
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  return JSON.parse(start >= 0 && end > start ? unfenced.slice(start, end + 1) : unfenced);
+}
+
+function check<T>(spec: StructuredOutputSpec, content: string): ValidationResult<T> {
+  let parsed: unknown;
+  try {
+    parsed = parseModelJson(content);
+  } catch (error) {
+    return { value: null, errors: [`response is not valid JSON: ${(error as Error).message}`] };
+  }
+  return validateStructuredOutput<T>(spec.schema, parsed);
+}
+
+/**
+ * Requests a schema-constrained completion and validates it. When the
+ * response has errors the model gets one repair turn listing them; a response
+ * that is still unusable rejects, leaving the caller's rule-based fallback.
+ */
+export async function completeStructured<T>(
+  llm: LLMProvider,
+  request: LLMCompletionRequest,
+  spec: StructuredOutputSpec
+): Promise<StructuredOutput<T>> {
+  const constrained: LLMCompletionRequest = {
+    ...request,
+    responseSchema: { name: spec.name, schema: toWireSchema(spec.schema) }
+  };
+
+  const content = await llm.complete(constrained);
+  const first = check<T>(spec, content);
+  if (first.errors.length === 0 && first.value !== null) {
+    return { value: first.value, errors: [], repaired: false };
+  }
+
+  const repairContent = await llm.complete({
+    ...constrained,
+    purpose: request.purpose ? `${request.purpose}_repair` : undefined,
+    messages: [
+      ...request.messages,
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content: `Your response did not match the ${spec.name} schema:\n- ${first.errors.slice(0, 10).join('\n- ')}\n\nReturn only the corrected JSON object.`
+      }
+    ]
+  }).catch(() => null);
+
+  const second = repairContent === null ? null : check<T>(spec, repairContent);
+  if (second && second.value !== null) {
+    return { value: second.value, errors: second.errors, repaired: true };
+  }
+  if (first.value !== null) {
+    return { value: first.value, errors: first.errors, repaired: false };
+  }
+  throw new Error(`Invalid ${spec.name} response: ${(second || first).errors.slice(0, 3).join('; ')}`);
+}
+
+export function completeEntitySet(llm: LLMProvider, request: LLMCompletionRequest): Promise<StructuredOutput<EntitySet>> {
+  return completeStructured<EntitySet>(llm, request, ENTITY_SET_OUTPUT);
+}
+
+export function completeQueryIntent(llm: LLMProvider, request: LLMCompletionRequest): Promise<StructuredOutput<QueryIntent>> {
+  return completeStructured<QueryIntent>(llm, request, QUERY_INTENT_OUTPUT);
+}
@@ -1,5 +1,12 @@
 // Universal EDGAR Intelligence - Core Types
 
+import { FullTextSearchResult } from '../filing-fulltext-index';
+import { InstitutionalHoldingsKnowledge } from '../institutional-holdings';
+import { ScreenResult } from '../frames-screener';
+import { PeerBenchmarkResult } from '../peer-groups';
+import { FollowUpResolution } from '../conversation-context';
+import { CanonicalQuery } from '../query-taxonomy';
+
 // ============= QUERY TYPES =============
 
 export interface UniversalQuery {
@@ -10,6 +17,12 @@ export interface UniversalQuery {
   constraints: QueryConstraints;
   confidence: number;
   complexity: 'simple' | 'compound' | 'analytical' | 'research';
+  conversation?: ConversationInfo; // Set when the query was resolved against a session
+  canonical?: CanonicalQuery; // Shared intent taxonomy; set by the parser, read by the MCP router
+}
+
+export interface ConversationInfo extends FollowUpResolution {
+  originalQuery: string; // The follow-up as asked
 }
 
 export interface EntitySet {
@@ -39,46 +52,59 @@ export interface PersonEntity {
   confidence: number;
 }
 
+export const CONCEPT_CATEGORIES = ['business', 'financial', 'risk', 'regulatory', 'operational'] as const;
+
 export interface ConceptEntity {
   concept: string;
-  category: 'business' | 'financial' | 'risk' | 'regulatory' | 'operational';
+  category: typeof CONCEPT_CATEGORIES[number];
   variations: string[];
   confidence: number;
 }
 
+export const TIME_PERIODS = ['current', 'latest', 'annual', 'quarterly'] as const;
+
 export interface TimeRange {
   start?: Date;
   end?: Date;
-  period?: 'current' | 'latest' | 'annual' | 'quarterly';
+  period?: typeof TIME_PERIODS[number];
   description: string; // "last 3 years", "since IPO", "Q1 2024"
   confidence: number;
 }
 
+export const AMOUNT_UNITS = ['thousands', 'millions', 'billions', 'actual'] as const;
+export const AMOUNT_COMPARISONS = ['greater', 'less', 'equal', 'between'] as const;
+
 export interface FinancialAmount {
   value?: number;
   currency: string;
-  unit: 'thousands' | 'millions' | 'billions' | 'actual';
-  comparison?: 'greater' | 'less' | 'equal' | 'between';
+  unit: typeof AMOUNT_UNITS[number];
+  comparison?: typeof AMOUNT_COMPARISONS[number];
   confidence: number;
 }
 
+export const LOCATION_TYPES = ['country', 'state', 'city', 'region'] as const;
+
 export interface LocationEntity {
   location: string;
-  type: 'country' | 'state' | 'city' | 'region';
+  type: typeof LOCATION_TYPES[number];
   confidence: number;
 }
 
+export const METRIC_CATEGORIES = ['revenue', 'profitability', 'efficiency', 'liquidity', 'leverage', 'growth'] as const;
+
 export interface MetricEntity {
   metric: string;
-  category: 'revenue' | 'profitability' | 'efficiency' | 'liquidity' | 'leverage' | 'growth';
+  category: typeof METRIC_CATEGORIES[number];
   standardName: string; // Normalized metric name
   confidence: number;
 }
 
+export const FILING_CATEGORIES = ['periodic', 'proxy', 'insider', 'registration', 'other'] as const;
+
 export interface FilingTypeEntity {
   formType: string;
   description: string;
-  category: 'periodic' | 'proxy' | 'insider' | 'registration' | 'other';
+  category: typeof FILING_CATEGORIES[number];
   confidence: number;
 }
 
@@ -92,32 +118,39 @@ export interface QueryIntent {
   requiresHistorical: boolean;
 }
 
-export type PrimaryIntent = 
-  | 'business_overview'      // "What does Tesla do?"
-  | 'financial_metrics'      // "What is Apple's revenue?"
-  | 'comparative_analysis'   // "Compare Google vs Meta"
-  | 'trend_analysis'         // "How has Amazon's profit changed?"
-  | 'content_search'         // "Which companies mention AI?"
-  | 'filing_lookup'          // "Show me Tesla's latest 10-K"
-  | 'risk_analysis'          // "What are Tesla's main risks?"
-  | 'regulatory_analysis'    // "How do new regulations affect banks?"
-  | 'market_analysis'        // "Which tech companies went public in 2023?"
-  | 'relationship_analysis'  // "Who are Apple's competitors?"
-  | 'pattern_analysis'       // "How often do companies restate earnings?"
-  | 'predictive_analysis'    // "Which companies might face bankruptcy?"
-  | 'meta_analysis';         // "How many companies are in the database?"
-
-export type SecondaryIntent =
-  | 'geographic_focus'
-  | 'industry_focus'
-  | 'size_focus'
-  | 'time_series'
-  | 'benchmarking'
-  | 'correlation'
-  | 'causation'
-  | 'ranking'
-  | 'aggregation'
-  | 'summarization';
+// Runtime lists behind the intent unions; structured-output.ts builds the model's JSON schema from them
+export const PRIMARY_INTENTS = [
+  'business_overview',      // "What does Tesla do?"
+  'financial_metrics',      // "What is Apple's revenue?"
+  'comparative_analysis',   // "Compare Google vs Meta"
+  'trend_analysis',         // "How has Amazon's profit changed?"
+  'content_search',         // "Which companies mention AI?"
+  'filing_lookup',          // "Show me Tesla's latest 10-K"
+  'risk_analysis',          // "What are Tesla's main risks?"
+  'regulatory_analysis',    // "How do new regulations affect banks?"
+  'market_analysis',        // "Which tech companies went public in 2023?"
+  'relationship_analysis',  // "Who are Apple's competitors?"
+  'pattern_analysis',       // "How often do companies restate earnings?"
+  'predictive_analysis',    // "Which companies might face bankruptcy?"
+  'meta_analysis'           // "How many companies are in the database?"
+] as const;
+
+export type PrimaryIntent = typeof PRIMARY_INTENTS[number];
+
+export const SECONDARY_INTENTS = [
+  'geographic_focus',
+  'industry_focus',
+  'size_focus',
+  'time_series',
+  'benchmarking',
+  'correlation',
+  'causation',
+  'ranking',
+  'aggregation',
+  'summarization'
+] as const;
+
+export type SecondaryIntent = typeof SECONDARY_INTENTS[number];
 
 // ============= SCOPE TYPES =============
 
@@ -139,6 +172,8 @@ export type DataType =
   | 'legal_proceedings'
   | 'corporate_governance'
   | 'insider_transactions'
+  | 'executive_compensation'
+  | 'institutional_holdings'
   | 'market_data'
   | 'regulatory_context'
   | 'industry_context'
@@ -167,6 +202,10 @@ export interface KnowledgeSet {
   sources: DataSource[];
   confidence: number;
   completeness: number;
+  contentMatches?: FullTextSearchResult; // Local full-text hits for content_search queries
+  institutionalHoldings?: InstitutionalHoldingsKnowledge; // 13F holders and manager position changes
+  screenResults?: ScreenResult; // XBRL frames screen for market-wide and ranking queries
+  peerBenchmarks?: PeerBenchmarkResult[]; // One per company, for peer and benchmarking queries
 }
 
 export interface CompanyKnowledge {
@@ -274,14 +313,25 @@ export interface AnswerData {
 }
 
 export interface Citation {
+  id: number; // Footnote number; the narrative cites it as [id]
   source: DataSource;
   filing?: FilingReference;
-  content?: string;
+  facts?: XbrlFactReference[]; // The reported values behind a figure: one fact, or a ratio's inputs
+  content?: string; // The source passage: filing text, formula or fact values
   url?: string;
   confidence: number;
   relevance: number;
 }
 
+export interface XbrlFactReference {
+  concept: string; // "us-gaap:Revenues"
+  value: number;
+  unit?: string;
+  period?: string; // Fiscal period label: "FY2023"
+  end: string;
+  accessionNumber?: string;
+}
+
 export interface DataSource {
   type: 'sec_filing' | 'sec_api' | 'calculated' | 'aggregated' | 'industry_data';
   name: string;
@@ -297,6 +347,15 @@ export interface AnswerAssessment {
   assumptions: string[];
   dataFreshness: DataFreshness;
   bias_risks: string[];
+  claimVerification?: ClaimVerificationSummary;
+}
+
+// Figures and dates in the narrative checked against the knowledge set
+export interface ClaimVerificationSummary {
+  mode: 'flag' | 'remove';
+  checked: number;
+  supported: number;
+  unsupported: string[]; // Claims as written, flagged [unverified] or removed with their sentence
 }
 
 export interface DataFreshness {
@@ -359,6 +418,7 @@ export interface BusinessSegment {
 }
 
 export interface RiskFactor {
+  title?: string; // Risk factor heading as written in the filing
   category: string;
   description: string;
   severity: 'low' | 'medium' | 'high' | 'critical';
@@ -410,6 +470,8 @@ export interface AnswerMetadata {
   sources: DataSource[];
   complexity: 'simple' | 'compound' | 'analytical' | 'research';
   confidence: number;
+  parsedQuery?: UniversalQuery;
+  conversation?: ConversationInfo;
 }
 
 // Missing type definitions
@@ -437,6 +499,109 @@ export interface GovernanceProfile {
   board: any[];
   executives: any[];
   policies: string[];
+  insiderTransactions?: InsiderTransaction[]; // Form 3/4/5 transactions in the activity window, newest first
+  insiderActivity?: InsiderActivitySummary;
+  executiveCompensation?: ExecutiveCompensation; // Summary Compensation Table from the latest DEF 14A
+}
+
+export interface CompensationYear {
+  year: number;
+  salary?: number;
+  bonus?: number;
+  stockAwards?: number;
+  optionAwards?: number;
+  nonEquityIncentive?: number;
+  pensionAndDeferred?: number; // Change in pension value and nonqualified deferred compensation earnings
+  allOther?: number;
+  total?: number;
+}
+
+export interface NamedExecutiveOfficer {
+  name: string;
+  title?: string;
+  years: CompensationYear[]; // Newest first
+}
+
+export interface ExecutiveCompensation {
+  accessionNumber?: string;
+  filingDate?: string;
+  url?: string;
+  executives: NamedExecutiveOfficer[]; // In table order; the principal executive officer is listed first
+}
+
+export interface InsiderRelationship {
+  isDirector: boolean;
+  isOfficer: boolean;
+  isTenPercentOwner: boolean;
+  isOther: boolean;
+  officerTitle?: string;
+  otherText?: string;
+}
+
+export interface ReportingOwner {
+  cik: string;
+  name: string;
+  relationship: InsiderRelationship;
+}
+
+export interface InsiderTransaction {
+  accessionNumber?: string;
+  form: string; // 3, 4, 5 or an amendment
+  issuerCik: string;
+  issuerName: string;
+  issuerTicker?: string;
+  owner: ReportingOwner; // First reporting owner; joint filers are listed in coOwners
+  coOwners?: string[];
+  securityTitle: string;
+  isDerivative: boolean;
+  transactionDate: string;
+  transactionCode: string; // P, S, A, M, F, G, ...
+  transactionDescription: string;
+  acquiredDisposed: 'A' | 'D';
+  shares: number;
+  pricePerShare?: number;
+  value?: number; // shares x price, when a price is reported
+  sharesOwnedAfter?: number;
+  directOrIndirect: 'D' | 'I';
+  underlyingSecurity?: string; // Derivatives only
+  footnotes?: string[];
+}
+
+export interface InsiderTradeTotals {
+  count: number;
+  shares: number;
+  value: number;
+}
+
+export interface InsiderActivity {
+  ownerCik: string;
+  ownerName: string;
+  role: string; // e.g. "Director, Chief Executive Officer"
+  purchases: InsiderTradeTotals; // Open-market purchases (code P)
+  sales: InsiderTradeTotals; // Open-market sales (code S)
+  netShares: number;
+  netValue: number;
+  otherAcquired: number; // Shares from awards, exercises, gifts received, ...
+  otherDisposed: number; // Shares withheld for tax, gifted, ...
+  sharesOwned?: number; // Holdings after the insider's latest non-derivative transaction
+  transactions: number;
+  lastTransactionDate: string;
+}
+
+export interface InsiderActivitySummary {
+  issuerCik: string;
+  issuerName: string;
+  issuerTicker?: string;
+  window: { start: string; end: string; days: number };
+  filings: number;
+  purchases: InsiderTradeTotals;
+  sales: InsiderTradeTotals;
+  netShares: number;
+  netValue: number;
+  buyers: number;
+  sellers: number;
+  signal: 'net_buying' | 'net_selling' | 'neutral';
+  insiders: InsiderActivity[]; // Largest net traders first
 }
 
 export interface CompanyRelationships {
@@ -446,8 +611,48 @@ export interface CompanyRelationships {
 }
 
 export interface CompanyTimeline {
-  events: any[];
-  milestones: any[];
+  events: TimelineEvent[]; // Newest first
+  milestones: TimelineEvent[]; // High-significance events only
+}
+
+export type EventCategory =
+  | 'agreement'
+  | 'bankruptcy'
+  | 'cybersecurity'
+  | 'acquisition'
+  | 'earnings'
+  | 'financing'
+  | 'restructuring'
+  | 'impairment'
+  | 'listing'
+  | 'auditor'
+  | 'restatement'
+  | 'control'
+  | 'leadership'
+  | 'governance'
+  | 'shareholder_vote'
+  | 'disclosure'
+  | 'asset_backed'
+  | 'mine_safety'
+  | 'other';
+
+export interface CurrentReportItem {
+  item: string; // "5.02"
+  title: string;
+  category: EventCategory;
+}
+
+export interface TimelineEvent {
+  date: string; // Filing date, YYYY-MM-DD
+  eventDate?: string; // Date of the event itself, from the 8-K cover page
+  category: EventCategory;
+  title: string;
+  summary?: string; // Opening sentences of the main item's text
+  significance: 'high' | 'medium' | 'low';
+  items: CurrentReportItem[];
+  form: string;
+  accessionNumber: string;
+  url?: string;
 }
 
 export interface FilingSummary {
@@ -459,6 +664,8 @@ export interface FilingSummary {
   filingDate?: string;
   url?: string;
   primaryDocument?: string;
+  indexUrl?: string;
+  exhibits?: Exhibit[];
 }
 
 export interface IncorporationInfo {
@@ -500,13 +707,50 @@ export interface CompetitivePosition {
 export interface FinancialTrend {
   metric: string;
   direction: 'up' | 'down' | 'stable';
-  change: number;
+  change: number; // Latest period-over-period growth as a fraction (0.12 = +12%)
+  periodType?: 'annual' | 'quarterly';
+  concept?: string; // XBRL concept the series was built from
+  unit?: string;
+  series?: TrendPoint[];
+  cagr?: number; // Compound annual growth rate across the series, as a fraction
+  inflectionPoints?: InflectionPoint[];
+}
+
+export interface TrendPoint {
+  period: string; // Fiscal period label: "FY2023", "Q2 FY2024"
+  start?: string;
+  end: string;
+  value: number;
+  derived?: boolean; // Not reported directly, e.g. Q4 = FY - (Q1 + Q2 + Q3)
+  growth?: number; // vs previous point (YoY for annual, QoQ for quarterly)
+  yoyGrowth?: number; // vs same period one year earlier
+  accessionNumber?: string;
+}
+
+export interface InflectionPoint {
+  period: string;
+  type: 'peak' | 'trough' | 'acceleration' | 'deceleration';
+  description: string;
 }
 
 export interface FinancialRatio {
   name: string;
   value: number;
   benchmark?: number;
+  category?: 'profitability' | 'returns' | 'liquidity' | 'leverage' | 'efficiency';
+  unit?: 'percent' | 'ratio' | 'times';
+  formula?: string; // Human-readable description of how the ratio was computed
+  period?: DateRange; // Fiscal period all inputs were aligned to
+  fiscalYear?: number;
+  inputs?: RatioInput[];
+}
+
+export interface RatioInput {
+  label: string;
+  concept: string; // XBRL concept, e.g. "us-gaap:NetIncomeLoss"
+  value: number;
+  end: string;
+  accessionNumber?: string;
 }
 
 export interface SegmentFinancials {
@@ -531,6 +775,9 @@ export interface RiskTrend {
   risk: string;
   trend: 'increasing' | 'decreasing' | 'stable';
   impact: number;
+  change?: 'added' | 'removed' | 'reworded'; // vs the prior annual report's Item 1A
+  category?: string;
+  previousRisk?: string; // Prior heading, when a reworded risk was retitled
 }
 
 export interface Litigation {
@@ -603,11 +850,15 @@ export interface Exhibit {
   number: string;
   description: string;
   type: string;
+  document?: string;
+  url?: string;
 }
 
 export interface Timeline {
+  title?: string;
   events: any[];
   period: string;
+  source?: string;
 }
 
 export interface Comparison {
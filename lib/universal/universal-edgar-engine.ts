@@ -5,6 +5,8 @@ import { KnowledgeExtractionEngine } from './knowledge-extractor';
 import { KnowledgeSynthesizer } from './knowledge-synthesizer';
 import { UniversalQuery, UniversalAnswer } from './types';
 import { getMCPQueryRouter } from '../../backend/src/services/mcp-query-router';
+import { ConversationTurn } from '../conversation-context';
+import { LLMProvider, getLLMProvider } from '../llm-provider';
 
 export class UniversalEdgarEngine {
   private queryParser: UniversalQueryParser;
@@ -12,14 +14,14 @@ export class UniversalEdgarEngine {
   private synthesizer: KnowledgeSynthesizer;
   private mcpRouter: any; // Will be initialized dynamically
 
-  constructor() {
-    this.queryParser = new UniversalQueryParser();
+  constructor(private llm: LLMProvider = getLLMProvider()) {
+    this.queryParser = new UniversalQueryParser(llm);
     this.knowledgeExtractor = new KnowledgeExtractionEngine();
-    this.synthesizer = new KnowledgeSynthesizer();
+    this.synthesizer = new KnowledgeSynthesizer(llm);
     this.mcpRouter = null; // Initialize as null, will be set up when needed
   }
 
-  async processQuery(naturalLanguageQuery: string): Promise<UniversalAnswer> {
+  async processQuery(naturalLanguageQuery: string, previousTurns: ConversationTurn[] = []): Promise<UniversalAnswer> {
     console.log('=== UNIVERSAL EDGAR ENGINE ===');
     console.log('Processing query:', naturalLanguageQuery);
     
@@ -30,7 +32,7 @@ export class UniversalEdgarEngine {
       console.log('Step 1: Parsing query...');
       let universalQuery;
       try {
-        universalQuery = await this.queryParser.parse(naturalLanguageQuery);
+        universalQuery = await this.queryParser.parse(naturalLanguageQuery, previousTurns);
         console.log('Query parsing result:', {
           confidence: universalQuery.confidence,
           intent: universalQuery.intent.primary,
@@ -47,7 +49,7 @@ export class UniversalEdgarEngine {
       
       if (universalQuery.confidence < 0.1) {
         console.warn('Low confidence in query parsing:', universalQuery.confidence);
-        return this.generateLowConfidenceResponse(naturalLanguageQuery, universalQuery);
+        return this.withQueryDetails(this.generateLowConfidenceResponse(naturalLanguageQuery, universalQuery), universalQuery);
       }
 
       // Step 2: Try MCP-powered knowledge extraction first
@@ -97,7 +99,10 @@ export class UniversalEdgarEngine {
       
       if (knowledgeSet.confidence < 0.2) {
         console.warn('Low confidence in knowledge extraction:', knowledgeSet.confidence);
-        return this.generateInsufficientDataResponse(naturalLanguageQuery, universalQuery, knowledgeSet);
+        return this.withQueryDetails(
+          this.generateInsufficientDataResponse(naturalLanguageQuery, universalQuery, knowledgeSet),
+          universalQuery
+        );
       }
 
       // Step 3: Synthesize comprehensive answer
@@ -135,7 +140,7 @@ export class UniversalEdgarEngine {
         mcpToolsUsed: answer.metadata.mcpToolsUsed
       });
 
-      return answer;
+      return this.withQueryDetails(answer, universalQuery);
 
     } catch (error: any) {
       console.error('Universal EDGAR Engine error:', error);
@@ -144,6 +149,15 @@ export class UniversalEdgarEngine {
     }
   }
 
+  // Let callers record how the question was understood (session state, query history)
+  private withQueryDetails(answer: UniversalAnswer, query: UniversalQuery): UniversalAnswer {
+    answer.metadata.parsedQuery = query;
+    if (query.conversation) {
+      answer.metadata.conversation = query.conversation;
+    }
+    return answer;
+  }
+
   private generateLowConfidenceResponse(
     originalQuery: string, 
     parsedQuery: UniversalQuery
@@ -331,7 +345,7 @@ Error details: ${error.message || 'Unknown error occurred'}`,
         details: {
           queryParsingWorking: parsedQuery.confidence > 0.5,
           processingTimeMs: processingTime,
-          openaiConnected: !!process.env.OPENAI_API_KEY,
+          llmProvider: `${this.llm.name} (${this.llm.model})`,
           secApiAccessible: true // Would need actual test
         }
       };
@@ -355,6 +369,7 @@ Error details: ${error.message || 'Unknown error occurred'}`,
     return {
       companies: mcpData.companies || [],
       filings: mcpData.filings || [],
+      contentMatches: mcpData.contentMatches,
       relationships: [],
       industry: {},
       market: {},
@@ -0,0 +1,424 @@
+// Standard financial metrics and their XBRL concept fallback chains
+
+export interface ConceptTag {
+  taxonomy: 'us-gaap' | 'ifrs-full';
+  tag: string;
+}
+
+export interface StandardMetric {
+  standardName: string; // Value used in MetricEntity.standardName
+  key: string; // Field name used in FinancialMetrics / trend output
+  label: string;
+  category: 'revenue' | 'profitability' | 'efficiency' | 'liquidity' | 'leverage' | 'growth';
+  unit: 'USD' | 'USD/shares';
+  instant: boolean; // Balance sheet items are reported at a point in time
+  aliases: string[];
+  tags: ConceptTag[]; // Ordered by preference
+}
+
+export interface ResolvedFact {
+  taxonomy: string;
+  concept: string;
+  unit: string;
+  start?: string;
+  end: string;
+  val: number;
+  accn: string;
+  fy: number;
+  fp: string;
+  form: string;
+  filed: string;
+  frame?: string;
+}
+
+export interface ResolvedConcept {
+  metric: StandardMetric;
+  concept: string; // Tag with the most recent data
+  taxonomy: string;
+  unit: string;
+  concepts: string[]; // Every tag that contributed values
+  values: ResolvedFact[];
+}
+
+const gaap = (tag: string): ConceptTag => ({ taxonomy: 'us-gaap', tag });
+const ifrs = (tag: string): ConceptTag => ({ taxonomy: 'ifrs-full', tag });
+
+export const STANDARD_METRICS: StandardMetric[] = [
+  // Income statement
+  {
+    standardName: 'TotalRevenue',
+    key: 'revenue',
+    label: 'Revenue',
+    category: 'revenue',
+    unit: 'USD',
+    instant: false,
+    aliases: ['revenue', 'revenues', 'sales', 'net sales', 'total revenue', 'turnover', 'top line'],
+    tags: [
+      gaap('RevenueFromContractWithCustomerExcludingAssessedTax'),
+      gaap('Revenues'),
+      gaap('RevenueFromContractWithCustomerIncludingAssessedTax'),
+      gaap('SalesRevenueNet'),
+      gaap('SalesRevenueGoodsNet'),
+      gaap('SalesRevenueServicesNet'),
+      gaap('Revenue'),
+      ifrs('Revenue'),
+      ifrs('RevenueFromContractsWithCustomers')
+    ]
+  },
+  {
+    standardName: 'CostOfRevenue',
+    key: 'cost_of_revenue',
+    label: 'Cost of Revenue',
+    category: 'profitability',
+    unit: 'USD',
+    instant: false,
+    aliases: ['cost of revenue', 'cost of sales', 'cost of goods sold', 'cogs'],
+    tags: [
+      gaap('CostOfRevenue'),
+      gaap('CostOfGoodsAndServicesSold'),
+      gaap('CostOfGoodsSold'),
+      gaap('CostOfServices'),
+      ifrs('CostOfSales')
+    ]
+  },
+  {
+    standardName: 'GrossProfit',
+    key: 'gross_profit',
+    label: 'Gross Profit',
+    category: 'profitability',
+    unit: 'USD',
+    instant: false,
+    aliases: ['gross profit', 'gross income'],
+    tags: [gaap('GrossProfit'), ifrs('GrossProfit')]
+  },
+  {
+    standardName: 'OperatingIncome',
+    key: 'operating_income',
+    label: 'Operating Income',
+    category: 'profitability',
+    unit: 'USD',
+    instant: false,
+    aliases: ['operating income', 'operating profit', 'income from operations', 'ebit'],
+    tags: [gaap('OperatingIncomeLoss'), ifrs('ProfitLossFromOperatingActivities')]
+  },
+  {
+    standardName: 'NetIncome',
+    key: 'net_income',
+    label: 'Net Income',
+    category: 'profitability',
+    unit: 'USD',
+    instant: false,
+    aliases: ['net income', 'profit', 'earnings', 'net profit', 'net earnings', 'net loss', 'bottom line'],
+    tags: [
+      gaap('NetIncomeLoss'),
+      gaap('NetIncomeLossAvailableToCommonStockholdersBasic'),
+      gaap('ProfitLoss'),
+      ifrs('ProfitLossAttributableToOwnersOfParent'),
+      ifrs('ProfitLoss')
+    ]
+  },
+  {
+    standardName: 'ResearchAndDevelopment',
+    key: 'research_and_development',
+    label: 'Research and Development',
+    category: 'efficiency',
+    unit: 'USD',
+    instant: false,
+    aliases: ['r&d', 'research and development', 'rd expense', 'research expense'],
+    tags: [
+      gaap('ResearchAndDevelopmentExpense'),
+      gaap('ResearchAndDevelopmentExpenseExcludingAcquiredInProcessCost'),
+      ifrs('ResearchAndDevelopmentExpense')
+    ]
+  },
+  {
+    standardName: 'InterestExpense',
+    key: 'interest_expense',
+    label: 'Interest Expense',
+    category: 'leverage',
+    unit: 'USD',
+    instant: false,
+    aliases: ['interest expense', 'interest cost'],
+    tags: [
+      gaap('InterestExpense'),
+      gaap('InterestExpenseDebt'),
+      gaap('InterestExpenseNonoperating'),
+      gaap('InterestAndDebtExpense'),
+      ifrs('FinanceCosts')
+    ]
+  },
+  {
+    standardName: 'EPSBasic',
+    key: 'eps_basic',
+    label: 'Basic EPS',
+    category: 'profitability',
+    unit: 'USD/shares',
+    instant: false,
+    aliases: ['basic eps', 'basic earnings per share'],
+    tags: [gaap('EarningsPerShareBasic'), ifrs('BasicEarningsLossPerShare')]
+  },
+  {
+    standardName: 'EPSDiluted',
+    key: 'eps_diluted',
+    label: 'Diluted EPS',
+    category: 'profitability',
+    unit: 'USD/shares',
+    instant: false,
+    aliases: ['eps', 'diluted eps', 'earnings per share', 'diluted earnings per share'],
+    tags: [
+      gaap('EarningsPerShareDiluted'),
+      gaap('EarningsPerShareBasicAndDiluted'),
+      ifrs('DilutedEarningsLossPerShare')
+    ]
+  },
+
+  // Cash flow statement
+  {
+    standardName: 'OperatingCashFlow',
+    key: 'operating_cash_flow',
+    label: 'Operating Cash Flow',
+    category: 'liquidity',
+    unit: 'USD',
+    instant: false,
+    aliases: ['operating cash flow', 'cash flow from operations', 'operating activities cash flow'],
+    tags: [
+      gaap('NetCashProvidedByUsedInOperatingActivities'),
+      gaap('NetCashProvidedByUsedInOperatingActivitiesContinuingOperations'),
+      ifrs('CashFlowsFromUsedInOperatingActivities')
+    ]
+  },
+  {
+    standardName: 'CapitalExpenditures',
+    key: 'capital_expenditures',
+    label: 'Capital Expenditures',
+    category: 'efficiency',
+    unit: 'USD',
+    instant: false,
+    aliases: ['capex', 'capital expenditures', 'capital spending'],
+    tags: [
+      gaap('PaymentsToAcquirePropertyPlantAndEquipment'),
+      gaap('PaymentsToAcquireProductiveAssets'),
+      ifrs('PurchaseOfPropertyPlantAndEquipmentClassifiedAsInvestingActivities')
+    ]
+  },
+
+  // Balance sheet
+  {
+    standardName: 'TotalAssets',
+    key: 'total_assets',
+    label: 'Total Assets',
+    category: 'liquidity',
+    unit: 'USD',
+    instant: true,
+    aliases: ['assets', 'total assets'],
+    tags: [gaap('Assets'), ifrs('Assets')]
+  },
+  {
+    standardName: 'CurrentAssets',
+    key: 'current_assets',
+    label: 'Current Assets',
+    category: 'liquidity',
+    unit: 'USD',
+    instant: true,
+    aliases: ['current assets'],
+    tags: [gaap('AssetsCurrent'), ifrs('CurrentAssets')]
+  },
+  {
+    standardName: 'TotalLiabilities',
+    key: 'total_liabilities',
+    label: 'Total Liabilities',
+    category: 'leverage',
+    unit: 'USD',
+    instant: true,
+    aliases: ['liabilities', 'total liabilities'],
+    tags: [gaap('Liabilities'), ifrs('Liabilities')]
+  },
+  {
+    standardName: 'CurrentLiabilities',
+    key: 'current_liabilities',
+    label: 'Current Liabilities',
+    category: 'liquidity',
+    unit: 'USD',
+    instant: true,
+    aliases: ['current liabilities'],
+    tags: [gaap('LiabilitiesCurrent'), ifrs('CurrentLiabilities')]
+  },
+  {
+    standardName: 'StockholdersEquity',
+    key: 'total_equity',
+    label: "Stockholders' Equity",
+    category: 'leverage',
+    unit: 'USD',
+    instant: true,
+    aliases: ['equity', 'shareholders equity', 'stockholders equity', 'book value'],
+    tags: [
+      gaap('StockholdersEquity'),
+      gaap('StockholdersEquityIncludingPortionAttributableToNoncontrollingInterest'),
+      ifrs('EquityAttributableToOwnersOfParent'),
+      ifrs('Equity')
+    ]
+  },
+  {
+    standardName: 'CashAndEquivalents',
+    key: 'cash',
+    label: 'Cash and Cash Equivalents',
+    category: 'liquidity',
+    unit: 'USD',
+    instant: true,
+    aliases: ['cash', 'cash equivalents', 'cash and cash equivalents'],
+    tags: [
+      gaap('CashAndCashEquivalentsAtCarryingValue'),
+      gaap('CashCashEquivalentsRestrictedCashAndRestrictedCashEquivalents'),
+      gaap('Cash'),
+      ifrs('CashAndCashEquivalents')
+    ]
+  },
+  {
+    standardName: 'ShortTermInvestments',
+    key: 'short_term_investments',
+    label: 'Short-term Investments',
+    category: 'liquidity',
+    unit: 'USD',
+    instant: true,
+    aliases: ['short-term investments', 'marketable securities'],
+    tags: [
+      gaap('ShortTermInvestments'),
+      gaap('MarketableSecuritiesCurrent'),
+      gaap('AvailableForSaleSecuritiesDebtSecuritiesCurrent'),
+      ifrs('CurrentInvestments')
+    ]
+  },
+  {
+    standardName: 'AccountsReceivable',
+    key: 'accounts_receivable',
+    label: 'Accounts Receivable',
+    category: 'liquidity',
+    unit: 'USD',
+    instant: true,
+    aliases: ['accounts receivable', 'receivables'],
+    tags: [
+      gaap('AccountsReceivableNetCurrent'),
+      gaap('ReceivablesNetCurrent'),
+      ifrs('TradeAndOtherCurrentReceivables')
+    ]
+  },
+  {
+    standardName: 'LongTermDebt',
+    key: 'debt',
+    label: 'Long-term Debt',
+    category: 'leverage',
+    unit: 'USD',
+    instant: true,
+    aliases: ['debt', 'long-term debt', 'long term debt', 'borrowings'],
+    tags: [
+      gaap('LongTermDebtNoncurrent'),
+      gaap('LongTermDebt'),
+      gaap('LongTermDebtAndCapitalLeaseObligations'),
+      ifrs('NoncurrentPortionOfNoncurrentBorrowings'),
+      ifrs('Borrowings')
+    ]
+  },
+  {
+    standardName: 'CurrentDebt',
+    key: 'current_debt',
+    label: 'Current Debt',
+    category: 'leverage',
+    unit: 'USD',
+    instant: true,
+    aliases: ['current debt', 'short-term debt', 'short term borrowings'],
+    tags: [
+      gaap('LongTermDebtCurrent'),
+      gaap('DebtCurrent'),
+      gaap('ShortTermBorrowings'),
+      ifrs('CurrentBorrowingsAndCurrentPortionOfNoncurrentBorrowings')
+    ]
+  }
+];
+
+/**
+ * Find a standard metric by standard name, key, label, alias or any XBRL tag in its chain
+ */
+export function getStandardMetric(identifier: string): StandardMetric | undefined {
+  const normalized = identifier.toLowerCase().trim().replace(/^(us-gaap|ifrs-full):/, '');
+
+  return STANDARD_METRICS.find(metric =>
+    metric.standardName.toLowerCase() === normalized ||
+    metric.key === normalized ||
+    metric.label.toLowerCase() === normalized ||
+    metric.aliases.includes(normalized)
+  ) || STANDARD_METRICS.find(metric =>
+    metric.tags.some(t => t.tag.toLowerCase() === normalized)
+  );
+}
+
+/**
+ * Get the ordered concept chain for a standard metric
+ */
+export function getConceptChain(identifier: string): ConceptTag[] {
+  return getStandardMetric(identifier)?.tags || [];
+}
+
+/**
+ * Resolve a standard metric against a companyfacts payload.
+ *
+ * Companies switch tags over time (e.g. SalesRevenueNet before ASC 606, then
+ * RevenueFromContractWithCustomerExcludingAssessedTax), so values from every tag in
+ * the chain are merged per period. Where two tags report the same period, the tag
+ * earlier in the chain wins. The primary concept is the one with the most recent data.
+ */
+export function resolveConcept(facts: any, identifier: string): ResolvedConcept | null {
+  const metric = getStandardMetric(identifier);
+  if (!metric || !facts?.facts) return null;
+
+  const byPeriod = new Map<string, ResolvedFact>();
+  const contributing: string[] = [];
+  let primary: { tag: ConceptTag; unit: string; latestEnd: string } | null = null;
+
+  for (const conceptTag of metric.tags) {
+    const conceptData = facts.facts[conceptTag.taxonomy]?.[conceptTag.tag];
+    const unit = selectUnit(conceptData?.units, metric);
+    if (!unit) continue;
+
+    const values: any[] = conceptData.units[unit];
+    if (values.length === 0) continue;
+
+    contributing.push(conceptTag.tag);
+
+    for (const value of values) {
+      const key = `${value.start || ''}_${value.end}_${value.accn}`;
+      if (!byPeriod.has(key)) {
+        byPeriod.set(key, { ...value, taxonomy: conceptTag.taxonomy, concept: conceptTag.tag, unit });
+      }
+    }
+
+    const latestEnd = values.reduce((latest: string, v: any) => v.end > latest ? v.end : latest, '');
+    if (!primary || latestEnd > primary.latestEnd) {
+      primary = { tag: conceptTag, unit, latestEnd };
+    }
+  }
+
+  if (!primary) return null;
+
+  return {
+    metric,
+    concept: primary.tag.tag,
+    taxonomy: primary.tag.taxonomy,
+    unit: primary.unit,
+    concepts: contributing,
+    values: Array.from(byPeriod.values())
+  };
+}
+
+// Prefer the metric's own unit; IFRS filers report in their presentation currency
+function selectUnit(units: any, metric: StandardMetric): string | null {
+  if (!units) return null;
+
+  if (units[metric.unit]?.length) return metric.unit;
+
+  const perShare = metric.unit === 'USD/shares';
+  const candidates = Object.keys(units).filter(unit =>
+    perShare ? unit.endsWith('/shares') : /^[A-Z]{3}$/.test(unit)
+  );
+
+  return candidates.length > 0 ? candidates[0] : null;
+}
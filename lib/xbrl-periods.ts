@@ -0,0 +1,360 @@
+// Fiscal period normalization for XBRL companyfacts values
+
+export type FiscalPeriod = 'FY' | 'Q1' | 'Q2' | 'Q3' | 'Q4';
+
+export interface NormalizedValue {
+  fiscalYear: number;
+  fiscalPeriod: FiscalPeriod;
+  label: string; // "FY2024", "Q3 FY2024"
+  start?: string;
+  end: string;
+  value: number;
+  concept?: string;
+  taxonomy?: string;
+  unit?: string;
+  accessionNumber?: string; // Filing the value was taken from; for derived values, the latest input
+  form?: string;
+  filed?: string;
+  derived: boolean; // Calculated from other periods rather than reported directly
+  derivation?: string; // e.g. "FY - (Q1 + Q2 + Q3)"
+  restated: boolean; // A later filing reported a different value for the same period
+}
+
+export interface NormalizedPeriods {
+  annual: NormalizedValue[]; // One value per fiscal year, oldest first
+  quarterly: NormalizedValue[]; // One discrete three-month value per fiscal quarter, oldest first
+}
+
+interface FiscalYearEnd {
+  end: string;
+  fiscalYear: number;
+}
+
+// Forms whose XBRL facts describe the filer's own periodic results
+const PERIODIC_FORMS = ['10-K', '10-K/A', '10-Q', '10-Q/A', '20-F', '20-F/A', '40-F', '40-F/A', '10-KT', '10-QT'];
+
+const ANNUAL_FORMS = ['10-K', '10-K/A', '20-F', '20-F/A', '40-F', '40-F/A', '10-KT'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365.25 * DAY_MS;
+
+// Duration windows in days; fiscal calendars use 52/53 week years
+const DURATIONS = {
+  quarter: [80, 100],
+  halfYear: [170, 190],
+  nineMonths: [260, 285],
+  year: [350, 380]
+};
+
+/**
+ * Normalize raw companyfacts values for a single concept into one canonical value
+ * per fiscal year and fiscal quarter.
+ *
+ * - The same period appears in many filings (comparatives, amendments); the most
+ *   recently filed value wins, so restatements replace originally reported figures.
+ * - `fy`/`fp` on a fact describe the filing it came from, not the fact's own period,
+ *   so fiscal periods are located from the fiscal year ends reported in annual filings.
+ * - Quarters missing as three-month facts are derived from year-to-date values
+ *   (Q2 = H1 - Q1, Q3 = 9M - H1), and Q4 = FY - (Q1 + Q2 + Q3).
+ *
+ * Pass `instant` for balance sheet concepts: those are point-in-time values, so
+ * the annual series holds fiscal year end balances and quarters are never derived.
+ */
+export function normalizePeriods(values: any[], options: { instant?: boolean } = {}): NormalizedPeriods {
+  const periodic = (values || []).filter(item =>
+    PERIODIC_FORMS.includes(item.form) && item.end && typeof item.val === 'number'
+  );
+  if (periodic.length === 0) return { annual: [], quarterly: [] };
+
+  const canonical = dedupePeriods(periodic);
+  const yearEnds = findFiscalYearEnds(canonical, periodic, options.instant);
+
+  return options.instant
+    ? normalizeInstants(canonical, yearEnds)
+    : normalizeDurations(canonical, yearEnds);
+}
+
+/**
+ * Latest fiscal year value for a concept, after normalization
+ */
+export function getLatestAnnualValue(values: any[], options: { instant?: boolean } = {}): NormalizedValue | undefined {
+  const { annual } = normalizePeriods(values, options);
+  return annual[annual.length - 1];
+}
+
+/**
+ * Describe a fiscal period, e.g. "FY2024" or "Q3 FY2024"
+ */
+export function formatFiscalPeriod(fiscalYear: number, fiscalPeriod: FiscalPeriod): string {
+  return fiscalPeriod === 'FY' ? `FY${fiscalYear}` : `${fiscalPeriod} FY${fiscalYear}`;
+}
+
+// Keep one fact per start/end, preferring the latest filing; flag values that changed
+function dedupePeriods(values: any[]): Map<string, { fact: any; restated: boolean }> {
+  const byPeriod = new Map<string, { fact: any; restated: boolean }>();
+
+  for (const item of values) {
+    const key = periodKey(item.start, item.end);
+    const existing = byPeriod.get(key);
+
+    if (!existing) {
+      byPeriod.set(key, { fact: item, restated: false });
+      continue;
+    }
+
+    const restated = existing.restated || existing.fact.val !== item.val;
+    const newer = (item.filed || '') > (existing.fact.filed || '') ||
+      // Same-day amendments supersede the original
+      ((item.filed || '') === (existing.fact.filed || '') && item.form?.endsWith('/A'));
+
+    byPeriod.set(key, { fact: newer ? item : existing.fact, restated });
+  }
+
+  return byPeriod;
+}
+
+// Fiscal year ends, labelled with the fiscal year of the filing that first reported them as its own period
+function findFiscalYearEnds(
+  canonical: Map<string, { fact: any; restated: boolean }>,
+  values: any[],
+  instant?: boolean
+): FiscalYearEnd[] {
+  // The latest period end in each filing is that filing's own reporting period
+  const filingEnds = new Map<string, string>();
+  for (const item of values) {
+    const current = filingEnds.get(item.accn);
+    if (!current || item.end > current) filingEnds.set(item.accn, item.end);
+  }
+
+  const labels = new Map<string, number>();
+  for (const item of values) {
+    if (item.fp !== 'FY' || !item.fy || filingEnds.get(item.accn) !== item.end) continue;
+    if (!instant && !inRange(durationDays(item), DURATIONS.year)) continue;
+    if (!labels.has(item.end)) labels.set(item.end, item.fy);
+  }
+
+  const ends = new Set<string>(labels.keys());
+  const knownEnds = Array.from(labels.keys());
+  for (const { fact } of Array.from(canonical.values())) {
+    if (!instant && inRange(durationDays(fact), DURATIONS.year)) ends.add(fact.end);
+    // Comparative balances in annual reports fall on earlier fiscal year ends
+    if (instant && !fact.start && ANNUAL_FORMS.includes(fact.form) && knownEnds.some(end => wholeYearsApart(end, fact.end))) {
+      ends.add(fact.end);
+    }
+  }
+
+  const sorted = Array.from(ends).sort();
+  const anchor = sorted.find(end => labels.has(end));
+
+  return sorted.map(end => ({
+    end,
+    fiscalYear: labels.get(end) ??
+      (anchor ? labels.get(anchor)! + Math.round((time(end) - time(anchor)) / YEAR_MS) : new Date(end).getUTCFullYear())
+  }));
+}
+
+// Place a period end within the fiscal calendar
+function locate(end: string, yearEnds: FiscalYearEnd[]): { fiscalYear: number; quarter: number } {
+  if (yearEnds.length === 0) {
+    const date = new Date(end);
+    return { fiscalYear: date.getUTCFullYear(), quarter: Math.floor(date.getUTCMonth() / 3) + 1 };
+  }
+
+  const tolerance = 10 * DAY_MS;
+  let yearEnd = yearEnds.find(fye => time(fye.end) + tolerance >= time(end));
+  let fiscalYearEnd: number;
+  let fiscalYear: number;
+
+  if (yearEnd) {
+    fiscalYearEnd = time(yearEnd.end);
+    fiscalYear = yearEnd.fiscalYear;
+  } else {
+    // Periods after the latest annual report fall in a fiscal year that has not closed yet
+    yearEnd = yearEnds[yearEnds.length - 1];
+    const yearsAhead = Math.ceil((time(end) - time(yearEnd.end) - tolerance) / YEAR_MS);
+    fiscalYearEnd = time(yearEnd.end) + yearsAhead * YEAR_MS;
+    fiscalYear = yearEnd.fiscalYear + yearsAhead;
+  }
+
+  // Fiscal year ends can be more than a year apart in the data; step back into the right year
+  while (fiscalYearEnd - time(end) > YEAR_MS - tolerance) {
+    fiscalYearEnd -= YEAR_MS;
+    fiscalYear -= 1;
+  }
+
+  const quartersBeforeEnd = Math.round((fiscalYearEnd - time(end)) / (YEAR_MS / 4));
+  return { fiscalYear, quarter: Math.min(4, Math.max(1, 4 - quartersBeforeEnd)) };
+}
+
+function normalizeDurations(
+  canonical: Map<string, { fact: any; restated: boolean }>,
+  yearEnds: FiscalYearEnd[]
+): NormalizedPeriods {
+  const annual = new Map<number, NormalizedValue>();
+  const quarters = new Map<string, NormalizedValue>();
+  const yearToDate = new Map<string, NormalizedValue>(); // "2024_2" = first half, "2024_3" = nine months
+
+  for (const { fact, restated } of Array.from(canonical.values())) {
+    const days = durationDays(fact);
+    const { fiscalYear, quarter } = locate(fact.end, yearEnds);
+
+    if (inRange(days, DURATIONS.year)) {
+      keepLatest(annual, fiscalYear, toNormalized(fact, fiscalYear, 'FY', restated));
+    } else if (inRange(days, DURATIONS.quarter)) {
+      const period = `Q${quarter}` as FiscalPeriod;
+      keepLatest(quarters, `${fiscalYear}_${quarter}`, toNormalized(fact, fiscalYear, period, restated));
+    } else if (inRange(days, DURATIONS.halfYear) && quarter === 2) {
+      keepLatest(yearToDate, `${fiscalYear}_2`, toNormalized(fact, fiscalYear, 'Q2', restated));
+    } else if (inRange(days, DURATIONS.nineMonths) && quarter === 3) {
+      keepLatest(yearToDate, `${fiscalYear}_3`, toNormalized(fact, fiscalYear, 'Q3', restated));
+    }
+  }
+
+  // Fill discrete quarters that were only reported on a year-to-date basis
+  const fiscalYears = new Set<number>();
+  for (const value of Array.from(yearToDate.values()).concat(Array.from(annual.values()))) {
+    fiscalYears.add(value.fiscalYear);
+  }
+
+  for (const fiscalYear of Array.from(fiscalYears)) {
+    const q1 = quarters.get(`${fiscalYear}_1`);
+    const h1 = yearToDate.get(`${fiscalYear}_2`);
+    const nineMonths = yearToDate.get(`${fiscalYear}_3`);
+
+    if (!quarters.has(`${fiscalYear}_2`) && h1 && q1) {
+      quarters.set(`${fiscalYear}_2`, derive(fiscalYear, 'Q2', h1.value - q1.value, 'H1 - Q1', [h1, q1], q1.end, h1.end));
+    }
+
+    const q2 = quarters.get(`${fiscalYear}_2`);
+    if (!quarters.has(`${fiscalYear}_3`) && nineMonths && h1) {
+      quarters.set(`${fiscalYear}_3`, derive(fiscalYear, 'Q3', nineMonths.value - h1.value, '9M - H1', [nineMonths, h1], h1.end, nineMonths.end));
+    }
+
+    const q3 = quarters.get(`${fiscalYear}_3`);
+    const fullYear = annual.get(fiscalYear);
+    if (!quarters.has(`${fiscalYear}_4`) && fullYear) {
+      if (q1 && q2 && q3) {
+        quarters.set(`${fiscalYear}_4`, derive(fiscalYear, 'Q4', fullYear.value - q1.value - q2.value - q3.value,
+          'FY - (Q1 + Q2 + Q3)', [fullYear, q1, q2, q3], q3.end, fullYear.end));
+      } else if (nineMonths) {
+        quarters.set(`${fiscalYear}_4`, derive(fiscalYear, 'Q4', fullYear.value - nineMonths.value,
+          'FY - 9M', [fullYear, nineMonths], nineMonths.end, fullYear.end));
+      }
+    }
+  }
+
+  return {
+    annual: sortByEnd(Array.from(annual.values())),
+    quarterly: sortByEnd(Array.from(quarters.values()))
+  };
+}
+
+function normalizeInstants(
+  canonical: Map<string, { fact: any; restated: boolean }>,
+  yearEnds: FiscalYearEnd[]
+): NormalizedPeriods {
+  const annual = new Map<number, NormalizedValue>();
+  const quarters = new Map<string, NormalizedValue>();
+  const yearEndDates = new Set(yearEnds.map(fye => fye.end));
+
+  for (const { fact, restated } of Array.from(canonical.values())) {
+    if (fact.start) continue;
+
+    const { fiscalYear, quarter } = locate(fact.end, yearEnds);
+    const atYearEnd = yearEndDates.has(fact.end) || (yearEnds.length === 0 && fact.fp === 'FY');
+
+    if (atYearEnd) {
+      keepLatest(annual, fiscalYear, toNormalized(fact, fiscalYear, 'FY', restated));
+    }
+    const period = `Q${quarter}` as FiscalPeriod;
+    keepLatest(quarters, `${fiscalYear}_${quarter}`, toNormalized(fact, fiscalYear, period, restated));
+  }
+
+  return {
+    annual: sortByEnd(Array.from(annual.values())),
+    quarterly: sortByEnd(Array.from(quarters.values()))
+  };
+}
+
+function toNormalized(fact: any, fiscalYear: number, fiscalPeriod: FiscalPeriod, restated: boolean): NormalizedValue {
+  return {
+    fiscalYear,
+    fiscalPeriod,
+    label: formatFiscalPeriod(fiscalYear, fiscalPeriod),
+    start: fact.start,
+    end: fact.end,
+    value: fact.val,
+    concept: fact.concept,
+    taxonomy: fact.taxonomy,
+    unit: fact.unit,
+    accessionNumber: fact.accn,
+    form: fact.form,
+    filed: fact.filed,
+    derived: false,
+    restated
+  };
+}
+
+function derive(
+  fiscalYear: number,
+  fiscalPeriod: FiscalPeriod,
+  value: number,
+  derivation: string,
+  inputs: NormalizedValue[],
+  start: string | undefined,
+  end: string
+): NormalizedValue {
+  const latest = inputs.reduce((a, b) => ((b.filed || '') > (a.filed || '') ? b : a));
+
+  return {
+    fiscalYear,
+    fiscalPeriod,
+    label: formatFiscalPeriod(fiscalYear, fiscalPeriod),
+    start,
+    end,
+    value,
+    concept: latest.concept,
+    taxonomy: latest.taxonomy,
+    unit: latest.unit,
+    accessionNumber: latest.accessionNumber,
+    form: latest.form,
+    filed: latest.filed,
+    derived: true,
+    derivation,
+    restated: inputs.some(input => input.restated)
+  };
+}
+
+// Two facts can land on the same fiscal period (e.g. a transition period); keep the latest filed
+function keepLatest<K>(map: Map<K, NormalizedValue>, key: K, value: NormalizedValue): void {
+  const existing = map.get(key);
+  if (!existing || (value.filed || '') > (existing.filed || '')) {
+    map.set(key, value);
+  }
+}
+
+function sortByEnd(values: NormalizedValue[]): NormalizedValue[] {
+  return values.sort((a, b) => time(a.end) - time(b.end));
+}
+
+function periodKey(start: string | undefined, end: string): string {
+  return `${start || ''}_${end}`;
+}
+
+function durationDays(item: any): number {
+  if (!item.start) return 0;
+  return (time(item.end) - time(item.start)) / DAY_MS;
+}
+
+function wholeYearsApart(a: string, b: string): boolean {
+  const years = Math.abs(time(a) - time(b)) / YEAR_MS;
+  return Math.abs(years - Math.round(years)) * YEAR_MS <= 10 * DAY_MS;
+}
+
+function inRange(days: number, [min, max]: number[]): boolean {
+  return days >= min && days <= max;
+}
+
+function time(date: string): number {
+  return new Date(date).getTime();
+}
@@ -0,0 +1,168 @@
+#!/usr/bin/env node
+
+// Mock SEC EDGAR submissions feed for testing watchlist alerts
+// Serves data.sec.gov-style /submissions/CIK##########.json documents from memory
+// and lets tests publish new filings, so the backend poller can be exercised
+// end to end. Run the backend with SEC_API_BASE_URL=http://localhost:8081.
+
+const express = require('express');
+const fs = require('fs');
+const path = require('path');
+
+const app = express();
+const PORT = process.env.MOCK_EDGAR_PORT || 8081;
+
+app.use(express.json());
+
+// Company names and tickers come from the same seed list as the company directory
+function loadCompanies() {
+  const seed = JSON.parse(fs.readFileSync(path.join(__dirname, 'data', 'company_tickers_seed.json'), 'utf8'));
+  const column = field => seed.fields.indexOf(field);
+  const companies = new Map();
+
+  seed.data.forEach(row => {
+    const cik = String(row[column('cik')]).padStart(10, '0');
+    const company = companies.get(cik) || { cik, name: row[column('name')], tickers: [], exchanges: [] };
+    company.tickers.push(row[column('ticker')]);
+    company.exchanges.push(row[column('exchange')]);
+    companies.set(cik, company);
+  });
+  return companies;
+}
+
+const companies = loadCompanies();
+
+// Filings by CIK, newest first
+const filingsByCik = new Map();
+let accessionSequence = 1;
+
+function nextAccessionNumber(cik, filingDate) {
+  const year = filingDate.substring(2, 4);
+  return `${cik}-${year}-${String(accessionSequence++).padStart(6, '0')}`;
+}
+
+function createFiling(cik, form, filingDate, primaryDocument) {
+  const accessionNumber = nextAccessionNumber(cik, filingDate);
+  return {
+    accessionNumber,
+    filingDate,
+    reportDate: filingDate,
+    acceptanceDateTime: `${filingDate}T16:05:00.000Z`,
+    form,
+    primaryDocument: primaryDocument || `${form.toLowerCase().replace(/[^a-z0-9]/g, '')}-${accessionNumber}.htm`,
+    primaryDocDescription: form
+  };
+}
+
+// Every company starts with the same short history, so first polls have something to record
+function filingsFor(cik) {
+  if (!filingsByCik.has(cik)) {
+    filingsByCik.set(cik, [
+      createFiling(cik, '8-K', '2025-02-03'),
+      createFiling(cik, '10-Q', '2025-01-31'),
+      createFiling(cik, '4', '2025-01-15'),
+      createFiling(cik, '10-K', '2024-11-01')
+    ]);
+  }
+  return filingsByCik.get(cik);
+}
+
+// Submissions list filings as parallel arrays, like the real API
+function toSubmissions(company, filings) {
+  const column = field => filings.map(filing => filing[field]);
+  return {
+    cik: company.cik,
+    entityType: 'operating',
+    sic: '',
+    sicDescription: '',
+    name: company.name,
+    tickers: company.tickers,
+    exchanges: company.exchanges,
+    formerNames: [],
+    filings: {
+      recent: {
+        accessionNumber: column('accessionNumber'),
+        filingDate: column('filingDate'),
+        reportDate: column('reportDate'),
+        acceptanceDateTime: column('acceptanceDateTime'),
+        act: filings.map(() => '34'),
+        form: column('form'),
+        fileNumber: filings.map(() => ''),
+        filmNumber: filings.map(() => ''),
+        items: filings.map(() => ''),
+        size: filings.map(() => 10000),
+        isXBRL: filings.map(filing => (/^10-[KQ]/.test(filing.form) ? 1 : 0)),
+        isInlineXBRL: filings.map(filing => (/^10-[KQ]/.test(filing.form) ? 1 : 0)),
+        primaryDocument: column('primaryDocument'),
+        primaryDocDescription: column('primaryDocDescription')
+      },
+      files: []
+    }
+  };
+}
+
+// Submissions feed, as served by data.sec.gov
+app.get('/submissions/:file', (req, res) => {
+  const match = req.params.file.match(/^CIK(\d{10})\.json$/);
+  const company = match && companies.get(match[1]);
+  if (!company) {
+    return res.status(404).json({ error: 'Not found' });
+  }
+  res.json(toSubmissions(company, filingsFor(company.cik)));
+});
+
+// Publish a new filing: { "cik": "320193", "form": "8-K", "filingDate"?: "2025-03-01" }
+app.post('/mock/filings', (req, res) => {
+  const { cik, form, filingDate, primaryDocument } = req.body || {};
+  const paddedCik = String(cik || '').padStart(10, '0');
+
+  if (!companies.has(paddedCik) || typeof form !== 'string' || !form) {
+    return res.status(400).json({ error: 'A known "cik" and a "form" are required' });
+  }
+
+  const filing = createFiling(paddedCik, form, filingDate || new Date().toISOString().substring(0, 10), primaryDocument);
+  filingsFor(paddedCik).unshift(filing);
+
+  console.log(`📄 Published ${form} for ${companies.get(paddedCik).name}: ${filing.accessionNumber}`);
+  res.status(201).json({ cik: paddedCik, ...filing });
+});
+
+// Forget published filings
+app.delete('/mock/filings', (req, res) => {
+  filingsByCik.clear();
+  res.json({ reset: true });
+});
+
+// Webhook receiver for watchlists created with webhookUrl http://localhost:8081/mock/webhook.
+// The backend only posts to localhost with WATCHLIST_WEBHOOK_ALLOW_PRIVATE=true.
+const webhookDeliveries = [];
+
+app.post('/mock/webhook', (req, res) => {
+  webhookDeliveries.push({ headers: req.headers, body: req.body, receivedAt: new Date().toISOString() });
+  console.log(`🔔 Webhook: ${req.body?.filings?.length || 0} filing(s) for watchlist ${req.body?.watchlist?.name}`);
+  res.json({ received: true });
+});
+
+app.get('/mock/webhook', (req, res) => {
+  res.json({ deliveries: webhookDeliveries });
+});
+
+// Health check
+app.get('/health', (req, res) => {
+  res.json({
+    status: 'healthy',
+    server: 'Mock SEC EDGAR feed',
+    companies: companies.size,
+    timestamp: new Date().toISOString()
+  });
+});
+
+// Start server
+app.listen(PORT, () => {
+  console.log(`🚀 Mock SEC EDGAR feed running on http://localhost:${PORT}`);
+  console.log(`📡 Submissions: http://localhost:${PORT}/submissions/CIK0000320193.json`);
+  console.log(`📄 Publish a filing: POST http://localhost:${PORT}/mock/filings {"cik": "320193", "form": "8-K"}`);
+  console.log(`🔔 Webhook receiver: http://localhost:${PORT}/mock/webhook`);
+});
+
+module.exports = app;
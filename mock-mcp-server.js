@@ -5,6 +5,8 @@
 
 const express = require('express');
 const cors = require('cors');
+const fs = require('fs');
+const path = require('path');
 
 const app = express();
 const PORT = 8080;
@@ -41,6 +43,29 @@ const mockCompanies = {
   }
 };
 
+// Company search reads the same ticker seed list and aliases as the company directory
+function loadDirectory() {
+  const dataDir = path.join(__dirname, 'data');
+  const seed = JSON.parse(fs.readFileSync(path.join(dataDir, 'company_tickers_seed.json'), 'utf8'));
+  const { aliases = {} } = JSON.parse(fs.readFileSync(path.join(dataDir, 'company_aliases.json'), 'utf8'));
+  const column = field => seed.fields.indexOf(field);
+
+  return seed.data.map(row => {
+    const cik = String(row[column('cik')]).padStart(10, '0');
+    const ticker = row[column('ticker')];
+    return {
+      cik,
+      name: row[column('name')],
+      ticker,
+      exchange: row[column('exchange')],
+      aliases: aliases[cik] || [],
+      ...mockCompanies[ticker]
+    };
+  });
+}
+
+const directory = loadDirectory();
+
 // Mock financial data
 const mockFinancialData = [
   {
@@ -215,12 +240,13 @@ function handleToolCall(toolName, args) {
   switch (toolName) {
     case 'company_search':
       const query = args.query.toLowerCase();
-      const matches = Object.entries(mockCompanies)
-        .filter(([ticker, company]) => 
-          company.name.toLowerCase().includes(query) || 
-          ticker.toLowerCase().includes(query)
+      const matches = directory
+        .filter(company =>
+          company.name.toLowerCase().includes(query) ||
+          company.ticker.toLowerCase() === query ||
+          company.aliases.some(alias => alias.toLowerCase().includes(query))
         )
-        .map(([_, company]) => company);
+        .map(({ aliases, ...company }) => company);
 
       return {
         content: [{
@@ -318,7 +344,7 @@ app.listen(PORT, () => {
   console.log(`🔄 HTTP Stream endpoint: http://localhost:${PORT}/mcp`);
   console.log(`❤️  Health check: http://localhost:${PORT}/health`);
   console.log(`\n🛠️  Available tools: ${mockTools.map(t => t.name).join(', ')}`);
-  console.log(`📊 Mock companies: ${Object.keys(mockCompanies).join(', ')}`);
+  console.log(`📊 Mock companies: ${Object.keys(mockCompanies).join(', ')} (${directory.length} searchable)`);
 });
 
 module.exports = app;
\ No newline at end of file